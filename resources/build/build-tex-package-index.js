@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+// Regenerates resources/tex-packages/packages.json from a TeX Live package database.
+//
+// Usage: node resources/build/build-tex-package-index.js <path/to/texlive.tlpdb>
+//
+// texlive.tlpdb ships with every TeX Live installation under tlpkg/, or can be
+// downloaded from any CTAN mirror at systems/texlive/tlnet/tlpkg/texlive.tlpdb.
+const fs = require('fs');
+const path = require('path');
+
+// Files TeX reports as missing that a package install can provide
+const INDEXED_EXTENSIONS = new Set(['.sty', '.cls', '.clo', '.def', '.cfg', '.fd', '.ldf', '.bst', '.bbx', '.cbx', '.tfm']);
+
+const tlpdbPath = process.argv[2];
+if (!tlpdbPath) {
+  console.error('Usage: build-tex-package-index.js <texlive.tlpdb>');
+  process.exit(1);
+}
+
+const outputPath = path.join(__dirname, '..', 'tex-packages', 'packages.json');
+const existing = fs.existsSync(outputPath) ? JSON.parse(fs.readFileSync(outputPath, 'utf8')) : {};
+
+const files = {};
+let release = null;
+let packageName = null;
+let inRunfiles = false;
+
+for (const line of fs.readFileSync(tlpdbPath, 'utf8').split('\n')) {
+  if (line === '') {
+    packageName = null;
+    inRunfiles = false;
+    continue;
+  }
+
+  if (line.startsWith('name ')) {
+    packageName = line.substring(5).trim();
+    continue;
+  }
+
+  // 00texlive.config records the release the database belongs to
+  const releaseMatch = line.match(/^depend release\/(\d+)/);
+  if (releaseMatch && packageName === '00texlive.config') {
+    release = `TeX Live ${releaseMatch[1]}`;
+    continue;
+  }
+
+  if (!line.startsWith(' ')) {
+    inRunfiles = line.startsWith('runfiles ');
+    continue;
+  }
+
+  // Architecture-specific packages (name.x86_64-linux) only carry binaries;
+  // 00texlive.* entries are installer metadata
+  if (!inRunfiles || !packageName || packageName.includes('.')) continue;
+
+  const file = path.posix.basename(line.trim().split(' ')[0]);
+  if (!INDEXED_EXTENSIONS.has(path.posix.extname(file))) continue;
+
+  // Keep the first package that provides a file
+  if (!(file in files)) files[file] = packageName;
+}
+
+const sortedFiles = {};
+for (const file of Object.keys(files).sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))) sortedFiles[file] = files[file];
+
+const index = {
+  source: release || 'TeX Live',
+  files: sortedFiles,
+  // Font family names are not in the tlpdb; keep the curated list
+  fonts: existing.fonts || {},
+};
+
+fs.writeFileSync(outputPath, JSON.stringify(index, null, 2) + '\n');
+console.log(`✅ Indexed ${Object.keys(sortedFiles).length} files from ${index.source} into ${outputPath}`);
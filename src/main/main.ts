@@ -1,5 +1,5 @@
 import { app, BrowserWindow, ipcMain, protocol, shell, dialog } from 'electron';
-import { join } from 'path';
+import { basename, join } from 'path';
 import { pathToFileURL } from 'url';
 import { FileService } from './services/FileService';
 import { ProjectService } from './services/ProjectService';
@@ -11,6 +11,16 @@ import { TemplateService } from './services/TemplateService';
 import { SnippetService } from './services/SnippetService';
 import { BibTeXService } from './services/BibTeXService';
 import { FirstRunService } from './services/FirstRunService';
+import { SyncTeXService } from './services/SyncTeXService';
+import { GitService } from './services/GitService';
+import { ProjectIndexService } from './services/ProjectIndexService';
+import { LintService } from './services/LintService';
+import { OutlineService } from './services/OutlineService';
+import { SpellCheckService } from './services/SpellCheckService';
+import { DocumentStatsService } from './services/DocumentStatsService';
+import { TexPackageService } from './services/TexPackageService';
+import { CompileHistoryService } from './services/CompileHistoryService';
+import { database } from './services/Database';
 
 class App {
   private mainWindow: BrowserWindow | null = null;
@@ -24,6 +34,15 @@ class App {
   private snippetService: SnippetService;
   private bibTexService: BibTeXService;
   private firstRunService: FirstRunService;
+  private syncTeXService: SyncTeXService;
+  private gitService: GitService;
+  private projectIndexService: ProjectIndexService;
+  private lintService: LintService;
+  private outlineService: OutlineService;
+  private spellCheckService: SpellCheckService;
+  private documentStatsService: DocumentStatsService;
+  private texPackageService: TexPackageService;
+  private compileHistoryService: CompileHistoryService;
 
   constructor() {
     this.projectService = new ProjectService();
@@ -36,6 +55,15 @@ class App {
     this.templateService = new TemplateService();
     this.snippetService = new SnippetService();
     this.bibTexService = new BibTeXService();
+    this.syncTeXService = new SyncTeXService();
+    this.gitService = new GitService(this.projectService);
+    this.projectIndexService = new ProjectIndexService(this.projectService, this.bibTexService);
+    this.lintService = new LintService(this.projectIndexService);
+    this.outlineService = new OutlineService(this.projectIndexService, this.fileService, this.snapshotService);
+    this.spellCheckService = new SpellCheckService(this.projectService);
+    this.documentStatsService = new DocumentStatsService(this.projectService, this.projectIndexService);
+    this.texPackageService = new TexPackageService();
+    this.compileHistoryService = new CompileHistoryService(this.projectService);
   }
 
   async initialize() {
@@ -131,9 +159,22 @@ class App {
     }
   }
 
+  // Apply the snapshot retention policy and tell the renderer what was freed
+  private async pruneSnapshots(projectId: string) {
+    try {
+      const result = await this.snapshotService.prune(projectId);
+      if (result.removed > 0 && this.mainWindow) {
+        this.mainWindow.webContents.send('Snapshot.Pruned', result);
+      }
+    } catch (error) {
+      console.error('[App] Snapshot pruning failed:', error);
+    }
+  }
+
   async cleanup() {
     await this.fileService.stopAllWatching();
     this.autoCompileService.destroy();
+    database.compact();
   }
 
   public createMainWindow() {
@@ -201,7 +242,19 @@ class App {
       
       // Ensure output directory exists
       await this.projectService.ensureOutputDirectory(project.id);
-      
+
+      // Recover snapshots from .history that the index doesn't know about
+      try {
+        await this.snapshotService.rebuildIndex(project.id);
+      } catch (error) {
+        console.error('[Main] Failed to rebuild snapshot index:', error);
+      }
+
+      // Convert tarball snapshots from older versions, then apply retention, in the background
+      this.snapshotService.migrateLegacySnapshots(project.id)
+        .catch(error => console.error('[Main] Failed to migrate legacy snapshots:', error))
+        .then(() => this.pruneSnapshots(project.id));
+
       // Start file watching for the opened project
       if (this.mainWindow) {
         await this.fileService.startWatching(project.id, this.mainWindow);
@@ -209,6 +262,12 @@ class App {
       return project;
     });
 
+    ipcMain.handle('Project.Close', async (_, payload) => {
+      await this.fileService.stopWatching(payload.projectId);
+      this.compileOrchestrator.closeProject(payload.projectId);
+      return { ok: true };
+    });
+
     ipcMain.handle('Project.List', async () => {
       return await this.projectService.list();
     });
@@ -217,6 +276,28 @@ class App {
       return await this.projectService.setMainFile(payload.projectId, payload.relPath);
     });
 
+    ipcMain.handle('Project.SetTargets', async (_, payload) => {
+      return await this.projectService.setBuildTargets(payload.projectId, payload.targets);
+    });
+
+    ipcMain.handle('Project.SetRecipes', async (_, payload) => {
+      return await this.projectService.setCompileRecipes(payload.projectId, {
+        recipes: payload.recipes,
+        recipe: payload.recipe,
+        useLatexmkrc: payload.useLatexmkrc,
+        bibTool: payload.bibTool,
+        indexTool: payload.indexTool,
+        containerImage: payload.containerImage,
+      });
+    });
+
+    ipcMain.handle('Project.SetShellEscape', async (_, payload) => {
+      return await this.projectService.setShellEscape(payload.projectId, {
+        mode: payload.mode,
+        commands: payload.commands,
+      });
+    });
+
     ipcMain.handle('Project.OutputPath', async (_, payload) => {
       const project = await this.projectService.getById(payload.projectId);
       if (!project) throw new Error('Project not found');
@@ -256,7 +337,14 @@ class App {
 
     // Compile IPC handlers
     ipcMain.handle('Compile.Run', async (_, payload) => {
-      return await this.compileOrchestrator.run(payload.projectId, payload.engine, payload.mainFile, payload.isAutoCompile, payload.forceClean);
+      return await this.compileOrchestrator.run(payload.projectId, {
+        target: payload.target,
+        engine: payload.engine,
+        mainFile: payload.mainFile,
+        activeFile: payload.activeFile,
+        isAutoCompile: payload.isAutoCompile,
+        forceClean: payload.forceClean,
+      });
     });
 
     ipcMain.handle('Compile.Status', async (_, payload) => {
@@ -267,6 +355,19 @@ class App {
       return this.compileOrchestrator.getErrors(payload.jobId);
     });
 
+    // Compile history IPC handlers
+    ipcMain.handle('CompileHistory.List', async (_, payload) => {
+      return this.compileHistoryService.list(payload.projectId, payload.limit);
+    });
+
+    ipcMain.handle('CompileHistory.ReadLog', async (_, payload) => {
+      return await this.compileHistoryService.readLog(payload.projectId, payload.jobId);
+    });
+
+    ipcMain.handle('Compile.ShellCommands', async (_, payload) => {
+      return this.compileOrchestrator.getShellCommands(payload.projectId);
+    });
+
     ipcMain.handle('Compile.Cancel', async (_, payload) => {
       return this.compileOrchestrator.cancel(payload.jobId);
     });
@@ -278,12 +379,12 @@ class App {
 
     // Milestone 5: Queue state and auto-compile handlers
     ipcMain.handle('Compile.QueueState', async (_, payload) => {
-      return this.compileOrchestrator.getQueueState();
+      return this.compileOrchestrator.getQueueState(payload?.projectId);
     });
 
     ipcMain.handle('Compile.TriggerAutoCompile', async (_, payload) => {
       console.log(`[Main] Auto-compile trigger requested for project: ${payload.projectId}`);
-      this.autoCompileService.triggerCompile(payload.projectId);
+      this.autoCompileService.triggerCompile(payload.projectId, payload.filePath);
       return { ok: true };
     });
 
@@ -303,6 +404,21 @@ class App {
       return { ok: true };
     });
 
+    // SyncTeX IPC handlers
+    ipcMain.handle('SyncTeX.Forward', async (_, payload) => {
+      const project = await this.projectService.getById(payload.projectId);
+      if (!project) throw new Error('Project not found');
+      const synctexPath = join(project.root, 'output', basename(payload.output || 'main.pdf').replace(/\.pdf$/, '.synctex.gz'));
+      return await this.syncTeXService.forward(project.root, synctexPath, payload.file, payload.line);
+    });
+
+    ipcMain.handle('SyncTeX.Inverse', async (_, payload) => {
+      const project = await this.projectService.getById(payload.projectId);
+      if (!project) throw new Error('Project not found');
+      const synctexPath = join(project.root, 'output', basename(payload.output || 'main.pdf').replace(/\.pdf$/, '.synctex.gz'));
+      return await this.syncTeXService.inverse(project.root, synctexPath, payload.page, payload.x, payload.y);
+    });
+
     // Setup compile progress events (Milestone 4)
     this.compileOrchestrator.on('progress', (data) => {
       if (this.mainWindow) {
@@ -317,6 +433,12 @@ class App {
       }
     });
 
+    this.compileOrchestrator.on('historyRecorded', (data) => {
+      if (this.mainWindow) {
+        this.mainWindow.webContents.send('CompileHistory.Recorded', data);
+      }
+    });
+
     // Setup auto-compile progress events for PDF refresh
     this.autoCompileService.on('autoCompileProgress', (data) => {
       if (this.mainWindow) {
@@ -341,7 +463,10 @@ class App {
 
     // Snapshot IPC handlers
     ipcMain.handle('Snapshot.Create', async (_, payload) => {
-      return await this.snapshotService.create(payload.projectId, payload.message);
+      const snapshot = await this.snapshotService.create(payload.projectId, payload.message, { auto: payload.auto });
+      // Don't hold up the caller; the history panel hears about freed space via Snapshot.Pruned
+      this.pruneSnapshots(payload.projectId);
+      return snapshot;
     });
 
     ipcMain.handle('Snapshot.List', async (_, payload) => {
@@ -364,6 +489,99 @@ class App {
       return await this.snapshotService.delete(payload.snapshotId);
     });
 
+    ipcMain.handle('Snapshot.Diff', async (_, payload) => {
+      return await this.snapshotService.diff(payload.fromSnapshotId, payload.toSnapshotId);
+    });
+
+    ipcMain.handle('Snapshot.ReadFile', async (_, payload) => {
+      return await this.snapshotService.readFile(payload.snapshotId, payload.relPath);
+    });
+
+    ipcMain.handle('Snapshot.RestoreFile', async (_, payload) => {
+      return await this.snapshotService.restoreFile(payload.snapshotId, payload.relPath);
+    });
+
+    ipcMain.handle('Snapshot.Prune', async (_, payload) => {
+      return await this.snapshotService.prune(payload.projectId);
+    });
+
+    ipcMain.handle('Snapshot.GetRetentionPolicy', async () => {
+      return this.snapshotService.getRetentionPolicy();
+    });
+
+    ipcMain.handle('Snapshot.SetRetentionPolicy', async (_, payload) => {
+      return this.snapshotService.setRetentionPolicy(payload.policy);
+    });
+
+    // Git IPC handlers
+    ipcMain.handle('Git.Status', async (_, payload) => {
+      return await this.gitService.status(payload.projectId);
+    });
+
+    ipcMain.handle('Git.Stage', async (_, payload) => {
+      return await this.gitService.stage(payload.projectId, payload.paths);
+    });
+
+    ipcMain.handle('Git.Unstage', async (_, payload) => {
+      return await this.gitService.unstage(payload.projectId, payload.paths);
+    });
+
+    ipcMain.handle('Git.Commit', async (_, payload) => {
+      return await this.gitService.commit(payload.projectId, payload.message);
+    });
+
+    ipcMain.handle('Git.Diff', async (_, payload) => {
+      return await this.gitService.diff(payload.projectId, payload.relPath, payload.staged);
+    });
+
+    ipcMain.handle('Git.Log', async (_, payload) => {
+      return await this.gitService.log(payload.projectId, payload.limit);
+    });
+
+    ipcMain.handle('Git.ShowCommit', async (_, payload) => {
+      return await this.gitService.showCommit(payload.projectId, payload.hash);
+    });
+
+    ipcMain.handle('Git.Branches', async (_, payload) => {
+      return await this.gitService.branches(payload.projectId);
+    });
+
+    ipcMain.handle('Git.Checkout', async (_, payload) => {
+      return await this.gitService.checkout(payload.projectId, payload.branch, payload.create);
+    });
+
+    // Project index IPC handlers
+    ipcMain.handle('ProjectIndex.Get', async (_, payload) => {
+      return await this.projectIndexService.index(payload.projectId, payload.unsaved);
+    });
+
+    ipcMain.handle('Lint.Project', async (_, payload) => {
+      return await this.lintService.lint(payload.projectId, payload.unsaved);
+    });
+
+    ipcMain.handle('Outline.MoveSection', async (_, payload) => {
+      return await this.outlineService.moveSection(
+        payload.projectId,
+        payload.source,
+        payload.target,
+        payload.position,
+        payload.unsaved
+      );
+    });
+
+    ipcMain.handle('DocumentStats.Get', async (_, payload) => {
+      return await this.documentStatsService.getStats(payload.projectId, payload.unsaved);
+    });
+
+    // Spell check IPC handlers
+    ipcMain.handle('SpellCheck.Check', async (_, payload) => {
+      return await this.spellCheckService.check(payload.projectId, payload.content);
+    });
+
+    ipcMain.handle('SpellCheck.AddWord', async (_, payload) => {
+      return await this.spellCheckService.addWord(payload.projectId, payload.word);
+    });
+
     // Template IPC handlers
     ipcMain.handle('Template.List', async () => {
       return await this.templateService.list();
@@ -440,6 +658,20 @@ class App {
       return await this.settingsService.addCustomDistribution(payload.name, payload.paths);
     });
 
+    ipcMain.handle('Settings.AddContainerDistribution', async (_, payload) => {
+      return await this.settingsService.addContainerDistribution(payload.runtime, payload.image);
+    });
+
+    ipcMain.handle('TeX.InstallPackages', async (_, payload) => {
+      return await this.texPackageService.install(payload.packages);
+    });
+
+    this.texPackageService.on('progress', (data) => {
+      if (this.mainWindow) {
+        this.mainWindow.webContents.send('TeX.InstallProgress', data);
+      }
+    });
+
     // Milestone 13: Cold-start cache handlers
     ipcMain.handle('Settings.GetLastOpenedProject', async () => {
       return await this.settingsService.getLastOpenedProject();
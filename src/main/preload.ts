@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { ErrorDTO } from './types';
+import { BuildTarget, CompileHistoryEntryDTO, CompileRecipe, DocumentStatsDTO, ErrorDTO, GitBranchesDTO, GitCommitDTO, GitFileDiffDTO, GitStatusDTO, OutlineSectionRefDTO, ProjectIndexDTO, SectionMoveResultDTO, ShellCommandDTO, SnapshotDiffDTO, SnapshotPruneResultDTO, SnapshotRetentionPolicy, SpellCheckResultDTO, SyncTeXForwardResult, SyncTeXInverseResult } from './types';
 
 // Define the API interface
 export interface ElectronAPI {
@@ -11,7 +11,11 @@ export interface ElectronAPI {
   projectOpen: (payload: { path: string }) => Promise<any>;
   projectList: () => Promise<any[]>;
   projectSetMain: (payload: { projectId: string; relPath: string }) => Promise<{ ok: boolean }>;
+  projectSetTargets: (payload: { projectId: string; targets: BuildTarget[] }) => Promise<any>;
+  projectSetRecipes: (payload: { projectId: string; recipes: CompileRecipe[]; recipe?: string; useLatexmkrc?: boolean; bibTool?: 'bibtex' | 'biber'; indexTool?: 'makeindex' | 'xindy'; containerImage?: string }) => Promise<any>;
+  projectSetShellEscape: (payload: { projectId: string; mode: 'off' | 'restricted' | 'full'; commands?: string[] }) => Promise<any>;
   projectOutputPath: (payload: { projectId: string; file?: string }) => Promise<string>;
+  projectClose: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
 
   // File System APIs
   fsListTree: (payload: { projectId: string }) => Promise<any[]>;
@@ -25,24 +29,65 @@ export interface ElectronAPI {
   fsStopWatching: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
 
   // Compile APIs
-  compileRun: (payload: { projectId: string; engine?: string; mainFile?: string; isAutoCompile?: boolean }) => Promise<{ jobId: string }>;
+  compileRun: (payload: { projectId: string; target?: string; engine?: string; mainFile?: string; activeFile?: string; isAutoCompile?: boolean }) => Promise<{ jobId: string }>;
   compileStatus: (payload: { jobId: string }) => Promise<any>;
   compileErrors: (payload: { jobId: string }) => Promise<ErrorDTO[]>;
   compileCancel: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+  compileShellCommands: (payload: { projectId: string }) => Promise<ShellCommandDTO[]>;
+  // Compile history APIs
+  compileHistoryList: (payload: { projectId: string; limit?: number }) => Promise<CompileHistoryEntryDTO[]>;
+  compileHistoryReadLog: (payload: { projectId: string; jobId: string }) => Promise<string>;
   // Milestone 5: Queue and auto-compile APIs
-  compileQueueState: (payload: { projectId: string }) => Promise<{ pending: number; running: number; maxConcurrency: number }>;
-  compileTriggerAutoCompile: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
+  compileQueueState: (payload: { projectId: string }) => Promise<{ pending: number; running: number; maxConcurrency: number; runningByProject: Record<string, Array<{ jobId: string; mainFile: string; isAutoCompile: boolean; startTime?: string }>> }>;
+  compileTriggerAutoCompile: (payload: { projectId: string; filePath?: string }) => Promise<{ ok: boolean }>;
   compileSetAutoCompileDelay: (payload: { delayMs: number }) => Promise<{ ok: boolean }>;
   compileGetAutoCompileDelay: () => Promise<{ delayMs: number }>;
   compileResetProjectState: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
   // Milestone 13: Clean build API
   compileCleanBuildDir: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
 
+  // SyncTeX APIs
+  synctexForward: (payload: { projectId: string; file: string; line: number; output?: string }) => Promise<SyncTeXForwardResult | null>;
+  synctexInverse: (payload: { projectId: string; page: number; x: number; y: number; output?: string }) => Promise<SyncTeXInverseResult | null>;
+
   // Snapshot APIs
-  snapshotCreate: (payload: { projectId: string; message?: string }) => Promise<any>;
+  snapshotCreate: (payload: { projectId: string; message?: string; auto?: boolean }) => Promise<any>;
   snapshotList: (payload: { projectId: string }) => Promise<any[]>;
   snapshotRestore: (payload: { snapshotId: string }) => Promise<{ ok: boolean }>;
   snapshotDelete: (payload: { snapshotId: string }) => Promise<{ ok: boolean }>;
+  snapshotDiff: (payload: { fromSnapshotId: string; toSnapshotId?: string }) => Promise<SnapshotDiffDTO>;
+  snapshotReadFile: (payload: { snapshotId: string; relPath: string }) => Promise<{ content: string; binary: boolean }>;
+  snapshotRestoreFile: (payload: { snapshotId: string; relPath: string }) => Promise<{ ok: boolean }>;
+  snapshotPrune: (payload: { projectId: string }) => Promise<SnapshotPruneResultDTO>;
+  snapshotGetRetentionPolicy: () => Promise<SnapshotRetentionPolicy>;
+  snapshotSetRetentionPolicy: (payload: { policy: SnapshotRetentionPolicy }) => Promise<{ ok: boolean }>;
+
+  // Git APIs
+  gitStatus: (payload: { projectId: string }) => Promise<GitStatusDTO>;
+  gitStage: (payload: { projectId: string; paths: string[] }) => Promise<{ ok: boolean }>;
+  gitUnstage: (payload: { projectId: string; paths: string[] }) => Promise<{ ok: boolean }>;
+  gitCommit: (payload: { projectId: string; message: string }) => Promise<{ hash: string }>;
+  gitDiff: (payload: { projectId: string; relPath: string; staged: boolean }) => Promise<GitFileDiffDTO | null>;
+  gitLog: (payload: { projectId: string; limit?: number }) => Promise<GitCommitDTO[]>;
+  gitShowCommit: (payload: { projectId: string; hash: string }) => Promise<GitFileDiffDTO[]>;
+  gitBranches: (payload: { projectId: string }) => Promise<GitBranchesDTO>;
+  gitCheckout: (payload: { projectId: string; branch: string; create?: boolean }) => Promise<{ ok: boolean }>;
+
+  // Project index APIs
+  projectIndexGet: (payload: { projectId: string; unsaved?: Record<string, string> }) => Promise<ProjectIndexDTO>;
+  lintProject: (payload: { projectId: string; unsaved?: Record<string, string> }) => Promise<ErrorDTO[]>;
+  outlineMoveSection: (payload: {
+    projectId: string;
+    source: OutlineSectionRefDTO;
+    target: OutlineSectionRefDTO;
+    position: 'before' | 'after';
+    unsaved?: Record<string, string>;
+  }) => Promise<SectionMoveResultDTO>;
+  documentStatsGet: (payload: { projectId: string; unsaved?: Record<string, string> }) => Promise<DocumentStatsDTO>;
+
+  // Spell check APIs
+  spellCheckFile: (payload: { projectId: string; content: string }) => Promise<SpellCheckResultDTO>;
+  spellCheckAddWord: (payload: { projectId: string; word: string }) => Promise<{ ok: boolean }>;
 
   // Settings APIs
   settingsGet: (payload: { key: string }) => Promise<any>;
@@ -53,10 +98,14 @@ export interface ElectronAPI {
   settingsRedetectTeX: () => Promise<any>;
   settingsSetActiveDistribution: (payload: { distributionName: string }) => Promise<{ ok: boolean }>;
   settingsAddCustomDistribution: (payload: { name: string; paths: Record<string, string> }) => Promise<{ ok: boolean }>;
+  settingsAddContainerDistribution: (payload: { runtime: 'docker' | 'podman'; image: string }) => Promise<{ ok: boolean }>;
   // Auto-compile settings
   settingsGetAutoCompileEnabled: () => Promise<{ enabled: boolean }>;
   settingsSetAutoCompileEnabled: (payload: { enabled: boolean }) => Promise<{ ok: boolean }>;
 
+  // TeX package APIs
+  texInstallPackages: (payload: { packages: string[] }) => Promise<{ ok: boolean; code: number | null; packages: string[] }>;
+
   // Template APIs
   templateList: () => Promise<any[]>;
   templateApply: (payload: { projectId: string; templateId: string; projectRoot: string }) => Promise<{ ok: boolean }>;
@@ -85,9 +134,17 @@ export interface ElectronAPI {
   // Milestone 5: Queue state change event listeners
   onQueueStateChange: (callback: (event: any, data: any) => void) => void;
   removeQueueStateChangeListener: (callback: (event: any, data: any) => void) => void;
+  onCompileHistoryRecorded: (callback: (event: any, data: any) => void) => void;
+  removeCompileHistoryRecordedListener: (callback: (event: any, data: any) => void) => void;
+  // Package installation event listeners
+  onTexInstallProgress: (callback: (event: any, data: any) => void) => void;
+  removeTexInstallProgressListener: (callback: (event: any, data: any) => void) => void;
   // Auto-compile event listeners
   onAutoCompileProgress: (callback: (event: any, data: any) => void) => void;
   removeAutoCompileProgressListener: (callback: (event: any, data: any) => void) => void;
+  // Snapshot retention event listeners
+  onSnapshotPruned: (callback: (event: any, data: SnapshotPruneResultDTO) => void) => void;
+  removeSnapshotPrunedListener: (callback: (event: any, data: SnapshotPruneResultDTO) => void) => void;
 }
 
 // Expose the API to the renderer process
@@ -100,7 +157,11 @@ const electronAPI: ElectronAPI = {
   projectOpen: (payload) => ipcRenderer.invoke('Project.Open', payload),
   projectList: () => ipcRenderer.invoke('Project.List'),
   projectSetMain: (payload) => ipcRenderer.invoke('Project.SetMain', payload),
+  projectSetTargets: (payload) => ipcRenderer.invoke('Project.SetTargets', payload),
+  projectSetRecipes: (payload) => ipcRenderer.invoke('Project.SetRecipes', payload),
+  projectSetShellEscape: (payload) => ipcRenderer.invoke('Project.SetShellEscape', payload),
   projectOutputPath: (payload) => ipcRenderer.invoke('Project.OutputPath', payload),
+  projectClose: (payload) => ipcRenderer.invoke('Project.Close', payload),
 
   // File System APIs
   fsListTree: (payload) => ipcRenderer.invoke('FS.ListTree', payload),
@@ -118,6 +179,10 @@ const electronAPI: ElectronAPI = {
   compileStatus: (payload) => ipcRenderer.invoke('Compile.Status', payload),
   compileErrors: (payload) => ipcRenderer.invoke('Compile.Errors', payload),
   compileCancel: (payload) => ipcRenderer.invoke('Compile.Cancel', payload),
+  compileShellCommands: (payload) => ipcRenderer.invoke('Compile.ShellCommands', payload),
+  // Compile history APIs
+  compileHistoryList: (payload) => ipcRenderer.invoke('CompileHistory.List', payload),
+  compileHistoryReadLog: (payload) => ipcRenderer.invoke('CompileHistory.ReadLog', payload),
   // Milestone 5: Queue and auto-compile APIs
   compileQueueState: (payload) => ipcRenderer.invoke('Compile.QueueState', payload),
   compileTriggerAutoCompile: (payload) => ipcRenderer.invoke('Compile.TriggerAutoCompile', payload),
@@ -127,11 +192,42 @@ const electronAPI: ElectronAPI = {
   // Milestone 13: Clean build API
   compileCleanBuildDir: (payload) => ipcRenderer.invoke('Compile.CleanBuildDir', payload),
 
+  // SyncTeX APIs
+  synctexForward: (payload) => ipcRenderer.invoke('SyncTeX.Forward', payload),
+  synctexInverse: (payload) => ipcRenderer.invoke('SyncTeX.Inverse', payload),
+
   // Snapshot APIs
   snapshotCreate: (payload) => ipcRenderer.invoke('Snapshot.Create', payload),
   snapshotList: (payload) => ipcRenderer.invoke('Snapshot.List', payload),
   snapshotRestore: (payload) => ipcRenderer.invoke('Snapshot.Restore', payload),
   snapshotDelete: (payload) => ipcRenderer.invoke('Snapshot.Delete', payload),
+  snapshotDiff: (payload) => ipcRenderer.invoke('Snapshot.Diff', payload),
+  snapshotReadFile: (payload) => ipcRenderer.invoke('Snapshot.ReadFile', payload),
+  snapshotRestoreFile: (payload) => ipcRenderer.invoke('Snapshot.RestoreFile', payload),
+  snapshotPrune: (payload) => ipcRenderer.invoke('Snapshot.Prune', payload),
+  snapshotGetRetentionPolicy: () => ipcRenderer.invoke('Snapshot.GetRetentionPolicy'),
+  snapshotSetRetentionPolicy: (payload) => ipcRenderer.invoke('Snapshot.SetRetentionPolicy', payload),
+
+  // Git APIs
+  gitStatus: (payload) => ipcRenderer.invoke('Git.Status', payload),
+  gitStage: (payload) => ipcRenderer.invoke('Git.Stage', payload),
+  gitUnstage: (payload) => ipcRenderer.invoke('Git.Unstage', payload),
+  gitCommit: (payload) => ipcRenderer.invoke('Git.Commit', payload),
+  gitDiff: (payload) => ipcRenderer.invoke('Git.Diff', payload),
+  gitLog: (payload) => ipcRenderer.invoke('Git.Log', payload),
+  gitShowCommit: (payload) => ipcRenderer.invoke('Git.ShowCommit', payload),
+  gitBranches: (payload) => ipcRenderer.invoke('Git.Branches', payload),
+  gitCheckout: (payload) => ipcRenderer.invoke('Git.Checkout', payload),
+
+  // Project index APIs
+  projectIndexGet: (payload) => ipcRenderer.invoke('ProjectIndex.Get', payload),
+  lintProject: (payload) => ipcRenderer.invoke('Lint.Project', payload),
+  outlineMoveSection: (payload) => ipcRenderer.invoke('Outline.MoveSection', payload),
+  documentStatsGet: (payload) => ipcRenderer.invoke('DocumentStats.Get', payload),
+
+  // Spell check APIs
+  spellCheckFile: (payload) => ipcRenderer.invoke('SpellCheck.Check', payload),
+  spellCheckAddWord: (payload) => ipcRenderer.invoke('SpellCheck.AddWord', payload),
 
   // Settings APIs
   settingsGet: (payload) => ipcRenderer.invoke('Settings.Get', payload),
@@ -142,10 +238,14 @@ const electronAPI: ElectronAPI = {
   settingsRedetectTeX: () => ipcRenderer.invoke('Settings.RedetectTeX'),
   settingsSetActiveDistribution: (payload: { distributionName: string }) => ipcRenderer.invoke('Settings.SetActiveDistribution', payload),
   settingsAddCustomDistribution: (payload: { name: string; paths: Record<string, string> }) => ipcRenderer.invoke('Settings.AddCustomDistribution', payload),
+  settingsAddContainerDistribution: (payload) => ipcRenderer.invoke('Settings.AddContainerDistribution', payload),
   // Auto-compile settings
   settingsGetAutoCompileEnabled: () => ipcRenderer.invoke('Settings.GetAutoCompileEnabled'),
   settingsSetAutoCompileEnabled: (payload) => ipcRenderer.invoke('Settings.SetAutoCompileEnabled', payload),
 
+  // TeX package APIs
+  texInstallPackages: (payload) => ipcRenderer.invoke('TeX.InstallPackages', payload),
+
   // Template APIs
   templateList: () => ipcRenderer.invoke('Template.List'),
   templateApply: (payload) => ipcRenderer.invoke('Template.Apply', payload),
@@ -174,9 +274,17 @@ const electronAPI: ElectronAPI = {
   // Milestone 5: Queue state change event listeners
   onQueueStateChange: (callback) => ipcRenderer.on('Compile.QueueStateChange', callback),
   removeQueueStateChangeListener: (callback) => ipcRenderer.removeListener('Compile.QueueStateChange', callback),
+  onCompileHistoryRecorded: (callback) => ipcRenderer.on('CompileHistory.Recorded', callback),
+  removeCompileHistoryRecordedListener: (callback) => ipcRenderer.removeListener('CompileHistory.Recorded', callback),
+  // Package installation event listeners
+  onTexInstallProgress: (callback) => ipcRenderer.on('TeX.InstallProgress', callback),
+  removeTexInstallProgressListener: (callback) => ipcRenderer.removeListener('TeX.InstallProgress', callback),
   // Auto-compile event listeners
   onAutoCompileProgress: (callback) => ipcRenderer.on('AutoCompile.Progress', callback),
   removeAutoCompileProgressListener: (callback) => ipcRenderer.removeListener('AutoCompile.Progress', callback),
+  // Snapshot retention event listeners
+  onSnapshotPruned: (callback) => ipcRenderer.on('Snapshot.Pruned', callback),
+  removeSnapshotPrunedListener: (callback) => ipcRenderer.removeListener('Snapshot.Pruned', callback),
 };
 
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
@@ -4,6 +4,7 @@ import { SettingsService } from './SettingsService';
 
 interface AutoCompileJob {
   projectId: string;
+  filePath?: string; // Saved file, whose % !TEX root decides what is built
   timer: NodeJS.Timeout;
 }
 
@@ -44,7 +45,8 @@ export class AutoCompileService extends EventEmitter {
               jobId: data.jobId, 
               state: data.state, 
               message: data.message,
-              percent: data.percent 
+              percent: data.percent,
+              output: data.output
             });
 
             // If compilation finished, clean up the tracking
@@ -109,7 +111,7 @@ export class AutoCompileService extends EventEmitter {
   /**
    * Trigger auto-compile for a project (called when a .tex file is saved)
    */
-  triggerCompile(projectId: string): void {
+  triggerCompile(projectId: string, filePath?: string): void {
     if (!this.isEnabled) {
       console.log(`[AutoCompileService] Auto-compile disabled, skipping for project: ${projectId}`);
       return;
@@ -122,15 +124,15 @@ export class AutoCompileService extends EventEmitter {
 
     // Schedule new job
     const timer = setTimeout(async () => {
-      await this.executeCompile(projectId);
+      await this.executeCompile(projectId, filePath);
       this.activeJobs.delete(projectId);
     }, this.delay);
 
-    this.activeJobs.set(projectId, { projectId, timer });
+    this.activeJobs.set(projectId, { projectId, filePath, timer });
     console.log(`[AutoCompileService] Scheduled auto-compile for project ${projectId} in ${this.delay}ms`);
   }
 
-  private async executeCompile(projectId: string): Promise<void> {
+  private async executeCompile(projectId: string, filePath?: string): Promise<void> {
     if (!this.isEnabled) {
       console.log(`[AutoCompileService] Auto-compile disabled during execution, skipping for project: ${projectId}`);
       return;
@@ -139,7 +141,7 @@ export class AutoCompileService extends EventEmitter {
     console.log(`[AutoCompileService] Executing auto-compile for project: ${projectId}`);
     
     try {
-      const result = await this.compileOrchestrator.run(projectId, undefined, undefined, true); // isAutoCompile = true
+      const result = await this.compileOrchestrator.run(projectId, { activeFile: filePath, isAutoCompile: true });
       console.log(`[AutoCompileService] Auto-compile started successfully for project: ${projectId}, jobId: ${result.jobId}`);
       
       // Track this job so we can detect its completion
@@ -0,0 +1,400 @@
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { join, posix, relative } from 'path';
+import { ErrorDTO, LogEntryCategory, ProjectSettings, RecipeStep } from '../types';
+
+export interface AuxiliaryRun {
+  step: RecipeStep;
+  key: string; // Names the tool's inputs across compiles of the same document
+  digest: string; // Hash of those inputs; the tool is due again when it changes
+  note?: string; // Why a different tool than configured was picked
+}
+
+interface Location {
+  file: string;
+  line: number;
+}
+
+const BIB_TOOL_NAMES: Record<ProjectSettings['bibTool'], string> = {
+  bibtex: 'BibTeX',
+  biber: 'Biber',
+};
+
+const MAX_RAW_LINES = 12;
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function hash(parts: Array<string | null>): string {
+  const digest = createHash('sha1');
+  for (const part of parts) {
+    digest.update(part === null ? '\u0000missing' : part);
+    digest.update('\u0000');
+  }
+  return digest.digest('hex');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function lineOf(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+// The main .aux file with those of \include'd files, which BibTeX reads too
+async function readAux(workDir: string, doc: string): Promise<string> {
+  const main = await readOptional(join(workDir, `${doc}.aux`));
+  if (main === null) return '';
+
+  const parts = [main];
+  for (const match of main.matchAll(/^\\@input\{([^}]+)\}/gm)) {
+    const child = await readOptional(join(workDir, match[1]));
+    if (child !== null) parts.push(child);
+  }
+  return parts.join('\n');
+}
+
+// .bib names as LaTeX writes them, with the extension BibTeX leaves off
+function bibFileNames(list: string): string[] {
+  return list.split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => (name.endsWith('.bib') ? name : `${name}.bib`));
+}
+
+function bibliographyInputs(aux: string, bcf: string | null): { bibtex: string[] | null; biber: string[] | null } {
+  const bibdata = [...aux.matchAll(/^\\bibdata\{([^}]*)\}/gm)].flatMap(match => bibFileNames(match[1]));
+  const datasources = bcf === null ? null
+    : [...bcf.matchAll(/<bcf:datasource[^>]*>([^<]+)<\/bcf:datasource>/g)].map(match => match[1].trim());
+  return {
+    bibtex: bibdata.length > 0 ? bibdata : null,
+    biber: datasources,
+  };
+}
+
+function glossaryFiles(aux: string): Array<{ log: string; output: string; input: string }> {
+  return [...aux.matchAll(/^\\@newglossary\{[^}]*\}\{([^}]*)\}\{([^}]*)\}\{([^}]*)\}/gm)]
+    .map(match => ({ log: match[1], output: match[2], input: match[3] }));
+}
+
+function bib2glsSources(aux: string, doc: string): string[] | null {
+  const resources = aux.match(/^\\glsxtr@resource\{.*$/gm);
+  if (!resources) return null;
+
+  const sources = resources.flatMap(resource => {
+    const match = /src=(?:\{([^}]*)\}|([^,}]+))/.exec(resource);
+    return match ? bibFileNames(match[1] ?? match[2]) : [`${doc}.bib`];
+  });
+  return [...new Set(sources)];
+}
+
+async function readAll(workDir: string, names: string[]): Promise<Array<string | null>> {
+  return Promise.all(names.map(name => readOptional(join(workDir, name))));
+}
+
+/**
+ * Bibliography and glossary tools the document needs to run (again) after
+ * latexmk, judged by the files LaTeX wrote into workDir. A tool is due when
+ * the inputs it reads have changed since the digest in lastDigests (the
+ * document's digests from earlier compiles), or when its output is missing. Indexes are left to latexmk, which runs makeindex
+ * or xindy on .idx files itself.
+ */
+export async function detectAuxiliaryRuns(
+  workDir: string,
+  doc: string,
+  bibTool: ProjectSettings['bibTool'],
+  lastDigests: ReadonlyMap<string, string>
+): Promise<AuxiliaryRun[]> {
+  const aux = await readAux(workDir, doc);
+  const bcf = await readOptional(join(workDir, `${doc}.bcf`));
+  const runs: AuxiliaryRun[] = [];
+
+  const due = (key: string, digest: string, outputs: string[]) =>
+    lastDigests.get(key) !== digest || outputs.some(output => !existsSync(join(workDir, output)));
+
+  // Bibliography: biblatex with Biber writes a .bcf, BibTeX styles a \bibdata line.
+  // A stale file of the other kind may linger in an incremental build, so the
+  // configured tool wins whenever its input is there.
+  const inputs = bibliographyInputs(aux, bcf);
+  const available = (['bibtex', 'biber'] as const).filter(tool => inputs[tool] !== null);
+  if (available.length > 0) {
+    const tool = available.includes(bibTool) ? bibTool : available[0];
+    const bibFiles = inputs[tool] || [];
+    const source = tool === 'biber'
+      ? bcf
+      : aux.split('\n').filter(line => /^\\(citation|bibdata|bibstyle)\{/.test(line)).join('\n');
+    const key = 'bibliography';
+    const digest = hash([tool, source, ...(await readAll(workDir, bibFiles))]);
+
+    if (due(key, digest, [`${doc}.bbl`])) {
+      runs.push({
+        step: { tool },
+        key,
+        digest,
+        ...(tool !== bibTool ? {
+          note: `The document needs ${BIB_TOOL_NAMES[tool]}, so it runs instead of the project's ${BIB_TOOL_NAMES[bibTool]}`,
+        } : {}),
+      });
+    }
+  }
+
+  // glossaries: one \@newglossary line per glossary names its input and output extensions
+  const glossaries = glossaryFiles(aux).filter(glossary => existsSync(join(workDir, `${doc}.${glossary.input}`)));
+  if (glossaries.length > 0) {
+    const key = 'glossaries';
+    const style = aux.match(/^\\@istfilename\{.*$/m)?.[0] || '';
+    const digest = hash([style, ...(await readAll(workDir, glossaries.map(glossary => `${doc}.${glossary.input}`)))]);
+    if (due(key, digest, glossaries.map(glossary => `${doc}.${glossary.output}`))) {
+      runs.push({ step: { tool: 'makeglossaries' }, key, digest });
+    }
+  }
+
+  // glossaries-extra with record: bib2gls selects entries from .bib files by the records in the .aux
+  const sources = bib2glsSources(aux, doc);
+  if (sources) {
+    const key = 'bib2gls';
+    const records = aux.split('\n').filter(line => line.startsWith('\\glsxtr@')).join('\n');
+    const digest = hash([records, ...(await readAll(workDir, sources))]);
+    if (due(key, digest, [`${doc}.glstex`])) {
+      runs.push({ step: { tool: 'bib2gls' }, key, digest });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Turns the transcripts of BibTeX, Biber, makeindex, xindy, makeglossaries and
+ * bib2gls into ErrorDTOs. Messages about entries point at the entry in its
+ * .bib file, missing entries at the first citation of the key, and the rest
+ * at the main file. Paths are relative to the project; workingDir is the
+ * directory the tools ran in, relative to buildDir.
+ */
+export async function parseAuxiliaryLogs(
+  buildDir: string,
+  workingDir: string,
+  doc: string,
+  mainFile: string
+): Promise<ErrorDTO[]> {
+  const workDir = join(buildDir, workingDir);
+  const aux = await readAux(workDir, doc);
+  const bcf = await readOptional(join(workDir, `${doc}.bcf`));
+  const entries: ErrorDTO[] = [];
+  const seen = new Set<string>();
+
+  const toProjectPath = (name: string) => posix.normalize(posix.join(workingDir.replace(/\\/g, '/'), name.replace(/\\/g, '/')));
+  const inputs = bibliographyInputs(aux, bcf);
+  const bibFiles = [...new Set([...(inputs.bibtex || []), ...(inputs.biber || []), ...(bib2glsSources(aux, doc) || [])])];
+
+  let texFiles: Array<{ path: string; content: string }> | null = null;
+  const findInSources = async (pattern: RegExp): Promise<Location | null> => {
+    if (!texFiles) texFiles = await readTexFiles(buildDir);
+    for (const { path, content } of texFiles) {
+      const match = pattern.exec(content);
+      if (match) return { file: path, line: lineOf(content, match.index) };
+    }
+    return null;
+  };
+
+  const findEntry = async (key: string, inFile?: string): Promise<Location | null> => {
+    const pattern = new RegExp(`^\\s*@\\w+\\s*[{(]\\s*${escapeRegExp(key)}\\s*,`, 'm');
+    const candidates = inFile ? bibFiles.filter(name => posix.basename(name) === posix.basename(inFile)) : bibFiles;
+    for (const name of candidates) {
+      const content = await readOptional(join(workDir, name));
+      const match = content === null ? null : pattern.exec(content);
+      if (content !== null && match) return { file: toProjectPath(name), line: lineOf(content, match.index) };
+    }
+    return null;
+  };
+
+  const findCitation = (key: string) =>
+    findInSources(new RegExp(`\\\\\\w*cite\\w*\\*?(?:\\[[^\\]]*\\])*\\{[^}]*(?<![\\w:.-])${escapeRegExp(key)}(?![\\w:.-])`));
+
+  const push = (
+    location: Location | null,
+    message: string,
+    severity: ErrorDTO['severity'],
+    category: LogEntryCategory,
+    raw: string[]
+  ) => {
+    const { file, line } = location || { file: mainFile, line: 1 };
+    const key = `${file}:${line}:${message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    entries.push({ file, line, message, severity, category, raw: raw.slice(0, MAX_RAW_LINES).join('\n') });
+  };
+
+  // Transcripts left from an earlier build only count while the document still calls for the tool
+  const blg = inputs.bibtex || inputs.biber ? await readOptional(join(workDir, `${doc}.blg`)) : null;
+  if (blg !== null) {
+    if (/^\[\d+\] [^>]*> INFO - This is Biber/m.test(blg)) {
+      await parseBiberLog(blg, { push, findEntry, findCitation, bibFiles, toProjectPath });
+    } else {
+      await parseBibtexLog(blg, { push, findEntry, findCitation, bibFiles, toProjectPath });
+    }
+  }
+
+  const ilg = existsSync(join(workDir, `${doc}.idx`)) ? await readOptional(join(workDir, `${doc}.ilg`)) : null;
+  if (ilg !== null) {
+    parseIndexLog(ilg, 'index', push);
+  }
+
+  // bib2gls writes its transcript to the main glossary's .glg
+  const glossaryLogs = glossaryFiles(aux).map(glossary => glossary.log);
+  if (bib2glsSources(aux, doc)) glossaryLogs.push('glg');
+
+  for (const log of [...new Set(glossaryLogs)]) {
+    const content = await readOptional(join(workDir, `${doc}.${log}`));
+    if (content === null) continue;
+    if (/bib2gls/.test(content)) {
+      await parseBib2glsLog(content, { push, findEntry });
+    } else {
+      parseIndexLog(content, 'glossary', push);
+    }
+  }
+
+  return entries;
+}
+
+type Push = (location: Location | null, message: string, severity: ErrorDTO['severity'], category: LogEntryCategory, raw: string[]) => void;
+
+interface BibliographyLogContext {
+  push: Push;
+  findEntry: (key: string, inFile?: string) => Promise<Location | null>;
+  findCitation: (key: string) => Promise<Location | null>;
+  bibFiles: string[];
+  toProjectPath: (name: string) => string;
+}
+
+// BibTeX: "Warning--empty year in knuth84" and "I was expecting a `,'---line 12 of file refs.bib"
+async function parseBibtexLog(content: string, context: BibliographyLogContext) {
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const warning = /^Warning--(.*)$/.exec(line);
+    if (warning) {
+      const message = warning[1].trim();
+      const position = /^--line (\d+) of file (.+)$/.exec(lines[i + 1] || '');
+      const missing = /I didn't find a database entry for "([^"]+)"/.exec(message);
+      const entry = / in (\S+)$/.exec(message);
+
+      if (position) {
+        context.push({ file: context.toProjectPath(position[2].trim()), line: parseInt(position[1]) }, message, 'warning', 'bibliography', [line, lines[i + 1]]);
+        i++;
+      } else if (missing) {
+        context.push(await context.findCitation(missing[1]), message, 'warning', 'citation', [line]);
+      } else {
+        context.push(entry ? await context.findEntry(entry[1]) : null, message, 'warning', 'bibliography', [line]);
+      }
+      continue;
+    }
+
+    const error = /^(.*)---line (\d+) of file (.+)$/.exec(line);
+    if (error) {
+      const raw = [line];
+      while (i + 1 < lines.length && /^\s*:/.test(lines[i + 1])) raw.push(lines[++i]);
+      context.push({ file: context.toProjectPath(error[3].trim()), line: parseInt(error[2]) }, error[1].trim(), 'error', 'bibliography', raw);
+      continue;
+    }
+
+    const unreadable = /^I couldn't open (?:database|style) file (.+)$/.exec(line);
+    if (unreadable) {
+      context.push(null, line.trim(), 'error', 'missing-file', [line]);
+    }
+  }
+}
+
+// Biber: "[12] Utils.pm:411> WARN - Datamodel: Entry 'knuth84' (refs.bib): Missing mandatory field 'author'"
+async function parseBiberLog(content: string, context: BibliographyLogContext) {
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\[\d+\] [^>]*> (WARN|ERROR) - (.*)$/.exec(line);
+    if (!match) continue;
+
+    const severity = match[1] === 'ERROR' ? 'error' : 'warning';
+    const message = match[2].trim();
+
+    // Biber parses a UTF-8 copy of each data source, e.g. /tmp/biber_tmp_x/refs.bib_123.utf8
+    const subsystem = /BibTeX subsystem: (.+?), line (\d+), (.*)$/.exec(message);
+    if (subsystem) {
+      const name = posix.basename(subsystem[1].replace(/\\/g, '/')).replace(/_\d+\.utf8$/, '');
+      const bibFile = context.bibFiles.find(file => posix.basename(file) === name) || name;
+      context.push({ file: context.toProjectPath(bibFile), line: parseInt(subsystem[2]) }, subsystem[3], severity, 'bibliography', [line]);
+      continue;
+    }
+
+    const missing = /I didn't find a database entry for '([^']+)'/.exec(message);
+    if (missing) {
+      context.push(await context.findCitation(missing[1]), message, severity, 'citation', [line]);
+      continue;
+    }
+
+    const entry = /Duplicate entry key '([^']+)' in file '([^']+)'/.exec(message)
+      || /Entry '([^']+)' \(([^)]+)\)/.exec(message)
+      || /[Ee]ntry '([^']+)'/.exec(message);
+    context.push(entry ? await context.findEntry(entry[1], entry[2]) : null, message, severity, 'bibliography', [line]);
+  }
+}
+
+// bib2gls: "Warning: ..." and "Error: ..." lines, which often quote the entry label
+async function parseBib2glsLog(content: string, context: Pick<BibliographyLogContext, 'push' | 'findEntry'>) {
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^(Warning|Error): (.*)$/.exec(line);
+    if (!match) continue;
+
+    const label = /'([^']+)'/.exec(match[2]);
+    const location = label ? await context.findEntry(label[1]) : null;
+    context.push(location, match[2].trim(), match[1] === 'Error' ? 'error' : 'warning', 'glossary', [line]);
+  }
+}
+
+// makeindex transcripts (also written by makeglossaries) and texindy's WARNING/ERROR lines.
+// Index entries come from anywhere in the document, so they are reported on the main file.
+function parseIndexLog(content: string, category: LogEntryCategory, push: Push) {
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const makeindex = /^(## Warning|!! Input index error) \((?:input|file) = ([^,]+), line = (\d+)/.exec(line);
+    if (makeindex) {
+      const detail = /^\s*-- (.*)$/.exec(lines[i + 1] || '');
+      const message = `${detail ? detail[1].trim() : line.trim()} (${makeindex[2]}, line ${makeindex[3]})`;
+      push(null, message, makeindex[1] === '## Warning' ? 'warning' : 'error', category, detail ? [line, lines[++i]] : [line]);
+      continue;
+    }
+
+    const xindy = /^(WARNING|ERROR):\s*(.*)$/.exec(line);
+    if (xindy && xindy[2]) {
+      push(null, xindy[2].trim(), xindy[1] === 'ERROR' ? 'error' : 'warning', category, [line]);
+    }
+  }
+}
+
+// Project .tex files as copied into the build directory, with project-relative paths
+async function readTexFiles(buildDir: string): Promise<Array<{ path: string; content: string }>> {
+  const files: Array<{ path: string; content: string }> = [];
+
+  const walk = async (dir: string) => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(path);
+      } else if (entry.name.endsWith('.tex')) {
+        const content = await readOptional(path);
+        if (content !== null) {
+          files.push({ path: relative(buildDir, path).replace(/\\/g, '/'), content });
+        }
+      }
+    }
+  };
+
+  await walk(buildDir);
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,63 @@
+import { join } from 'path';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { CompileHistoryEntryDTO } from '../types';
+import { ProjectService } from './ProjectService';
+import { database } from './Database';
+
+// Older compiles of a project are dropped, together with their logs
+const MAX_ENTRIES_PER_PROJECT = 200;
+
+/**
+ * CompileHistoryService - keeps a record of every compile that ran, with its
+ * timings and results, and the full log of each.
+ *
+ * Records live in the database; logs are written to output/history/<jobId>.log
+ * in the project, next to the compile.log of the latest compile.
+ */
+export class CompileHistoryService {
+  private projectService: ProjectService;
+
+  constructor(projectService?: ProjectService) {
+    this.projectService = projectService || new ProjectService();
+  }
+
+  async record(entry: CompileHistoryEntryDTO, logs: string[]): Promise<void> {
+    const project = await this.projectService.getById(entry.projectId);
+    if (!project) return;
+
+    const historyDir = this.historyDir(project.root);
+    await mkdir(historyDir, { recursive: true });
+    await writeFile(join(historyDir, `${entry.jobId}.log`), logs.join('\n'), 'utf8');
+    database.insertCompile(entry);
+
+    for (const old of database.getCompilesByProject(entry.projectId).slice(MAX_ENTRIES_PER_PROJECT)) {
+      database.deleteCompile(old.jobId);
+      await rm(join(historyDir, `${old.jobId}.log`), { force: true });
+    }
+  }
+
+  // Newest first
+  list(projectId: string, limit?: number): CompileHistoryEntryDTO[] {
+    const records = database.getCompilesByProject(projectId) as CompileHistoryEntryDTO[];
+    return limit ? records.slice(0, limit) : records;
+  }
+
+  async readLog(projectId: string, jobId: string): Promise<string> {
+    const record = database.getCompile(jobId);
+    const project = await this.projectService.getById(projectId);
+    if (!record || record.projectId !== projectId || !project) {
+      throw new Error('Compile not found in the history');
+    }
+
+    const logPath = join(this.historyDir(project.root), `${jobId}.log`);
+    if (!existsSync(logPath)) {
+      throw new Error('The log of this compile is no longer available');
+    }
+    return await readFile(logPath, 'utf8');
+  }
+
+  private historyDir(projectRoot: string): string {
+    return join(projectRoot, 'output', 'history');
+  }
+}
@@ -1,17 +1,55 @@
 import { spawn, ChildProcess } from 'child_process';
-import { join, dirname } from 'path';
+import { join, dirname, basename, delimiter } from 'path';
 import { mkdir, copyFile, readdir, stat, readFile, writeFile, rm } from 'fs/promises';
 import { existsSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { tmpdir, platform } from 'os';
 import { EventEmitter } from 'events';
-import { CompileStatusDTO, ErrorDTO } from '../types';
+import { BuildTarget, CompileHistoryEntryDTO, CompilePhase, CompileRecipe, CompileStatusDTO, ErrorDTO, ProjectDTO, ProjectSettings, RecipeStep, RecipeTool, ShellCommandDTO } from '../types';
 import { ProjectService } from './ProjectService';
 import { SettingsService } from './SettingsService';
+import { LogParser } from './LogParser';
+import { engineForProgram, resolveRootFile } from './MagicComments';
+import { describeStep, LATEXMK_STEP, StepContext, stepArguments, stepSucceeded, toolCommand, unsafeStepArgument } from './CompileRecipes';
+import { detectAuxiliaryRuns, parseAuxiliaryLogs } from './AuxiliaryTools';
+import { TexPackageService } from './TexPackageService';
+import { CompileHistoryService } from './CompileHistoryService';
+import { prepareSandbox, sandboxInvocation, SandboxPlan } from './LinuxSandbox';
+import { SHELL_ESCAPE_CONFIG_DIR, shellEscapeMode, writeShellEscapeConfig } from './ShellEscape';
+import { CONTAINER_WORKDIR, ContainerRun, clientEnvironment, containerInvocation, imageAvailable, pullImage, stopContainer } from './ContainerBackend';
+
+// Projects without build targets produce output/main.pdf
+const DEFAULT_OUTPUT_NAME = 'main';
+
+// Compiles of different projects that may run at once unless the settings say otherwise
+const DEFAULT_MAX_CONCURRENCY = 2;
+const MAX_CONCURRENCY_LIMIT = 8;
+
+// Manual compiles go first, but never more than this many in a row while an auto-compile waits
+const MAX_MANUAL_STREAK = 3;
+
+// Bibliography and glossary tools can feed each other (bib2gls needs locations from the rerun)
+const MAX_AUXILIARY_ROUNDS = 3;
+
+// Address space allowed to each process of a sandboxed shell-escape compile
+const DEFAULT_SANDBOX_MEMORY_MB = 4096;
+
+export interface CompileRunOptions {
+  target?: string; // Name of a build target from the project settings
+  engine?: string;
+  mainFile?: string;
+  activeFile?: string; // File being edited; its % !TEX root picks the document
+  isAutoCompile?: boolean;
+  forceClean?: boolean;
+}
 
 interface CompileJob {
   id: string;
   projectId: string;
+  mainFile: string; // Document to build, after following % !TEX root
+  engine: ProjectSettings['engine'];
+  outputName: string; // PDF and SyncTeX files are copied to output/<outputName>.*
+  recipe?: CompileRecipe; // Plain latexmk when unset
   state: 'queued' | 'running' | 'success' | 'error' | 'killed' | 'cancelled';
   progress: number;
   startTime?: Date;
@@ -24,6 +62,12 @@ interface CompileJob {
   priority?: number; // Milestone 5: Job priority (manual > auto)
   isIncrementalBuild?: boolean; // Milestone 13: Track incremental vs clean builds
   useExistingBuildDir?: boolean; // Milestone 13: Reuse build directory for speed
+  queuedAt: Date;
+  phases: Partial<Record<CompilePhase, number>>; // Milliseconds spent in each phase, for the compile history
+  pdfSizeBytes?: number;
+  container?: ContainerRun; // Set when the active distribution runs tools in a container image
+  containerName?: string; // Container of the tool currently running, to stop it on timeout or cancel
+  sandbox?: SandboxPlan; // Set for shell-escape compiles on the host
 }
 
 // Milestone 5: Circular buffer for log storage
@@ -68,10 +112,18 @@ export class CompileOrchestrator extends EventEmitter {
   private running = false;
   private projectService: ProjectService;
   private settingsService: SettingsService;
+  private logParser = new LogParser();
+  private compileHistoryService: CompileHistoryService;
+  private texPackageService = new TexPackageService();
+  private auxiliaryDigests: Map<string, Map<string, string>> = new Map(); // projectId:mainFile -> inputs of the last successful bibliography/glossary runs
+  private containerSequence = 0; // Makes container names unique across tool runs
+  private shellCommands: Map<string, ShellCommandDTO[]> = new Map(); // projectId -> \write18 calls of the last compile
   
   // Milestone 5: Enhanced queue management
-  private maxConcurrency = 1; // Milestone 5: Concurrency=1 as specified
+  private maxConcurrency = DEFAULT_MAX_CONCURRENCY; // Refreshed from the settings whenever the queue is processed
   private currentlyRunning = 0;
+  private manualStreak = 0; // Manual jobs started since an auto-compile last got a turn
+  private activeProjects: Set<string> = new Set(); // Projects with a job between start and cleanup
   private logBuffers: Map<string, CircularBuffer> = new Map(); // Milestone 5: Circular buffer per job
   
   // Milestone 5: Auto-compile debouncing
@@ -90,6 +142,7 @@ export class CompileOrchestrator extends EventEmitter {
     super();
     this.projectService = new ProjectService();
     this.settingsService = new SettingsService();
+    this.compileHistoryService = new CompileHistoryService(this.projectService);
   }
 
   // Set auto-compile debounce delay
@@ -169,6 +222,15 @@ export class CompileOrchestrator extends EventEmitter {
       return;
     }
 
+    // A queued job copies the project files when it starts, so it already covers this save
+    const queuedJob = Array.from(this.jobs.values()).find(
+      job => job.projectId === projectId && job.state === 'queued'
+    );
+    if (queuedJob) {
+      console.log(`[CompileOrchestrator] Job already queued, skipping auto-compile for project: ${projectId}`);
+      return;
+    }
+
     // Check minimum interval between compiles
     if (timeSinceLastCompile < this.autoCompileMinInterval) {
       // Mark as pending and wait
@@ -182,21 +244,27 @@ export class CompileOrchestrator extends EventEmitter {
     console.log(`[CompileOrchestrator] Starting auto-compile for project: ${projectId}`);
     
     try {
-      const result = await this.run(projectId, undefined, undefined, true); // isAutoCompile = true
+      const result = await this.run(projectId, { isAutoCompile: true });
       console.log(`[CompileOrchestrator] Auto-compile started successfully for project: ${projectId}, jobId: ${result.jobId}`);
     } catch (error) {
       console.error(`[CompileOrchestrator] Failed to start auto-compile for project: ${projectId}`, error);
     }
   }
 
-  // Milestone 5: Get overall queue state for UI
-  getQueueState(): { 
+  // Milestone 5: Get overall queue state for UI.
+  // running and pending count the given project's jobs, or all jobs without one.
+  getQueueState(projectId?: string): { 
     state: 'idle' | 'queued' | 'building'; 
     queueLength: number; 
-    currentJobs: Array<{jobId: string, projectId: string, isAutoCompile: boolean}> 
+    currentJobs: Array<{jobId: string, projectId: string, isAutoCompile: boolean}>;
+    running: number;
+    pending: number;
+    maxConcurrency: number;
+    runningByProject: Record<string, Array<{ jobId: string; mainFile: string; isAutoCompile: boolean; startTime?: string }>>;
   } {
     const runningJobs = Array.from(this.jobs.values()).filter(job => job.state === 'running');
     const queuedJobs = Array.from(this.jobs.values()).filter(job => job.state === 'queued');
+    const inScope = (job: CompileJob) => !projectId || job.projectId === projectId;
     
     let state: 'idle' | 'queued' | 'building' = 'idle';
     if (runningJobs.length > 0) {
@@ -205,6 +273,16 @@ export class CompileOrchestrator extends EventEmitter {
       state = 'queued';
     }
 
+    const runningByProject: Record<string, Array<{ jobId: string; mainFile: string; isAutoCompile: boolean; startTime?: string }>> = {};
+    for (const job of runningJobs) {
+      (runningByProject[job.projectId] ||= []).push({
+        jobId: job.id,
+        mainFile: job.mainFile,
+        isAutoCompile: job.isAutoCompile || false,
+        startTime: job.startTime?.toISOString(),
+      });
+    }
+
     return {
       state,
       queueLength: queuedJobs.length,
@@ -212,7 +290,11 @@ export class CompileOrchestrator extends EventEmitter {
         jobId: job.id,
         projectId: job.projectId,
         isAutoCompile: job.isAutoCompile || false
-      }))
+      })),
+      running: runningJobs.filter(inScope).length,
+      pending: queuedJobs.filter(inScope).length,
+      maxConcurrency: this.maxConcurrency,
+      runningByProject,
     };
   }
 
@@ -269,6 +351,7 @@ export class CompileOrchestrator extends EventEmitter {
       
       this.persistentBuildDirs.delete(projectId);
       this.buildDirModTimes.delete(projectId);
+      this.forgetAuxiliaryDigests(projectId);
       this.lastCleanBuild.set(projectId, Date.now());
       
       return { ok: true };
@@ -278,12 +361,26 @@ export class CompileOrchestrator extends EventEmitter {
     }
   }
 
-  async run(projectId: string, engine?: string, mainFile?: string, isAutoCompile = false, forceClean = false): Promise<{ jobId: string }> {
+  // Drop what the orchestrator remembers about a project the window no longer shows
+  closeProject(projectId: string): void {
+    this.forgetAuxiliaryDigests(projectId);
+  }
+
+  private forgetAuxiliaryDigests(projectId: string): void {
+    for (const key of this.auxiliaryDigests.keys()) {
+      if (key.startsWith(`${projectId}:`)) this.auxiliaryDigests.delete(key);
+    }
+  }
+
+  async run(projectId: string, options: CompileRunOptions = {}): Promise<{ jobId: string }> {
+    const { isAutoCompile = false, forceClean = false } = options;
     const project = await this.projectService.getById(projectId);
     if (!project) {
       throw new Error('Project not found');
     }
 
+    const target = await this.resolveTarget(project, options);
+
     // Milestone 13: Determine if this should be an incremental build
     const useIncremental = !forceClean && await this.shouldUseIncrementalBuild(projectId);
 
@@ -291,25 +388,26 @@ export class CompileOrchestrator extends EventEmitter {
     const job: CompileJob = {
       id: jobId,
       projectId,
+      mainFile: target.mainFile,
+      engine: target.engine,
+      outputName: target.outputName,
+      recipe: target.recipe,
       state: 'queued',
       progress: 0,
-      logs: [],
+      logs: target.notes,
       errors: [],
       isAutoCompile, // Milestone 5: Track auto vs manual compile
       priority: isAutoCompile ? 2 : 1, // Milestone 5: Manual jobs have higher priority
       isIncrementalBuild: useIncremental, // Milestone 13: Track incremental builds
       useExistingBuildDir: useIncremental, // Milestone 13: Reuse build directory
+      queuedAt: new Date(),
+      phases: {},
     };
 
     this.jobs.set(jobId, job);
     
-    // Milestone 5: Sort queue by priority (manual jobs first)
+    // Milestone 5: Jobs wait in arrival order; processQueue picks by priority
     this.queue.push(jobId);
-    this.queue.sort((a, b) => {
-      const jobA = this.jobs.get(a);
-      const jobB = this.jobs.get(b);
-      return (jobA?.priority || 3) - (jobB?.priority || 3);
-    });
 
     // Milestone 5: Initialize circular buffer for this job
     this.logBuffers.set(jobId, new CircularBuffer(1000));
@@ -318,13 +416,80 @@ export class CompileOrchestrator extends EventEmitter {
     this.emitQueueStateChange();
 
     // Start processing queue if under concurrency limit
-    if (this.currentlyRunning < this.maxConcurrency) {
-      this.processQueue();
-    }
+    this.processQueue();
 
     return { jobId };
   }
 
+  // The document, engine and output to build. A named build target fixes
+  // the document; otherwise a `% !TEX root` comment in the active file (or
+  // the main file) leads to it, and the output of the build target with that
+  // main file is used. `% !TEX program` picks the engine unless the caller or
+  // the build target asked for one.
+  private async resolveTarget(
+    project: ProjectDTO,
+    options: CompileRunOptions
+  ): Promise<{
+    mainFile: string;
+    engine: ProjectSettings['engine'];
+    outputName: string;
+    recipe?: CompileRecipe;
+    notes: string[];
+  }> {
+    const targets: BuildTarget[] = project.settings.targets || [];
+    const notes: string[] = [];
+
+    let buildTarget: BuildTarget | undefined;
+    if (options.target) {
+      buildTarget = targets.find(target => target.name === options.target);
+      if (!buildTarget) {
+        throw new Error(`Build target "${options.target}" not found`);
+      }
+    }
+
+    const mainFile = buildTarget?.mainFile || options.mainFile;
+    let resolved = await resolveRootFile(project.root, mainFile || options.activeFile || project.mainFile);
+    if (!mainFile && options.activeFile && !resolved.followed && resolved.mainFile !== project.mainFile) {
+      // A file without a root comment is compiled through the project's main file
+      resolved = await resolveRootFile(project.root, project.mainFile);
+    }
+    if (resolved.followed) {
+      notes.push(`📄 Compiling ${resolved.mainFile} (from % !TEX root)`);
+    }
+
+    buildTarget = buildTarget || targets.find(target => target.mainFile === resolved.mainFile);
+    if (buildTarget) {
+      notes.push(`🎯 Build target: ${buildTarget.name} → output/${buildTarget.outputName}.pdf`);
+    }
+
+    let engine = options.engine ? engineForProgram(options.engine) : buildTarget?.engine || null;
+    if (!engine && resolved.program) {
+      engine = engineForProgram(resolved.program);
+      notes.push(engine
+        ? `⚙️  Using ${engine} (from % !TEX program)`
+        : `⚠️  Unsupported % !TEX program = ${resolved.program}, using the project engine`);
+    }
+
+    const recipeName = buildTarget?.recipe || project.settings.recipe;
+    const recipe = recipeName ? (project.settings.recipes || []).find(candidate => candidate.name === recipeName) : undefined;
+    if (recipeName && !recipe) {
+      throw new Error(`Recipe "${recipeName}" not found`);
+    }
+    if (recipe) {
+      notes.push(`📋 Recipe: ${recipe.name} (${recipe.steps
+        .map(step => (step.repeat || 1) > 1 ? `${describeStep(step)} ×${step.repeat}` : describeStep(step))
+        .join(' → ')})`);
+    }
+
+    return {
+      mainFile: resolved.mainFile,
+      engine: engine || project.settings.engine || 'pdflatex',
+      outputName: buildTarget?.outputName || DEFAULT_OUTPUT_NAME,
+      recipe,
+      notes,
+    };
+  }
+
   // Milestone 5: Emit queue state changes for UI updates
   // Milestone 5: Write circular buffer logs to file after job completion
   private async writeFullLogFile(job: CompileJob) {
@@ -410,6 +575,9 @@ export class CompileOrchestrator extends EventEmitter {
 
     if (job.state === 'running' && job.process) {
       job.process.kill('SIGTERM');
+      if (job.container && job.containerName) {
+        stopContainer(job.container.container.runtimePath, job.containerName);
+      }
       job.state = 'cancelled';
       job.endTime = new Date();
     } else if (job.state === 'queued') {
@@ -442,11 +610,17 @@ export class CompileOrchestrator extends EventEmitter {
     return job ? job.errors : [];
   }
 
+  // Commands the project's documents tried to run through \write18 in its last compile
+  getShellCommands(projectId: string): ShellCommandDTO[] {
+    return this.shellCommands.get(projectId) || [];
+  }
+
   private emitProgress(jobId: string, data: { 
     state?: string; 
     line?: string; 
     percent?: number; 
-    message?: string 
+    message?: string;
+    output?: string; // PDF written on success, relative to output/
   }) {
     this.emit('progress', {
       jobId,
@@ -454,16 +628,16 @@ export class CompileOrchestrator extends EventEmitter {
     });
   }
 
-  // Milestone 5: Enhanced queue processing with concurrency control
+  // Milestone 5: Enhanced queue processing with concurrency control.
+  // Different projects compile side by side up to the configured limit;
+  // jobs of one project always run one after another.
   private async processQueue() {
+    await this.refreshMaxConcurrency();
+
     // Process jobs while we have capacity and queued jobs
-    while (this.currentlyRunning < this.maxConcurrency && this.queue.length > 0) {
-      const jobId = this.queue.shift()!;
-      const job = this.jobs.get(jobId);
-      
-      if (!job || job.state === 'cancelled') {
-        continue;
-      }
+    while (this.currentlyRunning < this.maxConcurrency) {
+      const job = this.takeNextJob();
+      if (!job) break;
 
       // Start job execution (don't await - run concurrently)
       this.executeJob(job).catch(error => {
@@ -472,9 +646,41 @@ export class CompileOrchestrator extends EventEmitter {
     }
   }
 
+  // Removes and returns the job to start next, or null if every queued job's project is busy
+  private takeNextJob(): CompileJob | null {
+    this.queue = this.queue.filter(jobId => this.jobs.get(jobId)?.state === 'queued');
+
+    const runnable = this.queue
+      .map(jobId => this.jobs.get(jobId)!)
+      .filter(job => !this.activeProjects.has(job.projectId));
+    if (runnable.length === 0) return null;
+
+    // Manual jobs first, oldest first within a priority, unless auto-compiles have waited long enough
+    const manual = runnable.find(job => !job.isAutoCompile);
+    const auto = runnable.find(job => job.isAutoCompile);
+    const next = manual && (!auto || this.manualStreak < MAX_MANUAL_STREAK) ? manual : auto!;
+
+    this.manualStreak = next.isAutoCompile ? 0 : this.manualStreak + 1;
+    this.queue.splice(this.queue.indexOf(next.id), 1);
+    return next;
+  }
+
+  private async refreshMaxConcurrency(): Promise<void> {
+    try {
+      const settings = await this.settingsService.getTexSettings();
+      const limit = settings?.resourceLimits?.maxConcurrentCompiles;
+      this.maxConcurrency = limit && limit >= 1
+        ? Math.min(Math.floor(limit), MAX_CONCURRENCY_LIMIT)
+        : DEFAULT_MAX_CONCURRENCY;
+    } catch (error) {
+      console.warn('[CompileOrchestrator] Failed to read concurrency limit, keeping current value:', error);
+    }
+  }
+
   private async executeJob(job: CompileJob) {
     // Milestone 5: Track concurrency
     this.currentlyRunning++;
+    this.activeProjects.add(job.projectId);
     this.emitQueueStateChange();
 
     let cleanupPaths: string[] = []; // Track paths to cleanup
@@ -482,6 +688,7 @@ export class CompileOrchestrator extends EventEmitter {
     try {
       job.state = 'running';
       job.startTime = new Date();
+      let phaseStart = job.startTime.getTime();
       job.progress = 10;
       
       // Emit initial progress
@@ -491,18 +698,37 @@ export class CompileOrchestrator extends EventEmitter {
         message: 'Starting compilation...' 
       });
 
+      // Lines noted while resolving the document to build
+      for (const line of job.logs) {
+        this.emitProgress(job.id, { line });
+      }
+
       const project = await this.projectService.getById(job.projectId);
       if (!project) {
         throw new Error('Project not found');
       }
 
       // Milestone 10: Check shell-escape setting and warn if enabled
-      if (project.settings.shellEscape) {
+      const shellEscape = shellEscapeMode(project.settings);
+      if (shellEscape === 'full') {
         job.logs.push('⚠️  WARNING: Shell-escape is ENABLED for this project. This can execute arbitrary system commands!');
         this.emitProgress(job.id, { 
           line: '⚠️  WARNING: Shell-escape is ENABLED for this project. This can execute arbitrary system commands!',
           message: 'Shell-escape enabled - security warning' 
         });
+      } else if (shellEscape === 'restricted') {
+        const allowed = project.settings.shellEscapeCommands || [];
+        this.logLine(job, allowed.length > 0
+          ? `🔒 Restricted shell-escape: only ${allowed.join(', ')} may run`
+          : '🔒 Restricted shell-escape: the allowlist is empty, so no commands may run');
+      }
+
+      if (project.settings.useLatexmkrc) {
+        job.logs.push('⚠️  WARNING: The project latexmkrc is enabled. latexmk runs it as Perl code during compilation.');
+        this.emitProgress(job.id, { 
+          line: '⚠️  WARNING: The project latexmkrc is enabled. latexmk runs it as Perl code during compilation.',
+          message: 'Project latexmkrc enabled - security warning' 
+        });
       }
 
       // Milestone 10 & 13: Create build directory (incremental or secure temp)
@@ -537,23 +763,25 @@ export class CompileOrchestrator extends EventEmitter {
       });
 
       // Copy project files to build directory
-      await this.copyProjectFiles(project.root, buildDir);
+      await this.copyProjectFiles(project.root, buildDir, !!project.settings.useLatexmkrc);
       job.progress = 40;
       this.emitProgress(job.id, { 
         percent: 40, 
         message: 'Setting up secure TeX environment...' 
       });
 
-      // Get LaTeX binary path
-      const engine = project.settings.engine || 'pdflatex';
-      const latexmkPath = await this.settingsService.getTexBinaryPath('latexmk');
-      
-      console.log(`[CompileOrchestrator] Looking for latexmk, found: ${latexmkPath}`);
-      console.log(`[CompileOrchestrator] Using engine: ${engine}`);
-      
-      if (!latexmkPath) {
-        throw new Error('latexmk not found. Please install TeX Live or configure TeX paths.');
+      const { engine, mainFile, outputName } = job;
+      const steps = job.recipe?.steps || [LATEXMK_STEP];
+      for (const step of steps) {
+        const problem = unsafeStepArgument(step, {
+          shellEscape,
+          allowLatexmkrc: !!project.settings.useLatexmkrc,
+        });
+        if (problem) {
+          throw new Error(`Recipe "${job.recipe?.name}": ${problem}`);
+        }
       }
+      console.log(`[CompileOrchestrator] Using engine: ${engine}`);
 
       job.progress = 50;
       this.emitProgress(job.id, { 
@@ -562,38 +790,52 @@ export class CompileOrchestrator extends EventEmitter {
       });
 
       // Milestone 10: Run compilation with enhanced security
-      console.log(`[CompileOrchestrator] Starting secure compilation with latexmk at: ${latexmkPath}`);
+      console.log(`[CompileOrchestrator] Starting secure compilation: ${steps.map(describeStep).join(' → ')}`);
       console.log(`[CompileOrchestrator] Secure build directory: ${buildDir}`);
-      console.log(`[CompileOrchestrator] Main file: ${project.mainFile}`);
-      await this.runSecureLatexmk(job, latexmkPath, buildDir, project.mainFile, engine, project.settings.shellEscape);
+      console.log(`[CompileOrchestrator] Main file: ${mainFile}`);
+      phaseStart = this.timePhase(job, 'prepare', phaseStart);
+      await this.runSecureRecipe(job, steps, buildDir, mainFile, engine, project.settings);
+      phaseStart = Date.now(); // runSecureRecipe times its own phases
 
       // Enhanced PDF copy with reliability improvements
       const outputDir = join(project.root, 'output');
       await mkdir(outputDir, { recursive: true });
       
       // Always copy compile.log (Milestone 4: keep compile.log on error)
-      const logPath = join(buildDir, project.mainFile.replace('.tex', '.log'));
+      const logPath = join(buildDir, mainFile.replace(/\.tex$/, '.log'));
       if (existsSync(logPath)) {
         await this.robustFileCopy(logPath, join(outputDir, 'compile.log'), 'compile.log');
       }
       
-      const pdfPath = join(buildDir, project.mainFile.replace('.tex', '.pdf'));
+      // Copy SyncTeX data alongside the PDF so editor <-> PDF navigation works
+      const synctexPath = join(buildDir, mainFile.replace(/\.tex$/, '.synctex.gz'));
+      if (existsSync(synctexPath)) {
+        try {
+          await this.robustFileCopy(synctexPath, join(outputDir, `${outputName}.synctex.gz`), `${outputName}.synctex.gz`);
+        } catch (error) {
+          console.warn('[CompileOrchestrator] Failed to copy SyncTeX file:', error);
+        }
+      }
+      
+      const pdfPath = join(buildDir, mainFile.replace(/\.tex$/, '.pdf'));
       if (existsSync(pdfPath)) {
         // Validate PDF exists and has content before copying
         const pdfStats = await stat(pdfPath);
         if (pdfStats.size > 1024) { // PDF should be at least 1KB
-          await this.robustFileCopy(pdfPath, join(outputDir, 'main.pdf'), 'main.pdf');
+          await this.robustFileCopy(pdfPath, join(outputDir, `${outputName}.pdf`), `${outputName}.pdf`);
           
           // Final verification that PDF was copied successfully
-          const destPdfPath = join(outputDir, 'main.pdf');
+          const destPdfPath = join(outputDir, `${outputName}.pdf`);
           if (existsSync(destPdfPath)) {
             const destStats = await stat(destPdfPath);
+            job.pdfSizeBytes = destStats.size;
             if (destStats.size === pdfStats.size) {
               job.state = 'success';
               this.emitProgress(job.id, { 
                 state: 'success', 
                 percent: 100, 
-                message: 'Compilation completed successfully!' 
+                message: 'Compilation completed successfully!',
+                output: `${outputName}.pdf`
               });
             } else {
               job.state = 'error';
@@ -628,6 +870,7 @@ export class CompileOrchestrator extends EventEmitter {
         });
       }
 
+      this.timePhase(job, 'output', phaseStart);
       job.progress = 100;
       job.endTime = new Date();
 
@@ -653,10 +896,12 @@ export class CompileOrchestrator extends EventEmitter {
       
       // Milestone 5: Post-job cleanup and auto-compile handling
       this.currentlyRunning--;
+      this.activeProjects.delete(job.projectId);
       this.lastCompileEnd.set(job.projectId, Date.now());
       
       // Milestone 5: Write full log file at end
       await this.writeFullLogFile(job);
+      await this.recordHistory(job);
       
       // Check for pending auto-compile
       if (this.pendingAutoCompile.get(job.projectId)) {
@@ -681,81 +926,365 @@ export class CompileOrchestrator extends EventEmitter {
     }
   }
 
-  private async copyProjectFiles(sourceDir: string, destDir: string) {
+  private async copyProjectFiles(sourceDir: string, destDir: string, includeLatexmkrc = false) {
     const entries = await readdir(sourceDir);
     
     for (const entry of entries) {
+      const sourcePath = join(sourceDir, entry);
+      const destPath = join(destDir, entry);
+
+      // latexmk runs rc files as Perl, so they only reach the build when the project opts in
+      if (entry === 'latexmkrc' || entry === '.latexmkrc') {
+        if (includeLatexmkrc) {
+          await copyFile(sourcePath, destPath);
+        } else {
+          await rm(destPath, { force: true }); // Left over in an incremental build directory
+        }
+        continue;
+      }
+
       // Skip output directory and hidden files
       if (entry === 'output' || entry.startsWith('.')) {
         continue;
       }
       
-      const sourcePath = join(sourceDir, entry);
-      const destPath = join(destDir, entry);
       const stats = await stat(sourcePath);
       
       if (stats.isDirectory()) {
         await mkdir(destPath, { recursive: true });
-        await this.copyProjectFiles(sourcePath, destPath);
+        await this.copyProjectFiles(sourcePath, destPath, includeLatexmkrc);
       } else {
         await copyFile(sourcePath, destPath);
       }
     }
   }
 
-  // Milestone 10: Enhanced secure compilation with sandboxing and process limits
-  private async runSecureLatexmk(
-    job: CompileJob, 
-    latexmkPath: string, 
-    buildDir: string, 
-    mainFile: string, 
-    engine: string, 
-    shellEscapeEnabled: boolean
+  // Milestone 10: Enhanced secure compilation with sandboxing and process limits.
+  // Runs the recipe's steps in the main file's directory, one after another,
+  // within a single time budget; the engine log is parsed however it ends.
+  private async runSecureRecipe(
+    job: CompileJob,
+    steps: RecipeStep[],
+    buildDir: string,
+    mainFile: string,
+    engine: ProjectSettings['engine'],
+    settings: ProjectSettings
   ): Promise<void> {
+    const shellEscape = shellEscapeMode(settings);
+    let phase: CompilePhase = 'compile';
+    let phaseStart = Date.now();
+
+    // Container distributions run every tool in an image, with only the build directory mounted
+    const container = await this.settingsService.getActiveContainer();
+    if (container) {
+      job.container = { container, image: settings.containerImage || container.image, buildDir };
+      await this.ensureContainerImage(job, job.container);
+    }
+
     // Get timeout settings from global security configuration
     const globalSettings = await this.settingsService.getTexSettings();
     const manualTimeoutMs = globalSettings?.resourceLimits?.maxCompileTimeMs || 180000;
     const autoTimeoutMs = globalSettings?.resourceLimits?.autoCompileTimeoutMs || 120000;
     const timeoutMs = job.isAutoCompile ? autoTimeoutMs : manualTimeoutMs;
-    
-    return new Promise((resolve, reject) => {
-      const args = [
-        '-interaction=nonstopmode',
-        '-halt-on-error',
-        '-file-line-error',
-      ];
-
-      // Milestone 10: Shell-escape control - default OFF, explicit opt-in required
-      if (shellEscapeEnabled) {
-        args.push('-shell-escape');
-        console.warn('[CompileOrchestrator] ⚠️  Shell-escape is ENABLED - security risk!');
+    const deadline = Date.now() + timeoutMs;
+
+    // Milestone 10: Shell-escape control - default OFF, explicit opt-in required.
+    // Allowed commands in restricted mode can still run arbitrary code, so they get the same sandbox.
+    if (shellEscape !== 'off') {
+      console.warn(`[CompileOrchestrator] ⚠️  Shell-escape is ENABLED (${shellEscape}) - security risk!`);
+      if (job.container) {
+        this.logLine(job, `🛡️  Shell-escape runs inside the ${job.container.container.runtime} container: no network, only the build directory mounted`);
       } else {
-        args.push('-no-shell-escape'); // Explicitly disable shell-escape
+        job.sandbox = await prepareSandbox(buildDir, {
+          memoryMB: globalSettings?.resourceLimits?.sandboxMemoryMB || DEFAULT_SANDBOX_MEMORY_MB,
+          cpuSeconds: Math.ceil(timeoutMs / 1000),
+        });
+        this.reportSandbox(job, job.sandbox);
       }
+    }
 
-      // Add engine-specific flags
-      switch (engine) {
-        case 'xelatex':
-          args.push('-xelatex');
-          break;
-        case 'lualatex':
-          args.push('-lualatex');
-          break;
-        default:
-          args.push('-pdf');
+    // Milestone 10: Sanitized environment - pass minimal env (no secrets)
+    const sanitizedEnv = this.createSanitizedEnvironment(buildDir);
+    if (shellEscape === 'restricted') {
+      // -shell-restricted reads the allowlist from texmf.cnf; ours comes first in TEXMFCNF
+      const configDir = await writeShellEscapeConfig(buildDir, settings.shellEscapeCommands || []);
+      sanitizedEnv.TEXMFCNF = `${configDir}${delimiter}`;
+      if (job.container) {
+        job.container.configDir = SHELL_ESCAPE_CONFIG_DIR;
       }
+    }
+    const workDir = join(buildDir, dirname(mainFile));
+    const context = {
+      doc: basename(mainFile).replace(/\.tex$/, ''),
+      engine,
+      shellEscape,
+      indexTool: settings.indexTool || 'makeindex',
+    };
 
-      args.push(mainFile);
+    const runs = steps.flatMap(step => Array<RecipeStep>(step.repeat || 1).fill(step));
+    const showSteps = !!job.recipe;
+    const consoleOutput: string[] = [];
 
-      // Milestone 10: Sanitized environment - pass minimal env (no secrets)
-      const sanitizedEnv = this.createSanitizedEnvironment(buildDir);
+    try {
+      for (const [index, step] of runs.entries()) {
+        const stepLabel = `Step ${index + 1}/${runs.length}`;
+        const command = await this.resolveToolPath(job, step.tool);
+        console.log(`[CompileOrchestrator] Looking for ${step.tool}, found: ${command}`);
+        if (!command) {
+          throw new Error(step.tool === 'latexmk'
+            ? 'latexmk not found. Please install TeX Live or configure TeX paths.'
+            : `${step.tool} not found. Please install it or configure TeX paths.`);
+        }
 
-      // Milestone 10: Spawn with enhanced security options
-      const childProcess = spawn(latexmkPath, args, {
-        cwd: buildDir,
-        env: sanitizedEnv
+        const args = stepArguments(step, context);
+        if (showSteps) {
+          this.logLine(job, `▶ ${stepLabel}: ${step.tool} ${args.join(' ')}`);
+        }
+
+        const code = await this.runProcess(job, command, args, workDir, sanitizedEnv, deadline, timeoutMs, consoleOutput);
+        if (!stepSucceeded(step, code)) {
+          if (showSteps) {
+            this.logLine(job, `✗ ${stepLabel} failed with exit code ${code}`);
+          }
+          throw new Error(showSteps
+            ? `${stepLabel} (${step.tool}) failed with exit code ${code}`
+            : `LaTeX compilation failed with exit code ${code}`);
+        }
+        if (showSteps) {
+          this.logLine(job, `✓ ${stepLabel} finished`);
+        }
+
+        // latexmk leaves bibliographies and glossaries to us; rerun it when their output changes
+        if (step.tool === 'latexmk') {
+          phaseStart = this.timePhase(job, phase, phaseStart);
+          phase = 'auxiliary';
+          for (let round = 0; round < MAX_AUXILIARY_ROUNDS; round++) {
+            const ran = await this.runAuxiliaryTools(job, workDir, context, settings.bibTool, sanitizedEnv, deadline, timeoutMs, consoleOutput);
+            if (!ran) break;
+
+            this.logLine(job, `🔁 Rerunning latexmk for the updated auxiliary files`);
+            const rerun = await this.runProcess(job, command, args, workDir, sanitizedEnv, deadline, timeoutMs, consoleOutput);
+            if (!stepSucceeded(step, rerun)) {
+              throw new Error(showSteps
+                ? `${stepLabel} (${step.tool}) failed with exit code ${rerun}`
+                : `LaTeX compilation failed with exit code ${rerun}`);
+            }
+          }
+          phaseStart = this.timePhase(job, phase, phaseStart);
+          phase = 'compile';
+        }
+      }
+    } finally {
+      phaseStart = this.timePhase(job, phase, phaseStart);
+
+      // Parse errors from the engine log, falling back to the tools' console output
+      const engineLogPath = join(buildDir, mainFile.replace(/\.tex$/, '.log'));
+      let logContent = consoleOutput.join('');
+      if (existsSync(engineLogPath)) {
+        try {
+          logContent = await readFile(engineLogPath, 'utf8');
+        } catch (error) {
+          console.warn('[CompileOrchestrator] Failed to read engine log, using console output:', error);
+        }
+      }
+      job.errors = this.logParser.parse(logContent, {
+        buildDir,
+        mainFile: join(buildDir, mainFile),
+        workingDir: dirname(mainFile),
+        containerDir: job.container ? CONTAINER_WORKDIR : undefined,
       });
 
+      const shellCommands = this.logParser.shellCommands(logContent);
+      this.shellCommands.set(job.projectId, shellCommands);
+      this.reportBlockedCommands(job, shellCommands);
+
+      try {
+        job.errors.push(...await parseAuxiliaryLogs(buildDir, dirname(mainFile), context.doc, mainFile));
+      } catch (error) {
+        console.warn('[CompileOrchestrator] Failed to parse auxiliary tool logs:', error);
+      }
+
+      try {
+        await this.texPackageService.annotate(job.errors);
+        for (const error of job.errors) {
+          if (error.package) {
+            this.logLine(job, job.container
+              ? `📦 ${error.missingFile} is provided by the TeX Live package "${error.package}"; add it to the image ${job.container.image}`
+              : `📦 ${error.missingFile} is provided by the TeX Live package "${error.package}"; install it from the Issues panel`);
+          }
+        }
+      } catch (error) {
+        console.warn('[CompileOrchestrator] Failed to look up missing packages:', error);
+      }
+
+      this.timePhase(job, 'logs', phaseStart);
+    }
+  }
+
+  // Runs the bibliography and glossary tools that are due; resolves with whether any ran.
+  // Their failures are reported from their logs rather than failing the compile.
+  private async runAuxiliaryTools(
+    job: CompileJob,
+    workDir: string,
+    context: StepContext,
+    bibTool: ProjectSettings['bibTool'],
+    env: NodeJS.ProcessEnv,
+    deadline: number,
+    timeoutMs: number,
+    consoleOutput: string[]
+  ): Promise<boolean> {
+    const digestsKey = `${job.projectId}:${job.mainFile}`;
+    let digests = this.auxiliaryDigests.get(digestsKey);
+    if (!digests) {
+      digests = new Map();
+      this.auxiliaryDigests.set(digestsKey, digests);
+    }
+
+    const runs = await detectAuxiliaryRuns(workDir, context.doc, bibTool, digests);
+    let ran = false;
+
+    for (const run of runs) {
+      const command = await this.resolveToolPath(job, run.step.tool);
+      if (!command) {
+        this.logLine(job, `⚠️  ${run.step.tool} is needed but was not found. Please install it or configure TeX paths.`);
+        continue;
+      }
+      if (run.note) {
+        this.logLine(job, `ℹ️  ${run.note}`);
+      }
+
+      const args = stepArguments(run.step, context);
+      this.logLine(job, `🔧 Running ${run.step.tool} ${args.join(' ')}`);
+      const code = await this.runProcess(job, command, args, workDir, env, deadline, timeoutMs, consoleOutput);
+      if (stepSucceeded(run.step, code)) {
+        digests.set(run.key, run.digest);
+      } else {
+        this.logLine(job, `⚠️  ${run.step.tool} exited with code ${code}; see the problems it reported`);
+        digests.delete(run.key);
+      }
+      ran = true;
+    }
+
+    return ran;
+  }
+
+  // Tools the TeX detection doesn't track are looked up next to latexmk
+  private async resolveToolPath(job: CompileJob, tool: RecipeTool): Promise<string | null> {
+    const name = toolCommand(tool);
+    if (job.container) return name; // Resolved on the image's PATH
+
+    const known = await this.settingsService.getTexBinaryPath(name);
+    if (known || tool === 'latexmk') return known;
+
+    const latexmkPath = await this.settingsService.getTexBinaryPath('latexmk');
+    if (latexmkPath) {
+      const sibling = join(dirname(latexmkPath), platform() === 'win32' ? `${name}.exe` : name);
+      if (existsSync(sibling)) return sibling;
+    }
+    return null;
+  }
+
+  // Say exactly which protections the shell-escape sandbox enforces, and which it could not
+  private reportSandbox(job: CompileJob, sandbox: SandboxPlan) {
+    this.logLine(job, sandbox.tool
+      ? `🛡️  Shell-escape sandbox: ${sandbox.tool}`
+      : '⚠️  Shell-escape sandbox: none available; shell commands run with your full user permissions');
+    for (const protection of sandbox.applied) {
+      this.logLine(job, `   ✓ ${protection}`);
+    }
+    for (const protection of sandbox.missing) {
+      this.logLine(job, `   ✗ ${protection}`);
+    }
+  }
+
+  // Adds the time since `since` to a phase of the job; returns the start of the next phase
+  private timePhase(job: CompileJob, phase: CompilePhase, since: number): number {
+    const now = Date.now();
+    job.phases[phase] = (job.phases[phase] || 0) + (now - since);
+    return now;
+  }
+
+  private async recordHistory(job: CompileJob) {
+    if (!job.startTime) return; // Cancelled while queued
+
+    const endTime = job.endTime || new Date();
+    const entry: CompileHistoryEntryDTO = {
+      jobId: job.id,
+      projectId: job.projectId,
+      mainFile: job.mainFile,
+      outputName: job.outputName,
+      engine: job.engine,
+      recipe: job.recipe?.name,
+      trigger: job.isAutoCompile ? 'auto' : 'manual',
+      build: job.isIncrementalBuild ? 'incremental' : 'clean',
+      state: job.state,
+      startTime: job.startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      durationMs: endTime.getTime() - job.startTime.getTime(),
+      phases: { queue: job.startTime.getTime() - job.queuedAt.getTime(), ...job.phases },
+      errorCount: job.errors.filter(error => error.severity === 'error').length,
+      warningCount: job.errors.filter(error => error.severity === 'warning').length,
+      pdfSizeBytes: job.pdfSizeBytes,
+    };
+
+    try {
+      await this.compileHistoryService.record(entry, job.logs);
+      this.emit('historyRecorded', entry);
+    } catch (error) {
+      console.warn('[CompileOrchestrator] Failed to record compile history:', error);
+    }
+  }
+
+  private reportBlockedCommands(job: CompileJob, commands: ShellCommandDTO[]) {
+    const blocked = new Set<string>();
+    for (const command of commands) {
+      if (command.status === 'restricted') blocked.add(`🚫 Shell-escape blocked ${command.program}: it is not in the project's allowlist`);
+      if (command.status === 'disabled') blocked.add(`🚫 The document tried to run ${command.program}, but shell-escape is off for this project`);
+    }
+    for (const line of blocked) {
+      this.logLine(job, line);
+    }
+  }
+
+  private async ensureContainerImage(job: CompileJob, run: ContainerRun): Promise<void> {
+    const { runtime, runtimePath } = run.container;
+    if (!(await imageAvailable(runtimePath, run.image))) {
+      this.logLine(job, `🐳 Pulling ${run.image} with ${runtime}; the first pull can take several minutes`);
+      await pullImage(runtimePath, run.image, (line) => this.logLine(job, line));
+    }
+    this.logLine(job, `🐳 Running in ${runtime} image ${run.image} without network access`);
+  }
+
+  private logLine(job: CompileJob, line: string) {
+    job.logs.push(line);
+    this.logBuffers.get(job.id)?.add(line);
+    this.emitProgress(job.id, { line });
+  }
+
+  // Runs one tool and resolves with its exit code; rejects on timeout or spawn failure
+  private runProcess(
+    job: CompileJob,
+    command: string,
+    args: string[],
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    deadline: number,
+    timeoutMs: number,
+    consoleOutput: string[]
+  ): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      // The container client runs on the host; the tool itself runs in the image
+      if (job.container) {
+        job.containerName = `auroratex-${job.id}-${++this.containerSequence}`;
+        ({ command, args } = containerInvocation(job.container, job.containerName, command, args, cwd));
+        env = clientEnvironment(env);
+      } else if (job.sandbox) {
+        ({ command, args } = sandboxInvocation(job.sandbox, command, args, cwd));
+      }
+
+      // Milestone 10: Spawn with enhanced security options
+      const childProcess = spawn(command, args, { cwd, env });
+
       // Milestone 10: Lower process priority on Unix systems (best effort)
       if (platform() !== 'win32' && childProcess.pid) {
         try {
@@ -771,19 +1300,17 @@ export class CompileOrchestrator extends EventEmitter {
 
       job.process = childProcess;
 
-      let logBuffer = '';
-
       // Milestone 5: Use circular buffer for efficient log management
       childProcess.stdout.on('data', (data: Buffer) => {
         const text = data.toString();
-        logBuffer += text;
+        consoleOutput.push(text);
         
         // Split into lines and emit each line as progress
         const lines = text.split('\n');
         lines.forEach(line => {
           if (line.trim()) {
             job.logs.push(line); // Store in job logs
-            this.logBuffers.get(job.projectId)?.add(line); // Also add to circular buffer
+            this.logBuffers.get(job.id)?.add(line); // Also add to circular buffer
             
             // Emit live log lines (Milestone 4)
             this.emitProgress(job.id, { 
@@ -798,7 +1325,7 @@ export class CompileOrchestrator extends EventEmitter {
 
       childProcess.stderr.on('data', (data: Buffer) => {
         const text = data.toString();
-        logBuffer += text;
+        consoleOutput.push(text);
         
         // Split into lines and emit each line as progress
         const lines = text.split('\n');
@@ -806,7 +1333,7 @@ export class CompileOrchestrator extends EventEmitter {
           if (line.trim()) {
             const logLine = `STDERR: ${line}`;
             job.logs.push(logLine); // Store in job logs
-            this.logBuffers.get(job.projectId)?.add(logLine); // Also add to circular buffer
+            this.logBuffers.get(job.id)?.add(logLine); // Also add to circular buffer
             
             // Emit live log lines for stderr too
             this.emitProgress(job.id, { 
@@ -819,6 +1346,9 @@ export class CompileOrchestrator extends EventEmitter {
       // Milestone 10: Enhanced timeout with hard kill and reason exposure  
       const timeout = setTimeout(() => {
         this.killProcessTree(childProcess.pid);
+        if (job.container && job.containerName) {
+          stopContainer(job.container.container.runtimePath, job.containerName);
+        }
         job.state = 'killed';
         const timeoutReason = `Compilation timeout after ${timeoutMs / 1000}s - process killed for security`;
         job.logs.push(`TIMEOUT: ${timeoutReason}`);
@@ -827,21 +1357,13 @@ export class CompileOrchestrator extends EventEmitter {
           message: timeoutReason
         });
         reject(new Error(timeoutReason));
-      }, timeoutMs);
+      }, Math.max(0, deadline - Date.now()));
 
       childProcess.on('close', (code: number | null) => {
         clearTimeout(timeout);
         
-        // Parse errors from log
-        job.errors = this.parseLatexErrors(logBuffer, buildDir);
-        
-        if (code === 0) {
-          resolve();
-        } else {
-          const errorMsg = `LaTeX compilation failed with exit code ${code}`;
-          if (job.state !== 'killed') { // Don't override killed state
-            reject(new Error(errorMsg));
-          }
+        if (job.state !== 'killed') { // Don't override killed state
+          resolve(code);
         }
       });
 
@@ -934,225 +1456,4 @@ export class CompileOrchestrator extends EventEmitter {
       console.warn(`[CompileOrchestrator] Failed to kill process tree for PID ${pid}:`, error);
     }
   }
-
-  private parseLatexErrors(logContent: string, buildDir: string): ErrorDTO[] {
-    const errors: ErrorDTO[] = [];
-    const lines = logContent.split('\n');
-    
-    // File stack to track current file context
-    const fileStack: string[] = [];
-    let currentFile = '';
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Skip empty lines
-      if (!line) continue;
-      
-      // Track file stack using parentheses - LaTeX opens files with (./ and closes with )
-      this.updateFileStack(line, fileStack, buildDir);
-      currentFile = fileStack.length > 0 ? fileStack[fileStack.length - 1] : '';
-      
-      // Pattern 0: file.tex:line: error message (handle both ./relative and absolute paths)
-      const fileLineErrorMatch = line.match(/^(?:\.\/)?(.+?\.tex):(\d+):\s*(.+)/);
-      if (fileLineErrorMatch) {
-        const [, filePath, lineNum, message] = fileLineErrorMatch;
-        // Extract just the filename from the full path
-        const fileName = filePath.includes('/') ? filePath.split('/').pop() || filePath : filePath;
-        errors.push({
-          file: this.mapTempPathToProject(fileName, buildDir),
-          line: parseInt(lineNum),
-          message: message.trim(),
-          severity: 'error'
-        });
-        continue;
-      }
-      
-      // Pattern 1: ! LaTeX Error: messages
-      if (line.startsWith('! LaTeX Error:')) {
-        const message = line.substring(14).trim(); // Remove '! LaTeX Error:'
-        const lineNumber = this.findLineNumber(lines, i);
-        if (currentFile) {
-          errors.push({
-            file: this.mapTempPathToProject(currentFile, buildDir),
-            line: lineNumber,
-            message: `LaTeX Error: ${message}`,
-            severity: 'error'
-          });
-        }
-        continue;
-      }
-      
-      // Pattern 2: ! Package <name> Error: messages
-      const packageErrorMatch = line.match(/^! Package (\w+) Error:\s*(.+)/);
-      if (packageErrorMatch) {
-        const [, packageName, message] = packageErrorMatch;
-        const lineNumber = this.findLineNumber(lines, i);
-        if (currentFile) {
-          errors.push({
-            file: this.mapTempPathToProject(currentFile, buildDir),
-            line: lineNumber,
-            message: `Package ${packageName} Error: ${message}`,
-            severity: 'error'
-          });
-        }
-        continue;
-      }
-      
-      // Pattern 3: ! <general error messages>
-      if (line.startsWith('!') && !line.startsWith('! =')) {
-        const message = line.substring(1).trim();
-        const lineNumber = this.findLineNumber(lines, i);
-        if (currentFile && message) {
-          errors.push({
-            file: this.mapTempPathToProject(currentFile, buildDir),
-            line: lineNumber,
-            message: message,
-            severity: 'error'
-          });
-        }
-        continue;
-      }
-      
-      // Pattern 4: l.<line> explicit line references
-      const lineRefMatch = line.match(/^l\.(\d+)\s*(.*)$/);
-      if (lineRefMatch) {
-        const [, lineNum, context] = lineRefMatch;
-        // Look back for the error message
-        const errorMessage = this.findPreviousErrorMessage(lines, i);
-        if (currentFile && errorMessage) {
-          errors.push({
-            file: this.mapTempPathToProject(currentFile, buildDir),
-            line: parseInt(lineNum),
-            message: errorMessage + (context ? ` (at: ${context})` : ''),
-            severity: 'error'
-          });
-        }
-        continue;
-      }
-      
-      // Pattern 5: Warning messages
-      if (line.includes('Warning') || line.includes('warning')) {
-        const warningLineMatch = line.match(/.*line (\d+)/);
-        const lineNumber = warningLineMatch ? parseInt(warningLineMatch[1]) : this.findLineNumber(lines, i);
-        if (currentFile) {
-          errors.push({
-            file: this.mapTempPathToProject(currentFile, buildDir),
-            line: lineNumber,
-            message: line,
-            severity: 'warning'
-          });
-        }
-        continue;
-      }
-      
-      // Pattern 6: Overfull/Underfull box warnings
-      const boxWarningMatch = line.match(/(Overfull|Underfull) \\[hv]box.*at lines (\d+)--(\d+)/);
-      if (boxWarningMatch && currentFile) {
-        const [, type, startLine] = boxWarningMatch;
-        errors.push({
-          file: this.mapTempPathToProject(currentFile, buildDir),
-          line: parseInt(startLine),
-          message: line,
-          severity: 'warning'
-        });
-        continue;
-      }
-      
-      // Pattern 7: Missing package/file errors
-      if (line.includes('File') && line.includes('not found')) {
-        const lineNumber = this.findLineNumber(lines, i);
-        if (currentFile) {
-          errors.push({
-            file: this.mapTempPathToProject(currentFile, buildDir),
-            line: lineNumber,
-            message: line,
-            severity: 'error'
-          });
-        }
-      }
-    }
-    
-    // Sort errors by severity (errors first, then warnings) and then by line number
-    return errors.sort((a, b) => {
-      if (a.severity !== b.severity) {
-        if (a.severity === 'error') return -1;
-        if (b.severity === 'error') return 1;
-      }
-      return a.line - b.line;
-    });
-  }
-  
-  // Helper method to track file stack from LaTeX log parentheses
-  private updateFileStack(line: string, fileStack: string[], buildDir: string): void {
-    // Count opening parentheses for file paths
-    const openMatches = line.match(/\([^)]*\.tex/g);
-    if (openMatches) {
-      for (const match of openMatches) {
-        const filePath = match.substring(1); // Remove opening parenthesis
-        // Handle both relative (./) and absolute paths
-        if (filePath.startsWith('./')) {
-          fileStack.push(filePath.substring(2));
-        } else if (filePath.startsWith(buildDir)) {
-          fileStack.push(filePath.substring(buildDir.length + 1));
-        } else if (filePath.endsWith('.tex')) {
-          fileStack.push(filePath);
-        }
-      }
-    }
-    
-    // Count closing parentheses
-    const closeCount = (line.match(/\)/g) || []).length;
-    for (let i = 0; i < closeCount && fileStack.length > 0; i++) {
-      fileStack.pop();
-    }
-  }
-  
-  // Helper method to find line number from context
-  private findLineNumber(lines: string[], currentIndex: number): number {
-    // Look ahead for l.<number> pattern
-    for (let i = currentIndex + 1; i < Math.min(currentIndex + 5, lines.length); i++) {
-      const lineMatch = lines[i].match(/^l\.(\d+)/);
-      if (lineMatch) {
-        return parseInt(lineMatch[1]);
-      }
-    }
-    
-    // Look back for line references
-    for (let i = currentIndex - 1; i >= Math.max(currentIndex - 3, 0); i--) {
-      const lineMatch = lines[i].match(/line (\d+)/);
-      if (lineMatch) {
-        return parseInt(lineMatch[1]);
-      }
-    }
-    
-    return 1; // Default line number
-  }
-  
-  // Helper method to find previous error message for l.<line> references
-  private findPreviousErrorMessage(lines: string[], currentIndex: number): string {
-    for (let i = currentIndex - 1; i >= Math.max(currentIndex - 5, 0); i--) {
-      const line = lines[i].trim();
-      if (line.startsWith('! ')) {
-        return line.substring(1).trim();
-      }
-    }
-    return '';
-  }
-  
-  // Helper method to map temp build paths back to project relative paths
-  private mapTempPathToProject(filePath: string, buildDir: string): string {
-    // Remove build directory prefix if present
-    if (filePath.startsWith(buildDir)) {
-      filePath = filePath.substring(buildDir.length + 1);
-    }
-    
-    // Remove leading ./
-    if (filePath.startsWith('./')) {
-      filePath = filePath.substring(2);
-    }
-    
-    // Ensure we return relative paths from project root
-    return filePath;
-  }
 }
@@ -0,0 +1,264 @@
+import { CompileRecipe, ProjectSettings, RecipeStep, RecipeTool } from '../types';
+import { ShellEscapeMode } from './ShellEscape';
+
+export const RECIPE_TOOLS: RecipeTool[] = [
+  'latexmk', 'pdflatex', 'xelatex', 'lualatex', 'latex', 'dvipdfmx', 'bibtex', 'biber', 'makeindex',
+  'xindy', 'makeglossaries', 'bib2gls',
+];
+
+// Tools whose program is named differently; xindy is run through its LaTeX front end
+const TOOL_COMMANDS: Partial<Record<RecipeTool, string>> = {
+  xindy: 'texindy',
+};
+
+// Repeating a step more often than this is almost certainly a typo
+const MAX_STEP_REPEAT = 5;
+
+const ENGINE_TOOLS = new Set<RecipeTool>(['pdflatex', 'xelatex', 'lualatex', 'latex']);
+
+const LATEXMK_ENGINE_FLAGS: Record<ProjectSettings['engine'], string> = {
+  pdflatex: '-pdf',
+  xelatex: '-xelatex',
+  lualatex: '-lualatex',
+};
+
+// Passed to latexmk and the engines alike
+const SHELL_ESCAPE_FLAGS: Record<ShellEscapeMode, string> = {
+  off: '-no-shell-escape',
+  restricted: '-shell-restricted',
+  full: '-shell-escape',
+};
+
+// latexmk output modes; naming one replaces the engine flag
+const LATEXMK_MODES = /^-(pdf|pdfdvi|pdfps|pdfxe|pdflua|xelatex|lualatex|dvi|ps)$/;
+
+// Exit codes up to this still count as success (BibTeX exits with 1 on warnings)
+const TOLERATED_EXIT_CODES: Partial<Record<RecipeTool, number>> = {
+  bibtex: 1,
+};
+
+export interface StepContext {
+  doc: string; // Main file name without .tex; steps run in its directory
+  engine: ProjectSettings['engine'];
+  shellEscape: ShellEscapeMode;
+  indexTool: NonNullable<ProjectSettings['indexTool']>;
+}
+
+// The default recipe: latexmk with the project engine
+export const LATEXMK_STEP: RecipeStep = { tool: 'latexmk' };
+
+/**
+ * Command-line arguments for a recipe step. The tool's defaults come first,
+ * then the step's own arguments; the file to work on goes last unless one
+ * of the step's arguments names it through %DOC%.
+ */
+export function stepArguments(step: RecipeStep, context: StepContext): string[] {
+  const extra = (step.args || []).map(arg => arg.replace(/%DOC%/g, context.doc));
+  const namesFile = (step.args || []).some(arg => arg.includes('%DOC%'));
+  const shellEscape = SHELL_ESCAPE_FLAGS[context.shellEscape];
+
+  let args: string[];
+  let file: string;
+  if (step.tool === 'latexmk') {
+    args = ['-interaction=nonstopmode', '-halt-on-error', '-file-line-error', '-synctex=1', shellEscape];
+    if (!extra.some(arg => LATEXMK_MODES.test(arg))) {
+      args.push(LATEXMK_ENGINE_FLAGS[context.engine]);
+    }
+    // Bibliographies are left to the auxiliary pass, which honours the project's bibTool
+    args.push('-bibtex-');
+    if (context.indexTool === 'xindy') {
+      args.push('-e', "$makeindex = 'texindy -o %D -t %R.ilg %S';");
+    }
+    file = `${context.doc}.tex`;
+  } else if (ENGINE_TOOLS.has(step.tool)) {
+    args = ['-interaction=nonstopmode', '-halt-on-error', '-file-line-error', '-synctex=1', shellEscape];
+    file = `${context.doc}.tex`;
+  } else if (step.tool === 'xindy') {
+    args = ['-t', `${context.doc}.ilg`]; // texindy writes no transcript unless asked to
+    file = `${context.doc}.idx`;
+  } else {
+    args = [];
+    file = step.tool === 'makeindex' ? `${context.doc}.idx`
+      : step.tool === 'dvipdfmx' ? `${context.doc}.dvi`
+      : context.doc;
+  }
+
+  return namesFile ? [...args, ...extra] : [...args, ...extra, file];
+}
+
+// The program that runs a tool, as looked up in the TeX distribution
+export function toolCommand(tool: RecipeTool): string {
+  return TOOL_COMMANDS[tool] || tool;
+}
+
+export function stepSucceeded(step: RecipeStep, code: number | null): boolean {
+  return code !== null && code <= (TOLERATED_EXIT_CODES[step.tool] || 0);
+}
+
+// Options each tool may be given in a recipe, without their dashes; true when
+// the option takes a value, either after = or as the next argument. Anything
+// that could write outside the build directory, run other programs or change
+// the TeX configuration (-o, --output-*, -outdir, -cnf-line, ...) is left out.
+const ENGINE_OPTIONS: Record<string, boolean> = {
+  'interaction': true, 'synctex': true, 'file-line-error': false, 'no-file-line-error': false,
+  'halt-on-error': false, 'recorder': false, 'draftmode': false, 'output-format': true,
+  '8bit': false, 'etex': false, 'src-specials': false, 'no-pdf': false, 'nosocket': false,
+};
+
+const ALLOWED_OPTIONS: Record<RecipeTool, Record<string, boolean>> = {
+  latexmk: {
+    'pdf': false, 'pdfdvi': false, 'pdfps': false, 'pdfxe': false, 'pdflua': false,
+    'xelatex': false, 'lualatex': false, 'dvi': false, 'ps': false,
+    'bibtex': false, 'bibtex-': false, 'nobibtex': false, 'bibtex-cond': false, 'bibtex-cond1': false,
+    'f': false, 'g': false, 'c': false, 'C': false, 'cd': false, 'cd-': false,
+    'silent': false, 'quiet': false, 'verbose': false, 'time': false, 'norc': false,
+    'interaction': true, 'synctex': true, 'file-line-error': false, 'halt-on-error': false, 'recorder': false,
+    'e': true, 'r': true, // Checked against the project's latexmkrc setting below
+  },
+  pdflatex: ENGINE_OPTIONS,
+  xelatex: ENGINE_OPTIONS,
+  lualatex: ENGINE_OPTIONS,
+  latex: ENGINE_OPTIONS,
+  dvipdfmx: { 'q': false, 'v': false, 'l': false, 'E': false, 'V': true, 'z': true, 'p': true, 'd': true },
+  bibtex: { 'terse': false, 'min-crossrefs': true },
+  biber: {
+    'q': false, 'quiet': false, 'V': false, 'validate-datamodel': false, 'nodieonerror': false,
+    'fixinits': false, 'isbn-normalise': false, 'isbn13': false, 'mincrossrefs': true,
+    'l': true, 'sortlocale': true, 'input-encoding': true,
+  },
+  makeindex: { 'q': false, 'l': false, 'c': false, 'g': false, 'r': false, 'L': false, 'T': false, 's': true, 'p': true, 't': true },
+  xindy: { 'q': false, 'v': false, 'L': true, 'C': true, 'M': true, 'I': true, 't': true },
+  makeglossaries: { 'q': false, 'Q': false, 'k': false, 'n': false, 'c': false, 'g': false, 'r': false, 'l': false, 's': true, 'L': true, 'p': true, 't': true },
+  bib2gls: {
+    'q': false, 'silent': false, 'v': false, 'verbose': false, 'g': false, 'group': false, 'no-group': false,
+    'interpret': false, 'no-interpret': false, 'break-space': false, 'no-break-space': false,
+    'record-count': false, 'no-record-count': false, 'record-count-unit': false, 'cite-as-record': false,
+    'l': true, 'locale': true,
+  },
+};
+
+// Shell escape is decided by the project setting, whatever the tool
+const SHELL_ESCAPE_OPTIONS = new Set(['shell-escape', 'enable-write18', 'shell-restricted', 'no-shell-escape', 'disable-write18']);
+
+/**
+ * Why a step's arguments can't run in the secure build directory, or null.
+ * Only options on the tool's allowlist pass; shell escape needs the project
+ * setting and latexmk's -e and -r, which run Perl code like a latexmkrc does,
+ * need the project latexmkrc. File arguments must stay inside the build
+ * directory: no absolute paths and no "..".
+ */
+export function unsafeStepArgument(step: RecipeStep, options: { shellEscape: ShellEscapeMode; allowLatexmkrc: boolean }): string | null {
+  const args = step.args || [];
+  const allowed = ALLOWED_OPTIONS[step.tool] || {};
+  const takesShellEscape = step.tool === 'latexmk' || ENGINE_TOOLS.has(step.tool);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const option = arg.match(/^--?([A-Za-z0-9][\w-]*)(?:=([\s\S]*))?$/);
+
+    if (!option) {
+      if (arg.startsWith('-')) {
+        return `${arg} is not allowed in recipes`;
+      }
+      const problem = outsideBuildDir(arg);
+      if (problem) return problem;
+      continue;
+    }
+
+    const [, name, inlineValue] = option;
+    if (takesShellEscape && SHELL_ESCAPE_OPTIONS.has(name)) {
+      if ((name === 'shell-escape' || name === 'enable-write18') && options.shellEscape !== 'full') {
+        return `${arg} needs shell-escape to be enabled for the project`;
+      }
+      if (name === 'shell-restricted' && options.shellEscape === 'off') {
+        return `${arg} needs restricted shell-escape to be enabled for the project`;
+      }
+      if (inlineValue !== undefined) {
+        return `${arg} is not allowed in recipes`;
+      }
+      continue;
+    }
+
+    if (!(name in allowed)) {
+      return `${arg.split('=')[0]} is not allowed in recipes for ${step.tool}`;
+    }
+    if (step.tool === 'latexmk' && (name === 'e' || name === 'r') && !options.allowLatexmkrc) {
+      return `-${name} runs Perl code and needs the project latexmkrc to be enabled`;
+    }
+
+    if (!allowed[name]) {
+      if (inlineValue !== undefined) {
+        return `${arg.split('=')[0]} does not take a value`;
+      }
+      continue;
+    }
+
+    let value = inlineValue;
+    if (value === undefined) {
+      i++;
+      if (i >= args.length) {
+        return `${arg} needs a value`;
+      }
+      value = args[i];
+    }
+    // latexmk -e is Perl code, trusted along with the latexmkrc; everything else may name a file
+    if (!(step.tool === 'latexmk' && name === 'e')) {
+      const problem = outsideBuildDir(value);
+      if (problem) return problem;
+    }
+  }
+  return null;
+}
+
+function outsideBuildDir(value: string): string | null {
+  if (/^([\\/]|[A-Za-z]:)/.test(value) || value.startsWith('~')) {
+    return `${value} is an absolute path; recipes may only use files in the project`;
+  }
+  if (value.includes('..')) {
+    return `${value} contains ".."; recipes may only use files in the project`;
+  }
+  return null;
+}
+
+// Checks the shape of recipes before they are saved; throws with a message for the user
+export function validateRecipes(recipes: CompileRecipe[]): CompileRecipe[] {
+  const cleaned = recipes.map(recipe => ({
+    name: String(recipe.name || '').trim(),
+    steps: (recipe.steps || []).map(step => {
+      const args = (step.args || []).map(arg => String(arg)).filter(arg => arg.trim() !== '');
+      return {
+        tool: step.tool,
+        ...(args.length > 0 ? { args } : {}),
+        ...(step.repeat && step.repeat > 1 ? { repeat: Math.floor(step.repeat) } : {}),
+      };
+    }),
+  }));
+
+  for (const recipe of cleaned) {
+    if (!recipe.name) {
+      throw new Error('Every recipe needs a name');
+    }
+    if (cleaned.filter(other => other.name === recipe.name).length > 1) {
+      throw new Error(`Recipe "${recipe.name}" is defined twice`);
+    }
+    if (recipe.steps.length === 0) {
+      throw new Error(`Recipe "${recipe.name}" has no steps`);
+    }
+    for (const step of recipe.steps) {
+      if (!RECIPE_TOOLS.includes(step.tool)) {
+        throw new Error(`Recipe "${recipe.name}" uses unsupported tool ${step.tool}`);
+      }
+      if ((step.repeat || 1) > MAX_STEP_REPEAT) {
+        throw new Error(`Recipe "${recipe.name}" repeats ${step.tool} more than ${MAX_STEP_REPEAT} times`);
+      }
+    }
+  }
+
+  return cleaned;
+}
+
+// How a step is shown in the log, e.g. "makeindex -s index.ist"
+export function describeStep(step: RecipeStep): string {
+  const args = step.args && step.args.length > 0 ? ` ${step.args.join(' ')}` : '';
+  return `${step.tool}${args}`;
+}
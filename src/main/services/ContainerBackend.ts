@@ -0,0 +1,152 @@
+import { spawn } from 'child_process';
+import { relative } from 'path';
+import { platform } from 'os';
+import { ContainerSettings } from './TeXDetectionService';
+
+// Where the build directory is mounted inside the container
+export const CONTAINER_WORKDIR = '/workdir';
+
+// Pulling a full TeX Live image can take a while on a slow connection
+const PULL_TIMEOUT_MS = 30 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 60 * 1000;
+
+// Image references as docker and podman accept them; never starts with a dash
+const IMAGE_REFERENCE = /^[A-Za-z0-9][A-Za-z0-9._\-\/:@]*$/;
+
+// The container clients need these to reach a rootless or remote daemon
+const CLIENT_ENV_VARS = ['DOCKER_HOST', 'DOCKER_CONTEXT', 'DOCKER_CONFIG', 'CONTAINER_HOST', 'XDG_RUNTIME_DIR'];
+
+export interface ContainerRun {
+  container: ContainerSettings;
+  image: string; // The distribution's image, or the project's override
+  buildDir: string; // Host directory mounted at CONTAINER_WORKDIR
+  configDir?: string; // Folder in buildDir with a generated texmf.cnf, for restricted shell escape
+}
+
+export function containerImageProblem(image: string): string | null {
+  if (!image.trim()) return 'Container image is required';
+  if (!IMAGE_REFERENCE.test(image)) return `"${image}" is not a valid container image reference`;
+  return null;
+}
+
+// Wrap one tool invocation in `<runtime> run`; the tool only sees the build directory
+export function containerInvocation(
+  run: ContainerRun,
+  name: string,
+  command: string,
+  args: string[],
+  cwd: string
+): { command: string; args: string[] } {
+  const workDir = [CONTAINER_WORKDIR, relative(run.buildDir, cwd).replace(/\\/g, '/')].filter(Boolean).join('/');
+
+  const runArgs = [
+    'run', '--rm',
+    '--name', name,
+    '--network', 'none',
+    '--cap-drop', 'ALL',
+    '--security-opt', 'no-new-privileges',
+    '--pids-limit', '256',
+    '--read-only',
+    '--tmpfs', '/tmp',
+    '--mount', `type=bind,source=${run.buildDir},target=${CONTAINER_WORKDIR}`,
+    '--workdir', workDir,
+    // Same TeX environment the host backend sets up, in container paths
+    '--env', 'HOME=/tmp',
+    '--env', `TEXMFVAR=${CONTAINER_WORKDIR}`,
+    '--env', `TEXINPUTS=${CONTAINER_WORKDIR}:`,
+    '--env', `TEXMFOUTPUT=${CONTAINER_WORKDIR}`,
+    '--env', `TEXMFCACHE=${CONTAINER_WORKDIR}`,
+  ];
+  if (run.configDir) {
+    // The trailing separator keeps the image's own texmf.cnf for everything the generated one leaves out
+    runArgs.push('--env', `TEXMFCNF=${CONTAINER_WORKDIR}/${run.configDir}:`);
+  }
+
+  // Rootful Docker on Linux writes as root unless told otherwise; rootless Podman maps root to the user
+  if (run.container.runtime === 'docker' && platform() === 'linux' && process.getuid && process.getgid) {
+    runArgs.push('--user', `${process.getuid()}:${process.getgid()}`);
+  }
+
+  return { command: run.container.runtimePath, args: [...runArgs, run.image, command, ...args] };
+}
+
+export function clientEnvironment(base: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const env = { ...base };
+  for (const key of CLIENT_ENV_VARS) {
+    if (process.env[key]) env[key] = process.env[key];
+  }
+  return env;
+}
+
+// Killing the client does not stop the container it started
+export function stopContainer(runtimePath: string, name: string): void {
+  try {
+    spawn(runtimePath, ['rm', '--force', name], { stdio: 'ignore', env: clientEnvironment(process.env) });
+  } catch (error) {
+    console.warn(`[ContainerBackend] Failed to stop container ${name}:`, error);
+  }
+}
+
+export async function imageAvailable(runtimePath: string, image: string): Promise<boolean> {
+  const result = await runClient(runtimePath, ['image', 'inspect', image], PROBE_TIMEOUT_MS);
+  return result.code === 0;
+}
+
+export async function pullImage(runtimePath: string, image: string, onLine?: (line: string) => void): Promise<void> {
+  const result = await runClient(runtimePath, ['pull', image], PULL_TIMEOUT_MS, onLine);
+  if (result.code !== 0) {
+    throw new Error(`Failed to pull ${image}: ${lastLine(result.output) || `exit code ${result.code}`}`);
+  }
+}
+
+// latexmk version inside the image; fails when the image has no TeX toolchain
+export async function probeImage(runtimePath: string, image: string): Promise<string> {
+  const result = await runClient(runtimePath, ['run', '--rm', '--network', 'none', image, 'latexmk', '-version'], PROBE_TIMEOUT_MS);
+  const version = result.output.match(/Latexmk, John Collins, ([0-9. ]+)/) || result.output.match(/latexmk version ([0-9.]+)/i);
+  if (result.code !== 0 || !version) {
+    throw new Error(`${image} does not provide latexmk: ${lastLine(result.output) || `exit code ${result.code}`}`);
+  }
+  return `Latexmk ${version[1].trim()}`;
+}
+
+function runClient(
+  runtimePath: string,
+  args: string[],
+  timeoutMs: number,
+  onLine?: (line: string) => void
+): Promise<{ code: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(runtimePath, args, { shell: false, env: clientEnvironment(process.env) });
+    let output = '';
+
+    const collect = (data: Buffer) => {
+      const text = data.toString();
+      output += text;
+      if (onLine) {
+        text.split(/\r?\n|\r/).filter(line => line.trim()).forEach(onLine);
+      }
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    const timeout = setTimeout(() => {
+      child.kill('SIGTERM');
+      reject(new Error(`${args[0]} did not finish within ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    child.on('close', (code) => {
+      clearTimeout(timeout);
+      resolve({ code, output });
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+  });
+}
+
+function lastLine(output: string): string {
+  const lines = output.trim().split('\n');
+  return lines[lines.length - 1].trim();
+}
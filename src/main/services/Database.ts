@@ -0,0 +1,349 @@
+import { app } from 'electron';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync, appendFileSync, renameSync, copyFileSync } from 'fs';
+
+// Durable store for the project registry, snapshot index, compile history and preferences.
+// State lives in db.json; every change is appended to db.journal first and the
+// journal is folded back into db.json on load, on quit and once it grows large.
+export interface ProjectData {
+  id: string;
+  name: string;
+  root: string;
+  mainFile: string;
+  createdAt: string;
+  updatedAt: string;
+  settings: any;
+}
+
+export interface SnapshotData {
+  id: string;
+  projectId: string;
+  timestamp: number;
+  message?: string;
+  auto?: boolean; // Taken by the app rather than the user
+  path: string;
+  sizeBytes: number;
+}
+
+export interface CompileRecordData {
+  jobId: string;
+  projectId: string;
+  mainFile: string;
+  outputName: string;
+  engine: string;
+  recipe?: string;
+  trigger: 'auto' | 'manual';
+  build: 'incremental' | 'clean';
+  state: string;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  phases: Record<string, number>;
+  errorCount: number;
+  warningCount: number;
+  pdfSizeBytes?: number;
+}
+
+export interface PreferenceData {
+  key: string;
+  value: string;
+}
+
+type TableName = 'projects' | 'snapshots' | 'compiles' | 'preferences';
+
+interface DatabaseState {
+  schemaVersion: number;
+  projects: Record<string, ProjectData>;
+  snapshots: Record<string, SnapshotData>;
+  compiles: Record<string, CompileRecordData>;
+  preferences: Record<string, string>;
+}
+
+interface JournalEntry {
+  op: 'put' | 'delete';
+  table: TableName;
+  key: string;
+  value?: any;
+}
+
+export const SCHEMA_VERSION = 1;
+const MAX_JOURNAL_ENTRIES = 500;
+
+// Each migration upgrades the state from version N - 1 to version N; version 1 is the first layout
+const migrations: Record<number, (state: any) => any> = {};
+
+class Database {
+  private state: DatabaseState = Database.emptyState();
+  private dataDir: string | null = null;
+  private loaded = false;
+  private readOnly = false;
+  private journalEntries = 0;
+
+  private static emptyState(): DatabaseState {
+    return { schemaVersion: SCHEMA_VERSION, projects: {}, snapshots: {}, compiles: {}, preferences: {} };
+  }
+
+  // Open the store in a specific directory (defaults to the app's userData folder).
+  // A store that could not be opened is opened again by the next call.
+  open(dataDir?: string) {
+    if (this.loaded && !this.readOnly && (!dataDir || dataDir === this.dataDir)) return;
+
+    this.dataDir = null;
+    this.state = Database.emptyState();
+    this.journalEntries = 0;
+    this.readOnly = false;
+
+    try {
+      // app.getPath throws when called before the app is ready
+      this.dataDir = dataDir || join(app.getPath('userData'), 'database');
+      mkdirSync(this.dataDir, { recursive: true });
+      this.loadState();
+      this.replayJournal();
+      this.loaded = true;
+
+      // Fold the replayed journal into db.json so startup stays fast
+      if (this.journalEntries > 0) {
+        this.compact();
+      }
+
+      console.log(`[Database] Opened ${this.dataDir} (schema v${this.state.schemaVersion}, ${Object.keys(this.state.projects).length} projects, ${Object.keys(this.state.snapshots).length} snapshots)`);
+    } catch (error) {
+      // Keep the app usable with an in-memory store rather than failing to start
+      console.error('[Database] Failed to open database, changes will not be persisted:', error);
+      this.readOnly = true;
+      this.loaded = true;
+    }
+  }
+
+  // Write the current state to db.json and empty the journal
+  compact() {
+    if (!this.loaded || this.readOnly || !this.dataDir) return;
+
+    try {
+      const statePath = join(this.dataDir, 'db.json');
+      const tempPath = `${statePath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(this.state, null, 2), 'utf8');
+      renameSync(tempPath, statePath); // Atomic replace, never leaves a half-written db.json
+      writeFileSync(this.journalPath(), '', 'utf8');
+      this.journalEntries = 0;
+    } catch (error) {
+      console.error('[Database] Failed to compact database:', error);
+    }
+  }
+
+  // Projects
+  insertProject(project: ProjectData) {
+    this.put('projects', project.id, project);
+  }
+
+  getProject(id: string): ProjectData | undefined {
+    this.ensureOpen();
+    return this.state.projects[id];
+  }
+
+  getProjectByRoot(root: string): ProjectData | undefined {
+    this.ensureOpen();
+    return Object.values(this.state.projects).find(project => project.root === root);
+  }
+
+  getAllProjects(): ProjectData[] {
+    this.ensureOpen();
+    return Object.values(this.state.projects)
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  updateProject(id: string, updates: Partial<ProjectData>) {
+    const project = this.getProject(id);
+    if (project) {
+      this.put('projects', id, { ...project, ...updates });
+      return true;
+    }
+    return false;
+  }
+
+  // Snapshots
+  insertSnapshot(snapshot: SnapshotData) {
+    this.put('snapshots', snapshot.id, snapshot);
+  }
+
+  getSnapshot(id: string): SnapshotData | undefined {
+    this.ensureOpen();
+    return this.state.snapshots[id];
+  }
+
+  getSnapshotsByProject(projectId: string): SnapshotData[] {
+    this.ensureOpen();
+    return Object.values(this.state.snapshots)
+      .filter(s => s.projectId === projectId)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  deleteSnapshot(id: string): boolean {
+    if (!this.getSnapshot(id)) return false;
+    this.remove('snapshots', id);
+    return true;
+  }
+
+  // Compile history
+  insertCompile(record: CompileRecordData) {
+    this.put('compiles', record.jobId, record);
+  }
+
+  getCompile(jobId: string): CompileRecordData | undefined {
+    this.ensureOpen();
+    return this.state.compiles[jobId];
+  }
+
+  // Newest first
+  getCompilesByProject(projectId: string): CompileRecordData[] {
+    this.ensureOpen();
+    return Object.values(this.state.compiles)
+      .filter(record => record.projectId === projectId)
+      .sort((a, b) => b.startTime.localeCompare(a.startTime));
+  }
+
+  deleteCompile(jobId: string): boolean {
+    if (!this.getCompile(jobId)) return false;
+    this.remove('compiles', jobId);
+    return true;
+  }
+
+  // Preferences
+  setPreference(key: string, value: string) {
+    this.put('preferences', key, value);
+  }
+
+  getPreference(key: string): string | undefined {
+    this.ensureOpen();
+    return this.state.preferences[key];
+  }
+
+  // Initialize with defaults, JSON-encoded like everything SettingsService writes
+  initializeDefaults() {
+    const defaults = {
+      'compile.timeout': 180000,
+      'compile.engine': 'pdflatex',
+      'compile.autoCompile': true,
+      'compile.autoCompileDelay': 750,
+      'security.shellEscape': false,
+      'tex.pdflatexPath': '',
+      'tex.xelatexPath': '',
+      'tex.lualatexPath': '',
+      'tex.latexmkPath': '',
+      'tex.biberPath': '',
+      'tex.bibtexPath': '',
+    };
+
+    for (const [key, value] of Object.entries(defaults)) {
+      if (this.getPreference(key) === undefined) {
+        this.setPreference(key, JSON.stringify(value));
+      }
+    }
+  }
+
+  private ensureOpen() {
+    if (!this.loaded) {
+      this.open();
+    }
+  }
+
+  private put(table: TableName, key: string, value: any) {
+    this.ensureOpen();
+    (this.state[table] as Record<string, any>)[key] = value;
+    this.append({ op: 'put', table, key, value });
+  }
+
+  private remove(table: TableName, key: string) {
+    this.ensureOpen();
+    delete (this.state[table] as Record<string, any>)[key];
+    this.append({ op: 'delete', table, key });
+  }
+
+  private append(entry: JournalEntry) {
+    if (this.readOnly || !this.dataDir) return;
+
+    try {
+      appendFileSync(this.journalPath(), JSON.stringify(entry) + '\n', 'utf8');
+      this.journalEntries++;
+
+      if (this.journalEntries >= MAX_JOURNAL_ENTRIES) {
+        this.compact();
+      }
+    } catch (error) {
+      console.error('[Database] Failed to write journal entry:', error);
+    }
+  }
+
+  private loadState() {
+    const statePath = join(this.dataDir!, 'db.json');
+    if (!existsSync(statePath)) return;
+
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(statePath, 'utf8'));
+    } catch (error) {
+      // Keep the unreadable file for inspection and start from the journal alone
+      const backupPath = `${statePath}.corrupt-${Date.now()}`;
+      copyFileSync(statePath, backupPath);
+      console.error(`[Database] db.json is unreadable, moved a copy to ${backupPath}:`, error);
+      return;
+    }
+
+    if (typeof raw.schemaVersion !== 'number') {
+      throw new Error('db.json has no schema version');
+    }
+    const version: number = raw.schemaVersion;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Database schema v${version} is newer than supported v${SCHEMA_VERSION}`);
+    }
+
+    if (version < SCHEMA_VERSION) {
+      // Back up before migrating so a failed upgrade can be rolled back by hand
+      copyFileSync(statePath, `${statePath}.v${version}.bak`);
+      for (let next = version + 1; next <= SCHEMA_VERSION; next++) {
+        console.log(`[Database] Migrating schema v${next - 1} -> v${next}`);
+        raw = { ...migrations[next](raw), schemaVersion: next };
+      }
+      this.state = raw;
+      this.journalEntries++; // Force a compaction so the migrated layout is written back
+      return;
+    }
+
+    this.state = raw;
+  }
+
+  private replayJournal() {
+    const journalPath = this.journalPath();
+    if (!existsSync(journalPath)) return;
+
+    const lines = readFileSync(journalPath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A torn final write from a crash; everything before it is intact
+        console.warn('[Database] Skipping unreadable journal entry');
+        continue;
+      }
+
+      const table = this.state[entry.table] as Record<string, any> | undefined;
+      if (!table) continue;
+
+      if (entry.op === 'put') {
+        table[entry.key] = entry.value;
+      } else if (entry.op === 'delete') {
+        delete table[entry.key];
+      }
+      this.journalEntries++;
+    }
+  }
+
+  private journalPath(): string {
+    return join(this.dataDir!, 'db.journal');
+  }
+}
+
+export const database = new Database();
@@ -0,0 +1,207 @@
+import { join } from 'path';
+import { readFile } from 'fs/promises';
+import { ProjectService } from './ProjectService';
+import { ProjectIndexService, FLOAT_ENVIRONMENTS, SECTION_LEVELS } from './ProjectIndexService';
+import { groupEnd, proseWords, scanLatex } from './LatexText';
+import { DocumentStatsDTO, SectionStatsDTO, WordCountDTO } from '../types';
+
+// Sub-floats are part of the figure or table around them
+const COUNTED_FLOATS = new Set(Object.keys(FLOAT_ENVIRONMENTS).filter(name => !name.startsWith('sub')));
+
+// Text before the first heading sits above every sectioning level
+const FRONT_MATTER_LEVEL = SECTION_LEVELS.part - 1;
+
+type CountEvent =
+  | { offset: number; kind: 'word'; field: 'textWords' | 'headerWords' | 'captionWords' }
+  | { offset: number; kind: 'heading'; command: string }
+  | { offset: number; kind: 'count'; field: 'floats' | 'inlineMath' | 'displayMath' }
+  | { offset: number; kind: 'include'; target: string };
+
+/**
+ * DocumentStatsService - word counts in the style of texcount. The include
+ * tree is followed from the main file, and each heading starts a new
+ * section. Words are split into text, header and caption words, and inline
+ * math, displayed math and floats are counted. Only the document body of
+ * the main file is counted, so the preamble's \title and macro definitions
+ * don't add to the total.
+ */
+export class DocumentStatsService {
+  constructor(
+    private projectService: ProjectService,
+    private projectIndexService: ProjectIndexService
+  ) {}
+
+  async getStats(projectId: string, unsaved: Record<string, string> = {}): Promise<DocumentStatsDTO> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const analysis = await this.projectIndexService.analyze(projectId, unsaved);
+    const { mainFile, files, outline } = analysis.index;
+
+    const total = DocumentStatsService.emptyCounts();
+    const sections: SectionStatsDTO[] = [{
+      title: '',
+      level: FRONT_MATTER_LEVEL,
+      file: files[0] || mainFile,
+      line: 1,
+      counts: DocumentStatsService.emptyCounts(),
+    }];
+    const counted: string[] = [];
+
+    const visit = async (relPath: string): Promise<void> => {
+      if (counted.includes(relPath)) return;
+      counted.push(relPath);
+
+      let content: string;
+      try {
+        content = relPath in unsaved ? unsaved[relPath] : await readFile(join(project.root, relPath), 'utf8');
+      } catch (error) {
+        console.warn(`[DocumentStatsService] Could not read ${relPath}:`, error);
+        return;
+      }
+
+      const lineStarts = [0];
+      for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') lineStarts.push(i + 1);
+      }
+      const lineAt = (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+          const mid = (low + high + 1) >> 1;
+          if (lineStarts[mid] <= offset) low = mid;
+          else high = mid - 1;
+        }
+        return low + 1;
+      };
+
+      for (const event of this.collectEvents(content, relPath === mainFile, analysis.includes
+        .filter(include => include.file === relPath && include.target)
+        .map(include => ({ offset: lineStarts[include.line] ?? content.length, target: include.target! })))) {
+        const current = sections[sections.length - 1];
+
+        switch (event.kind) {
+          case 'word':
+          case 'count':
+            current.counts[event.field]++;
+            total[event.field]++;
+            break;
+          case 'heading': {
+            const line = lineAt(event.offset);
+            const entry = outline.find(item =>
+              item.kind === 'section' && item.file === relPath && item.line === line && item.command === event.command
+            );
+            sections.push({
+              title: entry?.title || '',
+              command: event.command,
+              level: SECTION_LEVELS[event.command],
+              file: relPath,
+              line,
+              counts: { ...DocumentStatsService.emptyCounts(), headers: 1 },
+            });
+            total.headers++;
+            break;
+          }
+          case 'include':
+            await visit(event.target);
+            break;
+        }
+      }
+    };
+
+    if (files.includes(mainFile)) {
+      await visit(mainFile);
+    } else {
+      // Without a main file every .tex file is counted on its own
+      for (const relPath of files) {
+        await visit(relPath);
+      }
+    }
+
+    const front = sections[0];
+    if (sections.length > 1 && Object.values(front.counts).every(count => count === 0)) {
+      sections.shift();
+    }
+
+    return { projectId, files: counted, total, sections };
+  }
+
+  // Everything that counts in a file, in document order; includes sit at the end of their line
+  private collectEvents(
+    content: string,
+    isMainFile: boolean,
+    includes: Array<{ offset: number; target: string }>
+  ): CountEvent[] {
+    const { prose, math, commands } = scanLatex(content);
+
+    // The main file's preamble isn't part of the text
+    let start = 0;
+    let stop = content.length;
+    if (isMainFile) {
+      const begin = commands.find(command => command.name === 'begin' && command.environment === 'document');
+      const end = commands.find(command => command.name === 'end' && command.environment === 'document');
+      if (begin) start = begin.from;
+      if (end) stop = end.from;
+    }
+    const inBody = (offset: number) => offset >= start && offset < stop;
+
+    const events: CountEvent[] = [];
+    const headerRanges: Array<[number, number]> = [];
+    const captionRanges: Array<[number, number]> = [];
+
+    for (const command of commands) {
+      if (!inBody(command.from)) continue;
+
+      if (command.name in SECTION_LEVELS || command.name === 'caption') {
+        const argStart = groupEnd(content, command.end, '[', ']') ?? command.end;
+        const argEnd = groupEnd(content, argStart, '{', '}');
+        if (argEnd !== null) {
+          (command.name === 'caption' ? captionRanges : headerRanges).push([argStart, argEnd]);
+        }
+        if (command.name !== 'caption') {
+          events.push({ offset: command.from, kind: 'heading', command: command.name });
+        }
+      } else if (command.name === 'begin' && command.environment && COUNTED_FLOATS.has(command.environment)) {
+        events.push({ offset: command.from, kind: 'count', field: 'floats' });
+      }
+    }
+
+    const within = (ranges: Array<[number, number]>, offset: number) =>
+      ranges.some(([from, to]) => offset >= from && offset < to);
+
+    for (const word of proseWords(prose)) {
+      if (!inBody(word.from)) continue;
+      const field = within(headerRanges, word.from) ? 'headerWords'
+        : within(captionRanges, word.from) ? 'captionWords'
+        : 'textWords';
+      events.push({ offset: word.from, kind: 'word', field });
+    }
+
+    for (const span of math) {
+      if (!inBody(span.from)) continue;
+      events.push({ offset: span.from, kind: 'count', field: span.display ? 'displayMath' : 'inlineMath' });
+    }
+
+    for (const include of includes) {
+      if (inBody(include.offset - 1)) {
+        events.push({ offset: include.offset - 1, kind: 'include', target: include.target });
+      }
+    }
+
+    return events.sort((a, b) => a.offset - b.offset);
+  }
+
+  private static emptyCounts(): WordCountDTO {
+    return {
+      textWords: 0,
+      headerWords: 0,
+      captionWords: 0,
+      headers: 0,
+      floats: 0,
+      inlineMath: 0,
+      displayMath: 0,
+    };
+  }
+}
@@ -148,7 +148,7 @@ export class FileService {
       // Trigger auto-compile for .tex files if auto-compile service is available
       if (this.autoCompileService && relPath.endsWith('.tex')) {
         console.log(`[FileService] Triggering auto-compile for .tex file: ${relPath}`);
-        this.autoCompileService.triggerCompile(projectId);
+        this.autoCompileService.triggerCompile(projectId, relPath);
       }
       
       // For autosave, use a longer timeout to avoid false positives
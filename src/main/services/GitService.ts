@@ -0,0 +1,398 @@
+import { spawn } from 'child_process';
+import { join, normalize, isAbsolute } from 'path';
+import { readFile } from 'fs/promises';
+import { DiffHunkDTO, GitBranchesDTO, GitCommitDTO, GitFileDiffDTO, GitFileStatusDTO, GitStatusDTO } from '../types';
+import { ProjectService } from './ProjectService';
+import { diffLines } from './TextDiff';
+
+const GIT_TIMEOUT_MS = 30000;
+
+// Untracked text files above this size are listed without a diff
+const MAX_UNTRACKED_DIFF_BYTES = 1024 * 1024;
+
+// Porcelain XY pairs that mean an unresolved merge conflict
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+interface GitResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+interface RepoInfo {
+  root: string; // Project root, the working directory for every command
+  prefix: string; // Project root relative to the repository top level, '' or 'dir/'
+}
+
+/**
+ * GitService - runs the git executable against a project's local repository
+ * for the Git panel. Paths in and out are project-relative, also when the
+ * project is a subfolder of a larger repository.
+ */
+export class GitService {
+  private projectService: ProjectService;
+
+  constructor(projectService?: ProjectService) {
+    this.projectService = projectService || new ProjectService();
+  }
+
+  async status(projectId: string): Promise<GitStatusDTO> {
+    const empty: GitStatusDTO = { available: true, isRepo: false, branch: null, ahead: 0, behind: 0, files: [] };
+
+    let repo: RepoInfo | null;
+    try {
+      repo = await this.getRepo(projectId);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { ...empty, available: false };
+      }
+      throw error;
+    }
+    if (!repo) return empty;
+
+    const result = await this.run(repo.root, ['status', '--porcelain=v1', '-b', '-z', '--untracked-files=all', '--', '.']);
+    return { ...empty, isRepo: true, ...this.parseStatus(result.stdout, repo.prefix) };
+  }
+
+  async stage(projectId: string, paths: string[]): Promise<{ ok: boolean }> {
+    const repo = await this.requireRepo(projectId);
+    // -A so deleted files are staged as deletions
+    await this.run(repo.root, ['add', '-A', '--', ...this.validatePaths(paths)]);
+    return { ok: true };
+  }
+
+  async unstage(projectId: string, paths: string[]): Promise<{ ok: boolean }> {
+    const repo = await this.requireRepo(projectId);
+    await this.run(repo.root, ['reset', '-q', '--', ...this.validatePaths(paths)]);
+    return { ok: true };
+  }
+
+  async commit(projectId: string, message: string): Promise<{ hash: string }> {
+    if (!message.trim()) {
+      throw new Error('Commit message is required');
+    }
+
+    const repo = await this.requireRepo(projectId);
+    await this.run(repo.root, ['commit', '-q', '-m', message]);
+
+    const head = await this.run(repo.root, ['rev-parse', 'HEAD']);
+    const hash = head.stdout.trim();
+    console.log(`[GitService] Committed ${hash.substring(0, 7)} in ${repo.root}`);
+    return { hash };
+  }
+
+  /**
+   * Diff of one file: staged (index against HEAD) or unstaged (working tree
+   * against the index). Untracked files are shown as entirely added
+   */
+  async diff(projectId: string, relPath: string, staged: boolean): Promise<GitFileDiffDTO | null> {
+    const repo = await this.requireRepo(projectId);
+    const [path] = this.validatePaths([relPath]);
+
+    const args = ['diff', '--no-color', '--no-ext-diff', '--relative', '-M'];
+    if (staged) args.push('--cached');
+    const result = await this.run(repo.root, [...args, '--', path]);
+    const files = this.parseUnifiedDiff(result.stdout);
+    if (files.length > 0 || staged) {
+      return files[0] || null;
+    }
+
+    // git diff says nothing about untracked files
+    const tracked = await this.run(repo.root, ['ls-files', '--error-unmatch', '--', path], true);
+    if (tracked.code === 0) return null;
+
+    const content = await readFile(join(repo.root, path));
+    const binary = content.subarray(0, 8000).includes(0);
+    return {
+      path,
+      status: 'added',
+      binary,
+      hunks: binary || content.length > MAX_UNTRACKED_DIFF_BYTES ? [] : diffLines('', content.toString('utf8')),
+    };
+  }
+
+  async log(projectId: string, limit = 100): Promise<GitCommitDTO[]> {
+    const repo = await this.requireRepo(projectId);
+
+    // Unit and record separators keep subjects with any punctuation intact
+    const format = ['%H', '%h', '%an', '%ae', '%at', '%D', '%s'].join('%x1f') + '%x1e';
+    const result = await this.run(repo.root, ['log', `-n${Math.max(1, Math.floor(limit))}`, `--format=${format}`], true);
+    if (result.code !== 0) {
+      // A repository without commits has no log
+      return [];
+    }
+
+    return result.stdout
+      .split('\x1e')
+      .map(record => record.replace(/^\n/, ''))
+      .filter(record => record.length > 0)
+      .map(record => {
+        const [hash, shortHash, author, email, time, refs, subject] = record.split('\x1f');
+        return {
+          hash,
+          shortHash,
+          author,
+          email,
+          timestamp: parseInt(time) * 1000,
+          subject: subject || '',
+          refs: refs ? refs.split(', ').filter(Boolean) : [],
+        };
+      });
+  }
+
+  // Files changed by a commit; merges are compared with their first parent
+  async showCommit(projectId: string, hash: string): Promise<GitFileDiffDTO[]> {
+    if (!/^[0-9a-f]{4,40}$/i.test(hash)) {
+      throw new Error(`Invalid commit: ${hash}`);
+    }
+
+    const repo = await this.requireRepo(projectId);
+    const result = await this.run(repo.root, [
+      'show', '--format=', '--no-color', '--no-ext-diff', '--relative', '-M', '-m', '--first-parent', hash,
+    ]);
+    return this.parseUnifiedDiff(result.stdout);
+  }
+
+  async branches(projectId: string): Promise<GitBranchesDTO> {
+    const repo = await this.requireRepo(projectId);
+
+    const list = await this.run(repo.root, ['branch', '--format=%(refname:short)']);
+    const head = await this.run(repo.root, ['symbolic-ref', '--short', '-q', 'HEAD'], true);
+    const current = head.code === 0 ? head.stdout.trim() : null;
+
+    const branches = list.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+    // An unborn branch has no ref yet but is still the current one
+    if (current && !branches.includes(current)) {
+      branches.unshift(current);
+    }
+
+    return { current, branches };
+  }
+
+  async checkout(projectId: string, branch: string, create = false): Promise<{ ok: boolean }> {
+    const name = branch.trim();
+    if (!name || name.startsWith('-')) {
+      throw new Error(`Invalid branch name: ${branch}`);
+    }
+
+    const repo = await this.requireRepo(projectId);
+    if (create) {
+      const valid = await this.run(repo.root, ['check-ref-format', '--branch', name], true);
+      if (valid.code !== 0) {
+        throw new Error(`Invalid branch name: ${branch}`);
+      }
+    }
+
+    // Trailing -- so the name is never taken for a path
+    await this.run(repo.root, create ? ['checkout', '-q', '-b', name, '--'] : ['checkout', '-q', name, '--']);
+    console.log(`[GitService] Switched ${repo.root} to ${name}`);
+    return { ok: true };
+  }
+
+  private async getRepo(projectId: string): Promise<RepoInfo | null> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const result = await this.run(project.root, ['rev-parse', '--show-prefix'], true);
+    if (result.code !== 0) return null;
+
+    return { root: project.root, prefix: result.stdout.trim() };
+  }
+
+  private async requireRepo(projectId: string): Promise<RepoInfo> {
+    const repo = await this.getRepo(projectId);
+    if (!repo) {
+      throw new Error('Project is not a git repository');
+    }
+    return repo;
+  }
+
+  private validatePaths(paths: string[]): string[] {
+    if (paths.length === 0) {
+      throw new Error('No files given');
+    }
+
+    return paths.map(path => {
+      const safePath = normalize(path).replace(/\\/g, '/');
+      if (isAbsolute(safePath) || safePath.startsWith('..')) {
+        throw new Error(`Invalid file path: ${path}`);
+      }
+      return safePath;
+    });
+  }
+
+  // Runs git without a shell; rejects on a non-zero exit unless allowFailure is set
+  private run(cwd: string, args: string[], allowFailure = false): Promise<GitResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', ['-c', 'core.quotepath=false', ...args], {
+        cwd,
+        shell: false,
+        // Never wait on a credential or editor prompt nobody can answer
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_EDITOR: 'true' },
+      });
+
+      let stdout = '';
+      let stderr = '';
+      child.stdout?.on('data', (data) => { stdout += data.toString(); });
+      child.stderr?.on('data', (data) => { stderr += data.toString(); });
+
+      const timeout = setTimeout(() => {
+        child.kill('SIGTERM');
+        reject(new Error(`git ${args[0]} timed out`));
+      }, GIT_TIMEOUT_MS);
+
+      child.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timeout);
+        if (code !== 0 && !allowFailure) {
+          reject(new Error(stderr.trim() || stdout.trim() || `git ${args[0]} failed with code ${code}`));
+          return;
+        }
+        resolve({ code: code ?? 1, stdout, stderr });
+      });
+    });
+  }
+
+  private parseStatus(output: string, prefix: string): Pick<GitStatusDTO, 'branch' | 'upstream' | 'ahead' | 'behind' | 'files'> {
+    const status: Pick<GitStatusDTO, 'branch' | 'upstream' | 'ahead' | 'behind' | 'files'> = {
+      branch: null,
+      ahead: 0,
+      behind: 0,
+      files: [],
+    };
+    const entries = output.split('\0');
+    const toProjectPath = (path: string) => path.startsWith(prefix) ? path.substring(prefix.length) : path;
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (!entry) continue;
+
+      if (entry.startsWith('## ')) {
+        this.parseBranchHeader(entry.substring(3), status);
+        continue;
+      }
+
+      const index = entry[0];
+      const workingTree = entry[1];
+      const file: GitFileStatusDTO = {
+        path: toProjectPath(entry.substring(3)),
+        index,
+        workingTree,
+        staged: false,
+        unstaged: false,
+        conflicted: CONFLICT_CODES.has(index + workingTree),
+      };
+
+      // Renames and copies are followed by their source path
+      if (index === 'R' || index === 'C') {
+        file.oldPath = toProjectPath(entries[++i]);
+      }
+
+      file.staged = !file.conflicted && index !== ' ' && index !== '?';
+      file.unstaged = file.conflicted || workingTree !== ' ';
+      status.files.push(file);
+    }
+
+    return status;
+  }
+
+  private parseBranchHeader(header: string, status: Pick<GitStatusDTO, 'branch' | 'upstream' | 'ahead' | 'behind'>) {
+    const unborn = header.match(/^No commits yet on (.+)$/) || header.match(/^Initial commit on (.+)$/);
+    if (unborn) {
+      status.branch = unborn[1];
+      return;
+    }
+    if (header.startsWith('HEAD (no branch)')) {
+      return;
+    }
+
+    const tracking = header.match(/ \[(.+)\]$/);
+    if (tracking) {
+      header = header.substring(0, header.length - tracking[0].length);
+      status.ahead = parseInt(tracking[1].match(/ahead (\d+)/)?.[1] || '0');
+      status.behind = parseInt(tracking[1].match(/behind (\d+)/)?.[1] || '0');
+    }
+
+    const [branch, upstream] = header.split('...');
+    status.branch = branch;
+    if (upstream) status.upstream = upstream;
+  }
+
+  // Parse `git diff` / `git show` output into the same hunk model as snapshot diffs
+  private parseUnifiedDiff(output: string): GitFileDiffDTO[] {
+    const files: GitFileDiffDTO[] = [];
+    let file: GitFileDiffDTO | null = null;
+    let hunk: DiffHunkDTO | null = null;
+    let oldLine = 0;
+    let newLine = 0;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+
+    for (const line of output.split('\n')) {
+      // Inside a hunk the line counts decide, so content like "--- x" is never a header
+      if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+        if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+
+        const text = line.substring(1);
+        if (line.startsWith('+')) {
+          hunk.lines.push({ type: 'add', newLine: newLine++, text });
+          newRemaining--;
+        } else if (line.startsWith('-')) {
+          hunk.lines.push({ type: 'remove', oldLine: oldLine++, text });
+          oldRemaining--;
+        } else {
+          hunk.lines.push({ type: 'context', oldLine: oldLine++, newLine: newLine++, text });
+          oldRemaining--;
+          newRemaining--;
+        }
+        continue;
+      }
+
+      const header = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+      if (header) {
+        file = { path: header[2], status: 'modified', binary: false, hunks: [] };
+        files.push(file);
+        hunk = null;
+        continue;
+      }
+      if (!file) continue;
+
+      const range = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (range) {
+        hunk = {
+          oldStart: parseInt(range[1]),
+          oldLines: range[2] !== undefined ? parseInt(range[2]) : 1,
+          newStart: parseInt(range[3]),
+          newLines: range[4] !== undefined ? parseInt(range[4]) : 1,
+          lines: [],
+        };
+        file.hunks.push(hunk);
+        oldLine = hunk.oldStart;
+        newLine = hunk.newStart;
+        oldRemaining = hunk.oldLines;
+        newRemaining = hunk.newLines;
+      } else if (line.startsWith('new file mode')) {
+        file.status = 'added';
+      } else if (line.startsWith('deleted file mode')) {
+        file.status = 'removed';
+      } else if (line.startsWith('rename from ')) {
+        file.status = 'renamed';
+        file.oldPath = line.substring('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        file.path = line.substring('rename to '.length);
+      } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true;
+      } else if (line.startsWith('+++ b/')) {
+        file.path = line.substring('+++ b/'.length);
+      }
+    }
+
+    return files;
+  }
+}
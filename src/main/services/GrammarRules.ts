@@ -0,0 +1,88 @@
+import { LatexWord } from './LatexText';
+
+export interface GrammarIssue {
+  word: string; // The flagged text
+  from: number;
+  to: number;
+  message: string;
+  suggestions: string[];
+}
+
+// Words starting with a vowel letter that are said with a consonant, and the
+// other way round; words whose sound can't be told from the spelling (u..., eu...)
+// are left alone
+const CONSONANT_SOUND = /^(one|once|ouija)/i;
+const VOWEL_SOUND = /^(hour|honest|honou?r|heir)/i;
+
+// A comma or semicolon followed by another mark, or two full stops that are
+// neither part of an ellipsis nor a relative path
+const DOUBLED_PUNCTUATION = /[,;](?:[,;]|\.(?!\.))|(?<!\.)\.\.(?![./\\])/g;
+
+/**
+ * Rule-based grammar checks on the prose of a LaTeX source: "a" or "an"
+ * before a word that needs the other article (English only) and doubled
+ * punctuation. `words` are the prose words of `content`, in order. The
+ * rules only flag clear cases; anything they can't decide is let through.
+ */
+export function grammarIssues(content: string, prose: string, words: LatexWord[], language: string): GrammarIssue[] {
+  const issues: GrammarIssue[] = [];
+
+  if (/^en(?:[_-]|$)/i.test(language)) {
+    for (let i = 0; i + 1 < words.length; i++) {
+      const article = words[i];
+      const expected = expectedArticle(words[i + 1].word);
+      const gap = content.substring(article.to, words[i + 1].from);
+      if (!expected || !/^\s+$/.test(gap) || /\n\s*\n/.test(gap)) continue;
+
+      const lower = article.word.toLowerCase();
+      if ((lower !== 'a' && lower !== 'an') || lower === expected) continue;
+      // A capital A inside a sentence is more likely a name, as in "appendix A"
+      if (article.word !== lower && !startsSentence(prose, article.from)) continue;
+
+      const suggestion = article.word === lower ? expected : expected[0].toUpperCase() + expected.slice(1);
+      issues.push({
+        word: article.word,
+        from: article.from,
+        to: article.to,
+        message: `Use "${suggestion}" before "${words[i + 1].word}"`,
+        suggestions: [suggestion],
+      });
+    }
+  }
+
+  for (const match of prose.matchAll(DOUBLED_PUNCTUATION)) {
+    const marks = match[0];
+    issues.push({
+      word: marks,
+      from: match.index!,
+      to: match.index! + marks.length,
+      message: `"${marks}" has one punctuation mark too many`,
+      suggestions: [marks[marks.length - 1]],
+    });
+  }
+
+  return issues.sort((a, b) => a.from - b.from);
+}
+
+// The article a word takes, or null when the spelling doesn't tell
+function expectedArticle(word: string): 'a' | 'an' | null {
+  // Single letters and acronyms are read letter by letter ("an x-axis", "an FPGA")
+  if (word.length < 2 || word === word.toUpperCase() || !/^\p{L}/u.test(word)) return null;
+
+  if (VOWEL_SOUND.test(word)) return 'an';
+  if (CONSONANT_SOUND.test(word)) return 'a';
+  if (/^[aeio]/i.test(word)) return /^eu/i.test(word) ? null : 'an';
+  // Other letters (u, h, accented letters) don't tell the sound
+  return /^[b-df-gj-np-tv-z]/i.test(word) ? 'a' : null;
+}
+
+// Whether pos is the first word of a sentence or paragraph
+function startsSentence(prose: string, pos: number): boolean {
+  let i = pos - 1;
+  let newlines = 0;
+  while (i >= 0 && /\s/.test(prose[i])) {
+    if (prose[i] === '\n') newlines++;
+    i--;
+  }
+  return i < 0 || newlines >= 2 || '.!?'.includes(prose[i]);
+}
@@ -0,0 +1,338 @@
+import { readFile } from 'fs/promises';
+
+// Suggestions offered for a misspelled word
+const MAX_SUGGESTIONS = 6;
+// Misspelled words whose suggestions are kept; the least recently used are dropped first
+const MAX_CACHED_SUGGESTIONS = 500;
+
+interface AffixRule {
+  flag: string;
+  strip: string;
+  add: string;
+  condition: RegExp | null;
+  crossProduct: boolean;
+}
+
+type FlagType = 'short' | 'long' | 'num' | 'UTF-8';
+
+/**
+ * A Hunspell dictionary (.aff + .dic pair) with word lookup and suggestions.
+ * Covers what common language dictionaries rely on: prefix and suffix rules
+ * (including one prefix combined with one suffix), REP and TRY based
+ * suggestions, and the NOSUGGEST, FORBIDDENWORD, KEEPCASE, NEEDAFFIX and
+ * ONLYINCOMPOUND flags. Compounding rules are not supported, so words that
+ * only exist as compound parts are never accepted on their own.
+ */
+export class Hunspell {
+  private words = new Map<string, Set<string>[]>(); // A word can be listed more than once with different flags
+  private casedWords = new Map<string, string[]>(); // Lowercase form -> listed words with capitals, e.g. latex -> LaTeX
+  private prefixes: AffixRule[] = [];
+  private suffixes: AffixRule[] = [];
+  private replacements: Array<[RegExp, string]> = [];
+  private tryChars = '';
+  private flagType: FlagType = 'short';
+  private noSuggestFlag?: string;
+  private forbiddenFlag?: string;
+  private keepCaseFlag?: string;
+  private needAffixFlag?: string;
+  private onlyInCompoundFlag?: string;
+  private suggestionCache = new Map<string, string[]>();
+
+  static async load(affPath: string, dicPath: string): Promise<Hunspell> {
+    const dictionary = new Hunspell();
+    const aff = await Hunspell.readDictionaryFile(affPath);
+    dictionary.parseAffix(aff);
+
+    // SET is declared in the .aff file and applies to the .dic file as well
+    const encoding = /^SET\s+(\S+)/m.exec(aff)?.[1];
+    dictionary.parseDictionary(await Hunspell.readDictionaryFile(dicPath, encoding));
+    return dictionary;
+  }
+
+  check(word: string): boolean {
+    if (this.checkExact(word)) return true;
+
+    // Sentence-initial capitals and shouted words are accepted if the lowercase word is
+    const lower = word.toLowerCase();
+    if (lower === word) return false;
+
+    const capitalized = lower.charAt(0).toUpperCase() + lower.slice(1);
+    const isCapitalized = word === capitalized;
+    const isUpper = word === word.toUpperCase();
+    if (!isCapitalized && !isUpper) return false;
+
+    if (this.checkExact(lower, true)) return true;
+    return isUpper && capitalized !== word && this.checkExact(capitalized, true);
+  }
+
+  suggest(word: string): string[] {
+    const cached = this.suggestionCache.get(word);
+    if (cached) {
+      // Maps iterate in insertion order, so re-inserting marks the word as recently used
+      this.suggestionCache.delete(word);
+      this.suggestionCache.set(word, cached);
+      return cached;
+    }
+
+    const suggestions: string[] = [];
+    const add = (candidate: string) => {
+      if (candidate && candidate !== word && !suggestions.includes(candidate) && this.isSuggestible(candidate)) {
+        suggestions.push(candidate);
+      }
+    };
+
+    // Only the capitalization is wrong
+    for (const cased of this.casedWords.get(word.toLowerCase()) || []) {
+      add(cased);
+    }
+
+    // Then typical misspellings listed by the dictionary
+    for (const [pattern, replacement] of this.replacements) {
+      for (let match = pattern.exec(word); match; match = pattern.exec(word)) {
+        add(word.slice(0, match.index) + replacement + word.slice(match.index + match[0].length));
+        if (match[0].length === 0) pattern.lastIndex++;
+      }
+      pattern.lastIndex = 0;
+    }
+
+    const lower = word.toLowerCase();
+    const letters = this.tryChars || 'esianrtolcdugmphbyfvkwzESIANRTOLCDUGMPHBYFVKWZ';
+
+    for (let i = 0; i < word.length - 1; i++) {
+      add(word.slice(0, i) + word[i + 1] + word[i] + word.slice(i + 2)); // Swapped letters
+    }
+    for (let i = 0; i < word.length; i++) {
+      add(word.slice(0, i) + word.slice(i + 1)); // Extra letter
+      for (const char of letters) {
+        if (char !== word[i]) add(word.slice(0, i) + char + word.slice(i + 1)); // Wrong letter
+      }
+    }
+    for (let i = 0; i <= word.length; i++) {
+      for (const char of letters) {
+        add(word.slice(0, i) + char + word.slice(i)); // Missing letter
+      }
+    }
+    if (lower !== word) add(lower);
+
+    // Two words run together
+    for (let i = 1; i < word.length; i++) {
+      const first = word.slice(0, i);
+      const second = word.slice(i);
+      if (first.length > 1 && second.length > 1 && this.isSuggestible(first) && this.isSuggestible(second)) {
+        suggestions.push(`${first} ${second}`);
+      }
+    }
+
+    const result = suggestions.slice(0, MAX_SUGGESTIONS);
+    if (this.suggestionCache.size >= MAX_CACHED_SUGGESTIONS) {
+      this.suggestionCache.delete(this.suggestionCache.keys().next().value!);
+    }
+    this.suggestionCache.set(word, result);
+    return result;
+  }
+
+  private isSuggestible(word: string): boolean {
+    if (!this.check(word)) return false;
+    if (!this.noSuggestFlag) return true;
+    const entries = this.words.get(word) || this.words.get(word.toLowerCase());
+    return !entries || entries.some(flags => !flags.has(this.noSuggestFlag!));
+  }
+
+  private checkExact(word: string, caseChanged = false): boolean {
+    // The word as listed in the dictionary
+    for (const flags of this.words.get(word) || []) {
+      if (this.isStandalone(flags, caseChanged) && !this.hasFlag(flags, this.needAffixFlag)) return true;
+    }
+
+    // A stem with one suffix, optionally combined with a prefix
+    for (const suffix of this.suffixes) {
+      const stem = this.stripSuffix(word, suffix);
+      if (stem === null) continue;
+      if (this.hasStemWithFlag(stem, suffix.flag, caseChanged)) return true;
+
+      if (suffix.crossProduct) {
+        for (const prefix of this.prefixes) {
+          if (!prefix.crossProduct) continue;
+          const root = this.stripPrefix(stem, prefix);
+          if (root !== null && this.hasStemWithFlags(root, [prefix.flag, suffix.flag], caseChanged)) return true;
+        }
+      }
+    }
+
+    // A stem with one prefix
+    for (const prefix of this.prefixes) {
+      const stem = this.stripPrefix(word, prefix);
+      if (stem !== null && this.hasStemWithFlag(stem, prefix.flag, caseChanged)) return true;
+    }
+
+    return false;
+  }
+
+  private hasStemWithFlag(stem: string, flag: string, caseChanged: boolean): boolean {
+    return this.hasStemWithFlags(stem, [flag], caseChanged);
+  }
+
+  private hasStemWithFlags(stem: string, required: string[], caseChanged: boolean): boolean {
+    return (this.words.get(stem) || []).some(flags =>
+      this.isStandalone(flags, caseChanged) && required.every(flag => flags.has(flag))
+    );
+  }
+
+  private isStandalone(flags: Set<string>, caseChanged: boolean): boolean {
+    if (this.hasFlag(flags, this.forbiddenFlag) || this.hasFlag(flags, this.onlyInCompoundFlag)) return false;
+    return !(caseChanged && this.hasFlag(flags, this.keepCaseFlag));
+  }
+
+  private hasFlag(flags: Set<string>, flag: string | undefined): boolean {
+    return flag !== undefined && flags.has(flag);
+  }
+
+  private stripSuffix(word: string, rule: AffixRule): string | null {
+    if (!word.endsWith(rule.add) || word.length <= rule.add.length) return null;
+    const stem = word.slice(0, word.length - rule.add.length) + rule.strip;
+    return !rule.condition || rule.condition.test(stem) ? stem : null;
+  }
+
+  private stripPrefix(word: string, rule: AffixRule): string | null {
+    if (!word.startsWith(rule.add) || word.length <= rule.add.length) return null;
+    const stem = rule.strip + word.slice(rule.add.length);
+    return !rule.condition || rule.condition.test(stem) ? stem : null;
+  }
+
+  private parseAffix(content: string): void {
+    const lines = content.split(/\r?\n/);
+    // FLAG must be known before any flag is read
+    const flagLine = lines.find(line => /^FLAG\s/.test(line));
+    if (flagLine) this.flagType = flagLine.split(/\s+/)[1] as FlagType;
+
+    for (let i = 0; i < lines.length; i++) {
+      const parts = lines[i].replace(/^\uFEFF/, '').trim().split(/\s+/);
+      switch (parts[0]) {
+        case 'TRY':
+          this.tryChars = parts[1] || '';
+          break;
+        case 'NOSUGGEST':
+          this.noSuggestFlag = this.parseFlags(parts[1] || '')[0];
+          break;
+        case 'FORBIDDENWORD':
+          this.forbiddenFlag = this.parseFlags(parts[1] || '')[0];
+          break;
+        case 'KEEPCASE':
+          this.keepCaseFlag = this.parseFlags(parts[1] || '')[0];
+          break;
+        case 'NEEDAFFIX':
+          this.needAffixFlag = this.parseFlags(parts[1] || '')[0];
+          break;
+        case 'ONLYINCOMPOUND':
+          this.onlyInCompoundFlag = this.parseFlags(parts[1] || '')[0];
+          break;
+        case 'REP': {
+          // The header line carries a count, the entries a pattern and its replacement
+          if (parts.length < 3) break;
+          const pattern = parts[1].replace(/_/g, ' ');
+          const anchoredStart = pattern.startsWith('^');
+          const anchoredEnd = pattern.endsWith('$');
+          const literal = pattern.replace(/^\^/, '').replace(/\$$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          this.replacements.push([
+            new RegExp(`${anchoredStart ? '^' : ''}${literal}${anchoredEnd ? '$' : ''}`, 'g'),
+            parts[2].replace(/_/g, ' '),
+          ]);
+          break;
+        }
+        case 'PFX':
+        case 'SFX': {
+          const [type, flag, crossProduct, countText] = parts;
+          const count = parseInt(countText, 10);
+          if (isNaN(count)) break;
+
+          for (let j = 0; j < count && i + 1 < lines.length; j++) {
+            const rule = lines[++i].trim().split(/\s+/);
+            if (rule[0] !== type || rule.length < 4) continue;
+
+            const strip = rule[2] === '0' ? '' : rule[2];
+            // Continuation flags on the affix (add/flags) are not supported
+            const add = rule[3] === '0' ? '' : rule[3].split('/')[0];
+            const condition = rule[4] && rule[4] !== '.'
+              ? new RegExp(type === 'SFX' ? `${Hunspell.conditionPattern(rule[4])}$` : `^${Hunspell.conditionPattern(rule[4])}`)
+              : null;
+            (type === 'SFX' ? this.suffixes : this.prefixes).push({
+              flag: this.parseFlags(flag)[0],
+              strip,
+              add,
+              condition,
+              crossProduct: crossProduct === 'Y',
+            });
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  private parseDictionary(content: string): void {
+    const lines = content.split(/\r?\n/);
+    // The first line is the approximate word count
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i].replace(/^\uFEFF/, '');
+      if (!line.trim() || line.startsWith('\t')) continue;
+
+      // Morphological fields follow the word after whitespace; a slash can be escaped
+      const entry = line.split(/\s+/)[0];
+      const slash = entry.search(/(?<!\\)\//);
+      const word = (slash === -1 ? entry : entry.slice(0, slash)).replace(/\\\//g, '/');
+      const flags = new Set(slash === -1 ? [] : this.parseFlags(entry.slice(slash + 1)));
+      if (!word) continue;
+
+      const existing = this.words.get(word);
+      if (existing) existing.push(flags);
+      else this.words.set(word, [flags]);
+
+      const lower = word.toLowerCase();
+      if (lower !== word) {
+        this.casedWords.set(lower, [...(this.casedWords.get(lower) || []), word]);
+      }
+    }
+  }
+
+  private parseFlags(text: string): string[] {
+    switch (this.flagType) {
+      case 'long':
+        return text.match(/../g) || [];
+      case 'num':
+        return text.split(',').filter(Boolean);
+      default:
+        return [...text];
+    }
+  }
+
+  // Hunspell conditions are a small regex subset: letters, '.', [abc] and [^abc]
+  private static conditionPattern(condition: string): string {
+    let pattern = '';
+    let inClass = false;
+    for (const char of condition) {
+      if (char === '[') {
+        inClass = true;
+        pattern += char;
+      } else if (char === ']') {
+        inClass = false;
+        pattern += char;
+      } else if (char === '.' && !inClass) {
+        pattern += '.';
+      } else if (char === '^' && inClass && pattern.endsWith('[')) {
+        pattern += '^';
+      } else {
+        pattern += char.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+      }
+    }
+    return pattern;
+  }
+
+  private static async readDictionaryFile(path: string, encoding?: string): Promise<string> {
+    const buffer = await readFile(path);
+    const declared = encoding || /^SET\s+(\S+)/m.exec(buffer.toString('latin1'))?.[1];
+    // Older dictionaries use a single-byte encoding; Latin-1 is the common one
+    return declared && /^ISO8859-1$|^ISO-8859-1$/i.test(declared)
+      ? buffer.toString('latin1')
+      : buffer.toString('utf8');
+  }
+}
@@ -0,0 +1,252 @@
+import { REF_COMMANDS, CITE_COMMANDS, SECTION_LEVELS } from './ProjectIndexService';
+
+// Environments whose body is code or drawing commands rather than prose
+const VERBATIM_ENVIRONMENTS = new Set([
+  'verbatim', 'Verbatim', 'lstlisting', 'minted', 'comment', 'alltt', 'tikzpicture', 'pgfpicture',
+]);
+// Math environments, and whether they are displayed
+const MATH_ENVIRONMENTS: Record<string, boolean> = {
+  'math': false,
+  'displaymath': true,
+  'equation': true,
+  'align': true,
+  'alignat': true,
+  'flalign': true,
+  'gather': true,
+  'multline': true,
+  'eqnarray': true,
+  'dmath': true,
+};
+
+// Commands whose arguments are keys, paths or settings rather than text
+const SKIP_ARGUMENT_COMMANDS = new Set([
+  ...REF_COMMANDS, ...CITE_COMMANDS,
+  'label', 'bibitem', 'documentclass', 'usepackage', 'RequirePackage', 'input', 'include', 'includeonly',
+  'subfile', 'import', 'subimport', 'includegraphics', 'bibliography', 'bibliographystyle', 'addbibresource',
+  'url', 'path', 'nolinkurl', 'definecolor', 'colorlet', 'setlength', 'addtolength', 'setcounter',
+  'addtocounter', 'pagestyle', 'thispagestyle', 'pagenumbering', 'hypersetup', 'geometry', 'graphicspath',
+  'hspace', 'vspace', 'newcounter', 'usetikzlibrary', 'lstset', 'setminted', 'newcommand', 'renewcommand',
+  'providecommand', 'DeclareRobustCommand', 'DeclareMathOperator', 'newenvironment', 'renewenvironment',
+]);
+// Commands whose first argument is a key or colour, followed by text
+const SKIP_FIRST_ARGUMENT_COMMANDS = new Set(['href', 'textcolor', 'colorbox', 'newtheorem', 'foreignlanguage']);
+// Commands whose optional argument repeats the text of the mandatory one, e.g. \section[Short]{Long title}
+const SHORT_FORM_COMMANDS = new Set([...Object.keys(SECTION_LEVELS), 'caption']);
+
+// \'e, \"o and friends split a word; such words are left out rather than split
+const ACCENT_COMMANDS = new Set(["'", '"', '^', '`', '~', '=', '.']);
+
+export interface LatexWord {
+  word: string;
+  from: number;
+  to: number;
+}
+
+export interface LatexMath {
+  display: boolean;
+  from: number;
+  to: number;
+}
+
+// A command outside comments, math and verbatim text
+export interface LatexCommand {
+  name: string;
+  from: number; // The backslash
+  end: number; // Just past the name and any star
+  environment?: string; // For \begin and \end
+}
+
+export interface LatexScan {
+  prose: string; // The source with everything that isn't prose blanked out; offsets and line breaks are kept
+  math: LatexMath[];
+  commands: LatexCommand[];
+}
+
+// Words of the prose in a LaTeX source, with their offsets
+export function proseWords(prose: string): LatexWord[] {
+  const words: LatexWord[] = [];
+  const pattern = /[\p{L}\p{M}\d][\p{L}\p{M}\d'’]*/gu;
+
+  for (let match = pattern.exec(prose); match; match = pattern.exec(prose)) {
+    // Closing quotes ('') and trailing apostrophes aren't part of the word
+    const word = match[0].replace(/['’]+$/, '');
+    words.push({ word, from: match.index, to: match.index + word.length });
+  }
+  return words;
+}
+
+// End of the group opening at the first non-space character after pos, if any
+export function groupEnd(text: string, pos: number, open: string, close: string): number | null {
+  let start = pos;
+  while (start < text.length && (text[start] === ' ' || text[start] === '\t')) start++;
+  if (text[start] !== open) return null;
+
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === open) {
+      depth++;
+    } else if (text[i] === close && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return null;
+}
+
+/**
+ * Separate the prose of a LaTeX source from its markup: comments, math,
+ * verbatim text, command names and arguments that hold keys, paths or
+ * settings are blanked out. Math and the remaining commands are reported
+ * with their offsets.
+ */
+export function scanLatex(content: string): LatexScan {
+  const chars = content.split('');
+  const math: LatexMath[] = [];
+  const commands: LatexCommand[] = [];
+  const blank = (from: number, to: number) => {
+    for (let i = Math.max(0, from); i < Math.min(to, chars.length); i++) {
+      if (chars[i] !== '\n') chars[i] = ' ';
+    }
+  };
+  const isLetter = (char: string | undefined) => !!char && /[\p{L}\p{M}]/u.test(char);
+
+  // End of the first unescaped closer at or after from, or the end of the text
+  const findClosing = (from: number, closer: string): number => {
+    for (let i = from; i < content.length; i++) {
+      if (content.startsWith(closer, i)) return i + closer.length;
+      if (content[i] === '\\') i++;
+    }
+    return content.length;
+  };
+
+  // End of the optional and mandatory arguments after pos; maxGroups limits the mandatory ones
+  const argumentsEnd = (pos: number, maxGroups = Infinity): number => {
+    let end = pos;
+    let groups = 0;
+    for (;;) {
+      const optional = groupEnd(content, end, '[', ']');
+      if (optional !== null) {
+        end = optional;
+        continue;
+      }
+      if (groups >= maxGroups) return end;
+      const mandatory = groupEnd(content, end, '{', '}');
+      if (mandatory === null) return end;
+      end = mandatory;
+      groups++;
+    }
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '%') {
+      const end = content.indexOf('\n', i);
+      blank(i, end === -1 ? content.length : end);
+      i = end === -1 ? content.length : end;
+      continue;
+    }
+
+    if (char === '$') {
+      const display = content[i + 1] === '$';
+      const end = findClosing(i + (display ? 2 : 1), display ? '$$' : '$');
+      math.push({ display, from: i, to: end });
+      blank(i, end);
+      i = end;
+      continue;
+    }
+
+    if (char !== '\\') {
+      i++;
+      continue;
+    }
+
+    const next = content[i + 1];
+    if (next === '(' || next === '[') {
+      const end = findClosing(i + 2, next === '(' ? '\\)' : '\\]');
+      math.push({ display: next === '[', from: i, to: end });
+      blank(i, end);
+      i = end;
+      continue;
+    }
+
+    if (next !== undefined && ACCENT_COMMANDS.has(next)) {
+      // Blank the whole accented word, e.g. M\"{u}ller
+      let start = i;
+      while (start > 0 && isLetter(content[start - 1])) start--;
+      let end = i + 2;
+      while (end < content.length && (isLetter(content[end]) || '{}\\'.includes(content[end]) || ACCENT_COMMANDS.has(content[end]))) end++;
+      blank(start, end);
+      i = end;
+      continue;
+    }
+
+    const name = /^[a-zA-Z@]+/.exec(content.substring(i + 1))?.[0];
+    if (!name) {
+      // Control symbols such as \% or \\
+      blank(i, i + 2);
+      i += 2;
+      continue;
+    }
+
+    let end = i + 1 + name.length;
+    if (content[end] === '*') end++;
+
+    if (name === 'verb' || name === 'lstinline') {
+      if (name === 'lstinline') end = argumentsEnd(end, 0);
+      const delimiter = content[end];
+      if (delimiter === '{') {
+        end = groupEnd(content, end, '{', '}') ?? content.length;
+      } else if (delimiter && delimiter !== '\n') {
+        end = findClosing(end + 1, delimiter);
+      }
+      blank(i, end);
+      i = end;
+      continue;
+    }
+
+    if (name === 'begin' || name === 'end') {
+      const envEnd = groupEnd(content, end, '{', '}');
+      const environment = envEnd !== null ? content.substring(content.indexOf('{', end) + 1, envEnd - 1).trim() : '';
+      const baseEnvironment = environment.replace(/\*$/, '');
+
+      if (name === 'begin' && (VERBATIM_ENVIRONMENTS.has(baseEnvironment) || baseEnvironment in MATH_ENVIRONMENTS)) {
+        const closer = `\\end{${environment}}`;
+        const close = content.indexOf(closer, envEnd ?? end);
+        end = close === -1 ? content.length : close + closer.length;
+        if (baseEnvironment in MATH_ENVIRONMENTS) {
+          math.push({ display: MATH_ENVIRONMENTS[baseEnvironment], from: i, to: end });
+        }
+      } else if (envEnd !== null) {
+        commands.push({ name, from: i, end: i + 1 + name.length, environment });
+        end = envEnd;
+        // Column specs, widths and placements, e.g. {tabular}{|l|c|} or {figure}[htbp]
+        for (;;) {
+          const argEnd = groupEnd(content, end, '{', '}') ?? groupEnd(content, end, '[', ']');
+          if (argEnd === null || /\s/.test(content.substring(end, argEnd).trim())) break;
+          end = argEnd;
+        }
+      }
+      blank(i, end);
+      i = end;
+      continue;
+    }
+
+    if (SKIP_ARGUMENT_COMMANDS.has(name)) {
+      end = argumentsEnd(end);
+    } else {
+      commands.push({ name, from: i, end });
+      if (SKIP_FIRST_ARGUMENT_COMMANDS.has(name)) {
+        end = argumentsEnd(end, 1);
+      } else if (SHORT_FORM_COMMANDS.has(name)) {
+        end = groupEnd(content, end, '[', ']') ?? end;
+      }
+    }
+    blank(i, end);
+    i = end;
+  }
+
+  return { prose: chars.join(''), math, commands };
+}
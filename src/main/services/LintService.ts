@@ -0,0 +1,80 @@
+import { ProjectIndexService } from './ProjectIndexService';
+import { ErrorDTO, IndexedLabelDTO } from '../types';
+
+/**
+ * LintService - static checks over a project's source that need no compile:
+ * references to undefined labels, citation keys missing from every
+ * bibliography, duplicate labels and unbalanced \begin/\end pairs. Results
+ * use the compile log's ErrorDTO shape so both can be shown side by side.
+ */
+export class LintService {
+  constructor(private projectIndexService: ProjectIndexService) {}
+
+  async lint(projectId: string, unsaved: Record<string, string> = {}): Promise<ErrorDTO[]> {
+    const { index, references, environmentIssues, unresolvedBibliographies } =
+      await this.projectIndexService.analyze(projectId, unsaved);
+    const diagnostics: ErrorDTO[] = [];
+
+    const labels = new Map<string, IndexedLabelDTO>();
+    for (const label of index.labels) {
+      const first = labels.get(label.name);
+      if (first) {
+        diagnostics.push({
+          file: label.file,
+          line: label.line,
+          message: `Label '${label.name}' is already defined in ${first.file} on line ${first.line}`,
+          severity: 'warning',
+          category: 'reference',
+          source: 'lint',
+        });
+      } else {
+        labels.set(label.name, label);
+      }
+    }
+
+    // Keys from a bibliography outside the project can't be checked
+    const citationKeys = new Set(index.citations.map(citation => citation.key));
+    const checkCitations = unresolvedBibliographies.length === 0;
+
+    for (const reference of references) {
+      if (reference.kind === 'label' && !labels.has(reference.key)) {
+        diagnostics.push({
+          file: reference.file,
+          line: reference.line,
+          column: reference.column,
+          message: `Reference to undefined label '${reference.key}'`,
+          severity: 'warning',
+          category: 'reference',
+          source: 'lint',
+        });
+      } else if (reference.kind === 'citation' && checkCitations && !citationKeys.has(reference.key)) {
+        diagnostics.push({
+          file: reference.file,
+          line: reference.line,
+          column: reference.column,
+          message: `Citation '${reference.key}' is not defined in any bibliography`,
+          severity: 'warning',
+          category: 'citation',
+          source: 'lint',
+        });
+      }
+    }
+
+    for (const issue of environmentIssues) {
+      diagnostics.push({
+        file: issue.file,
+        line: issue.line,
+        column: issue.column,
+        message: issue.message,
+        severity: 'error',
+        category: 'latex',
+        source: 'lint',
+      });
+    }
+
+    const fileOrder = new Map(index.files.map((file, i) => [file, i]));
+    return diagnostics.sort((a, b) =>
+      (fileOrder.get(a.file) ?? 0) - (fileOrder.get(b.file) ?? 0) || a.line - b.line || (a.column ?? 0) - (b.column ?? 0)
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import { spawn } from 'child_process';
+import { accessSync, constants, realpathSync } from 'fs';
+import { basename, delimiter, dirname, join } from 'path';
+import { homedir, platform, tmpdir } from 'os';
+
+export type SandboxTool = 'bubblewrap' | 'firejail' | 'unshare';
+
+export interface SandboxLimits {
+  memoryMB: number; // Address space of each process
+  cpuSeconds: number; // CPU time of each process
+}
+
+export interface SandboxPlan {
+  tool: SandboxTool | null; // null when no sandbox could be set up
+  buildDir: string;
+  limits: SandboxLimits;
+  prlimit: string | null; // Applies the limits where the sandbox tool cannot
+  applied: string[]; // Protections in effect, for the compile log
+  missing: string[]; // Protections that could not be applied, with the reason
+}
+
+// Mounted read-only inside bubblewrap; everything else on the host, including home directories, is hidden
+const SYSTEM_DIRS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc', '/opt', '/nix', '/var/lib/texmf', '/var/cache/fonts'];
+
+const PROBE_TIMEOUT_MS = 5000;
+
+// Whether a sandbox tool works here is checked once per run of the app
+const probes: Map<string, Promise<boolean>> = new Map();
+
+// Pick the strongest sandbox that works on this machine and describe what it enforces
+export async function prepareSandbox(buildDir: string, limits: SandboxLimits): Promise<SandboxPlan> {
+  const plan: SandboxPlan = { tool: null, buildDir, limits, prlimit: findExecutable('prlimit'), applied: [], missing: [] };
+  const limitNames = [`memory limit of ${limits.memoryMB} MB per process`, `CPU time limit of ${limits.cpuSeconds}s per process`];
+
+  if (platform() !== 'linux') {
+    plan.missing.push(`all sandbox protections (only available on Linux, not ${platform()})`);
+    return plan;
+  }
+
+  for (const tool of ['bubblewrap', 'firejail', 'unshare'] as SandboxTool[]) {
+    const executable = findExecutable(toolExecutable(tool));
+    if (!executable) continue;
+
+    const candidate = { ...plan, tool };
+    const probe = sandboxInvocation(candidate, 'true', [], tmpdir());
+    if (await probeOnce(`${tool}:${candidate.prlimit}`, probe.command, probe.args)) {
+      plan.tool = tool;
+      break;
+    }
+    plan.missing.push(`${tool} is installed but could not start a sandbox (unprivileged user namespaces may be disabled)`);
+  }
+
+  const limited = plan.tool === 'firejail' || !!plan.prlimit;
+  switch (plan.tool) {
+    case 'bubblewrap':
+      plan.applied.push('read-only system directories', 'no network', 'writes limited to the build directory', 'home directories hidden');
+      break;
+    case 'firejail':
+      plan.applied.push('read-only system directories', 'no network', 'writes limited to the build directory');
+      plan.missing.push('home directories hidden (not supported with firejail; install bubblewrap)');
+      break;
+    case 'unshare':
+      plan.applied.push('no network');
+      plan.missing.push('read-only system directories and writes limited to the build directory (install bubblewrap or firejail)');
+      break;
+    default:
+      plan.missing.push('read-only system directories, no network and writes limited to the build directory (install bubblewrap or firejail)');
+  }
+
+  if (limited) {
+    plan.applied.push(...limitNames);
+  } else {
+    plan.missing.push(`${limitNames.join(' and ')} (prlimit not found)`);
+  }
+
+  return plan;
+}
+
+// Wrap one tool invocation in the sandbox the plan selected
+export function sandboxInvocation(plan: SandboxPlan, command: string, args: string[], cwd: string): { command: string; args: string[] } {
+  const memoryBytes = plan.limits.memoryMB * 1024 * 1024;
+  const limited = plan.prlimit
+    ? [plan.prlimit, `--as=${memoryBytes}`, `--cpu=${plan.limits.cpuSeconds}`, '--', command, ...args]
+    : [command, ...args];
+
+  switch (plan.tool) {
+    case 'bubblewrap': {
+      const mounts = SYSTEM_DIRS.flatMap(dir => ['--ro-bind-try', dir, dir]);
+      // TeX installed outside the system directories, e.g. ~/texlive
+      const texRoot = installationRoot(command);
+      if (texRoot) mounts.push('--ro-bind-try', texRoot, texRoot);
+
+      return {
+        command: findExecutable('bwrap') || 'bwrap',
+        args: [
+          '--die-with-parent', '--new-session', '--unshare-all',
+          ...mounts,
+          '--proc', '/proc',
+          '--dev', '/dev',
+          '--tmpfs', '/tmp',
+          '--bind', plan.buildDir, plan.buildDir,
+          '--setenv', 'HOME', '/tmp',
+          '--chdir', cwd,
+          '--',
+          ...limited,
+        ],
+      };
+    }
+    case 'firejail':
+      return {
+        command: findExecutable('firejail') || 'firejail',
+        args: [
+          '--quiet', '--noprofile', '--net=none', '--nonewprivs', '--caps.drop=all',
+          '--read-only=/', `--read-write=${plan.buildDir}`,
+          `--rlimit-as=${memoryBytes}`, `--rlimit-cpu=${plan.limits.cpuSeconds}`,
+          '--',
+          command, ...args,
+        ],
+      };
+    case 'unshare':
+      return {
+        command: findExecutable('unshare') || 'unshare',
+        args: ['--user', '--map-root-user', '--net', '--', ...limited],
+      };
+    default:
+      return { command: limited[0], args: limited.slice(1) };
+  }
+}
+
+function toolExecutable(tool: SandboxTool): string {
+  return tool === 'bubblewrap' ? 'bwrap' : tool;
+}
+
+// <root>/bin/<arch>/<tool> is the TeX Live layout; the whole root holds texmf-dist and the formats
+function installationRoot(command: string): string | null {
+  if (!command.startsWith('/')) return null;
+  try {
+    const binDir = dirname(command);
+    if (basename(dirname(binDir)) === 'bin') {
+      return realpathSync(dirname(dirname(binDir)));
+    }
+    return realpathSync(binDir);
+  } catch (error) {
+    return null;
+  }
+}
+
+function findExecutable(name: string): string | null {
+  const dirs = [...(process.env.PATH || '').split(delimiter), '/usr/bin', '/bin', '/usr/local/bin'];
+  for (const dir of dirs) {
+    if (!dir) continue;
+    const candidate = join(dir, name);
+    try {
+      accessSync(candidate, constants.X_OK);
+      return candidate;
+    } catch (error) {
+      // Not in this directory
+    }
+  }
+  return null;
+}
+
+function probeOnce(key: string, command: string, args: string[]): Promise<boolean> {
+  if (!probes.has(key)) {
+    probes.set(key, new Promise((resolve) => {
+      try {
+        const child = spawn(command, args, { stdio: 'ignore', cwd: tmpdir(), env: { PATH: process.env.PATH, HOME: homedir() } });
+        const timeout = setTimeout(() => {
+          child.kill('SIGKILL');
+          resolve(false);
+        }, PROBE_TIMEOUT_MS);
+        child.on('close', (code) => {
+          clearTimeout(timeout);
+          resolve(code === 0);
+        });
+        child.on('error', () => {
+          clearTimeout(timeout);
+          resolve(false);
+        });
+      } catch (error) {
+        resolve(false);
+      }
+    }));
+  }
+  return probes.get(key)!;
+}
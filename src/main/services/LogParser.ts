@@ -0,0 +1,436 @@
+import { posix } from 'path';
+import { ErrorDTO, LogEntryCategory, ShellCommandDTO } from '../types';
+import { commandProgram } from './ShellEscape';
+
+// TeX hard-wraps log lines at max_print_line columns (79 by default); pdfTeX
+// counts bytes, so a UTF-8 character takes up to four columns, while XeTeX and
+// LuaTeX count characters
+const MAX_PRINT_LINE = 79;
+const MAX_RAW_LINES = 12;
+
+// How TeX reports a \write18 call, e.g. runsystem(gnuplot fig.gnuplot)...executed safely (allowed).
+const RUNSYSTEM = /runsystem\((.*?)\)\.\.\.(executed safely \(allowed\)|executed|disabled \(restricted\)|disabled|quotation error in system command)/g;
+
+const RUNSYSTEM_STATUS: Record<string, ShellCommandDTO['status']> = {
+  'executed safely (allowed)': 'allowed',
+  'executed': 'executed',
+  'disabled (restricted)': 'restricted',
+  'disabled': 'disabled',
+  'quotation error in system command': 'restricted',
+};
+
+export interface LogParserOptions {
+  buildDir: string;
+  mainFile?: string; // Fallback file for issues raised outside any project file
+  workingDir?: string; // Directory TeX ran in, relative to buildDir (latexmk -cd)
+  containerDir?: string; // Where buildDir was mounted when TeX ran in a container
+}
+
+interface FileFrame {
+  path: string | null; // null for parentheses that are not file names
+}
+
+/**
+ * LogParser - turns a pdfTeX, XeTeX or LuaTeX log into ErrorDTOs.
+ *
+ * Tracks the input file stack from the parentheses TeX writes when it opens and
+ * closes files, rejoins lines wrapped at 79 columns, and follows page shipouts so
+ * each issue carries the page it was raised on.
+ */
+export class LogParser {
+  parse(logContent: string, options: LogParserOptions): ErrorDTO[] {
+    const mainFile = options.mainFile ? this.toProjectPath(options.mainFile, options) || options.mainFile : '';
+    const lines = this.unwrapLines(logContent);
+    const entries: ErrorDTO[] = [];
+    const seen = new Set<string>();
+
+    const fileStack: FileFrame[] = [];
+    let lastShippedPage = 0;
+    let hasFatalError = false;
+
+    const currentFile = (): string => {
+      // Attribute to the innermost project file; class and package files are not navigable
+      for (let i = fileStack.length - 1; i >= 0; i--) {
+        const path = fileStack[i].path;
+        if (path) {
+          const projectPath = this.toProjectPath(path, options);
+          if (projectPath) return projectPath;
+        }
+      }
+      return mainFile;
+    };
+
+    const push = (entry: Omit<ErrorDTO, 'page'>, raw: string[]) => {
+      const key = `${entry.file}:${entry.line}:${entry.message}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      entries.push({
+        ...entry,
+        raw: raw.slice(0, MAX_RAW_LINES).join('\n'),
+        page: lastShippedPage + 1,
+      });
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+
+      // Errors reported with -file-line-error: ./chapter.tex:12: Undefined control sequence.
+      const fileLineMatch = line.match(/^(.*?\.(?:tex|ltx|sty|cls|bib|bbl|dtx|ins)):(\d+): (.*)$/);
+      if (fileLineMatch) {
+        const [, filePath, lineNum, message] = fileLineMatch;
+        const context = this.collectErrorContext(lines, i);
+        const file = this.toProjectPath(filePath, options) || currentFile();
+
+        push({
+          file,
+          line: parseInt(lineNum),
+          message: this.cleanMessage(message),
+          severity: 'error',
+          category: this.categorizeError(message),
+          missingFile: this.missingPackageFile(message),
+        }, context.raw);
+
+        hasFatalError = true;
+        i = context.next;
+        continue;
+      }
+
+      // Classic errors: ! Undefined control sequence. followed by l.<n> context
+      if (line.startsWith('! ')) {
+        const message = line.substring(2).trim();
+        const context = this.collectErrorContext(lines, i);
+
+        const isFollowUp = message.startsWith('==> Fatal error occurred') ||
+          (message === 'Emergency stop.' && hasFatalError);
+        if (!isFollowUp) {
+          push({
+            file: currentFile(),
+            line: context.line ?? 1,
+            message: this.cleanMessage(message),
+            severity: 'error',
+            category: this.categorizeError(message),
+            missingFile: this.missingPackageFile(message),
+          }, context.raw);
+        }
+
+        hasFatalError = true;
+        i = context.next;
+        continue;
+      }
+
+      // LaTeX Warning / LaTeX Font Warning / Package x Warning / Class x Warning
+      const warningMatch = line.match(/^(LaTeX|LaTeX Font|Package (\S+)|Class (\S+)) Warning: (.*)$/);
+      if (warningMatch) {
+        const [, source, packageName, className, firstLine] = warningMatch;
+        const block = this.collectContinuation(lines, i, packageName || className || (source === 'LaTeX Font' ? 'Font' : null));
+        const message = [firstLine, ...block.continuation].join(' ').replace(/\s+/g, ' ').trim();
+        const inputLine = message.match(/on input line (\d+)/);
+
+        push({
+          file: currentFile(),
+          line: inputLine ? parseInt(inputLine[1]) : 1,
+          message: this.cleanMessage(source === 'LaTeX' ? `LaTeX Warning: ${message}` : `${source} Warning: ${message}`),
+          severity: 'warning',
+          category: this.categorizeWarning(source, message),
+        }, block.raw);
+
+        i = block.next;
+        continue;
+      }
+
+      // Overfull \hbox (12.3pt too wide) in paragraph at lines 10--12
+      const boxMatch = line.match(/^(Overfull|Underfull) \\([hv])box \((.*?)\) (?:.*?at lines? (\d+)(?:--(\d+))?)?/);
+      if (boxMatch) {
+        const [, kind, , amount, startLine] = boxMatch;
+        const detail = this.collectUntilBlank(lines, i);
+        const location = line.match(/(in paragraph|in alignment|detected|has occurred while \\output is active).*$/);
+
+        push({
+          file: currentFile(),
+          line: startLine ? parseInt(startLine) : 1,
+          message: `${kind} \\${boxMatch[2]}box (${amount})${location ? ` ${location[0]}` : ''}`,
+          severity: kind === 'Overfull' ? 'warning' : 'info',
+          category: 'box',
+        }, detail.raw);
+
+        i = detail.next;
+        continue;
+      }
+
+      // Missing glyphs are only reported when \tracinglostchars is enabled
+      const missingCharMatch = line.match(/^Missing character: There is no (.+?) in font (.+?)!?$/);
+      if (missingCharMatch) {
+        push({
+          file: currentFile(),
+          line: 1,
+          message: line.trim(),
+          severity: 'warning',
+          category: 'font',
+        }, [line]);
+        i++;
+        continue;
+      }
+
+      // Missing auxiliary files such as main.bbl before the first bibliography run
+      const noFileMatch = line.match(/^No file (.+)\.$/);
+      if (noFileMatch) {
+        push({
+          file: currentFile(),
+          line: 1,
+          message: line.trim(),
+          severity: 'info',
+          category: 'missing-file',
+        }, [line]);
+        i++;
+        continue;
+      }
+
+      if (/^(pdfTeX|XeTeX|LuaTeX|luaotfload|l3backend) (warning|Warning)/.test(line)) {
+        push({
+          file: currentFile(),
+          line: 1,
+          message: line.trim(),
+          severity: 'warning',
+          category: 'other',
+        }, [line]);
+        // Still scan for page markers and parentheses below
+      }
+
+      lastShippedPage = this.scanLine(line, fileStack, lastShippedPage);
+      i++;
+    }
+
+    // Errors first, then warnings, then info; stable by line within each group
+    const rank = { error: 0, warning: 1, info: 2 };
+    return entries.sort((a, b) => {
+      if (a.severity !== b.severity) return rank[a.severity] - rank[b.severity];
+      return a.line - b.line;
+    });
+  }
+
+  // Commands the document tried to run through \write18, in log order without repeats
+  shellCommands(logContent: string): ShellCommandDTO[] {
+    const commands: ShellCommandDTO[] = [];
+    const seen = new Set<string>();
+
+    for (const line of this.unwrapLines(logContent)) {
+      for (const match of line.matchAll(RUNSYSTEM)) {
+        const [, command, outcome] = match;
+        const status = RUNSYSTEM_STATUS[outcome];
+        const key = `${status}:${command}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        commands.push({ command, program: commandProgram(command), status });
+      }
+    }
+
+    return commands;
+  }
+
+  // Rejoin lines that TeX hard-wrapped at max_print_line
+  private unwrapLines(logContent: string): string[] {
+    const rawLines = logContent.replace(/\r\n?/g, '\n').split('\n');
+    const lines: string[] = [];
+    const width = /^This is pdfTeX\b/.test(rawLines[0])
+      ? (line: string) => Buffer.byteLength(line, 'utf8')
+      : (line: string) => Array.from(line).length;
+
+    let buffer = '';
+    for (const rawLine of rawLines) {
+      buffer += rawLine;
+      if (width(rawLine) === MAX_PRINT_LINE && !rawLine.endsWith('...')) {
+        continue;
+      }
+      lines.push(buffer);
+      buffer = '';
+    }
+    if (buffer) lines.push(buffer);
+
+    return lines;
+  }
+
+  // Update the file stack and page counter from one line of ordinary log output
+  private scanLine(line: string, fileStack: FileFrame[], lastShippedPage: number): number {
+    let page = lastShippedPage;
+
+    for (let pos = 0; pos < line.length; pos++) {
+      const char = line[pos];
+
+      if (char === '(') {
+        const rest = line.substring(pos + 1);
+        const nameMatch = rest.match(/^"([^"]+)"/) || rest.match(/^([^\s()"{}<>\[\]]+)/);
+        const name = nameMatch ? nameMatch[1] : null;
+
+        if (name && this.looksLikeFile(name)) {
+          fileStack.push({ path: name });
+          pos += nameMatch![0].length;
+        } else {
+          fileStack.push({ path: null });
+        }
+      } else if (char === ')') {
+        fileStack.pop();
+      } else if (char === '[') {
+        // Page shipouts look like [1] or [2{/path/pdftex.map}] and are strictly increasing
+        const pageMatch = line.substring(pos + 1).match(/^(\d+)(?=[\]\s{<]|$)/);
+        if (pageMatch && parseInt(pageMatch[1]) === page + 1) {
+          page = parseInt(pageMatch[1]);
+          pos += pageMatch[0].length;
+        }
+      }
+    }
+
+    return page;
+  }
+
+  private looksLikeFile(name: string): boolean {
+    if (name.startsWith('/') || name.startsWith('./') || name.startsWith('../') || /^[A-Za-z]:[\\/]/.test(name)) {
+      return true;
+    }
+    return /\.[A-Za-z][A-Za-z0-9]{0,7}$/.test(name);
+  }
+
+  // Gather the lines that belong to an error: message lines, l.<n> context and its continuation
+  private collectErrorContext(lines: string[], start: number): { raw: string[]; line: number | null; next: number } {
+    const raw = [lines[start]];
+    let lineNumber: number | null = null;
+    let i = start + 1;
+
+    while (i < lines.length && i - start <= 20) {
+      const line = lines[i];
+
+      // A new issue starts before this one produced a line reference.
+      // Emergency stops are only a consequence of the error being collected
+      if ((line.startsWith('! ') && !/^! (Emergency stop\.|==> Fatal error occurred)/.test(line)) || /^(Overfull|Underfull) \\[hv]box/.test(line) || /^(LaTeX|Package \S+|Class \S+) Warning:/.test(line)) {
+        break;
+      }
+
+      raw.push(line);
+      i++;
+
+      const lineRef = line.match(/^l\.(\d+)/);
+      if (lineRef) {
+        lineNumber = parseInt(lineRef[1]);
+        // The text after the error position is printed on the next line
+        if (i < lines.length && lines[i].trim() !== '') {
+          raw.push(lines[i]);
+          i++;
+        }
+        break;
+      }
+    }
+
+    // Without an l.<n> line (e.g. fatal errors) only consume the message itself
+    if (lineNumber === null) {
+      return { raw: raw.slice(0, 1), line: null, next: start + 1 };
+    }
+
+    return { raw, line: lineNumber, next: i };
+  }
+
+  // Warning text continues on lines prefixed with (package) or (Font)
+  private collectContinuation(lines: string[], start: number, prefix: string | null): { raw: string[]; continuation: string[]; next: number } {
+    const raw = [lines[start]];
+    const continuation: string[] = [];
+    let i = start + 1;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) break;
+
+      if (prefix && line.startsWith(`(${prefix})`)) {
+        continuation.push(line.substring(prefix.length + 2).trim());
+      } else if (!prefix && /^\s{2,}\S/.test(line) && !line.trim().startsWith('(')) {
+        // LaTeX warnings are indented when they span lines
+        continuation.push(line.trim());
+      } else {
+        break;
+      }
+
+      raw.push(line);
+      i++;
+    }
+
+    return { raw, continuation, next: i };
+  }
+
+  // Box warnings are followed by a dump of the box content up to a blank line
+  private collectUntilBlank(lines: string[], start: number): { raw: string[]; next: number } {
+    const raw = [lines[start]];
+    let i = start + 1;
+
+    while (i < lines.length && lines[i].trim() !== '') {
+      raw.push(lines[i]);
+      i++;
+    }
+
+    return { raw, next: i };
+  }
+
+  private categorizeError(message: string): LogEntryCategory {
+    if (this.missingPackageFile(message)) return 'missing-package';
+    if (/File `[^']+' not found|I can't find file|Font .* not loadable|cannot find image file/i.test(message)) {
+      return 'missing-file';
+    }
+    if (/Package \S+ Error|Class \S+ Error/.test(message)) return 'package';
+    if (/LaTeX Error/.test(message)) return 'latex';
+    return 'tex';
+  }
+
+  // Name of the class, package or font file an error reports as missing, if a TeX package would provide it
+  private missingPackageFile(message: string): string | undefined {
+    const fileMatch = message.match(/(?:File `|I can't find file `)([^']+\.(?:sty|cls|clo|def|cfg|fd|ldf|bst|bbx|cbx|tfm))'/);
+    if (fileMatch) return posix.basename(fileMatch[1]);
+
+    // ! Font \T1/cmr/m/n/10=ecrm1000 at 10.0pt not loadable: Metric (TFM) file not found.
+    const tfmMatch = message.match(/Font \\\S+=([^\s]+?)(?: at [^ ]+| scaled \d+)? not loadable: Metric \(TFM\) file/);
+    if (tfmMatch) return `${tfmMatch[1].replace(/^"|"$/g, '').replace(/:.*$/, '')}.tfm`;
+
+    // fontspec looks fonts up by family name rather than file
+    const fontspecMatch = message.match(/Package fontspec Error: The font "([^"]+)" cannot be found/);
+    if (fontspecMatch) return fontspecMatch[1];
+
+    return undefined;
+  }
+
+  private categorizeWarning(source: string, message: string): LogEntryCategory {
+    if (/Citation `[^']*' .*undefined|Citation\(s\) may have changed|There were undefined citations|Empty bibliography/.test(message)) {
+      return 'citation';
+    }
+    if (/Reference `[^']*' .*undefined|There were undefined references|Label\(s\) may have changed|Label `[^']*' multiply defined|There were multiply-defined labels/.test(message)) {
+      return 'reference';
+    }
+    if (source === 'LaTeX Font' || /Font shape|Some font shapes were not available/.test(message)) {
+      return 'font';
+    }
+    if (source.startsWith('Package') || source.startsWith('Class')) return 'package';
+    return 'latex';
+  }
+
+  private cleanMessage(message: string): string {
+    return message.replace(/\s+/g, ' ').trim();
+  }
+
+  // Map a path as printed by TeX onto the project, or null for files outside it
+  private toProjectPath(filePath: string, options: LogParserOptions): string | null {
+    let path = filePath.trim().replace(/\\/g, '/');
+    const normalizedBuildDir = options.buildDir.replace(/\\/g, '/').replace(/\/$/, '');
+
+    const containerDir = options.containerDir?.replace(/\/$/, '');
+
+    if (path.startsWith(normalizedBuildDir + '/')) {
+      path = path.substring(normalizedBuildDir.length + 1);
+    } else if (containerDir && path.startsWith(containerDir + '/')) {
+      path = path.substring(containerDir.length + 1);
+    } else if (path.startsWith('/') || /^[A-Za-z]:\//.test(path)) {
+      return null; // System files such as packages and classes
+    } else if (options.workingDir) {
+      // Relative paths are relative to where TeX ran
+      path = posix.join(options.workingDir.replace(/\\/g, '/'), path);
+    }
+
+    path = posix.normalize(path);
+    return path.startsWith('../') || path === '..' ? null : path;
+  }
+}
@@ -0,0 +1,88 @@
+import { join, posix } from 'path';
+import { readFile } from 'fs/promises';
+import { ProjectSettings } from '../types';
+
+export interface MagicComments {
+  root?: string;
+  program?: string;
+  spellcheck?: string;
+}
+
+// Magic comments are only looked for near the top of a file, as TeXShop and TeXstudio do
+const MAGIC_COMMENT_LINES = 20;
+const MAGIC_COMMENT = /^\s*%\s*!TEX\s+(?:TS-)?([A-Za-z]+)\s*=\s*(.*?)\s*$/i;
+
+// A chapter pointing at a chapter pointing back must not hang the compile
+const MAX_ROOT_HOPS = 10;
+
+const PROGRAM_ENGINES: Record<string, ProjectSettings['engine']> = {
+  pdflatex: 'pdflatex',
+  pdftex: 'pdflatex',
+  xelatex: 'xelatex',
+  xetex: 'xelatex',
+  lualatex: 'lualatex',
+  luatex: 'lualatex',
+};
+
+// `% !TEX key = value` lines from the top of a file; the first occurrence of a key wins
+export function readMagicComments(content: string): MagicComments {
+  const comments: MagicComments = {};
+  for (const line of content.split('\n', MAGIC_COMMENT_LINES)) {
+    const match = MAGIC_COMMENT.exec(line);
+    if (!match || !match[2]) continue;
+
+    const key = match[1].toLowerCase();
+    if ((key === 'root' || key === 'program' || key === 'spellcheck') && comments[key] === undefined) {
+      comments[key] = match[2];
+    }
+  }
+  return comments;
+}
+
+// Maps a `% !TEX program` value onto an engine latexmk can drive, or null if it can't
+export function engineForProgram(program: string): ProjectSettings['engine'] | null {
+  return PROGRAM_ENGINES[program.toLowerCase()] || null;
+}
+
+/**
+ * Follows `% !TEX root` comments from a project file to the document that
+ * has to be compiled for it. Roots are resolved relative to the directory of
+ * the file naming them and must stay inside the project. A program named
+ * in the root document wins over one named in the files leading to it.
+ */
+export async function resolveRootFile(
+  projectRoot: string,
+  relPath: string,
+  unsaved: Record<string, string> = {}
+): Promise<{ mainFile: string; program?: string; followed: boolean }> {
+  let current = posix.normalize(relPath.replace(/\\/g, '/'));
+  let program: string | undefined;
+  const visited: string[] = [];
+
+  while (!visited.includes(current) && visited.length < MAX_ROOT_HOPS) {
+    visited.push(current);
+
+    let content: string;
+    try {
+      content = current in unsaved ? unsaved[current] : await readFile(join(projectRoot, current), 'utf8');
+    } catch (error) {
+      console.warn(`[MagicComments] Could not read ${current}:`, error);
+      break;
+    }
+
+    const comments = readMagicComments(content);
+    if (comments.program) {
+      program = comments.program;
+    }
+    if (!comments.root) break;
+
+    const target = posix.normalize(posix.join(posix.dirname(current), comments.root.replace(/\\/g, '/')));
+    if (target.startsWith('../') || posix.isAbsolute(target)) {
+      console.warn(`[MagicComments] Ignoring root ${comments.root} in ${current}: it is outside the project`);
+      break;
+    }
+    current = target;
+  }
+
+  return { mainFile: current, program, followed: current !== visited[0] };
+}
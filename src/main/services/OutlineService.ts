@@ -0,0 +1,191 @@
+import { FileService } from './FileService';
+import { SnapshotService } from './SnapshotService';
+import { ProjectIndexService, ProjectSourceAnalysis, SECTION_LEVELS } from './ProjectIndexService';
+import { OutlineEntryDTO, OutlineSectionRefDTO, SectionMoveResultDTO } from '../types';
+
+// Lines that end the last section of a file even though no heading follows
+const SECTION_STOP_PATTERN = /^\s*\\(?:appendix|backmatter|bibliography|bibliographystyle|printbibliography|printindex|end\s*\{document\})(?![a-zA-Z])/;
+
+const SECTION_COMMANDS = Object.keys(SECTION_LEVELS);
+
+/**
+ * OutlineService - structural edits driven by the document outline. A
+ * section is the text from its heading up to the next heading of the same
+ * or a higher level, so moving it carries its body, its subsections and any
+ * files it \input's along with it.
+ */
+export class OutlineService {
+  constructor(
+    private projectIndexService: ProjectIndexService,
+    private fileService: FileService,
+    private snapshotService: SnapshotService
+  ) {}
+
+  async moveSection(
+    projectId: string,
+    source: OutlineSectionRefDTO,
+    target: OutlineSectionRefDTO,
+    position: 'before' | 'after',
+    unsaved: Record<string, string> = {}
+  ): Promise<SectionMoveResultDTO> {
+    const analysis = await this.projectIndexService.analyze(projectId, unsaved);
+    const outline = analysis.index.outline;
+
+    const sourceIndex = this.findSection(outline, source);
+    const targetIndex = this.findSection(outline, target);
+    if (sourceIndex === -1 || targetIndex === -1) {
+      throw new Error('The outline is out of date, please try again');
+    }
+    if (targetIndex >= sourceIndex && targetIndex < this.subtreeEnd(outline, sourceIndex)) {
+      throw new Error('A section cannot be moved into itself');
+    }
+
+    const sourceEntry = outline[sourceIndex];
+    const targetEntry = outline[targetIndex];
+
+    // Save dirty buffers first so the snapshot holds the text the move starts from
+    const savedFiles = Object.keys(unsaved);
+    for (const file of savedFiles) {
+      await this.fileService.writeFile(projectId, file, unsaved[file]);
+    }
+
+    // The move rewrites several files at once; never do it without a way back
+    let snapshotId: string;
+    try {
+      const snapshot = await this.snapshotService.create(projectId, `Auto-snapshot before moving "${sourceEntry.title}"`, { auto: true });
+      snapshotId = snapshot.id;
+    } catch (error) {
+      throw new Error(`Could not snapshot the project before moving the section: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const contents = new Map<string, string[]>();
+    const loadLines = async (file: string): Promise<string[]> => {
+      if (!contents.has(file)) {
+        const content = await this.fileService.readFile(projectId, file);
+        if (typeof content !== 'string') {
+          throw new Error(`${file} is not a text file`);
+        }
+        contents.set(file, content.split('\n'));
+      }
+      return contents.get(file)!;
+    };
+
+    const sourceLines = await loadLines(sourceEntry.file);
+    const targetLines = await loadLines(targetEntry.file);
+
+    // 0-based, end exclusive
+    const [blockStart, blockEnd] = this.sectionRange(analysis, sourceEntry, sourceLines);
+    let block = sourceLines.slice(blockStart, blockEnd);
+
+    // A section dropped next to another takes its level, and its subsections follow
+    const levelShift = targetEntry.level - sourceEntry.level;
+    if (levelShift !== 0) {
+      block = this.shiftLevels(analysis, sourceEntry, blockStart, block, levelShift);
+    }
+
+    let insertAt = position === 'before'
+      ? targetEntry.line - 1
+      : this.sectionRange(analysis, targetEntry, targetLines)[1];
+
+    sourceLines.splice(blockStart, blockEnd - blockStart);
+    if (sourceEntry.file === targetEntry.file && insertAt >= blockEnd) {
+      insertAt -= blockEnd - blockStart;
+    }
+    targetLines.splice(insertAt, 0, ...block);
+
+    for (const [file, lines] of contents) {
+      await this.fileService.writeFile(projectId, file, lines.join('\n'));
+    }
+    const changedFiles = [...new Set([...savedFiles, ...contents.keys()])];
+
+    console.log(`[OutlineService] Moved "${sourceEntry.title}" ${position} "${targetEntry.title}"`);
+    return { changedFiles, snapshotId };
+  }
+
+  private findSection(outline: OutlineEntryDTO[], ref: OutlineSectionRefDTO): number {
+    return outline.findIndex(entry =>
+      entry.kind === 'section' && entry.file === ref.file && entry.line === ref.line && entry.title === ref.title
+    );
+  }
+
+  // Outline index just past the last descendant of the section at index
+  private subtreeEnd(outline: OutlineEntryDTO[], index: number): number {
+    const level = outline[index].level;
+    for (let i = index + 1; i < outline.length; i++) {
+      if (outline[i].kind === 'section' && outline[i].level <= level) return i;
+    }
+    return outline.length;
+  }
+
+  // 0-based line range [start, end) of a section within its own file
+  private sectionRange(analysis: ProjectSourceAnalysis, entry: OutlineEntryDTO, lines: string[]): [number, number] {
+    // A trailing newline leaves an empty last element that belongs to no section
+    let end = lines.length > 0 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+
+    for (const other of analysis.index.outline) {
+      if (other.kind === 'section' && other.file === entry.file && other.line > entry.line && other.level <= entry.level) {
+        end = Math.min(end, other.line - 1);
+      }
+    }
+
+    // An included file that opens a sibling section ends this one before the \input
+    for (const include of analysis.includes) {
+      if (include.file === entry.file && include.line > entry.line && include.target &&
+          this.highestLevelIn(analysis, include.target) <= entry.level) {
+        end = Math.min(end, include.line - 1);
+      }
+    }
+
+    for (let i = entry.line; i < end; i++) {
+      if (SECTION_STOP_PATTERN.test(lines[i])) {
+        end = i;
+        break;
+      }
+    }
+
+    return [entry.line - 1, end];
+  }
+
+  // Highest (numerically lowest) section level in a file and everything it includes
+  private highestLevelIn(analysis: ProjectSourceAnalysis, file: string, visited = new Set<string>()): number {
+    if (visited.has(file)) return Infinity;
+    visited.add(file);
+
+    let highest = Infinity;
+    for (const entry of analysis.index.outline) {
+      if (entry.kind === 'section' && entry.file === file) highest = Math.min(highest, entry.level);
+    }
+    for (const include of analysis.includes) {
+      if (include.file === file && include.target) {
+        highest = Math.min(highest, this.highestLevelIn(analysis, include.target, visited));
+      }
+    }
+    return highest;
+  }
+
+  private shiftLevels(
+    analysis: ProjectSourceAnalysis,
+    entry: OutlineEntryDTO,
+    blockStart: number,
+    block: string[],
+    shift: number
+  ): string[] {
+    const blockEnd = blockStart + block.length;
+    const includesSections = analysis.includes.some(include =>
+      include.file === entry.file && include.line - 1 >= blockStart && include.line - 1 < blockEnd &&
+      include.target && this.highestLevelIn(analysis, include.target) !== Infinity
+    );
+    if (includesSections) {
+      throw new Error('This section includes files with their own headings, so it can only be moved within its current level');
+    }
+
+    const pattern = new RegExp(`\\\\(${SECTION_COMMANDS.join('|')})(?![a-zA-Z@])`, 'g');
+    return block.map(line => line.replace(pattern, (match, command: string) => {
+      const shifted = SECTION_COMMANDS.find(name => SECTION_LEVELS[name] === SECTION_LEVELS[command] + shift);
+      if (!shifted) {
+        throw new Error(`Moving this section would turn \\${command} into a level that doesn't exist`);
+      }
+      return `\\${shifted}`;
+    }));
+  }
+}
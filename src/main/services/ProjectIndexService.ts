@@ -0,0 +1,691 @@
+import { join, relative, posix, isAbsolute } from 'path';
+import { readFile, readdir, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { ProjectService } from './ProjectService';
+import { BibTeXService } from './BibTeXService';
+import {
+  ProjectIndexDTO,
+  IndexedLabelDTO,
+  IndexedCitationDTO,
+  IndexedCommandDTO,
+  OutlineEntryDTO,
+} from '../types';
+
+export const SECTION_LEVELS: Record<string, number> = {
+  part: -1,
+  chapter: 0,
+  section: 1,
+  subsection: 2,
+  subsubsection: 3,
+  paragraph: 4,
+  subparagraph: 5,
+};
+
+// Environments whose body is not LaTeX source
+const VERBATIM_PATTERN = /\\begin\{(verbatim|Verbatim|lstlisting|minted|comment)(\*?)\}[\s\S]*?\\end\{\1\2\}/g;
+
+// Float environments whose captions appear in the outline
+export const FLOAT_ENVIRONMENTS: Record<string, 'figure' | 'table'> = {
+  'figure': 'figure',
+  'figure*': 'figure',
+  'subfigure': 'figure',
+  'wrapfigure': 'figure',
+  'table': 'table',
+  'table*': 'table',
+  'subtable': 'table',
+  'wraptable': 'table',
+  'longtable': 'table',
+};
+
+// Captions nest below the deepest sectioning level
+const CAPTION_LEVEL = 6;
+
+// Environments too generic to describe what a label points at
+const GENERIC_ENVIRONMENTS = new Set(['document', 'center', 'flushleft', 'flushright', 'minipage']);
+
+// Commands whose argument is a list of labels, and commands whose argument is a list of citation keys
+export const REF_COMMANDS = [
+  'ref', 'eqref', 'pageref', 'autoref', 'nameref', 'vref',
+  'cref', 'Cref', 'crefrange', 'Crefrange', 'cpageref', 'Cpageref', 'labelcref',
+];
+export const CITE_COMMANDS = [
+  'cite', 'citep', 'citet', 'citealp', 'citealt', 'citeauthor', 'citeyear', 'nocite',
+  'parencite', 'Parencite', 'textcite', 'Textcite', 'autocite', 'Autocite',
+  'footcite', 'fullcite', 'smartcite', 'supercite',
+];
+
+const COMMAND_PATTERN = new RegExp(
+  '\\\\(begin|end|label|caption|bibitem|input|include|subfile|import|subimport|bibliography|addbibresource|' +
+  'newcommand|renewcommand|providecommand|DeclareRobustCommand|DeclareMathOperator|def|' +
+  'newenvironment|renewenvironment|' +
+  [...Object.keys(SECTION_LEVELS), ...REF_COMMANDS, ...CITE_COMMANDS].join('|') +
+  ')(?![a-zA-Z@])(\\*?)',
+  'g'
+);
+
+const MAX_INDEXED_FILES = 500;
+const MAX_DEFINITION_LENGTH = 60;
+
+type IncludeSpec =
+  | { kind: 'input' | 'include' | 'subfile'; name: string }
+  | { kind: 'import' | 'subimport'; dir: string; name: string };
+
+// A key used by a \ref-like or \cite-like command
+export interface SourceReference {
+  kind: 'label' | 'citation';
+  command: string;
+  key: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+// A \begin without its \end, or the other way round
+export interface EnvironmentIssue {
+  message: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+// An \input-like directive and the project file it resolved to
+export interface SourceInclude {
+  file: string;
+  line: number;
+  target: string | null;
+}
+
+// The index plus everything static analysis needs that the editor doesn't
+export interface ProjectSourceAnalysis {
+  index: ProjectIndexDTO;
+  includes: SourceInclude[];
+  references: SourceReference[];
+  environmentIssues: EnvironmentIssue[];
+  unresolvedBibliographies: string[]; // Declared but not found inside the project
+}
+
+interface ParsedFile {
+  labels: IndexedLabelDTO[];
+  bibitems: IndexedCitationDTO[];
+  commands: IndexedCommandDTO[];
+  outline: OutlineEntryDTO[];
+  bibliographies: string[]; // As written in \bibliography / \addbibresource
+  references: SourceReference[];
+  environmentIssues: EnvironmentIssue[];
+  includes: Array<{ spec: IncludeSpec; line: number; outlineBefore: number }>;
+}
+
+/**
+ * ProjectIndexService - collects what the editor needs for project-aware
+ * completions: labels, bibliography keys, user-defined macros and the
+ * section structure of every file reachable from the project's main file.
+ * analyze() additionally returns the key uses and environment nesting
+ * problems that LintService turns into diagnostics.
+ */
+export class ProjectIndexService {
+  private fileCache = new Map<string, { mtimeMs: number; size: number; parsed: ParsedFile }>();
+  private bibCache = new Map<string, { mtimeMs: number; citations: IndexedCitationDTO[] }>();
+
+  constructor(
+    private projectService: ProjectService,
+    private bibTexService: BibTeXService
+  ) {}
+
+  // unsaved maps project-relative paths to editor content that hasn't been written yet
+  async index(projectId: string, unsaved: Record<string, string> = {}): Promise<ProjectIndexDTO> {
+    return (await this.analyze(projectId, unsaved)).index;
+  }
+
+  async analyze(projectId: string, unsaved: Record<string, string> = {}): Promise<ProjectSourceAnalysis> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const mainFile = ProjectIndexService.normalizePath(project.mainFile);
+    // \input and friends resolve against the directory LaTeX runs in
+    const baseDir = posix.dirname(mainFile);
+
+    const result: ProjectIndexDTO = {
+      projectId,
+      mainFile,
+      files: [],
+      bibFiles: [],
+      labels: [],
+      citations: [],
+      commands: [],
+      outline: [],
+    };
+    const analysis: ProjectSourceAnalysis = {
+      index: result,
+      includes: [],
+      references: [],
+      environmentIssues: [],
+      unresolvedBibliographies: [],
+    };
+    const visited = new Set<string>();
+    const bibliographies: string[] = [];
+
+    const visit = async (relPath: string): Promise<void> => {
+      if (visited.has(relPath) || visited.size >= MAX_INDEXED_FILES) return;
+      visited.add(relPath);
+
+      const parsed = relPath in unsaved
+        ? this.parseContent(unsaved[relPath], relPath)
+        : await this.loadFile(project.root, relPath);
+      if (!parsed) return;
+
+      result.files.push(relPath);
+      result.labels.push(...parsed.labels);
+      result.citations.push(...parsed.bibitems);
+      result.commands.push(...parsed.commands);
+      bibliographies.push(...parsed.bibliographies);
+      analysis.references.push(...parsed.references);
+      analysis.environmentIssues.push(...parsed.environmentIssues);
+
+      // Splice included files' outlines in where they are included so the
+      // outline follows document order
+      let emitted = 0;
+      for (const include of parsed.includes) {
+        result.outline.push(...parsed.outline.slice(emitted, include.outlineBefore));
+        emitted = Math.max(emitted, include.outlineBefore);
+
+        const target = this.resolveInclude(project.root, baseDir, relPath, include.spec);
+        analysis.includes.push({ file: relPath, line: include.line, target });
+        if (target) {
+          await visit(target);
+        }
+      }
+      result.outline.push(...parsed.outline.slice(emitted));
+    };
+
+    if (existsSync(join(project.root, mainFile))) {
+      await visit(mainFile);
+    } else {
+      // Without a main file there is no include tree, so index every .tex file
+      for (const relPath of await this.listTexFiles(project.root)) {
+        await visit(relPath);
+      }
+    }
+
+    for (const bibliography of bibliographies) {
+      const bibPath = this.resolveBibliography(project.root, baseDir, bibliography);
+      if (!bibPath) {
+        analysis.unresolvedBibliographies.push(bibliography);
+      } else if (!result.bibFiles.includes(bibPath)) {
+        result.bibFiles.push(bibPath);
+        result.citations.push(...await this.loadBibFile(project.root, bibPath));
+      }
+    }
+
+    result.citations = ProjectIndexService.uniqueBy(result.citations, c => c.key, 'first');
+    // A later \renewcommand replaces the earlier definition
+    result.commands = ProjectIndexService.uniqueBy(result.commands, c => c.name, 'last');
+
+    return analysis;
+  }
+
+  private async loadFile(projectRoot: string, relPath: string): Promise<ParsedFile | null> {
+    const filePath = join(projectRoot, relPath);
+
+    try {
+      const { mtimeMs, size } = await stat(filePath);
+      const cached = this.fileCache.get(filePath);
+      if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+        return cached.parsed;
+      }
+
+      const parsed = this.parseContent(await readFile(filePath, 'utf8'), relPath);
+      this.fileCache.set(filePath, { mtimeMs, size, parsed });
+      return parsed;
+    } catch (error) {
+      console.warn(`[ProjectIndexService] Could not index ${relPath}:`, error);
+      return null;
+    }
+  }
+
+  private async loadBibFile(projectRoot: string, relPath: string): Promise<IndexedCitationDTO[]> {
+    const filePath = join(projectRoot, relPath);
+
+    try {
+      const { mtimeMs } = await stat(filePath);
+      const cached = this.bibCache.get(filePath);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.citations;
+      }
+
+      const entries = await this.bibTexService.parseBibFile(projectRoot, relPath);
+      const citations: IndexedCitationDTO[] = entries.map(entry => ({
+        key: entry.key,
+        source: 'bib',
+        file: relPath,
+        type: entry.type,
+        title: ProjectIndexService.plainText(entry.fields.title),
+        author: ProjectIndexService.plainText(entry.fields.author),
+        year: entry.fields.year || entry.fields.date?.substring(0, 4),
+      }));
+      this.bibCache.set(filePath, { mtimeMs, citations });
+      return citations;
+    } catch (error) {
+      console.warn(`[ProjectIndexService] Could not index ${relPath}:`, error);
+      return [];
+    }
+  }
+
+  private parseContent(content: string, file: string): ParsedFile {
+    const parsed: ParsedFile = {
+      labels: [],
+      bibitems: [],
+      commands: [],
+      outline: [],
+      bibliographies: [],
+      references: [],
+      environmentIssues: [],
+      includes: [],
+    };
+
+    const text = ProjectIndexService.stripComments(content)
+      .replace(VERBATIM_PATTERN, match => match.replace(/[^\n]/g, ' '));
+
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+    // 1-based line and column of an offset into text
+    const positionAt = (offset: number): { line: number; column: number } => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) low = mid;
+        else high = mid - 1;
+      }
+      return { line: low + 1, column: offset - lineStarts[low] + 1 };
+    };
+
+    const environments: Array<{ name: string; line: number; column: number }> = [];
+    const reportUnclosed = (env: { name: string; line: number; column: number }) => {
+      parsed.environmentIssues.push({
+        message: `\\begin{${env.name}} is never closed`,
+        file,
+        line: env.line,
+        column: env.column,
+      });
+    };
+    let currentSection: string | undefined;
+
+    const pattern = new RegExp(COMMAND_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const command = match[1];
+      const starred = match[2] === '*';
+      const { line, column } = positionAt(match.index);
+      let pos = pattern.lastIndex;
+
+      if (REF_COMMANDS.includes(command) || CITE_COMMANDS.includes(command)) {
+        // Up to two optional arguments, as in \cite[see][p. 3]{key}
+        for (let i = 0; i < 2; i++) {
+          const optional = ProjectIndexService.readGroup(text, pos, '[', ']');
+          if (!optional) break;
+          pos = optional.end;
+        }
+        const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+        if (!arg) continue;
+
+        const kind = REF_COMMANDS.includes(command) ? 'label' : 'citation';
+        let keyOffset = arg.end - 1 - arg.content.length;
+        for (const part of arg.content.split(',')) {
+          const key = part.trim();
+          // Skip \nocite{*} and macro parameters inside definitions
+          if (key && key !== '*' && !key.includes('#')) {
+            const position = positionAt(keyOffset + part.indexOf(key));
+            parsed.references.push({ kind, command, key, file, ...position });
+          }
+          keyOffset += part.length + 1;
+        }
+        continue;
+      }
+
+      switch (command) {
+        case 'begin': {
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          const name = arg?.content.trim();
+          if (name) environments.push({ name, line, column });
+          break;
+        }
+
+        case 'end': {
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          const name = arg?.content.trim();
+          if (!name) break;
+
+          const openIndex = environments.map(env => env.name).lastIndexOf(name);
+          if (openIndex !== -1) {
+            // Anything opened after the matching \begin was never closed
+            environments.splice(openIndex).slice(1).forEach(reportUnclosed);
+          } else if (environments.length > 0) {
+            // Most likely a typo in one of the two names; treat them as a pair
+            const open = environments.pop()!;
+            parsed.environmentIssues.push({
+              message: `\\end{${name}} does not match \\begin{${open.name}} on line ${open.line}`,
+              file,
+              line,
+              column,
+            });
+          } else {
+            parsed.environmentIssues.push({ message: `\\end{${name}} has no matching \\begin`, file, line, column });
+          }
+          break;
+        }
+
+        case 'label': {
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          const name = arg?.content.trim();
+          if (!name) break;
+          const env = [...environments].reverse().map(e => e.name).find(e => !GENERIC_ENVIRONMENTS.has(e));
+          parsed.labels.push({ name, file, line, context: env || currentSection });
+          break;
+        }
+
+        case 'bibitem': {
+          const optional = ProjectIndexService.readGroup(text, pos, '[', ']');
+          if (optional) pos = optional.end;
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          const key = arg?.content.trim();
+          if (key) parsed.bibitems.push({ key, source: 'bibitem', file, line });
+          break;
+        }
+
+        case 'input':
+        case 'include':
+        case 'subfile': {
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          // \input also accepts the plain TeX form without braces
+          const name = arg ? arg.content.trim() : /^\s+([^\s{}\\]+)/.exec(text.substring(pos, pos + 256))?.[1];
+          if (name) {
+            parsed.includes.push({ spec: { kind: command, name }, line, outlineBefore: parsed.outline.length });
+          }
+          break;
+        }
+
+        case 'import':
+        case 'subimport': {
+          const dir = ProjectIndexService.readGroup(text, pos, '{', '}');
+          const name = dir && ProjectIndexService.readGroup(text, dir.end, '{', '}');
+          if (dir && name) {
+            parsed.includes.push({
+              spec: { kind: command, dir: dir.content.trim(), name: name.content.trim() },
+              line,
+              outlineBefore: parsed.outline.length,
+            });
+          }
+          break;
+        }
+
+        case 'bibliography': {
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          arg?.content.split(',').map(name => name.trim()).filter(Boolean).forEach(name => {
+            parsed.bibliographies.push(name.endsWith('.bib') ? name : `${name}.bib`);
+          });
+          break;
+        }
+
+        case 'addbibresource': {
+          const optional = ProjectIndexService.readGroup(text, pos, '[', ']');
+          if (optional) pos = optional.end;
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          const name = arg?.content.trim();
+          if (name) parsed.bibliographies.push(name);
+          break;
+        }
+
+        case 'newenvironment':
+        case 'renewenvironment': {
+          // \newenvironment{name}[n][default]{begin code}{end code}; the code
+          // groups hold unpaired \begin and \end, so skip over them
+          const name = ProjectIndexService.readGroup(text, pos, '{', '}');
+          if (!name) break;
+          pos = name.end;
+          for (let i = 0; i < 2; i++) {
+            const optional = ProjectIndexService.readGroup(text, pos, '[', ']');
+            if (!optional) break;
+            pos = optional.end;
+          }
+          const beginCode = ProjectIndexService.readGroup(text, pos, '{', '}');
+          const endCode = beginCode && ProjectIndexService.readGroup(text, beginCode.end, '{', '}');
+          if (endCode) pattern.lastIndex = endCode.end;
+          break;
+        }
+
+        case 'def': {
+          const definition = /^\s*\\([a-zA-Z]+)((?:\s*#\d)*)\s*(?=\{)/.exec(text.substring(pos, pos + 256));
+          if (!definition) break;
+          const body = ProjectIndexService.readGroup(text, pos + definition[0].length, '{', '}');
+          if (!body) break;
+          parsed.commands.push({
+            name: definition[1],
+            args: (definition[2].match(/#/g) || []).length,
+            hasOptionalArg: false,
+            definition: ProjectIndexService.shorten(body.content),
+            file,
+            line,
+          });
+          // Don't index labels or sections that only appear inside a macro body
+          pattern.lastIndex = body.end;
+          break;
+        }
+
+        case 'part':
+        case 'chapter':
+        case 'section':
+        case 'subsection':
+        case 'subsubsection':
+        case 'paragraph':
+        case 'subparagraph': {
+          const optional = ProjectIndexService.readGroup(text, pos, '[', ']');
+          if (optional) pos = optional.end;
+          const arg = ProjectIndexService.readGroup(text, pos, '{', '}');
+          if (!arg) break;
+          const title = ProjectIndexService.plainText(arg.content) || '';
+          parsed.outline.push({ kind: 'section', command, level: SECTION_LEVELS[command], starred, title, file, line });
+          currentSection = title;
+          break;
+        }
+
+        case 'caption': {
+          const float = [...environments].reverse().map(e => FLOAT_ENVIRONMENTS[e.name]).find(Boolean);
+          if (!float) break;
+          // The short form is what the list of figures shows
+          const optional = ProjectIndexService.readGroup(text, pos, '[', ']');
+          const arg = ProjectIndexService.readGroup(text, optional ? optional.end : pos, '{', '}');
+          if (!arg) break;
+          const title = ProjectIndexService.shorten(ProjectIndexService.plainText(optional?.content || arg.content) || '');
+          parsed.outline.push({ kind: float, command, level: CAPTION_LEVEL, starred, title, file, line });
+          break;
+        }
+
+        default: {
+          // \newcommand family and \DeclareMathOperator: the name comes either
+          // braced ({\foo}) or bare (\foo)
+          let name: string | undefined;
+          const braced = ProjectIndexService.readGroup(text, pos, '{', '}');
+          if (braced) {
+            name = /^\s*\\([a-zA-Z]+|.)\s*$/.exec(braced.content)?.[1];
+            pos = braced.end;
+          } else {
+            const bare = /^\s*\\([a-zA-Z]+|.)/.exec(text.substring(pos, pos + 256));
+            if (bare) {
+              name = bare[1];
+              pos += bare[0].length;
+            }
+          }
+          if (!name) break;
+
+          let args = 0;
+          let hasOptionalArg = false;
+          if (command !== 'DeclareMathOperator') {
+            const count = ProjectIndexService.readGroup(text, pos, '[', ']');
+            if (count) {
+              args = parseInt(count.content.trim(), 10) || 0;
+              pos = count.end;
+              const optionalDefault = ProjectIndexService.readGroup(text, pos, '[', ']');
+              if (optionalDefault) {
+                hasOptionalArg = true;
+                pos = optionalDefault.end;
+              }
+            }
+          }
+
+          const body = ProjectIndexService.readGroup(text, pos, '{', '}');
+          if (!body) break;
+          parsed.commands.push({
+            name,
+            args,
+            hasOptionalArg,
+            definition: ProjectIndexService.shorten(body.content),
+            file,
+            line,
+          });
+          pattern.lastIndex = body.end;
+          break;
+        }
+      }
+    }
+
+    environments.forEach(reportUnclosed);
+
+    return parsed;
+  }
+
+  private resolveInclude(projectRoot: string, baseDir: string, fromFile: string, spec: IncludeSpec): string | null {
+    let candidate: string;
+    switch (spec.kind) {
+      case 'import':
+        candidate = posix.join(spec.dir, spec.name);
+        break;
+      case 'subimport':
+        candidate = posix.join(posix.dirname(fromFile), spec.dir, spec.name);
+        break;
+      default:
+        candidate = posix.join(baseDir, spec.name);
+    }
+
+    // \include always appends .tex; \input only when the name has no extension
+    let candidates: string[];
+    if (spec.kind === 'include') {
+      candidates = [`${candidate}.tex`];
+    } else {
+      candidates = candidate.endsWith('.tex') ? [candidate] : [`${candidate}.tex`, candidate];
+    }
+
+    for (const relPath of candidates) {
+      const resolved = this.resolveInsideProject(projectRoot, relPath);
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
+  private resolveBibliography(projectRoot: string, baseDir: string, name: string): string | null {
+    if (/^[a-z]+:\/\//i.test(name)) return null;
+    return this.resolveInsideProject(projectRoot, posix.join(baseDir, name));
+  }
+
+  // Project-relative path of an existing file, or null if it lies outside the project
+  private resolveInsideProject(projectRoot: string, relPath: string): string | null {
+    if (isAbsolute(relPath)) return null;
+
+    const normalized = ProjectIndexService.normalizePath(relative(projectRoot, join(projectRoot, relPath)));
+    if (!normalized || normalized.startsWith('../') || !existsSync(join(projectRoot, normalized))) {
+      return null;
+    }
+    return normalized;
+  }
+
+  private async listTexFiles(projectRoot: string, dir = ''): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await readdir(join(projectRoot, dir), { withFileTypes: true })) {
+      const relPath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || entry.name === 'output' || entry.name === 'node_modules') continue;
+        files.push(...await this.listTexFiles(projectRoot, relPath));
+      } else if (entry.name.endsWith('.tex')) {
+        files.push(relPath);
+      }
+    }
+
+    return files;
+  }
+
+  // Read a balanced group starting at the first non-space character after pos
+  private static readGroup(text: string, pos: number, open: string, close: string): { content: string; end: number } | null {
+    let start = pos;
+    while (start < text.length && /\s/.test(text[start])) start++;
+    if (text[start] !== open) return null;
+
+    let depth = 0;
+    let braceDepth = 0;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+        i++;
+        continue;
+      }
+      if (open === '[') {
+        // Brackets inside braces don't close an optional argument
+        if (char === '{') braceDepth++;
+        else if (char === '}') braceDepth--;
+        else if (braceDepth === 0 && char === ']') return { content: text.substring(start + 1, i), end: i + 1 };
+        continue;
+      }
+      if (char === open) depth++;
+      else if (char === close && --depth === 0) {
+        return { content: text.substring(start + 1, i), end: i + 1 };
+      }
+    }
+    return null;
+  }
+
+  // Drop % comments, keeping \% and the line structure intact
+  private static stripComments(content: string): string {
+    return content.split('\n').map(line => {
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '\\') i++;
+        else if (line[i] === '%') return line.substring(0, i);
+      }
+      return line;
+    }).join('\n');
+  }
+
+  private static plainText(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    return value
+      .replace(/\\label\{[^}]*\}/g, '')
+      .replace(/\\[a-zA-Z]+\*?\s*/g, '')
+      .replace(/[{}]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static shorten(value: string): string {
+    const flat = value.replace(/\s+/g, ' ').trim();
+    return flat.length > MAX_DEFINITION_LENGTH ? `${flat.substring(0, MAX_DEFINITION_LENGTH - 1)}…` : flat;
+  }
+
+  private static normalizePath(relPath: string): string {
+    return relPath.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  }
+
+  private static uniqueBy<T>(items: T[], key: (item: T) => string, keep: 'first' | 'last'): T[] {
+    const byKey = new Map<string, T>();
+    for (const item of items) {
+      if (keep === 'last' || !byKey.has(key(item))) {
+        // Re-inserting moves a replaced definition to its latest position
+        byKey.delete(key(item));
+        byKey.set(key(item), item);
+      }
+    }
+    return [...byKey.values()];
+  }
+}
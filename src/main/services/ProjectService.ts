@@ -1,23 +1,30 @@
 import { join, resolve, basename } from 'path';
-import { mkdir, writeFile, readFile, readdir } from 'fs/promises';
+import { mkdir, writeFile, readFile, readdir, rename } from 'fs/promises';
 import { existsSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { homedir } from 'os';
-import { ProjectDTO, ProjectSettings } from '../types';
-import { inMemoryDB } from './InMemoryDB';
+import { BuildTarget, CompileRecipe, ProjectDTO, ProjectSettings } from '../types';
+import { database } from './Database';
 import { TemplateService } from './TemplateService';
+import { resolveRootFile } from './MagicComments';
+import { validateRecipes } from './CompileRecipes';
+import { containerImageProblem } from './ContainerBackend';
+import { ShellEscapeMode, validateShellEscapeCommands } from './ShellEscape';
+
+// Updates of the same project.json must not interleave, or one would overwrite the other's change
+const configLocks = new Map<string, Promise<unknown>>();
 
 export class ProjectService {
   private templateService: TemplateService;
 
   constructor() {
-    // Initialize defaults
-    inMemoryDB.initializeDefaults();
     this.templateService = new TemplateService();
   }
 
+  // Called once the app is ready; the store lives in the userData folder
   async initialize() {
-    // No database initialization needed for in-memory storage
+    database.open();
+    database.initializeDefaults();
   }
 
   async create(name: string, path?: string, templateId?: string): Promise<ProjectDTO> {
@@ -88,7 +95,7 @@ Welcome to your new LaTeX document!
     await writeFile(join(projectRoot, 'project.json'), JSON.stringify(projectConfig, null, 2));
 
     // Insert into in-memory database
-    inMemoryDB.insertProject({
+    database.insertProject({
       id,
       name,
       root: projectRoot,
@@ -127,11 +134,11 @@ Welcome to your new LaTeX document!
     const config = JSON.parse(configContent);
 
     // Check if project already exists in database
-    let project = inMemoryDB.getProjectByRoot(projectPath);
+    let project = database.getProjectByRoot(projectPath);
 
     if (!project) {
       // Add to database
-      inMemoryDB.insertProject({
+      database.insertProject({
         id: config.id,
         name: config.name,
         root: projectPath,
@@ -141,7 +148,7 @@ Welcome to your new LaTeX document!
         settings: config.settings,
       });
 
-      project = inMemoryDB.getProjectByRoot(projectPath);
+      project = database.getProjectByRoot(projectPath);
     }
 
     if (!project) {
@@ -159,6 +166,33 @@ Welcome to your new LaTeX document!
     };
   }
 
+  // A `% !TEX root` comment names the main file outright; otherwise prefer
+  // files with a \documentclass, then the usual names, then the first file
+  private async detectMainFile(projectPath: string, texFiles: string[]): Promise<string> {
+    for (const file of texFiles) {
+      const { mainFile, followed } = await resolveRootFile(projectPath, file);
+      if (followed && existsSync(join(projectPath, mainFile))) {
+        return mainFile;
+      }
+    }
+
+    const documents: string[] = [];
+    for (const file of texFiles) {
+      try {
+        const content = await readFile(join(projectPath, file), 'utf-8');
+        if (/^[^%\n]*\\documentclass\b/m.test(content)) {
+          documents.push(file);
+        }
+      } catch {
+        // Unreadable files can't be the main file
+      }
+    }
+
+    const candidates = documents.length > 0 ? documents : texFiles;
+    const commonMainNames = ['main.tex', 'document.tex', 'paper.tex', 'thesis.tex'];
+    return commonMainNames.find(name => candidates.includes(name)) || candidates[0];
+  }
+
   private async importLatexProject(projectPath: string): Promise<ProjectDTO> {
     // Check if this is a valid LaTeX project by looking for .tex files
     const files = await readdir(projectPath);
@@ -168,22 +202,7 @@ Welcome to your new LaTeX document!
       throw new Error('No LaTeX files (.tex) found in the selected folder');
     }
 
-    // Try to detect the main file
-    let mainFile = 'main.tex';
-    
-    // Look for common main file names
-    const commonMainNames = ['main.tex', 'document.tex', 'paper.tex', 'thesis.tex'];
-    for (const name of commonMainNames) {
-      if (texFiles.includes(name)) {
-        mainFile = name;
-        break;
-      }
-    }
-    
-    // If no common name found, use the first .tex file
-    if (!texFiles.includes(mainFile)) {
-      mainFile = texFiles[0];
-    }
+    const mainFile = await this.detectMainFile(projectPath, texFiles);
 
     // Generate project metadata
     const id = uuidv4();
@@ -216,7 +235,7 @@ Welcome to your new LaTeX document!
     await writeFile(join(projectPath, 'project.json'), JSON.stringify(projectConfig, null, 2));
 
     // Add to database
-    inMemoryDB.insertProject({
+    database.insertProject({
       id,
       name: projectName,
       root: projectPath,
@@ -238,7 +257,7 @@ Welcome to your new LaTeX document!
   }
 
   async list(): Promise<ProjectDTO[]> {
-    const projects = inMemoryDB.getAllProjects();
+    const projects = database.getAllProjects();
 
     return projects.map((project) => ({
       id: project.id,
@@ -252,7 +271,7 @@ Welcome to your new LaTeX document!
   }
 
   async getById(projectId: string): Promise<ProjectDTO | null> {
-    const project = inMemoryDB.getProject(projectId);
+    const project = database.getProject(projectId);
 
     if (!project) return null;
 
@@ -269,23 +288,189 @@ Welcome to your new LaTeX document!
 
   async setMainFile(projectId: string, relPath: string): Promise<{ ok: boolean }> {
     const now = new Date().toISOString();
-    const success = inMemoryDB.updateProject(projectId, {
+    const success = database.updateProject(projectId, {
       mainFile: relPath,
       updatedAt: now,
     });
 
     // Also update project.json
+    if (await this.getById(projectId)) {
+      await this.updateProjectConfig(projectId, config => {
+        config.mainFile = relPath;
+        config.updatedAt = now;
+      });
+    }
+
+    return { ok: success };
+  }
+
+  async setBuildTargets(projectId: string, targets: BuildTarget[]): Promise<ProjectDTO> {
     const project = await this.getById(projectId);
-    if (project) {
-      const projectConfigPath = join(project.root, 'project.json');
-      const configContent = await readFile(projectConfigPath, 'utf-8');
-      const config = JSON.parse(configContent);
-      config.mainFile = relPath;
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const cleaned = targets.map(target => ({
+      name: String(target.name || '').trim(),
+      mainFile: String(target.mainFile || '').trim().replace(/\\/g, '/'),
+      engine: target.engine || undefined,
+      outputName: String(target.outputName || '').trim().replace(/\.pdf$/i, ''),
+      recipe: target.recipe || undefined,
+    }));
+
+    for (const target of cleaned) {
+      if (!target.name) {
+        throw new Error('Every build target needs a name');
+      }
+      if (cleaned.filter(other => other.name === target.name).length > 1) {
+        throw new Error(`Build target "${target.name}" is defined twice`);
+      }
+      if (!target.mainFile.endsWith('.tex') || target.mainFile.startsWith('/') || target.mainFile.split('/').includes('..')) {
+        throw new Error(`Build target "${target.name}" needs a .tex main file inside the project`);
+      }
+      if (!existsSync(join(project.root, target.mainFile))) {
+        throw new Error(`Main file ${target.mainFile} of build target "${target.name}" does not exist`);
+      }
+      if (target.engine && !['pdflatex', 'xelatex', 'lualatex'].includes(target.engine)) {
+        throw new Error(`Unsupported engine ${target.engine} for build target "${target.name}"`);
+      }
+      // Output names become file names in output/, next to compile.log
+      if (!/^[A-Za-z0-9][\w.-]*$/.test(target.outputName) || target.outputName === 'compile') {
+        throw new Error(`Build target "${target.name}" needs an output name made of letters, digits, dots, dashes or underscores`);
+      }
+      if (cleaned.filter(other => other.outputName === target.outputName).length > 1) {
+        throw new Error(`Output name "${target.outputName}" is used by more than one build target`);
+      }
+      if (target.recipe && !(project.settings.recipes || []).some(recipe => recipe.name === target.recipe)) {
+        throw new Error(`Build target "${target.name}" uses unknown recipe "${target.recipe}"`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const settings: ProjectSettings = { ...project.settings, targets: cleaned };
+    database.updateProject(projectId, { settings, updatedAt: now });
+
+    await this.updateProjectConfig(projectId, config => {
+      config.settings = { ...(config.settings || {}), targets: cleaned };
+      config.updatedAt = now;
+    });
+
+    return { ...project, settings, updatedAt: now };
+  }
+
+  async setCompileRecipes(
+    projectId: string,
+    update: {
+      recipes: CompileRecipe[];
+      recipe?: string;
+      useLatexmkrc?: boolean;
+      bibTool?: ProjectSettings['bibTool'];
+      indexTool?: ProjectSettings['indexTool'];
+      containerImage?: string;
+    }
+  ): Promise<ProjectDTO> {
+    const project = await this.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const recipes = validateRecipes(update.recipes || []);
+    const recipe = update.recipe || undefined;
+    if (recipe && !recipes.some(candidate => candidate.name === recipe)) {
+      throw new Error(`Recipe "${recipe}" does not exist`);
+    }
+    for (const target of project.settings.targets || []) {
+      if (target.recipe && !recipes.some(candidate => candidate.name === target.recipe)) {
+        throw new Error(`Recipe "${target.recipe}" is still used by build target "${target.name}"`);
+      }
+    }
+
+    const bibTool = update.bibTool || project.settings.bibTool;
+    if (bibTool !== 'bibtex' && bibTool !== 'biber') {
+      throw new Error(`Unsupported bibliography tool ${bibTool}`);
+    }
+    const indexTool = update.indexTool || project.settings.indexTool || 'makeindex';
+    if (indexTool !== 'makeindex' && indexTool !== 'xindy') {
+      throw new Error(`Unsupported index tool ${indexTool}`);
+    }
+
+    const containerImage = update.containerImage?.trim() || undefined;
+    const imageProblem = containerImage ? containerImageProblem(containerImage) : null;
+    if (imageProblem) {
+      throw new Error(imageProblem);
+    }
+
+    const now = new Date().toISOString();
+    const changes = { recipes, recipe, useLatexmkrc: !!update.useLatexmkrc, bibTool, indexTool, containerImage };
+    const settings: ProjectSettings = { ...project.settings, ...changes };
+    database.updateProject(projectId, { settings, updatedAt: now });
+
+    await this.updateProjectConfig(projectId, config => {
+      config.settings = { ...(config.settings || {}), ...changes };
       config.updatedAt = now;
-      await writeFile(projectConfigPath, JSON.stringify(config, null, 2));
+    });
+
+    return { ...project, settings, updatedAt: now };
+  }
+
+  async setShellEscape(projectId: string, update: { mode: ShellEscapeMode; commands?: string[] }): Promise<ProjectDTO> {
+    const project = await this.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    if (!['off', 'restricted', 'full'].includes(update.mode)) {
+      throw new Error(`Unsupported shell-escape mode ${update.mode}`);
     }
 
-    return { ok: success };
+    const now = new Date().toISOString();
+    const changes = {
+      shellEscape: update.mode === 'full',
+      shellEscapeRestricted: update.mode === 'restricted',
+      shellEscapeCommands: validateShellEscapeCommands(update.commands || []),
+    };
+    const settings: ProjectSettings = { ...project.settings, ...changes };
+    database.updateProject(projectId, { settings, updatedAt: now });
+
+    await this.updateProjectConfig(projectId, config => {
+      config.settings = { ...(config.settings || {}), ...changes };
+      config.updatedAt = now;
+    });
+
+    return { ...project, settings, updatedAt: now };
+  }
+
+  /**
+   * Read project.json, let mutate change it and write it back. Updates of a
+   * project run one at a time, and the file is replaced by renaming a complete
+   * temporary copy over it, so it is never left half written.
+   */
+  async updateProjectConfig(projectId: string, mutate: (config: any) => void): Promise<void> {
+    const project = await this.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const previous = configLocks.get(projectId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(async () => {
+      const projectConfigPath = join(project.root, 'project.json');
+      const config = existsSync(projectConfigPath)
+        ? JSON.parse(await readFile(projectConfigPath, 'utf-8'))
+        : {};
+      mutate(config);
+
+      const tempPath = `${projectConfigPath}.tmp-${uuidv4()}`;
+      await writeFile(tempPath, JSON.stringify(config, null, 2));
+      await rename(tempPath, projectConfigPath);
+    });
+    configLocks.set(projectId, current);
+
+    try {
+      await current;
+    } finally {
+      if (configLocks.get(projectId) === current) {
+        configLocks.delete(projectId);
+      }
+    }
   }
 
   async ensureOutputDirectory(projectId: string): Promise<void> {
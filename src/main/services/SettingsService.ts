@@ -1,8 +1,9 @@
 import { existsSync } from 'fs';
-import { TeXDetectionService, TeXDistribution, TeXSettings } from './TeXDetectionService';
+import { ContainerSettings, TeXDetectionService, TeXDistribution, TeXSettings } from './TeXDetectionService';
+import { containerImageProblem, imageAvailable, probeImage, pullImage } from './ContainerBackend';
+import { database } from './Database';
 
 export class SettingsService {
-  private inMemoryDB = new Map<string, any>();
   private texDetection: TeXDetectionService;
 
   constructor() {
@@ -102,12 +103,20 @@ export class SettingsService {
     return await this.set(`editor.state.${projectId}`, state);
   }
 
+  // Settings are stored as JSON in the shared preferences table
   async get(key: string): Promise<any> {
-    return this.inMemoryDB.get(key) || null;
+    const stored = database.getPreference(key);
+    if (stored === undefined) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null; // Not written through set()
+    }
   }
 
   async set(key: string, value: any): Promise<{ ok: boolean }> {
-    this.inMemoryDB.set(key, value);
+    database.setPreference(key, JSON.stringify(value ?? null));
     return { ok: true };
   }
 
@@ -138,7 +147,9 @@ export class SettingsService {
       resourceLimits: {
         enableProcessPriority: true, // Milestone 10: Lower process priority on Unix
         maxCompileTimeMs: 180000, // Milestone 10: Hard timeout
-        autoCompileTimeoutMs: 120000 // Milestone 10: Shorter timeout for auto-compile
+        autoCompileTimeoutMs: 120000, // Milestone 10: Shorter timeout for auto-compile
+        maxConcurrentCompiles: 2, // Different projects may compile side by side
+        sandboxMemoryMB: 4096 // Per process, when shell-escape compiles are sandboxed
       }
     };
     
@@ -233,6 +244,72 @@ export class SettingsService {
     return { ok: true };
   }
 
+  // A distribution whose binaries run in a Docker or Podman image; pulls the image if needed
+  async addContainerDistribution(runtime: ContainerSettings['runtime'], image: string): Promise<{ ok: boolean }> {
+    if (runtime !== 'docker' && runtime !== 'podman') {
+      throw new Error(`Unsupported container runtime ${runtime}`);
+    }
+    const imageProblem = containerImageProblem(image);
+    if (imageProblem) {
+      throw new Error(imageProblem);
+    }
+
+    const client = await this.texDetection.findContainerRuntime(runtime);
+    if (!client || !client.path) {
+      throw new Error(`${runtime} not found. Install it or make sure it is on your PATH.`);
+    }
+
+    if (!(await imageAvailable(client.path, image))) {
+      console.log(`[SettingsService] Pulling container image ${image}...`);
+      await pullImage(client.path, image);
+    }
+    const latexmkVersion = await probeImage(client.path, image);
+
+    // Binary paths are the commands inside the image
+    const binaries: Record<string, any> = {};
+    for (const binary of ['latexmk', 'pdflatex', 'xelatex', 'lualatex', 'biber', 'bibtex']) {
+      binaries[binary] = {
+        path: binary,
+        version: binary === 'latexmk' ? latexmkVersion : image,
+        isValid: true,
+        source: 'container'
+      };
+    }
+
+    const name = `${runtime === 'docker' ? 'Docker' : 'Podman'}: ${image}`;
+    const containerDistribution: TeXDistribution = {
+      name,
+      isBundled: false,
+      isValid: true,
+      isActive: false,
+      latexmk: binaries.latexmk,
+      pdflatex: binaries.pdflatex,
+      xelatex: binaries.xelatex,
+      lualatex: binaries.lualatex,
+      biber: binaries.biber,
+      bibtex: binaries.bibtex,
+      container: { runtime, runtimePath: client.path, image },
+    };
+
+    const settings = await this.getTexSettings();
+    const existing = settings.distributions.findIndex(d => d.name === name);
+    if (existing >= 0) {
+      containerDistribution.isActive = settings.distributions[existing].isActive;
+      settings.distributions[existing] = containerDistribution;
+    } else {
+      settings.distributions.push(containerDistribution);
+    }
+    await this.updateTexSettings(settings);
+
+    return { ok: true };
+  }
+
+  async getActiveContainer(): Promise<ContainerSettings | null> {
+    const settings = await this.getTexSettings();
+    const active = settings.distributions.find(d => d.isActive);
+    return active?.container || null;
+  }
+
   async updateBinaryPath(binary: string, path: string): Promise<{ ok: boolean; valid: boolean }> {
     const isValid = await this.texDetection.validateBinaryPath(path, binary);
     
@@ -292,4 +369,10 @@ export class SettingsService {
     
     return null;
   }
+
+  async getTlmgrPath(): Promise<string | null> {
+    const latexmkPath = await this.getTexBinaryPath('latexmk');
+    const tlmgr = await this.texDetection.findTlmgr(latexmkPath);
+    return tlmgr && tlmgr.isValid ? tlmgr.path : null;
+  }
 }
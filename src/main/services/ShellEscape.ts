@@ -0,0 +1,57 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ProjectSettings } from '../types';
+
+export type ShellEscapeMode = 'off' | 'restricted' | 'full';
+
+// Build-directory folder holding the generated texmf.cnf; hidden entries are never copied from the project
+export const SHELL_ESCAPE_CONFIG_DIR = '.texmf-config';
+
+// Program names as kpathsea matches them; no paths, spaces or list separators
+const COMMAND_NAME = /^[A-Za-z0-9][\w.+-]*$/;
+
+export function shellEscapeMode(settings: Pick<ProjectSettings, 'shellEscape' | 'shellEscapeRestricted'>): ShellEscapeMode {
+  if (settings.shellEscape) return 'full';
+  return settings.shellEscapeRestricted ? 'restricted' : 'off';
+}
+
+// Trimmed, de-duplicated allowlist; throws on anything that is not a bare program name
+export function validateShellEscapeCommands(commands: string[]): string[] {
+  const names = [...new Set(commands.map(command => command.trim()).filter(Boolean))];
+  for (const name of names) {
+    if (!COMMAND_NAME.test(name)) {
+      throw new Error(`"${name}" is not a program name; list commands like gnuplot without paths or arguments`);
+    }
+  }
+  return names;
+}
+
+// The program TeX checks against shell_escape_commands: the first word, without quotes
+export function commandProgram(command: string): string {
+  const first = command.trim().match(/^"([^"]*)"|^'([^']*)'|^(\S+)/);
+  return first ? first[1] ?? first[2] ?? first[3] : '';
+}
+
+/**
+ * Write the texmf.cnf that -shell-restricted reads through TEXMFCNF. It only
+ * sets the shell-escape variables; an empty entry after it in TEXMFCNF keeps
+ * the distribution's own texmf.cnf for everything else. The file is made
+ * read-only so \openout cannot widen the allowlist for later runs.
+ * MiKTeX does not read texmf.cnf and keeps its own allowlist.
+ */
+export async function writeShellEscapeConfig(buildDir: string, commands: string[]): Promise<string> {
+  const configDir = join(buildDir, SHELL_ESCAPE_CONFIG_DIR);
+  const configPath = join(configDir, 'texmf.cnf');
+  await mkdir(configDir, { recursive: true });
+  await rm(configPath, { force: true }); // Left read-only by an earlier incremental build
+
+  const content = [
+    '% Generated for restricted shell escape; values here override the distribution texmf.cnf',
+    'shell_escape = p',
+    `shell_escape_commands = ${validateShellEscapeCommands(commands).join(',')}`,
+    '',
+  ].join('\n');
+  await writeFile(configPath, content, { mode: 0o444 });
+
+  return configDir;
+}
@@ -1,14 +1,37 @@
-import { join } from 'path';
-import { mkdir, readdir, stat, copyFile, rmdir, unlink } from 'fs/promises';
+import { join, relative, dirname, normalize, isAbsolute } from 'path';
+import { mkdir, readdir, stat, copyFile, rmdir, unlink, readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { createGzip } from 'zlib';
-import { pipeline } from 'stream/promises';
-import * as tar from 'tar';
-import { homedir } from 'os';
-import { SnapshotDTO } from '../types';
+import { SnapshotDTO, SnapshotDiffDTO, SnapshotFileDiffDTO, SnapshotPruneResultDTO, SnapshotRetentionPolicy } from '../types';
 import { ProjectService } from './ProjectService';
-import { inMemoryDB } from './InMemoryDB';
+import { database } from './Database';
+import { diffLines } from './TextDiff';
+import { SnapshotStore, SnapshotEntry, ManifestFileEntry } from './SnapshotStore';
+
+// Text files above this size are reported as changed without a line diff
+const MAX_DIFF_FILE_BYTES = 1024 * 1024;
+
+// File contents as needed for diffing; oversized text files keep only their size
+interface DiffContent {
+  binary: boolean;
+  text?: string;
+}
+
+const RETENTION_PREFERENCE_KEY = 'snapshot.retention';
+
+export const DEFAULT_RETENTION_POLICY: SnapshotRetentionPolicy = {
+  enabled: true,
+  keepAllHours: 24,
+  keepHourlyDays: 7,
+  keepDailyDays: 30,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Snapshot writes and blob garbage collection of the same project must not
+// interleave, or a collection could delete blobs of a half-written snapshot
+const projectLocks = new Map<string, Promise<unknown>>();
 
 export class SnapshotService {
   private projectService: ProjectService;
@@ -17,7 +40,7 @@ export class SnapshotService {
     this.projectService = projectService || new ProjectService();
   }
 
-  async create(projectId: string, message?: string): Promise<SnapshotDTO> {
+  async create(projectId: string, message?: string, options: { auto?: boolean } = {}): Promise<SnapshotDTO> {
     const project = await this.projectService.getById(projectId);
     if (!project) {
       throw new Error('Project not found');
@@ -32,21 +55,40 @@ export class SnapshotService {
       await mkdir(snapshotsDir, { recursive: true });
     }
 
-    const snapshotPath = join(snapshotsDir, `${timestamp}.tar.gz`);
+    const snapshotPath = join(snapshotsDir, `${timestamp}.json`);
+    const store = new SnapshotStore(snapshotsDir);
+
+    // Store each project file (excluding output and .history) as a blob; files
+    // unchanged since an earlier snapshot are already present and cost nothing
+    const sizeBytes = await this.withProjectLock(projectId, async () => {
+      const files: ManifestFileEntry[] = [];
+      let storedBytes = 0;
+
+      for (const relPath of await this.listWorkingTreeFiles(project.root)) {
+        const content = await readFile(join(project.root, relPath));
+        const { hash, written } = await store.writeBlob(content);
+        files.push({ path: relPath, hash, size: content.length });
+        storedBytes += written;
+      }
 
-    // Create tarball of project files (excluding output and .history)
-    await this.createTarball(project.root, snapshotPath);
+      await store.writeManifest(snapshotPath, {
+        id: snapshotId,
+        timestamp,
+        message: message || undefined,
+        auto: options.auto || undefined,
+        files,
+        storedBytes,
+      });
 
-    // Get file size
-    const stats = await stat(snapshotPath);
-    const sizeBytes = stats.size;
+      return storedBytes;
+    });
 
-    // Insert into in-memory database
-    inMemoryDB.insertSnapshot({
+    database.insertSnapshot({
       id: snapshotId,
       projectId,
       timestamp,
       message: message || undefined,
+      auto: options.auto || undefined,
       path: snapshotPath,
       sizeBytes,
     });
@@ -56,19 +98,21 @@ export class SnapshotService {
       projectId,
       timestamp,
       message,
+      auto: options.auto || undefined,
       path: snapshotPath,
       sizeBytes,
     };
   }
 
   async list(projectId: string): Promise<SnapshotDTO[]> {
-    const snapshots = inMemoryDB.getSnapshotsByProject(projectId);
+    const snapshots = database.getSnapshotsByProject(projectId);
 
     return snapshots.map((snapshot) => ({
       id: snapshot.id,
       projectId: snapshot.projectId,
       timestamp: snapshot.timestamp,
       message: snapshot.message,
+      auto: snapshot.auto,
       path: snapshot.path,
       sizeBytes: snapshot.sizeBytes,
       formattedDate: new Date(snapshot.timestamp).toLocaleString(),
@@ -79,7 +123,7 @@ export class SnapshotService {
   async restore(snapshotId: string): Promise<{ ok: boolean }> {
     console.log(`[SnapshotService] Starting restore of snapshot: ${snapshotId}`);
     
-    const snapshot = inMemoryDB.getSnapshot(snapshotId);
+    const snapshot = database.getSnapshot(snapshotId);
 
     if (!snapshot) {
       throw new Error('Snapshot not found');
@@ -97,7 +141,7 @@ export class SnapshotService {
     try {
       console.log('[SnapshotService] Creating auto-backup before restore...');
       // Create automatic backup before restore
-      await this.create(snapshot.projectId, `Auto-backup before restore (${new Date().toLocaleString()})`);
+      await this.create(snapshot.projectId, `Auto-backup before restore (${new Date().toLocaleString()})`, { auto: true });
       
       console.log('[SnapshotService] Creating temporary directory for extraction...');
       // Create temporary directory for extraction
@@ -106,10 +150,7 @@ export class SnapshotService {
 
       console.log('[SnapshotService] Extracting snapshot to temporary directory...');
       // Extract snapshot to temp directory
-      await tar.x({
-        file: snapshot.path,
-        cwd: tempDir,
-      });
+      await this.getStore(project.root).extract(snapshot.path, tempDir);
 
       console.log('[SnapshotService] Cleaning current project directory...');
       // Clean current project files (except .history and output)
@@ -125,7 +166,7 @@ export class SnapshotService {
 
       console.log('[SnapshotService] Updating project timestamp...');
       // Update project timestamp
-      inMemoryDB.updateProject(snapshot.projectId, { 
+      database.updateProject(snapshot.projectId, { 
         updatedAt: new Date().toISOString() 
       });
 
@@ -137,6 +178,457 @@ export class SnapshotService {
     }
   }
 
+  /**
+   * Read one file from a snapshot without extracting anything to the project
+   */
+  async readFile(snapshotId: string, relPath: string): Promise<{ content: string; binary: boolean }> {
+    const snapshot = database.getSnapshot(snapshotId);
+    if (!snapshot || !existsSync(snapshot.path)) {
+      throw new Error('Snapshot not found');
+    }
+
+    const content = await new SnapshotStore(dirname(snapshot.path)).readEntry(snapshot.path, relPath);
+    if (!content) {
+      throw new Error(`File not found in snapshot: ${relPath}`);
+    }
+
+    const binary = content.subarray(0, 8000).includes(0);
+    return { content: binary ? '' : content.toString('utf8'), binary };
+  }
+
+  /**
+   * Restore a single file from a snapshot, leaving every other file untouched
+   */
+  async restoreFile(snapshotId: string, relPath: string): Promise<{ ok: boolean }> {
+    const snapshot = database.getSnapshot(snapshotId);
+    if (!snapshot || !existsSync(snapshot.path)) {
+      throw new Error('Snapshot not found');
+    }
+
+    const project = await this.projectService.getById(snapshot.projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const safePath = normalize(relPath).replace(/\\/g, '/');
+    if (isAbsolute(safePath) || safePath.startsWith('..') || !this.isSnapshotPath(safePath)) {
+      throw new Error(`Invalid file path: ${relPath}`);
+    }
+
+    const content = await this.getStore(project.root).readEntry(snapshot.path, safePath);
+    if (!content) {
+      throw new Error(`File not found in snapshot: ${relPath}`);
+    }
+
+    console.log(`[SnapshotService] Restoring ${safePath} from snapshot ${snapshotId}`);
+
+    // Keep the current version recoverable, same as a full restore
+    await this.create(snapshot.projectId, `Auto-backup before restoring ${safePath} (${new Date().toLocaleString()})`, { auto: true });
+
+    const targetPath = join(project.root, safePath);
+    await mkdir(dirname(targetPath), { recursive: true });
+    await writeFile(targetPath, content);
+
+    database.updateProject(snapshot.projectId, {
+      updatedAt: new Date().toISOString()
+    });
+
+    return { ok: true };
+  }
+
+  /**
+   * Compare a snapshot with another snapshot, or with the working tree when
+   * toSnapshotId is omitted
+   */
+  async diff(fromSnapshotId: string, toSnapshotId?: string): Promise<SnapshotDiffDTO> {
+    const fromSnapshot = database.getSnapshot(fromSnapshotId);
+    if (!fromSnapshot || !existsSync(fromSnapshot.path)) {
+      throw new Error('Snapshot not found');
+    }
+
+    const project = await this.projectService.getById(fromSnapshot.projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const store = this.getStore(project.root);
+    const oldFiles = await store.listEntries(fromSnapshot.path);
+    let newFiles: Map<string, SnapshotEntry>;
+
+    if (toSnapshotId) {
+      const toSnapshot = database.getSnapshot(toSnapshotId);
+      if (!toSnapshot || !existsSync(toSnapshot.path)) {
+        throw new Error('Snapshot not found');
+      }
+      newFiles = await store.listEntries(toSnapshot.path);
+    } else {
+      newFiles = await this.readWorkingTreeFiles(project.root);
+    }
+
+    const files: SnapshotFileDiffDTO[] = [];
+    const summary = { added: 0, removed: 0, modified: 0 };
+    const paths = Array.from(new Set([...oldFiles.keys(), ...newFiles.keys()])).sort();
+
+    for (const path of paths) {
+      const oldFile = oldFiles.get(path);
+      const newFile = newFiles.get(path);
+
+      if (oldFile && newFile && oldFile.hash === newFile.hash) continue;
+
+      const status = !oldFile ? 'added' : !newFile ? 'removed' : 'modified';
+      summary[status]++;
+
+      // Only changed files are loaded, unchanged blobs are never read
+      const oldContent = oldFile ? this.toDiffContent(await oldFile.load()) : undefined;
+      const newContent = newFile ? this.toDiffContent(await newFile.load()) : undefined;
+
+      const binary = Boolean(oldContent?.binary || newContent?.binary);
+      const tooLarge = !binary && ((oldContent && oldContent.text === undefined) || (newContent && newContent.text === undefined));
+
+      files.push({
+        path,
+        status,
+        binary,
+        tooLarge: tooLarge || undefined,
+        oldSize: oldFile?.size,
+        newSize: newFile?.size,
+        hunks: binary || tooLarge ? [] : diffLines(oldContent?.text ?? '', newContent?.text ?? ''),
+      });
+    }
+
+    return {
+      fromSnapshotId,
+      toSnapshotId: toSnapshotId || null,
+      files,
+      summary,
+    };
+  }
+
+  private async readWorkingTreeFiles(projectRoot: string): Promise<Map<string, SnapshotEntry>> {
+    const files = new Map<string, SnapshotEntry>();
+
+    for (const relPath of await this.listWorkingTreeFiles(projectRoot)) {
+      const filePath = join(projectRoot, relPath);
+      const content = await readFile(filePath);
+      files.set(relPath, {
+        hash: SnapshotStore.hash(content),
+        size: content.length,
+        load: () => readFile(filePath),
+      });
+    }
+
+    return files;
+  }
+
+  // Project-relative paths of every file a snapshot would include
+  private async listWorkingTreeFiles(projectRoot: string): Promise<string[]> {
+    const files: string[] = [];
+
+    const walk = async (dir: string) => {
+      const items = await readdir(dir, { withFileTypes: true });
+      for (const item of items) {
+        const itemPath = join(dir, item.name);
+        const relPath = relative(projectRoot, itemPath).replace(/\\/g, '/');
+        if (!this.isSnapshotPath(relPath)) continue;
+
+        if (item.isDirectory()) {
+          await walk(itemPath);
+        } else if (item.isFile()) {
+          files.push(relPath);
+        }
+      }
+    };
+
+    await walk(projectRoot);
+    return files;
+  }
+
+  private toDiffContent(content: Buffer): DiffContent {
+    // Same heuristic as git: a NUL byte near the start means binary
+    const binary = content.subarray(0, 8000).includes(0);
+
+    return {
+      binary,
+      text: !binary && content.length <= MAX_DIFF_FILE_BYTES ? content.toString('utf8') : undefined,
+    };
+  }
+
+  /**
+   * Reconcile the snapshot index with the .history folder: recover snapshots
+   * written by earlier sessions or copied from another machine, and drop entries
+   * whose manifest or tarball is gone
+   */
+  async rebuildIndex(projectId: string): Promise<{ added: number; removed: number; updated: number }> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const result = { added: 0, removed: 0, updated: 0 };
+    const snapshotsDir = join(project.root, '.history');
+    const store = new SnapshotStore(snapshotsDir);
+    const indexed = database.getSnapshotsByProject(projectId);
+
+    // Orphaned index entries
+    for (const snapshot of indexed) {
+      if (!existsSync(snapshot.path)) {
+        database.deleteSnapshot(snapshot.id);
+        result.removed++;
+      }
+    }
+
+    if (existsSync(snapshotsDir)) {
+      const entries = await readdir(snapshotsDir);
+
+      for (const entry of entries) {
+        const match = entry.match(/^(\d+)\.(tar\.gz|json)$/);
+        if (!match) continue;
+
+        const snapshotPath = join(snapshotsDir, entry);
+        const legacy = match[2] === 'tar.gz';
+        let manifest = await store.readManifest(store.manifestPath(snapshotPath));
+
+        if (legacy && manifest?.files) {
+          // Left behind by a migration that stopped before deleting the tarball
+          await unlink(snapshotPath);
+          continue;
+        }
+        if (!legacy && (!manifest?.files || entries.includes(`${match[1]}.tar.gz`))) {
+          // Sidecar of a legacy tarball, handled with the tarball itself
+          continue;
+        }
+
+        const size = legacy ? (await stat(snapshotPath)).size : manifest!.storedBytes ?? 0;
+        const existing = indexed.find(s => s.path === snapshotPath && existsSync(s.path));
+
+        if (existing) {
+          if (existing.sizeBytes !== size) {
+            database.insertSnapshot({ ...existing, sizeBytes: size });
+            result.updated++;
+          }
+          continue;
+        }
+
+        if (!manifest || database.getSnapshot(manifest.id)) {
+          // No sidecar (or its id is already taken by a copy of this project elsewhere)
+          manifest = { ...manifest, id: uuidv4(), timestamp: manifest?.timestamp ?? parseInt(match[1]) };
+          await store.writeManifest(store.manifestPath(snapshotPath), manifest);
+        }
+
+        database.insertSnapshot({
+          id: manifest.id,
+          projectId,
+          timestamp: manifest.timestamp,
+          message: manifest.message,
+          auto: manifest.auto,
+          path: snapshotPath,
+          sizeBytes: size,
+        });
+        result.added++;
+      }
+    }
+
+    console.log(`[SnapshotService] Rebuilt index for ${project.name}: ${result.added} added, ${result.removed} removed, ${result.updated} updated`);
+    return result;
+  }
+
+  /**
+   * Convert .tar.gz snapshots from earlier versions into manifests and blobs.
+   * Each snapshot keeps its id, timestamp and message; its tarball is deleted
+   * only once the manifest is written, so an interrupted run can be repeated
+   */
+  async migrateLegacySnapshots(projectId: string): Promise<{ migrated: number; failed: number; freedBytes: number }> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const legacySnapshots = database.getSnapshotsByProject(projectId)
+      .filter(snapshot => SnapshotStore.isLegacyPath(snapshot.path) && existsSync(snapshot.path));
+    const result = { migrated: 0, failed: 0, freedBytes: 0 };
+    if (legacySnapshots.length === 0) return result;
+
+    console.log(`[SnapshotService] Migrating ${legacySnapshots.length} tarball snapshots of ${project.name}`);
+    const store = this.getStore(project.root);
+
+    await this.withProjectLock(projectId, async () => {
+      for (const snapshot of legacySnapshots) {
+        try {
+          const files: ManifestFileEntry[] = [];
+          let storedBytes = 0;
+
+          for (const [relPath, entry] of await store.listEntries(snapshot.path)) {
+            const { hash, written } = await store.writeBlob(await entry.load());
+            files.push({ path: relPath, hash, size: entry.size });
+            storedBytes += written;
+          }
+
+          const manifestPath = store.manifestPath(snapshot.path);
+          await store.writeManifest(manifestPath, {
+            id: snapshot.id,
+            timestamp: snapshot.timestamp,
+            message: snapshot.message,
+            auto: snapshot.auto,
+            files,
+            storedBytes,
+          });
+          database.insertSnapshot({ ...snapshot, path: manifestPath, sizeBytes: storedBytes });
+
+          const { size } = await stat(snapshot.path);
+          await unlink(snapshot.path);
+          result.freedBytes += size - storedBytes;
+          result.migrated++;
+        } catch (error) {
+          // The tarball stays in place and is retried on the next open
+          console.error(`[SnapshotService] Failed to migrate snapshot ${snapshot.id}:`, error);
+          result.failed++;
+        }
+      }
+
+      // Blobs left behind by a migration that failed halfway
+      await store.collectGarbage();
+    });
+
+    console.log(`[SnapshotService] Migrated ${result.migrated} snapshots (${result.failed} failed), freed ${this.formatBytes(Math.max(0, result.freedBytes))}`);
+    return result;
+  }
+
+  /**
+   * Delete blobs no longer referenced by any snapshot of the project
+   */
+  async collectGarbage(projectId: string): Promise<{ removedBlobs: number; freedBytes: number }> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const result = await this.withProjectLock(projectId, () => this.getStore(project.root).collectGarbage());
+    if (result.removedBlobs > 0) {
+      console.log(`[SnapshotService] Removed ${result.removedBlobs} unreferenced blobs, freed ${this.formatBytes(result.freedBytes)}`);
+    }
+    return result;
+  }
+
+  getRetentionPolicy(): SnapshotRetentionPolicy {
+    const stored = database.getPreference(RETENTION_PREFERENCE_KEY);
+    if (!stored) return { ...DEFAULT_RETENTION_POLICY };
+
+    try {
+      return { ...DEFAULT_RETENTION_POLICY, ...JSON.parse(stored) };
+    } catch {
+      return { ...DEFAULT_RETENTION_POLICY };
+    }
+  }
+
+  setRetentionPolicy(policy: SnapshotRetentionPolicy): { ok: boolean } {
+    database.setPreference(RETENTION_PREFERENCE_KEY, JSON.stringify({ ...DEFAULT_RETENTION_POLICY, ...policy }));
+    return { ok: true };
+  }
+
+  /**
+   * Delete the automatic snapshots the retention policy no longer keeps.
+   * Snapshots the user took, and those recovered from .history without a
+   * record of how they were taken, are never pruned; neither is the newest
+   * snapshot, whatever its age
+   */
+  async prune(projectId: string): Promise<SnapshotPruneResultDTO> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const policy = this.getRetentionPolicy();
+    const snapshots = database.getSnapshotsByProject(projectId); // Newest first
+    const result: SnapshotPruneResultDTO = { projectId, removed: 0, kept: snapshots.length, freedBytes: 0 };
+    if (!policy.enabled || snapshots.length === 0) return result;
+
+    const now = Date.now();
+    const seenHours = new Set<number>();
+    const seenDays = new Set<string>();
+    const expired = snapshots.slice(1).filter(snapshot => {
+      if (!snapshot.auto) {
+        return false;
+      }
+
+      const age = now - snapshot.timestamp;
+      if (age < policy.keepAllHours * HOUR_MS) {
+        return false;
+      }
+
+      // Snapshots are sorted newest first, so the first one seen in a bucket is kept
+      if (age < policy.keepHourlyDays * DAY_MS) {
+        const hour = Math.floor(snapshot.timestamp / HOUR_MS);
+        if (!seenHours.has(hour)) {
+          seenHours.add(hour);
+          return false;
+        }
+        return true;
+      }
+      if (age < policy.keepDailyDays * DAY_MS) {
+        const day = new Date(snapshot.timestamp).toDateString(); // Local calendar day
+        if (!seenDays.has(day)) {
+          seenDays.add(day);
+          return false;
+        }
+        return true;
+      }
+      return true;
+    });
+
+    if (expired.length === 0) return result;
+
+    await this.withProjectLock(projectId, async () => {
+      for (const snapshot of expired) {
+        try {
+          result.freedBytes += await this.removeSnapshotFiles(snapshot.path);
+          database.deleteSnapshot(snapshot.id);
+          result.removed++;
+        } catch (error) {
+          console.error(`[SnapshotService] Failed to prune snapshot ${snapshot.id}:`, error);
+        }
+      }
+
+      const collected = await this.getStore(project.root).collectGarbage();
+      result.freedBytes += collected.freedBytes;
+    });
+
+    result.kept = snapshots.length - result.removed;
+    console.log(`[SnapshotService] Pruned ${result.removed} snapshots of ${project.name}, freed ${this.formatBytes(result.freedBytes)}`);
+    return result;
+  }
+
+  // Delete a snapshot's tarball (legacy snapshots) and manifest; returns the bytes freed
+  private async removeSnapshotFiles(snapshotPath: string): Promise<number> {
+    let freedBytes = 0;
+
+    for (const filePath of new Set([snapshotPath, snapshotPath.replace(/\.tar\.gz$/, '.json')])) {
+      if (existsSync(filePath)) {
+        freedBytes += (await stat(filePath)).size;
+        await unlink(filePath);
+      }
+    }
+
+    return freedBytes;
+  }
+
+  private getStore(projectRoot: string): SnapshotStore {
+    return new SnapshotStore(join(projectRoot, '.history'));
+  }
+
+  private async withProjectLock<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+    const previous = projectLocks.get(projectId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    projectLocks.set(projectId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (projectLocks.get(projectId) === current) {
+        projectLocks.delete(projectId);
+      }
+    }
+  }
+
   /**
    * Clean project directory, preserving .history and output directories
    */
@@ -201,24 +693,13 @@ export class SnapshotService {
     await rmdir(dirPath);
   }
 
-  private async createTarball(sourceDir: string, outputPath: string): Promise<void> {
-    // Create tarball excluding output directory and .history
-    await tar.c(
-      {
-        gzip: true,
-        file: outputPath,
-        cwd: sourceDir,
-        filter: (path: string) => {
-          // Exclude output directory and .history
-          const normalizedPath = path.replace(/\\/g, '/');
-          return !normalizedPath.includes('output/') && 
-                 !normalizedPath.includes('.history/') &&
-                 !normalizedPath.startsWith('output') &&
-                 !normalizedPath.startsWith('.history');
-        },
-      },
-      ['.'] // Include current directory
-    );
+  // Exclude output directory and .history from snapshots
+  private isSnapshotPath(path: string): boolean {
+    const normalizedPath = path.replace(/\\/g, '/');
+    return !normalizedPath.includes('output/') && 
+           !normalizedPath.includes('.history/') &&
+           !normalizedPath.startsWith('output') &&
+           !normalizedPath.startsWith('.history');
   }
 
   /**
@@ -235,19 +716,23 @@ export class SnapshotService {
   }
 
   async delete(snapshotId: string): Promise<{ ok: boolean }> {
-    const snapshot = inMemoryDB.getSnapshot(snapshotId);
+    const snapshot = database.getSnapshot(snapshotId);
 
     if (!snapshot) {
       return { ok: false };
     }
 
-    // Delete file if it exists
-    if (existsSync(snapshot.path)) {
-      await import('fs/promises').then(fs => fs.unlink(snapshot.path));
-    }
+    await this.removeSnapshotFiles(snapshot.path);
 
     // Remove from database
-    const success = inMemoryDB.deleteSnapshot(snapshotId);
+    const success = database.deleteSnapshot(snapshotId);
+
+    // Blobs only this snapshot referenced are now garbage
+    try {
+      await this.collectGarbage(snapshot.projectId);
+    } catch (error) {
+      console.error('[SnapshotService] Garbage collection after delete failed:', error);
+    }
 
     return { ok: success };
   }
@@ -0,0 +1,242 @@
+import { join, dirname, resolve, sep } from 'path';
+import { mkdir, readdir, stat, readFile, writeFile, rename, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import * as tar from 'tar';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export interface ManifestFileEntry {
+  path: string; // Project-relative, forward slashes
+  hash: string; // sha256 of the uncompressed content
+  size: number;
+}
+
+// .history/<timestamp>.json - a sidecar for legacy tarballs, or the full file
+// list of a content-addressed snapshot when `files` is present
+export interface SnapshotManifest {
+  id: string;
+  timestamp: number;
+  message?: string;
+  auto?: boolean; // Taken by the app (periodic, before a restore or refactoring), not by the user
+  files?: ManifestFileEntry[];
+  storedBytes?: number; // Bytes of new blobs written by this snapshot
+}
+
+// A file inside a snapshot; content is loaded on demand
+export interface SnapshotEntry {
+  hash: string;
+  size: number;
+  load: () => Promise<Buffer>;
+}
+
+/**
+ * SnapshotStore - storage layout of a project's .history folder.
+ *
+ * New snapshots are manifests pointing at gzip-compressed blobs in
+ * .history/objects/<2 hex>/<62 hex>, named by the sha256 of their content so
+ * unchanged files are stored once. Older snapshots are self-contained
+ * .tar.gz archives and remain readable until they are migrated.
+ */
+export class SnapshotStore {
+  private objectsDir: string;
+
+  constructor(private historyDir: string) {
+    this.objectsDir = join(historyDir, 'objects');
+  }
+
+  static hash(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  static isLegacyPath(snapshotPath: string): boolean {
+    return snapshotPath.endsWith('.tar.gz');
+  }
+
+  manifestPath(snapshotPath: string): string {
+    return snapshotPath.replace(/\.tar\.gz$/, '.json');
+  }
+
+  // Store a blob if it isn't already present; returns the compressed bytes written
+  async writeBlob(content: Buffer): Promise<{ hash: string; written: number }> {
+    const hash = SnapshotStore.hash(content);
+    const blobPath = this.objectPath(hash);
+    if (existsSync(blobPath)) {
+      return { hash, written: 0 };
+    }
+
+    await mkdir(dirname(blobPath), { recursive: true });
+    const compressed = await gzipAsync(content);
+
+    // Write then rename so a crash never leaves a truncated blob under its final name
+    const tempPath = `${blobPath}.tmp-${uuidv4()}`;
+    await writeFile(tempPath, compressed);
+    await rename(tempPath, blobPath);
+
+    return { hash, written: compressed.length };
+  }
+
+  async readBlob(hash: string): Promise<Buffer> {
+    const blobPath = this.objectPath(hash);
+    if (!existsSync(blobPath)) {
+      throw new Error(`Snapshot data is missing object ${hash.substring(0, 12)}`);
+    }
+    return await gunzipAsync(await readFile(blobPath));
+  }
+
+  async readManifest(manifestPath: string): Promise<SnapshotManifest | null> {
+    if (!existsSync(manifestPath)) return null;
+
+    try {
+      const manifest = JSON.parse(await readFile(manifestPath, 'utf8'));
+      if (typeof manifest.id !== 'string' || typeof manifest.timestamp !== 'number') {
+        return null;
+      }
+      return manifest;
+    } catch (error) {
+      console.warn(`[SnapshotStore] Ignoring unreadable manifest ${manifestPath}:`, error);
+      return null;
+    }
+  }
+
+  async writeManifest(manifestPath: string, manifest: SnapshotManifest): Promise<void> {
+    const tempPath = `${manifestPath}.tmp-${uuidv4()}`;
+    await writeFile(tempPath, JSON.stringify(manifest, null, 2), 'utf8');
+    await rename(tempPath, manifestPath);
+  }
+
+  // Every file in a snapshot, keyed by project-relative path
+  async listEntries(snapshotPath: string): Promise<Map<string, SnapshotEntry>> {
+    const entries = new Map<string, SnapshotEntry>();
+
+    if (SnapshotStore.isLegacyPath(snapshotPath)) {
+      await tar.t({
+        file: snapshotPath,
+        onentry: (entry: any) => {
+          if (entry.type !== 'File') return;
+
+          const chunks: Buffer[] = [];
+          const entryPath = SnapshotStore.normalizeEntryPath(entry.path);
+          entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+          entry.on('end', () => {
+            const content = Buffer.concat(chunks);
+            entries.set(entryPath, { hash: SnapshotStore.hash(content), size: content.length, load: async () => content });
+          });
+        },
+      });
+      return entries;
+    }
+
+    const manifest = await this.readManifest(snapshotPath);
+    if (!manifest?.files) {
+      throw new Error('Snapshot manifest is missing or incomplete');
+    }
+
+    for (const file of manifest.files) {
+      entries.set(file.path, { hash: file.hash, size: file.size, load: () => this.readBlob(file.hash) });
+    }
+    return entries;
+  }
+
+  async readEntry(snapshotPath: string, relPath: string): Promise<Buffer | null> {
+    const wanted = SnapshotStore.normalizeEntryPath(relPath);
+    SnapshotStore.resolveEntryPath(dirname(this.historyDir), wanted);
+
+    if (SnapshotStore.isLegacyPath(snapshotPath)) {
+      let result: Buffer | null = null;
+      await tar.t({
+        file: snapshotPath,
+        filter: (entryPath: string) => SnapshotStore.normalizeEntryPath(entryPath) === wanted,
+        onentry: (entry: any) => {
+          if (entry.type !== 'File') return;
+
+          const chunks: Buffer[] = [];
+          entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+          entry.on('end', () => { result = Buffer.concat(chunks); });
+        },
+      });
+      return result;
+    }
+
+    const manifest = await this.readManifest(snapshotPath);
+    const file = manifest?.files?.find(f => f.path === wanted);
+    return file ? await this.readBlob(file.hash) : null;
+  }
+
+  // Write every file of a snapshot into destDir
+  async extract(snapshotPath: string, destDir: string): Promise<void> {
+    if (SnapshotStore.isLegacyPath(snapshotPath)) {
+      await tar.x({ file: snapshotPath, cwd: destDir });
+      return;
+    }
+
+    const entries = await this.listEntries(snapshotPath);
+    for (const [relPath, entry] of entries) {
+      const targetPath = SnapshotStore.resolveEntryPath(destDir, relPath);
+      await mkdir(dirname(targetPath), { recursive: true });
+      await writeFile(targetPath, await entry.load());
+    }
+  }
+
+  /**
+   * Delete blobs that no manifest references. Callers must make sure no
+   * snapshot is being written at the same time.
+   */
+  async collectGarbage(): Promise<{ removedBlobs: number; freedBytes: number }> {
+    const result = { removedBlobs: 0, freedBytes: 0 };
+    if (!existsSync(this.objectsDir)) return result;
+
+    const referenced = new Set<string>();
+    for (const name of await readdir(this.historyDir)) {
+      if (!/^\d+\.json$/.test(name)) continue;
+
+      const manifest = await this.readManifest(join(this.historyDir, name));
+      if (!manifest) {
+        // Can't tell what an unreadable manifest references, so keep everything
+        console.warn(`[SnapshotStore] Skipping garbage collection, unreadable manifest ${name}`);
+        return result;
+      }
+      manifest.files?.forEach(file => referenced.add(file.hash));
+    }
+
+    for (const prefix of await readdir(this.objectsDir)) {
+      const prefixDir = join(this.objectsDir, prefix);
+      for (const name of await readdir(prefixDir)) {
+        const blobPath = join(prefixDir, name);
+        // Leftover temp files from interrupted writes are garbage as well
+        if (referenced.has(prefix + name)) continue;
+
+        const { size } = await stat(blobPath);
+        await unlink(blobPath);
+        result.removedBlobs++;
+        result.freedBytes += size;
+      }
+    }
+
+    return result;
+  }
+
+  private objectPath(hash: string): string {
+    return join(this.objectsDir, hash.substring(0, 2), hash.substring(2));
+  }
+
+  // Absolute path of an entry under destDir; manifests are plain JSON, so never trust their paths
+  static resolveEntryPath(destDir: string, relPath: string): string {
+    const root = resolve(destDir);
+    const targetPath = resolve(root, relPath);
+
+    if (!targetPath.startsWith(root + sep)) {
+      throw new Error(`Access denied: snapshot path outside project root: ${relPath}`);
+    }
+
+    return targetPath;
+  }
+
+  static normalizeEntryPath(entryPath: string): string {
+    return entryPath.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  }
+}
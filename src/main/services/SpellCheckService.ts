@@ -0,0 +1,229 @@
+import { join, basename } from 'path';
+import { readdir, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { homedir } from 'os';
+import { ProjectService } from './ProjectService';
+import { Hunspell } from './Hunspell';
+import { proseWords, scanLatex, LatexWord } from './LatexText';
+import { grammarIssues } from './GrammarRules';
+import { readMagicComments } from './MagicComments';
+import { SpellCheckResultDTO, SpellIssueDTO } from '../types';
+
+const DEFAULT_LANGUAGE = 'en_US';
+
+const LANGUAGE_CODE = /^[A-Za-z]{2,3}(?:[_-][A-Za-z0-9]+)*$/;
+
+// Keeps a file full of foreign text or tables from flooding the editor
+const MAX_ISSUES = 500;
+
+interface ProjectSpellSettings {
+  language?: string;
+  words: string[];
+}
+
+/**
+ * SpellCheckService - offline spell checking of LaTeX sources against
+ * Hunspell dictionaries. Dictionaries are bundled under
+ * resources/dictionaries (any installed system Hunspell dictionaries are
+ * offered too). Commands, math, verbatim text, comments and label or
+ * citation keys are never checked. The language comes from a
+ * `% !TEX spellcheck = de_DE` comment or the project default, and words
+ * added to the project dictionary are kept in project.json.
+ * Besides spelling, repeated words and the grammar rules in GrammarRules
+ * (articles, doubled punctuation) are reported.
+ */
+export class SpellCheckService {
+  private dictionaries = new Map<string, Promise<Hunspell | null>>();
+
+  constructor(private projectService: ProjectService) {}
+
+  async check(projectId: string, content: string): Promise<SpellCheckResultDTO> {
+    const settings = await this.readProjectSettings(projectId);
+    const available = await this.listLanguages();
+    const requested = SpellCheckService.magicLanguage(content) || settings.language || DEFAULT_LANGUAGE;
+    const language = this.resolveLanguage(requested, available);
+
+    const dictionary = language ? await this.loadDictionary(language) : null;
+    if (!language || !dictionary) {
+      return { language: requested, dictionaryFound: false, languages: available, issues: [] };
+    }
+
+    const projectWords = new Set(settings.words);
+    const isKnown = (word: string) =>
+      projectWords.has(word) || projectWords.has(word.toLowerCase()) || dictionary.check(word);
+
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') lineStarts.push(i + 1);
+    }
+    const position = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) low = mid;
+        else high = mid - 1;
+      }
+      return { line: low + 1, column: offset - lineStarts[low] + 1 };
+    };
+
+    const issues: SpellIssueDTO[] = [];
+    const prose = scanLatex(content).prose;
+    const words = proseWords(prose);
+    let previous: LatexWord | null = null;
+
+    for (const token of words) {
+      if (issues.length >= MAX_ISSUES) break;
+
+      const gap = previous ? content.substring(previous.to, token.from) : '';
+      if (previous && previous.word.toLowerCase() === token.word.toLowerCase() && /\p{L}/u.test(token.word) &&
+          /^\s+$/.test(gap) && !/\n\s*\n/.test(gap)) {
+        issues.push({
+          kind: 'repetition',
+          word: token.word,
+          from: token.from,
+          to: token.to,
+          ...position(token.from),
+          suggestions: [],
+        });
+      } else if (SpellCheckService.shouldCheck(token.word) && !isKnown(token.word)) {
+        issues.push({
+          kind: 'spelling',
+          word: token.word,
+          from: token.from,
+          to: token.to,
+          ...position(token.from),
+          suggestions: dictionary.suggest(token.word),
+        });
+      }
+      previous = token;
+    }
+
+    for (const issue of grammarIssues(content, prose, words, language)) {
+      issues.push({ kind: 'grammar', ...issue, ...position(issue.from) });
+    }
+    issues.sort((a, b) => a.from - b.from);
+
+    return { language, dictionaryFound: true, languages: available, issues: issues.slice(0, MAX_ISSUES) };
+  }
+
+  async addWord(projectId: string, word: string): Promise<{ ok: boolean }> {
+    const trimmed = word.trim();
+    if (!trimmed || /\s/.test(trimmed)) {
+      throw new Error('Only single words can be added to the dictionary');
+    }
+
+    await this.projectService.updateProjectConfig(projectId, config => {
+      const spellcheck = config.spellcheck || {};
+      const words: string[] = Array.isArray(spellcheck.words) ? spellcheck.words : [];
+      if (!words.includes(trimmed)) {
+        words.push(trimmed);
+        words.sort((a, b) => a.localeCompare(b));
+      }
+      config.spellcheck = { ...spellcheck, words };
+    });
+
+    console.log(`[SpellCheckService] Added "${trimmed}" to the dictionary of project ${projectId}`);
+    return { ok: true };
+  }
+
+  private async readProjectSettings(projectId: string): Promise<ProjectSpellSettings> {
+    const project = await this.projectService.getById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    try {
+      const config = JSON.parse(await readFile(join(project.root, 'project.json'), 'utf-8'));
+      const spellcheck = config.spellcheck || {};
+      return {
+        language: typeof spellcheck.language === 'string' ? spellcheck.language : undefined,
+        words: Array.isArray(spellcheck.words) ? spellcheck.words.filter((word: unknown) => typeof word === 'string') : [],
+      };
+    } catch {
+      // Imported projects may not have a project.json yet
+      return { words: [] };
+    }
+  }
+
+  private dictionaryDirectories(): string[] {
+    const directories = [
+      join(process.resourcesPath || '', 'dictionaries'),
+      // Development builds run from dist/main/services
+      join(__dirname, '..', '..', '..', 'resources', 'dictionaries'),
+    ];
+
+    if (process.platform === 'darwin') {
+      directories.push('/Library/Spelling', join(homedir(), 'Library', 'Spelling'));
+    } else if (process.platform === 'linux') {
+      directories.push('/usr/share/hunspell', '/usr/share/myspell', '/usr/share/myspell/dicts');
+    }
+    return directories;
+  }
+
+  // Language code -> directory holding its .aff/.dic pair; bundled dictionaries win
+  private async findDictionaries(): Promise<Map<string, string>> {
+    const found = new Map<string, string>();
+    for (const directory of this.dictionaryDirectories()) {
+      if (!existsSync(directory)) continue;
+      try {
+        const entries = await readdir(directory);
+        for (const entry of entries) {
+          if (!entry.endsWith('.dic')) continue;
+          const language = basename(entry, '.dic');
+          if (!found.has(language) && entries.includes(`${language}.aff`)) {
+            found.set(language, directory);
+          }
+        }
+      } catch (error) {
+        console.warn(`[SpellCheckService] Could not read dictionaries in ${directory}:`, error);
+      }
+    }
+    return found;
+  }
+
+  private async listLanguages(): Promise<string[]> {
+    return [...(await this.findDictionaries()).keys()].sort();
+  }
+
+  // en-GB matches en_GB; otherwise any dictionary of the same language will do
+  private resolveLanguage(requested: string, available: string[]): string | null {
+    const normalized = requested.replace(/-/g, '_').toLowerCase();
+    const base = normalized.split('_')[0];
+    return available.find(language => language.toLowerCase() === normalized)
+      || available.find(language => language.toLowerCase().split('_')[0] === base)
+      || null;
+  }
+
+  private loadDictionary(language: string): Promise<Hunspell | null> {
+    let dictionary = this.dictionaries.get(language);
+    if (!dictionary) {
+      dictionary = (async () => {
+        const directory = (await this.findDictionaries()).get(language);
+        if (!directory) return null;
+        try {
+          const loaded = await Hunspell.load(join(directory, `${language}.aff`), join(directory, `${language}.dic`));
+          console.log(`[SpellCheckService] Loaded ${language} dictionary from ${directory}`);
+          return loaded;
+        } catch (error) {
+          console.error(`[SpellCheckService] Failed to load ${language} dictionary:`, error);
+          this.dictionaries.delete(language);
+          return null;
+        }
+      })();
+      this.dictionaries.set(language, dictionary);
+    }
+    return dictionary;
+  }
+
+  private static magicLanguage(content: string): string | undefined {
+    const language = readMagicComments(content).spellcheck;
+    return language && LANGUAGE_CODE.test(language) ? language : undefined;
+  }
+
+  // Single letters, acronyms and words with digits are left alone
+  private static shouldCheck(word: string): boolean {
+    if (word.length < 2 || /\d/.test(word)) return false;
+    return word !== word.toUpperCase() || word === word.toLowerCase();
+  }
+}
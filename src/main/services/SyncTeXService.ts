@@ -0,0 +1,279 @@
+import { join, normalize, relative, isAbsolute } from 'path';
+import { readFile, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { gunzip } from 'zlib';
+import { promisify } from 'util';
+import { SyncTeXForwardResult, SyncTeXInverseResult } from '../types';
+
+const gunzipAsync = promisify(gunzip);
+
+// One scaled point expressed in big points (72 bp = 72.27 pt = 72.27 * 65536 sp)
+const SP_PER_BP = 65781.76;
+
+interface SyncTeXRecord {
+  kind: string; // '[' vbox, '(' hbox, 'h'/'v' void boxes, 'x' current, 'k' kern, 'g' glue, '$' math
+  tag: number;
+  line: number;
+  column: number;
+  h: number;
+  v: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+interface ParsedSyncTeX {
+  mtimeMs: number;
+  inputs: Map<number, string>; // tag -> project-relative path
+  pages: Map<number, SyncTeXRecord[]>;
+}
+
+/**
+ * SyncTeXService - parses the .synctex.gz file produced by latexmk and answers
+ * forward (source -> PDF) and inverse (PDF -> source) position queries.
+ */
+export class SyncTeXService {
+  private cache: Map<string, ParsedSyncTeX> = new Map(); // synctex path -> parsed data
+
+  async forward(projectRoot: string, synctexPath: string, file: string, line: number): Promise<SyncTeXForwardResult | null> {
+    const data = await this.load(projectRoot, synctexPath);
+    if (!data) return null;
+
+    const wantedFile = this.normalizeRelPath(file);
+    const tags = Array.from(data.inputs.entries())
+      .filter(([, path]) => path === wantedFile)
+      .map(([tag]) => tag);
+
+    if (tags.length === 0) {
+      console.log(`[SyncTeXService] No SyncTeX input matches ${wantedFile}`);
+      return null;
+    }
+
+    // Find the closest line at or after the requested line, falling back to the nearest before it
+    let best: { page: number; record: SyncTeXRecord; distance: number } | null = null;
+    for (const [page, records] of data.pages) {
+      for (const record of records) {
+        if (!tags.includes(record.tag) || record.line <= 0) continue;
+
+        const delta = record.line - line;
+        const distance = delta >= 0 ? delta : Math.abs(delta) + 0.5;
+        if (!best || distance < best.distance) {
+          best = { page, record, distance };
+        }
+      }
+    }
+
+    if (!best) return null;
+
+    // Merge every box on the same page that belongs to the matched line
+    const matching = (data.pages.get(best.page) || []).filter(
+      r => tags.includes(r.tag) && r.line === best!.record.line && r.width > 0
+    );
+    const boxes = matching.length > 0 ? matching : [best.record];
+
+    const left = Math.min(...boxes.map(r => r.h));
+    const top = Math.min(...boxes.map(r => r.v - r.height));
+    const right = Math.max(...boxes.map(r => r.h + r.width));
+    const bottom = Math.max(...boxes.map(r => r.v + r.depth));
+
+    return {
+      page: best.page,
+      x: this.toBigPoints(left),
+      y: this.toBigPoints(top),
+      width: this.toBigPoints(Math.max(right - left, 0)),
+      height: this.toBigPoints(Math.max(bottom - top, 0)),
+    };
+  }
+
+  async inverse(projectRoot: string, synctexPath: string, page: number, x: number, y: number): Promise<SyncTeXInverseResult | null> {
+    const data = await this.load(projectRoot, synctexPath);
+    if (!data) return null;
+
+    const records = data.pages.get(page);
+    if (!records || records.length === 0) return null;
+
+    const h = x * SP_PER_BP;
+    const v = y * SP_PER_BP;
+
+    // Prefer the smallest horizontal box that contains the point
+    let best: SyncTeXRecord | null = null;
+    let bestArea = Infinity;
+    for (const record of records) {
+      if (record.kind !== '(' && record.kind !== 'h') continue;
+      if (!data.inputs.has(record.tag)) continue;
+
+      const top = record.v - record.height;
+      const bottom = record.v + record.depth;
+      if (h >= record.h && h <= record.h + record.width && v >= top && v <= bottom) {
+        const area = record.width * Math.max(record.height + record.depth, 1);
+        if (area < bestArea) {
+          best = record;
+          bestArea = area;
+        }
+      }
+    }
+
+    // Otherwise take the nearest record on the page
+    if (!best) {
+      let bestDistance = Infinity;
+      for (const record of records) {
+        if (!data.inputs.has(record.tag) || record.line <= 0) continue;
+
+        const dx = h < record.h ? record.h - h : Math.max(h - (record.h + record.width), 0);
+        const dy = Math.abs(v - record.v);
+        const distance = dx * dx + dy * dy * 4; // Weight vertical distance, lines matter more than columns
+        if (distance < bestDistance) {
+          best = record;
+          bestDistance = distance;
+        }
+      }
+    }
+
+    if (!best) return null;
+
+    return {
+      file: data.inputs.get(best.tag)!,
+      line: best.line,
+      column: best.column > 0 ? best.column : undefined,
+    };
+  }
+
+  // Drop cached data, e.g. after a clean build
+  invalidate(synctexPath?: string): void {
+    if (synctexPath) {
+      this.cache.delete(synctexPath);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private async load(projectRoot: string, synctexPath: string): Promise<ParsedSyncTeX | null> {
+    if (!existsSync(synctexPath)) {
+      console.log(`[SyncTeXService] SyncTeX file not found: ${synctexPath}`);
+      return null;
+    }
+
+    const stats = await stat(synctexPath);
+    const cached = this.cache.get(synctexPath);
+    if (cached && cached.mtimeMs === stats.mtimeMs) {
+      return cached;
+    }
+
+    try {
+      const raw = await readFile(synctexPath);
+      const content = synctexPath.endsWith('.gz') ? (await gunzipAsync(raw)).toString('utf8') : raw.toString('utf8');
+      const parsed = this.parse(content, projectRoot, stats.mtimeMs);
+      this.cache.set(synctexPath, parsed);
+      console.log(`[SyncTeXService] Parsed ${synctexPath}: ${parsed.inputs.size} inputs, ${parsed.pages.size} pages`);
+      return parsed;
+    } catch (error) {
+      console.error(`[SyncTeXService] Failed to parse ${synctexPath}:`, error);
+      return null;
+    }
+  }
+
+  private parse(content: string, projectRoot: string, mtimeMs: number): ParsedSyncTeX {
+    const inputs = new Map<number, string>();
+    const pages = new Map<number, SyncTeXRecord[]>();
+    const lines = content.split('\n');
+
+    let unit = 1;
+    let magnification = 1000;
+    let xOffset = 0;
+    let yOffset = 0;
+    let currentPage = 0;
+    let inContent = false;
+
+    const recordPattern = /^([\[(hvxkg$])(\d+),(-?\d+)(?:,(-?\d+))?:(-?\d+),(-?\d+)(?::(-?\d+)(?:,(-?\d+),(-?\d+))?)?/;
+
+    for (const line of lines) {
+      if (line.startsWith('Input:')) {
+        const match = line.match(/^Input:(\d+):(.*)$/);
+        if (match) {
+          const resolved = this.resolveInputPath(match[2], projectRoot);
+          if (resolved) {
+            inputs.set(parseInt(match[1]), resolved);
+          }
+        }
+        continue;
+      }
+
+      if (!inContent) {
+        if (line.startsWith('Unit:')) unit = parseFloat(line.substring(5)) || 1;
+        else if (line.startsWith('Magnification:')) magnification = parseFloat(line.substring(14)) || 1000;
+        else if (line.startsWith('X Offset:')) xOffset = parseFloat(line.substring(9)) || 0;
+        else if (line.startsWith('Y Offset:')) yOffset = parseFloat(line.substring(9)) || 0;
+        else if (line.startsWith('Content:')) inContent = true;
+        continue;
+      }
+
+      if (line.startsWith('Postamble:')) break;
+
+      if (line.startsWith('{')) {
+        currentPage = parseInt(line.substring(1));
+        if (!pages.has(currentPage)) pages.set(currentPage, []);
+        continue;
+      }
+
+      if (line.startsWith('}')) {
+        currentPage = 0;
+        continue;
+      }
+
+      if (!currentPage) continue;
+
+      const match = line.match(recordPattern);
+      if (!match) continue;
+
+      const scale = unit * (magnification / 1000);
+      const [, kind, tag, lineNum, column, h, v, width, height, depth] = match;
+      pages.get(currentPage)!.push({
+        kind,
+        tag: parseInt(tag),
+        line: parseInt(lineNum),
+        column: column !== undefined ? parseInt(column) : -1,
+        h: parseInt(h) * scale + xOffset,
+        v: parseInt(v) * scale + yOffset,
+        width: width !== undefined ? parseInt(width) * scale : 0,
+        height: height !== undefined ? parseInt(height) * scale : 0,
+        depth: depth !== undefined ? parseInt(depth) * scale : 0,
+      });
+    }
+
+    return { mtimeMs, inputs, pages };
+  }
+
+  // SyncTeX records absolute paths inside the temporary build directory,
+  // so map them back onto the project by the longest suffix that exists there
+  private resolveInputPath(inputPath: string, projectRoot: string): string | null {
+    const cleaned = normalize(inputPath.trim());
+
+    if (!isAbsolute(cleaned)) {
+      return this.normalizeRelPath(cleaned);
+    }
+
+    const rootRelative = relative(projectRoot, cleaned);
+    if (!rootRelative.startsWith('..') && !isAbsolute(rootRelative)) {
+      return this.normalizeRelPath(rootRelative);
+    }
+
+    const parts = cleaned.split(/[\\/]/).filter(Boolean);
+    for (let i = 0; i < parts.length; i++) {
+      const candidate = parts.slice(i).join('/');
+      if (existsSync(join(projectRoot, candidate))) {
+        return this.normalizeRelPath(candidate);
+      }
+    }
+
+    // Files outside the project (class files, packages) are not navigable
+    return null;
+  }
+
+  private normalizeRelPath(path: string): string {
+    return normalize(path).replace(/\\/g, '/').replace(/^\.\//, '');
+  }
+
+  private toBigPoints(sp: number): number {
+    return sp / SP_PER_BP;
+  }
+}
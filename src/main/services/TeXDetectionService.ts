@@ -1,12 +1,18 @@
 import { spawn } from 'child_process';
-import { join } from 'path';
+import { join, dirname } from 'path';
 import { existsSync } from 'fs';
 
 export interface TeXBinary {
   path: string | null;
   version: string | null;
   isValid: boolean;
-  source: 'bundled' | 'system' | 'custom';
+  source: 'bundled' | 'system' | 'custom' | 'container';
+}
+
+export interface ContainerSettings {
+  runtime: 'docker' | 'podman';
+  runtimePath: string; // Host path of the docker or podman client
+  image: string; // e.g. texlive/texlive:latest; projects may pin their own
 }
 
 export interface TeXDistribution {
@@ -20,6 +26,7 @@ export interface TeXDistribution {
   isBundled: boolean;
   isValid: boolean;
   isActive: boolean;
+  container?: ContainerSettings; // Binaries run inside this image rather than on the host
 }
 
 export interface TeXSettings {
@@ -35,7 +42,10 @@ export interface TeXSettings {
     enableProcessPriority: boolean;
     maxCompileTimeMs: number;
     autoCompileTimeoutMs: number;
+    maxConcurrentCompiles?: number; // Projects compiling at once; a project never runs two jobs
+    sandboxMemoryMB?: number; // Per-process memory limit for sandboxed shell-escape compiles
   };
+  packageRepository?: string; // tlmgr repository (local mirror directory or URL); TeX Live's configured one when unset
 }
 
 export class TeXDetectionService {
@@ -170,6 +180,28 @@ export class TeXDetectionService {
     };
   }
 
+  // tlmgr is not one of a distribution's compile binaries; prefer the one installed next to latexmk
+  async findTlmgr(latexmkPath?: string | null): Promise<TeXBinary | null> {
+    if (latexmkPath) {
+      const sibling = await this.validateBinaryAtPath(join(dirname(latexmkPath), 'tlmgr'), 'tlmgr');
+      if (sibling && sibling.isValid) return sibling;
+    }
+
+    let detected = await this.findInPath('tlmgr');
+    if (!detected || !detected.isValid) {
+      detected = await this.findInCommonPaths('tlmgr');
+    }
+    return detected;
+  }
+
+  async findContainerRuntime(runtime: ContainerSettings['runtime']): Promise<TeXBinary | null> {
+    let detected = await this.findInPath(runtime);
+    if (!detected || !detected.isValid) {
+      detected = await this.findInCommonPaths(runtime);
+    }
+    return detected && detected.isValid ? detected : null;
+  }
+
   private async findInPath(binaryName: string): Promise<TeXBinary | null> {
     return new Promise((resolve) => {
       // Use 'which' on Unix or 'where' on Windows
@@ -425,6 +457,11 @@ export class TeXDetectionService {
         if (altMatch) return `Latexmk ${altMatch[1]}`;
       }
       
+      if (binaryName === 'docker' || binaryName === 'podman') {
+        const match = line.match(/^(Docker|podman) version ([\w.\-]+)/i);
+        if (match) return `${match[1]} ${match[2]}`;
+      }
+
       if (binaryName === 'bibtex') {
         const match = line.match(/BibTeX ([0-9.]+)/);
         if (match) return `BibTeX ${match[1]}`;
@@ -0,0 +1,166 @@
+import { spawn } from 'child_process';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { EventEmitter } from 'events';
+import { ErrorDTO } from '../types';
+import { SettingsService } from './SettingsService';
+
+interface PackageIndex {
+  source: string;
+  files: Record<string, string>; // File name -> TeX Live package
+  fonts: Record<string, string>; // fontspec family name -> TeX Live package
+}
+
+export interface PackageInstallResult {
+  ok: boolean;
+  code: number | null;
+  packages: string[];
+}
+
+// TeX Live package names; anything else never reaches the tlmgr command line
+const PACKAGE_NAME = /^[A-Za-z0-9][\w.+-]*$/;
+const INSTALL_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * TexPackageService - maps files a compile could not find to the TeX Live
+ * package that provides them, and installs packages with tlmgr.
+ *
+ * The lookup uses the index shipped in resources/tex-packages, so it works
+ * offline. Installation output is emitted line by line as 'progress' events.
+ */
+export class TexPackageService extends EventEmitter {
+  private settingsService: SettingsService;
+  private index: Promise<PackageIndex> | null = null;
+  private installing = false;
+
+  constructor() {
+    super();
+    this.settingsService = new SettingsService();
+  }
+
+  // Fill in the providing package of missing-package entries
+  async annotate(errors: ErrorDTO[]): Promise<void> {
+    for (const error of errors) {
+      if (error.category !== 'missing-package' || !error.missingFile) continue;
+      const pkg = await this.findPackage(error.missingFile);
+      if (pkg) error.package = pkg;
+    }
+  }
+
+  async findPackage(missingFile: string): Promise<string | null> {
+    const index = await this.loadIndex();
+    return index.files[missingFile] || index.fonts[missingFile] || null;
+  }
+
+  async install(packages: string[]): Promise<PackageInstallResult> {
+    const names = [...new Set(packages)];
+    if (names.length === 0 || names.some(name => !PACKAGE_NAME.test(name))) {
+      throw new Error('Invalid TeX Live package name');
+    }
+    if (this.installing) {
+      throw new Error('Another package installation is still running');
+    }
+
+    if (await this.settingsService.getActiveContainer()) {
+      throw new Error('The active TeX distribution runs in a container image. Add the package to the image instead.');
+    }
+
+    const tlmgr = await this.settingsService.getTlmgrPath();
+    if (!tlmgr) {
+      throw new Error('tlmgr not found. Install the package with your system package manager or configure TeX paths.');
+    }
+
+    const { packageRepository } = await this.settingsService.getTexSettings();
+    const repository = packageRepository?.trim();
+    const args = [...(repository ? ['--repository', repository] : []), 'install', ...names];
+
+    this.installing = true;
+    try {
+      console.log(`[TexPackageService] Running ${tlmgr} ${args.join(' ')}`);
+      this.emitLine(`$ tlmgr ${args.join(' ')}`);
+
+      const output: string[] = [];
+      const code = await this.runTlmgr(tlmgr, args, output);
+
+      if (code !== 0 && output.some(line => /permission denied|not writable|cannot write|you don't have permission/i.test(line))) {
+        this.emitLine('⚠️  tlmgr cannot write to the TeX Live installation. Run it from a terminal with administrator rights:');
+        this.emitLine(`    sudo tlmgr install ${names.join(' ')}`);
+      }
+
+      return { ok: code === 0, code, packages: names };
+    } finally {
+      this.installing = false;
+    }
+  }
+
+  private runTlmgr(tlmgr: string, args: string[], output: string[]): Promise<number | null> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(tlmgr, args, { shell: false, env: process.env });
+      const pending = { stdout: '', stderr: '' };
+
+      // tlmgr writes progress to both streams; forward complete lines as they arrive
+      const forward = (stream: 'stdout' | 'stderr', chunk: string, flush = false) => {
+        const lines = (pending[stream] + chunk).split(/\r?\n/);
+        pending[stream] = flush ? '' : lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          output.push(line);
+          this.emitLine(line);
+        }
+      };
+
+      child.stdout?.on('data', (data) => forward('stdout', data.toString()));
+      child.stderr?.on('data', (data) => forward('stderr', data.toString()));
+
+      const timeout = setTimeout(() => {
+        child.kill('SIGTERM');
+        reject(new Error(`tlmgr did not finish within ${INSTALL_TIMEOUT_MS / 60000} minutes`));
+      }, INSTALL_TIMEOUT_MS);
+
+      child.on('close', (code) => {
+        clearTimeout(timeout);
+        forward('stdout', '', true);
+        forward('stderr', '', true);
+        resolve(code);
+      });
+
+      child.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(new Error(`Failed to start tlmgr: ${error.message}`));
+      });
+    });
+  }
+
+  private emitLine(line: string) {
+    this.emit('progress', { line });
+  }
+
+  private loadIndex(): Promise<PackageIndex> {
+    if (!this.index) {
+      this.index = this.readIndex();
+    }
+    return this.index;
+  }
+
+  private async readIndex(): Promise<PackageIndex> {
+    const candidates = [
+      join(process.resourcesPath || '', 'tex-packages', 'packages.json'),
+      join(__dirname, '..', '..', '..', 'resources', 'tex-packages', 'packages.json'),
+    ];
+
+    for (const path of candidates) {
+      if (!existsSync(path)) continue;
+      try {
+        const index = JSON.parse(await readFile(path, 'utf8'));
+        console.log(`[TexPackageService] Loaded ${Object.keys(index.files || {}).length} files from ${index.source || path}`);
+        return { source: index.source || 'TeX Live', files: index.files || {}, fonts: index.fonts || {} };
+      } catch (error) {
+        console.warn(`[TexPackageService] Failed to read package index ${path}:`, error);
+      }
+    }
+
+    console.warn('[TexPackageService] No package index found; missing packages will not be mapped');
+    return { source: 'none', files: {}, fonts: {} };
+  }
+}
@@ -0,0 +1,197 @@
+import { DiffHunkDTO, DiffLineDTO } from '../types';
+
+// Beyond this many edits the files are treated as fully rewritten; keeps the
+// Myers trace (which grows with the square of the edit distance) bounded
+const MAX_EDIT_DISTANCE = 2000;
+
+type EditOp = { type: 'equal' | 'delete' | 'insert'; oldIndex: number; newIndex: number };
+
+export function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-based diff of two texts, grouped into unified-diff style hunks with
+ * `contextLines` lines of unchanged context around each change.
+ */
+export function diffLines(oldText: string, newText: string, contextLines = 3): DiffHunkDTO[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix never need the O(ND) search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middleOps = myersDiff(middleA, middleB) || replaceAll(middleA, middleB);
+
+  const ops: EditOp[] = [];
+  for (let i = 0; i < prefix; i++) ops.push({ type: 'equal', oldIndex: i, newIndex: i });
+  for (const op of middleOps) ops.push({ type: op.type, oldIndex: op.oldIndex + prefix, newIndex: op.newIndex + prefix });
+  for (let i = suffix; i > 0; i--) ops.push({ type: 'equal', oldIndex: a.length - i, newIndex: b.length - i });
+
+  const lines: DiffLineDTO[] = ops.map(op => {
+    if (op.type === 'equal') {
+      return { type: 'context', oldLine: op.oldIndex + 1, newLine: op.newIndex + 1, text: a[op.oldIndex] };
+    }
+    if (op.type === 'delete') {
+      return { type: 'remove', oldLine: op.oldIndex + 1, text: a[op.oldIndex] };
+    }
+    return { type: 'add', newLine: op.newIndex + 1, text: b[op.newIndex] };
+  });
+
+  return buildHunks(lines, contextLines);
+}
+
+function replaceAll(a: string[], b: string[]): EditOp[] {
+  return [
+    ...a.map((_, i) => ({ type: 'delete' as const, oldIndex: i, newIndex: 0 })),
+    ...b.map((_, i) => ({ type: 'insert' as const, oldIndex: a.length, newIndex: i })),
+  ];
+}
+
+// Myers' O(ND) shortest edit script; returns null when the edit distance is too large
+function myersDiff(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (max === 0) return [];
+
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    // Only diagonals -d-1..d+1 are read when backtracking step d
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', oldIndex: x - 1, newIndex: y - 1 });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', oldIndex: x, newIndex: prevY });
+      } else {
+        ops.push({ type: 'delete', oldIndex: prevX, newIndex: y });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function buildHunks(lines: DiffLineDTO[], contextLines: number): DiffHunkDTO[] {
+  const hunks: DiffHunkDTO[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    // Find the next change
+    while (i < lines.length && lines[i].type === 'context') i++;
+    if (i >= lines.length) break;
+
+    const start = Math.max(0, i - contextLines);
+    let end = i;
+
+    // Extend while the next change is close enough to share context
+    while (end < lines.length) {
+      let next = end;
+      while (next < lines.length && lines[next].type !== 'context') next++;
+      let gap = next;
+      while (gap < lines.length && lines[gap].type === 'context') gap++;
+
+      if (gap < lines.length && gap - next <= contextLines * 2) {
+        end = gap;
+      } else {
+        end = Math.min(lines.length, next + contextLines);
+        break;
+      }
+    }
+
+    const hunkLines = lines.slice(start, end);
+    const firstOld = hunkLines.find(l => l.oldLine !== undefined)?.oldLine;
+    const firstNew = hunkLines.find(l => l.newLine !== undefined)?.newLine;
+    const oldLines = hunkLines.filter(l => l.type !== 'add').length;
+    const newLines = hunkLines.filter(l => l.type !== 'remove').length;
+
+    hunks.push({
+      oldStart: firstOld ?? (oldLines === 0 ? previousOldLine(lines, start) : 1),
+      oldLines,
+      newStart: firstNew ?? (newLines === 0 ? previousNewLine(lines, start) : 1),
+      newLines,
+      lines: hunkLines,
+    });
+
+    i = end;
+  }
+
+  return hunks;
+}
+
+// Unified diff convention: an empty side starts at the line before the hunk
+function previousOldLine(lines: DiffLineDTO[], index: number): number {
+  for (let i = index - 1; i >= 0; i--) {
+    if (lines[i].oldLine !== undefined) return lines[i].oldLine!;
+  }
+  return 0;
+}
+
+function previousNewLine(lines: DiffLineDTO[], index: number): number {
+  for (let i = index - 1; i >= 0; i--) {
+    if (lines[i].newLine !== undefined) return lines[i].newLine!;
+  }
+  return 0;
+}
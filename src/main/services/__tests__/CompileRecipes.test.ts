@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { unsafeStepArgument } from '../CompileRecipes';
+import { RecipeStep, RecipeTool } from '../../types';
+import { ShellEscapeMode } from '../ShellEscape';
+
+function check(tool: RecipeTool, args: string[], options: { shellEscape?: ShellEscapeMode; allowLatexmkrc?: boolean } = {}) {
+  const step: RecipeStep = { tool, args };
+  return unsafeStepArgument(step, { shellEscape: options.shellEscape || 'off', allowLatexmkrc: options.allowLatexmkrc || false });
+}
+
+describe('unsafeStepArgument', () => {
+  it('accepts allowlisted options with their values inline or separate', () => {
+    expect(check('pdflatex', ['-interaction=nonstopmode', '-synctex=1'])).toBeNull();
+    expect(check('pdflatex', ['-interaction', 'nonstopmode', '--synctex', '1'])).toBeNull();
+    expect(check('makeindex', ['-s', 'style.ist', '%DOC%.idx'])).toBeNull();
+    expect(check('biber', ['--sortlocale=de_DE', '%DOC%'])).toBeNull();
+  });
+
+  it('rejects options that are not on the tool\'s allowlist', () => {
+    expect(check('pdflatex', ['-output-directory=/tmp'])).toBe('-output-directory is not allowed in recipes for pdflatex');
+    expect(check('latexmk', ['-outdir', 'out'])).toBe('-outdir is not allowed in recipes for latexmk');
+    expect(check('pdflatex', ['-cnf-line=shell_escape=t'])).toBe('-cnf-line is not allowed in recipes for pdflatex');
+    expect(check('bibtex', ['-'])).toBe('- is not allowed in recipes');
+  });
+
+  it('rejects values on flags and flags without their value', () => {
+    expect(check('pdflatex', ['-recorder=yes'])).toBe('-recorder does not take a value');
+    expect(check('makeindex', ['%DOC%.idx', '-s'])).toBe('-s needs a value');
+  });
+
+  it('allows latexmk -e and -r only with the project latexmkrc', () => {
+    expect(check('latexmk', ['-e', '$pdf_mode=1'])).toBe('-e runs Perl code and needs the project latexmkrc to be enabled');
+    expect(check('latexmk', ['-r', 'extra.rc'])).toBe('-r runs Perl code and needs the project latexmkrc to be enabled');
+    expect(check('latexmk', ['-e', '$pdf_mode=1'], { allowLatexmkrc: true })).toBeNull();
+    expect(check('latexmk', ['-r', 'extra.rc'], { allowLatexmkrc: true })).toBeNull();
+    // The Perl code of -e is not a file, but the file of -r must still be in the project
+    expect(check('latexmk', ['-e', '$out_dir="../x"'], { allowLatexmkrc: true })).toBeNull();
+    expect(check('latexmk', ['-r', '../extra.rc'], { allowLatexmkrc: true })).toContain('contains ".."');
+  });
+
+  it('follows the project shell-escape mode', () => {
+    expect(check('pdflatex', ['--shell-escape'])).toBe('--shell-escape needs shell-escape to be enabled for the project');
+    expect(check('pdflatex', ['--shell-escape'], { shellEscape: 'restricted' })).toBe('--shell-escape needs shell-escape to be enabled for the project');
+    expect(check('latexmk', ['-shell-escape'], { shellEscape: 'full' })).toBeNull();
+    expect(check('xelatex', ['-enable-write18'], { shellEscape: 'restricted' })).toBe('-enable-write18 needs shell-escape to be enabled for the project');
+
+    expect(check('lualatex', ['-shell-restricted'])).toBe('-shell-restricted needs restricted shell-escape to be enabled for the project');
+    expect(check('lualatex', ['-shell-restricted'], { shellEscape: 'restricted' })).toBeNull();
+    expect(check('lualatex', ['-shell-restricted'], { shellEscape: 'full' })).toBeNull();
+
+    // Turning shell escape off is always allowed
+    expect(check('pdflatex', ['-no-shell-escape'])).toBeNull();
+    expect(check('pdflatex', ['-shell-escape=1'], { shellEscape: 'full' })).toBe('-shell-escape=1 is not allowed in recipes');
+    // Tools that don't run TeX have no shell-escape options
+    expect(check('bibtex', ['-shell-escape'], { shellEscape: 'full' })).toBe('-shell-escape is not allowed in recipes for bibtex');
+  });
+
+  it('rejects files outside the build directory', () => {
+    for (const path of ['/etc/passwd', '\\\\server\\share\\doc', 'C:\\Users\\doc', 'c:doc', '~/doc', '~user/doc']) {
+      expect(check('bibtex', [path])).toBe(`${path} is an absolute path; recipes may only use files in the project`);
+      expect(check('makeindex', ['-s', path])).toBe(`${path} is an absolute path; recipes may only use files in the project`);
+      expect(check('makeindex', [`-s=${path}`])).toBe(`${path} is an absolute path; recipes may only use files in the project`);
+    }
+    for (const path of ['../doc', 'chapters/../../doc', 'sub\\..\\..\\doc', '..']) {
+      expect(check('bibtex', [path])).toBe(`${path} contains ".."; recipes may only use files in the project`);
+      expect(check('dvipdfmx', ['-p', 'a4', '-z', '9', path])).toBe(`${path} contains ".."; recipes may only use files in the project`);
+    }
+    expect(check('bibtex', ['chapters/%DOC%'])).toBeNull();
+  });
+});
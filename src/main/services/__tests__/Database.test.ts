@@ -0,0 +1,121 @@
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const electron = vi.hoisted(() => ({ userData: null as string | null }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: () => {
+      if (!electron.userData) throw new Error('App is not ready');
+      return electron.userData;
+    },
+  },
+}));
+
+const project = (id: string) => ({
+  id,
+  name: id,
+  root: `/projects/${id}`,
+  mainFile: 'main.tex',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  settings: {},
+});
+
+// A new module instance behaves like the store after an app restart
+async function freshDatabase() {
+  vi.resetModules();
+  return (await import('../Database')).database;
+}
+
+describe('Database', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'auroratex-db-'));
+    electron.userData = null;
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('replays journal entries that were never compacted', async () => {
+    const before = await freshDatabase();
+    before.open(dataDir);
+    before.insertProject(project('a'));
+    before.insertProject(project('b'));
+    before.setPreference('editor.fontSize', '14');
+    before.deleteSnapshot('missing');
+    expect(existsSync(join(dataDir, 'db.json'))).toBe(false);
+
+    const after = await freshDatabase();
+    after.open(dataDir);
+    expect(after.getAllProjects().map(p => p.id).sort()).toEqual(['a', 'b']);
+    expect(after.getPreference('editor.fontSize')).toBe('14');
+
+    // Replayed entries are folded into db.json and the journal starts over
+    expect(JSON.parse(readFileSync(join(dataDir, 'db.json'), 'utf8')).projects.a.id).toBe('a');
+    expect(readFileSync(join(dataDir, 'db.journal'), 'utf8')).toBe('');
+  });
+
+  it('applies deletes and skips a torn final journal entry', async () => {
+    const before = await freshDatabase();
+    before.open(dataDir);
+    before.insertProject(project('a'));
+    before.insertProject(project('b'));
+    before.compact();
+    before.insertSnapshot({ id: 's1', projectId: 'a', timestamp: 1, path: '/x/1.json', sizeBytes: 0 });
+    before.insertSnapshot({ id: 's2', projectId: 'a', timestamp: 2, path: '/x/2.json', sizeBytes: 0 });
+    before.deleteSnapshot('s1');
+    appendFileSync(join(dataDir, 'db.journal'), '{"op":"put","table":"projects","key":"c","val');
+
+    const after = await freshDatabase();
+    after.open(dataDir);
+    expect(after.getSnapshotsByProject('a').map(s => s.id)).toEqual(['s2']);
+    expect(after.getProject('c')).toBeUndefined();
+    expect(after.getAllProjects()).toHaveLength(2);
+  });
+
+  it('does not write over a store with a newer schema', async () => {
+    const statePath = join(dataDir, 'db.json');
+    writeFileSync(statePath, JSON.stringify({ schemaVersion: 99, projects: {} }));
+
+    const database = await freshDatabase();
+    database.open(dataDir);
+    database.insertProject(project('a'));
+    database.compact();
+
+    expect(existsSync(join(dataDir, 'db.journal'))).toBe(false);
+    expect(JSON.parse(readFileSync(statePath, 'utf8')).schemaVersion).toBe(99);
+  });
+
+  it('opens again once the app is ready after a failed early open', async () => {
+    const database = await freshDatabase();
+    expect(database.getProject('a')).toBeUndefined(); // Opens before the app is ready
+
+    electron.userData = dataDir;
+    database.open();
+    database.insertProject(project('a'));
+
+    expect(readFileSync(join(dataDir, 'database', 'db.journal'), 'utf8')).toContain('"key":"a"');
+  });
+
+  it('stores preference defaults as JSON without replacing set values', async () => {
+    const database = await freshDatabase();
+    database.open(dataDir);
+    database.setPreference('compile.engine', JSON.stringify('xelatex'));
+    database.initializeDefaults();
+
+    expect(JSON.parse(database.getPreference('compile.engine')!)).toBe('xelatex');
+    expect(JSON.parse(database.getPreference('compile.autoCompile')!)).toBe(true);
+    expect(JSON.parse(database.getPreference('compile.timeout')!)).toBe(180000);
+    expect(JSON.parse(database.getPreference('tex.biberPath')!)).toBe('');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { grammarIssues } from '../GrammarRules';
+import { proseWords, scanLatex } from '../LatexText';
+
+function check(content: string, language = 'en_US') {
+  const prose = scanLatex(content).prose;
+  return grammarIssues(content, prose, proseWords(prose), language)
+    .map(({ word, suggestions }) => ({ word, suggestions }));
+}
+
+describe('grammarIssues', () => {
+  it('flags the wrong article before a word', () => {
+    expect(check('This is a example of an theorem.')).toEqual([
+      { word: 'a', suggestions: ['an'] },
+      { word: 'an', suggestions: ['a'] },
+    ]);
+    expect(check('We wait a hour. An proof follows.')).toEqual([
+      { word: 'a', suggestions: ['an'] },
+      { word: 'An', suggestions: ['A'] },
+    ]);
+  });
+
+  it('leaves articles alone when the spelling does not tell the sound', () => {
+    expect(check('a university, an umbrella, a European, an Euler path, a history, an historic, a one-off')).toEqual([]);
+    expect(check('an FPGA, a NP-hard problem, an x-axis, an élan')).toEqual([]);
+    expect(check('see Appendix A above; matrix A is')).toEqual([]);
+  });
+
+  it('only compares words next to each other in the prose', () => {
+    expect(check('a \\emph{example}')).toEqual([]);
+    expect(check('a $x$ example')).toEqual([]);
+    expect(check('ends with a\n\nexample')).toEqual([]);
+    expect(check('a % comment\nexample')).toEqual([]);
+  });
+
+  it('checks articles in English only', () => {
+    expect(check('Un exemple a été donné.', 'fr_FR')).toEqual([]);
+    expect(check('a example', 'en_GB')).toHaveLength(1);
+  });
+
+  it('flags doubled punctuation but not ellipses or paths', () => {
+    expect(check('First,, second,. third;; fourth.. fifth;.')).toEqual([
+      { word: ',,', suggestions: [','] },
+      { word: ',.', suggestions: ['.'] },
+      { word: ';;', suggestions: [';'] },
+      { word: '..', suggestions: ['.'] },
+      { word: ';.', suggestions: ['.'] },
+    ]);
+    expect(check('1, 2, ..., n and so on... e.g., i.e., see \\texttt{../figures}', 'de_DE')).toEqual([]);
+    expect(check('Thin\\,, space and $x,,y$ and \\verb|a,,b|.')).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { LogParser } from '../LogParser';
+import { ErrorDTO } from '../../types';
+
+// Hand-written logs in the format of nonstop-mode runs of TeX Live 2023, as
+// written to the build directory. They are not captured from real runs yet;
+// replace them with logs of the same documents when a TeX Live install is at hand.
+function parseFixture(name: string, mainFile: string): ErrorDTO[] {
+  const log = readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+  return new LogParser().parse(log, { buildDir: '/home/ana/project/output/build', mainFile });
+}
+
+function locations(entries: ErrorDTO[]) {
+  return entries.map(({ file, line, severity, category }) => ({ file, line, severity, category }));
+}
+
+describe('LogParser', () => {
+  it('parses a pdflatex log with classic error messages', () => {
+    const entries = parseFixture('pdflatex.log', 'main.tex');
+
+    expect(locations(entries)).toEqual([
+      { file: 'chapters/intro.tex', line: 7, severity: 'error', category: 'tex' },
+      { file: 'main.tex', line: 1, severity: 'warning', category: 'reference' },
+      { file: 'chapters/intro.tex', line: 12, severity: 'warning', category: 'reference' },
+      { file: 'main.tex', line: 20, severity: 'warning', category: 'box' },
+      { file: 'main.tex', line: 24, severity: 'warning', category: 'citation' },
+      { file: 'main.tex', line: 1, severity: 'info', category: 'missing-file' },
+      { file: 'main.tex', line: 1, severity: 'info', category: 'missing-file' },
+    ]);
+    expect(entries[0].message).toBe('Undefined control sequence.');
+    expect(entries.find(e => e.category === 'citation')?.page).toBe(2);
+  });
+
+  it('parses a pdflatex log that stops on a missing package', () => {
+    const entries = parseFixture('pdflatex-missing-package.log', 'report.tex');
+
+    // The emergency stop and fatal error lines only follow from the missing file
+    expect(locations(entries)).toEqual([
+      { file: 'report.tex', line: 4, severity: 'error', category: 'missing-package' },
+    ]);
+    expect(entries[0].missingFile).toBe('tikz-feynman.sty');
+  });
+
+  it('parses an xelatex log with file:line:error messages', () => {
+    const entries = parseFixture('xelatex.log', 'thesis.tex');
+
+    expect(locations(entries)).toEqual([
+      { file: 'chapters/background.tex', line: 15, severity: 'error', category: 'latex' },
+      { file: 'thesis.tex', line: 1, severity: 'warning', category: 'package' },
+      { file: 'chapters/experimental-results-and-discussion.tex', line: 1, severity: 'warning', category: 'font' },
+      { file: 'chapters/experimental-results-and-discussion.tex', line: 1, severity: 'warning', category: 'reference' },
+      { file: 'thesis.tex', line: 1, severity: 'warning', category: 'reference' },
+      { file: 'chapters/background.tex', line: 22, severity: 'warning', category: 'font' },
+      { file: 'chapters/experimental-results-and-discussion.tex', line: 30, severity: 'info', category: 'box' },
+    ]);
+    expect(entries[0].message).toBe('LaTeX Error: Environment tabularx undefined.');
+    // Rejoined from two lines wrapped at 79 columns
+    expect(entries[2].message).toBe('Missing character: There is no ā (U+0101) in font [lmroman10-regular]:mapping=tex-text;!');
+  });
+
+  it('parses a lualatex log with file:line:error messages', () => {
+    const entries = parseFixture('lualatex.log', 'paper.tex');
+
+    expect(locations(entries)).toEqual([
+      { file: 'sections/results.tex', line: 8, severity: 'error', category: 'missing-file' },
+      { file: 'sections/results.tex', line: 1, severity: 'warning', category: 'box' },
+      { file: 'paper.tex', line: 1, severity: 'warning', category: 'reference' },
+      { file: 'sections/abstract.tex', line: 3, severity: 'warning', category: 'package' },
+    ]);
+    expect(entries[0].missingFile).toBeUndefined();
+    expect(entries[1].page).toBe(2);
+  });
+
+  it('rejoins pdflatex lines wrapped at 79 bytes', () => {
+    const warning = 'LaTeX Warning: Reference `fig:données-expérimentales-de-la-deuxième-série\' on page 1 undefined on input line 12.';
+    const bytes = Buffer.from(warning);
+    const log = [
+      'This is pdfTeX, Version 3.141592653-2.6-1.40.25 (TeX Live 2023) (preloaded format=pdflatex 2023.5.1)  18 OCT 2026 10:12',
+      '(./main.tex',
+      bytes.subarray(0, 79).toString(), // 75 characters
+      bytes.subarray(79).toString(),
+      ')',
+    ].join('\n');
+
+    const entries = new LogParser().parse(log, { buildDir: '/home/ana/project/output/build', mainFile: 'main.tex' });
+
+    expect(locations(entries)).toEqual([{ file: 'main.tex', line: 12, severity: 'warning', category: 'reference' }]);
+    expect(entries[0].message).toContain('deuxième-série\' on page 1 undefined');
+  });
+});
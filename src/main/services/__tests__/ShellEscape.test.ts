@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { commandProgram, validateShellEscapeCommands } from '../ShellEscape';
+
+describe('validateShellEscapeCommands', () => {
+  it('trims, drops empty entries and removes duplicates', () => {
+    expect(validateShellEscapeCommands([' gnuplot ', '', 'inkscape', 'gnuplot', '   '])).toEqual(['gnuplot', 'inkscape']);
+    expect(validateShellEscapeCommands(['epstopdf', 'pygmentize', 'r-mpost', 'bibtex8', 'python3.11', 'g++'])).toHaveLength(6);
+  });
+
+  it('rejects paths, arguments and list separators', () => {
+    for (const command of ['/usr/bin/gnuplot', 'bin\\gnuplot', 'C:gnuplot', 'gnuplot -p', 'gnuplot,rm', 'a;rm', 'a:b', '"gnuplot"', '-gnuplot', '.hidden', '$(id)']) {
+      expect(() => validateShellEscapeCommands([command])).toThrow(`"${command}" is not a program name`);
+    }
+  });
+});
+
+describe('commandProgram', () => {
+  it('takes the first word of the command', () => {
+    expect(commandProgram('gnuplot plot.gnuplot')).toBe('gnuplot');
+    expect(commandProgram('  epstopdf\tfigure.eps')).toBe('epstopdf');
+    expect(commandProgram('pygmentize')).toBe('pygmentize');
+  });
+
+  it('removes the quotes around a quoted program', () => {
+    expect(commandProgram('"gnuplot" plot.gnuplot')).toBe('gnuplot');
+    expect(commandProgram('\'my tool\' --flag')).toBe('my tool');
+    expect(commandProgram('"C:\\Program Files\\gnuplot.exe" x')).toBe('C:\\Program Files\\gnuplot.exe');
+  });
+
+  it('returns an empty name for an empty command', () => {
+    expect(commandProgram('')).toBe('');
+    expect(commandProgram('   ')).toBe('');
+    expect(commandProgram('"" gnuplot')).toBe('');
+  });
+});
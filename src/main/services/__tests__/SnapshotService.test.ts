@@ -0,0 +1,114 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProjectService } from '../ProjectService';
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: () => {
+      throw new Error('App is not ready');
+    },
+  },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = new Date(2024, 5, 30, 12, 30).getTime();
+
+describe('SnapshotService.prune', () => {
+  let dataDir: string;
+  let projectRoot: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'auroratex-db-'));
+    projectRoot = mkdtempSync(join(tmpdir(), 'auroratex-project-'));
+    writeFileSync(join(projectRoot, 'main.tex'), '\\documentclass{article}\n');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dataDir, { recursive: true, force: true });
+    rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  async function setup() {
+    vi.resetModules();
+    const { database } = await import('../Database');
+    const { SnapshotService } = await import('../SnapshotService');
+    database.open(dataDir);
+
+    const project = { id: 'p', name: 'Paper', root: projectRoot };
+    const projectService = { getById: async () => project } as unknown as ProjectService;
+    const service = new SnapshotService(projectService);
+    const now = vi.spyOn(Date, 'now');
+
+    // Takes a snapshot as if it was taken `age` milliseconds before NOW
+    const take = async (age: number, message?: string, auto?: boolean) => {
+      now.mockReturnValue(NOW - age);
+      return service.create('p', message, { auto });
+    };
+    const prune = async () => {
+      now.mockReturnValue(NOW);
+      return service.prune('p');
+    };
+    const remaining = async () => (await service.list('p')).map(s => s.id);
+
+    return { database, service, take, prune, remaining };
+  }
+
+  it('keeps the newest automatic snapshot of each hour and day', async () => {
+    const { take, prune, remaining } = await setup();
+    const recent = await take(2 * HOUR_MS, undefined, true);
+    const olderRecent = await take(3 * HOUR_MS, undefined, true);
+    const hourNewest = await take(3 * DAY_MS + 10 * 60 * 1000, undefined, true);
+    const hourOlder = await take(3 * DAY_MS + 20 * 60 * 1000, undefined, true);
+    const dayNewest = await take(10 * DAY_MS, undefined, true);
+    const dayOlder = await take(10 * DAY_MS + HOUR_MS, undefined, true);
+    const expired = await take(40 * DAY_MS, undefined, true);
+
+    const result = await prune();
+
+    expect(result.removed).toBe(3);
+    expect(await remaining()).toEqual([recent.id, olderRecent.id, hourNewest.id, dayNewest.id]);
+    for (const snapshot of [hourOlder, dayOlder, expired]) {
+      expect(existsSync(snapshot.path)).toBe(false);
+    }
+    expect(existsSync(recent.path)).toBe(true);
+  });
+
+  it('never prunes snapshots the user took or snapshots recovered without a record of how they were taken', async () => {
+    const { database, take, prune, remaining } = await setup();
+    const latest = await take(HOUR_MS, undefined, true);
+    const described = await take(40 * DAY_MS, 'Before submission');
+    const recovered = await take(50 * DAY_MS);
+    await take(60 * DAY_MS, undefined, true);
+
+    // Snapshots from before automatic snapshots were marked only have a path and a size
+    const record = database.getSnapshot(recovered.id)!;
+    expect(record.auto).toBeUndefined();
+    expect(record.message).toBeUndefined();
+
+    const result = await prune();
+
+    expect(result).toMatchObject({ removed: 1, kept: 3 });
+    expect(await remaining()).toEqual([latest.id, described.id, recovered.id]);
+    expect(existsSync(recovered.path)).toBe(true);
+  });
+
+  it('keeps the newest snapshot whatever its age and prunes nothing when disabled', async () => {
+    const { service, take, prune, remaining } = await setup();
+    const newest = await take(90 * DAY_MS, undefined, true);
+    const older = await take(91 * DAY_MS, undefined, true);
+
+    service.setRetentionPolicy({ enabled: false, keepAllHours: 24, keepHourlyDays: 7, keepDailyDays: 30 });
+    expect((await prune()).removed).toBe(0);
+
+    service.setRetentionPolicy({ enabled: true, keepAllHours: 24, keepHourlyDays: 7, keepDailyDays: 30 });
+    expect((await prune()).removed).toBe(1);
+    expect(await remaining()).toEqual([newest.id]);
+    expect(existsSync(older.path)).toBe(false);
+  });
+});
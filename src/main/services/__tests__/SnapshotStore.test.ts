@@ -0,0 +1,100 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManifestFileEntry, SnapshotStore } from '../SnapshotStore';
+
+describe('SnapshotStore', () => {
+  let historyDir: string;
+  let store: SnapshotStore;
+
+  beforeEach(() => {
+    historyDir = mkdtempSync(join(tmpdir(), 'auroratex-history-'));
+    store = new SnapshotStore(historyDir);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(historyDir, { recursive: true, force: true });
+  });
+
+  const blobPath = (hash: string) => join(historyDir, 'objects', hash.substring(0, 2), hash.substring(2));
+
+  async function snapshot(timestamp: number, contents: Record<string, string>) {
+    const files: ManifestFileEntry[] = [];
+    for (const [path, text] of Object.entries(contents)) {
+      const { hash } = await store.writeBlob(Buffer.from(text));
+      files.push({ path, hash, size: text.length });
+    }
+    await store.writeManifest(join(historyDir, `${timestamp}.json`), { id: `s${timestamp}`, timestamp, files });
+    return files.map(file => file.hash);
+  }
+
+  it('stores unchanged content once', async () => {
+    const first = await store.writeBlob(Buffer.from('\\section{Intro}'));
+    const second = await store.writeBlob(Buffer.from('\\section{Intro}'));
+
+    expect(second).toEqual({ hash: first.hash, written: 0 });
+    expect(first.written).toBeGreaterThan(0);
+    expect((await store.readBlob(first.hash)).toString()).toBe('\\section{Intro}');
+  });
+
+  it('collects only blobs that no manifest references', async () => {
+    const [oldMain, shared] = await snapshot(1, { 'main.tex': 'v1', 'refs.bib': '@book{a}' });
+    const [newMain] = await snapshot(2, { 'main.tex': 'v2', 'refs.bib': '@book{a}' });
+    const { hash: orphan } = await store.writeBlob(Buffer.from('deleted snapshot'));
+
+    const result = await store.collectGarbage();
+
+    expect(result.removedBlobs).toBe(1);
+    expect(result.freedBytes).toBeGreaterThan(0);
+    expect(existsSync(blobPath(orphan))).toBe(false);
+    for (const hash of [oldMain, shared, newMain]) {
+      expect(existsSync(blobPath(hash))).toBe(true);
+    }
+  });
+
+  it('removes temp files left by interrupted blob writes', async () => {
+    const [hash] = await snapshot(1, { 'main.tex': 'v1' });
+    const tempPath = `${blobPath(hash)}.tmp-0f1e`;
+    writeFileSync(tempPath, 'partial');
+
+    expect((await store.collectGarbage()).removedBlobs).toBe(1);
+    expect(existsSync(tempPath)).toBe(false);
+    expect(existsSync(blobPath(hash))).toBe(true);
+  });
+
+  it('deletes nothing while a manifest is unreadable', async () => {
+    await snapshot(1, { 'main.tex': 'v1' });
+    const { hash: orphan } = await store.writeBlob(Buffer.from('deleted snapshot'));
+    writeFileSync(join(historyDir, '2.json'), '{"id": "s2", "timestamp": 2, "files": [');
+
+    expect(await store.collectGarbage()).toEqual({ removedBlobs: 0, freedBytes: 0 });
+    expect(existsSync(blobPath(orphan))).toBe(true);
+  });
+
+  it('deletes nothing while a manifest lacks its id or timestamp', async () => {
+    const [hash] = await snapshot(1, { 'main.tex': 'v1' });
+    writeFileSync(join(historyDir, '1.json'), JSON.stringify({ files: [{ path: 'main.tex', hash, size: 2 }] }));
+
+    expect((await store.collectGarbage()).removedBlobs).toBe(0);
+    expect(existsSync(blobPath(hash))).toBe(true);
+  });
+
+  it('ignores files that are not snapshot manifests', async () => {
+    const { hash: orphan } = await store.writeBlob(Buffer.from('orphan'));
+    writeFileSync(join(historyDir, 'notes.json'), 'not a manifest');
+
+    expect((await store.collectGarbage()).removedBlobs).toBe(1);
+    expect(existsSync(blobPath(orphan))).toBe(false);
+    expect(readdirSync(historyDir)).toContain('notes.json');
+  });
+
+  it('keeps manifest paths inside the destination', () => {
+    expect(SnapshotStore.resolveEntryPath('/projects/paper', 'chapters/intro.tex')).toBe(join('/projects/paper', 'chapters/intro.tex'));
+    expect(() => SnapshotStore.resolveEntryPath('/projects/paper', '../other/main.tex')).toThrow('outside project root');
+    expect(() => SnapshotStore.resolveEntryPath('/projects/paper', '/etc/passwd')).toThrow('outside project root');
+    expect(() => SnapshotStore.resolveEntryPath('/projects/paper', '')).toThrow('outside project root');
+  });
+});
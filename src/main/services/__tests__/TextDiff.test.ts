@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, splitLines } from '../TextDiff';
+import { DiffHunkDTO } from '../../types';
+
+// Unified-diff text of the hunks, as `diff -u` prints them without file headers
+function unified(hunks: DiffHunkDTO[]): string[] {
+  return hunks.flatMap(hunk => [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines.map(line => ({ context: ' ', add: '+', remove: '-' })[line.type] + line.text),
+  ]);
+}
+
+// Length of the longest common subsequence; a shortest edit script changes every other line
+function lcsLength(a: string[], b: string[]): number {
+  const row = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = a[i - 1] === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// Small deterministic pseudo-random generator, so failures can be reproduced
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+describe('splitLines', () => {
+  it('splits on any line ending and drops the empty line after a final newline', () => {
+    expect(splitLines('a\r\nb\rc\n')).toEqual(['a', 'b', 'c']);
+    expect(splitLines('a\n\n')).toEqual(['a', '']);
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('diffLines', () => {
+  it('returns no hunks for equal texts', () => {
+    expect(diffLines('a\nb\n', 'a\nb\n')).toEqual([]);
+    expect(diffLines('a\r\nb\r\n', 'a\nb\n')).toEqual([]);
+  });
+
+  it('reports a changed line with three lines of context', () => {
+    const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n');
+    const newText = ['1', '2', '3', '4', 'five', '6', '7', '8', '9'].join('\n');
+
+    expect(unified(diffLines(oldText, newText))).toEqual([
+      '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8',
+    ]);
+  });
+
+  it('merges changes whose context overlaps and splits those further apart', () => {
+    const oldLines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+    const near = [...oldLines];
+    near[4] = 'changed 5';
+    near[10] = 'changed 11';
+    expect(diffLines(oldLines.join('\n'), near.join('\n'))).toHaveLength(1);
+
+    const far = [...oldLines];
+    far[4] = 'changed 5';
+    far[20] = 'changed 21';
+    const hunks = diffLines(oldLines.join('\n'), far.join('\n'));
+    expect(hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[2, 7, 2, 7], [18, 7, 18, 7]]);
+  });
+
+  it('starts an empty side at the line before the hunk', () => {
+    expect(unified(diffLines('a\nb\n', 'a\nb\nc\n', 0))).toEqual(['@@ -2,0 +3,1 @@', '+c']);
+    expect(unified(diffLines('', 'a\n'))).toEqual(['@@ -0,0 +1,1 @@', '+a']);
+    expect(unified(diffLines('a\nb\n', ''))).toEqual(['@@ -1,2 +0,0 @@', '-a', '-b']);
+  });
+
+  it('finds the shortest edit script', () => {
+    // The classic example from Myers' paper: ABCABBA to CBABAC takes 5 edits
+    const hunks = diffLines('A\nB\nC\nA\nB\nB\nA', 'C\nB\nA\nB\nA\nC');
+    const changed = hunks.flatMap(h => h.lines).filter(l => l.type !== 'context');
+    expect(changed).toHaveLength(5);
+  });
+
+  it('rebuilds both texts with a minimal number of changed lines', () => {
+    const next = random(42);
+    const words = ['\\begin{proof}', '\\end{proof}', '', 'Let x be', '\\item', '%'];
+
+    for (let run = 0; run < 200; run++) {
+      const oldText = Array.from({ length: Math.floor(next() * 25) }, () => words[Math.floor(next() * words.length)] + '\n').join('');
+      const newText = splitLines(oldText)
+        .filter(() => next() > 0.2)
+        .flatMap(line => (next() < 0.2 ? [line, words[Math.floor(next() * words.length)]] : [line]))
+        .map(line => line + '\n')
+        .join('');
+      const a = splitLines(oldText);
+      const b = splitLines(newText);
+
+      const lines = diffLines(oldText, newText, Infinity).flatMap(h => h.lines);
+      if (lines.length === 0) {
+        expect(b).toEqual(a);
+        continue;
+      }
+
+      expect(lines.filter(l => l.type !== 'add').map(l => l.text)).toEqual(a);
+      expect(lines.filter(l => l.type !== 'remove').map(l => l.text)).toEqual(b);
+      expect(lines.filter(l => l.type === 'context')).toHaveLength(lcsLength(a, b));
+    }
+  });
+
+  it('treats files with too many edits as rewritten', () => {
+    const a = Array.from({ length: 3000 }, (_, i) => `old ${i}`);
+    const b = Array.from({ length: 3000 }, (_, i) => (i % 2 === 0 ? `old ${i}` : `new ${i}`));
+
+    const lines = diffLines(a.join('\n'), b.join('\n'), Infinity).flatMap(h => h.lines);
+
+    expect(lines.filter(l => l.type === 'remove')).toHaveLength(2999); // Only the common first line is kept
+    expect(lines.filter(l => l.type === 'add')).toHaveLength(2999);
+  });
+});
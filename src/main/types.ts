@@ -10,9 +10,50 @@ export interface ProjectDTO {
 
 export interface ProjectSettings {
   engine: 'pdflatex' | 'xelatex' | 'lualatex';
-  shellEscape: boolean;
-  bibTool: 'bibtex' | 'biber';
+  shellEscape: boolean; // Unrestricted \write18; takes precedence over shellEscapeRestricted
+  shellEscapeRestricted?: boolean; // Run with -shell-restricted, allowing only shellEscapeCommands
+  shellEscapeCommands?: string[]; // Program names restricted shell escape may run, e.g. gnuplot
+  bibTool: 'bibtex' | 'biber'; // Preferred when the document can be processed by either
+  indexTool?: 'makeindex' | 'xindy'; // Used by latexmk for .idx files; makeindex when unset
   timeoutMs: number;
+  targets?: BuildTarget[]; // Documents built from this project; main.tex -> main.pdf when empty
+  recipes?: CompileRecipe[];
+  recipe?: string; // Recipe used unless a build target names one; latexmk when unset
+  useLatexmkrc?: boolean; // Honour latexmkrc/.latexmkrc from the project, which may run Perl code
+  containerImage?: string; // Pins the image when a container distribution is active
+}
+
+export interface BuildTarget {
+  name: string;
+  mainFile: string;
+  engine?: ProjectSettings['engine']; // Defaults to % !TEX program, then the project engine
+  outputName: string; // Written to output/<outputName>.pdf
+  recipe?: string;
+}
+
+export type RecipeTool =
+  | 'latexmk'
+  | 'pdflatex'
+  | 'xelatex'
+  | 'lualatex'
+  | 'latex'
+  | 'dvipdfmx'
+  | 'bibtex'
+  | 'biber'
+  | 'makeindex'
+  | 'xindy'
+  | 'makeglossaries'
+  | 'bib2gls';
+
+export interface RecipeStep {
+  tool: RecipeTool;
+  args?: string[]; // Added to the tool's defaults; %DOC% is the main file name without .tex
+  repeat?: number; // Runs the step this many times in a row, e.g. pdflatex ×2
+}
+
+export interface CompileRecipe {
+  name: string;
+  steps: RecipeStep[];
 }
 
 export interface FileNode {
@@ -33,12 +74,68 @@ export interface CompileStatusDTO {
   logs: string[];
 }
 
+// Parts of a compile timed for the build history
+export type CompilePhase =
+  | 'queue'     // Waiting for a free slot or for the project's previous job
+  | 'prepare'   // Build directory, copying project files, checking the recipe
+  | 'compile'   // Recipe steps, including pulling a container image
+  | 'auxiliary' // Bibliography, index and glossary tools and the reruns they cause
+  | 'logs'      // Parsing the engine and tool logs
+  | 'output';   // Copying the PDF, SyncTeX data and log to output/
+
+export interface CompileHistoryEntryDTO {
+  jobId: string;
+  projectId: string;
+  mainFile: string;
+  outputName: string;
+  engine: ProjectSettings['engine'];
+  recipe?: string;
+  trigger: 'auto' | 'manual';
+  build: 'incremental' | 'clean';
+  state: CompileStatusDTO['state'];
+  startTime: string;
+  endTime: string;
+  durationMs: number; // From start to end, without the queue wait
+  phases: Partial<Record<CompilePhase, number>>; // Milliseconds spent in each phase
+  errorCount: number;
+  warningCount: number;
+  pdfSizeBytes?: number; // Size of the PDF written to output/, when the compile produced one
+}
+
+export type LogEntryCategory =
+  | 'latex'        // ! LaTeX Error / LaTeX Warning
+  | 'tex'          // TeX primitive errors such as Undefined control sequence
+  | 'package'      // Package or class errors and warnings
+  | 'reference'    // Undefined or multiply defined labels
+  | 'citation'     // Undefined citations
+  | 'font'         // Font substitutions and missing glyphs
+  | 'box'          // Overfull and underfull boxes
+  | 'missing-file' // Input or image files that could not be found
+  | 'missing-package' // Classes, packages and fonts not installed in the TeX distribution
+  | 'bibliography' // BibTeX and Biber messages about .bib files
+  | 'index'        // makeindex and xindy messages
+  | 'glossary'     // makeglossaries and bib2gls messages
+  | 'other';
+
 export interface ErrorDTO {
   file: string;
   line: number;
   column?: number;
   message: string;
   severity: 'error' | 'warning' | 'info';
+  category?: LogEntryCategory;
+  raw?: string; // Excerpt of the log the entry was parsed from
+  page?: number; // Output page being built when the entry was logged
+  source?: 'compile' | 'lint'; // Compile log, or static analysis of the source; compile when absent
+  missingFile?: string; // File or font name TeX could not find, for missing-package entries
+  package?: string; // TeX Live package that provides missingFile, when known
+}
+
+// A \write18 command the document tried to run, as recorded in the engine log
+export interface ShellCommandDTO {
+  command: string; // Full command line
+  program: string; // First word, as matched against the allowlist
+  status: 'executed' | 'allowed' | 'restricted' | 'disabled'; // Ran unrestricted, ran from the allowlist, blocked by it, or shell escape off
 }
 
 export interface SnapshotDTO {
@@ -46,12 +143,209 @@ export interface SnapshotDTO {
   projectId: string;
   timestamp: number;
   message?: string;
+  auto?: boolean; // Taken by the app rather than the user; pruning ignores its message
   path: string;
   sizeBytes: number;
   formattedDate?: string;
   formattedSize?: string;
 }
 
+// Which automatic snapshots survive pruning; a snapshot is kept if any rule keeps it
+export interface SnapshotRetentionPolicy {
+  enabled: boolean;
+  keepAllHours: number; // Keep every snapshot younger than this
+  keepHourlyDays: number; // Then the newest snapshot of each hour
+  keepDailyDays: number; // Then the newest snapshot of each day
+}
+
+export interface SnapshotPruneResultDTO {
+  projectId: string;
+  removed: number;
+  kept: number;
+  freedBytes: number;
+}
+
+export interface DiffLineDTO {
+  type: 'context' | 'add' | 'remove';
+  oldLine?: number;
+  newLine?: number;
+  text: string;
+}
+
+export interface DiffHunkDTO {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLineDTO[];
+}
+
+export interface SnapshotFileDiffDTO {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  binary: boolean;
+  tooLarge?: boolean; // Text file over the diff size limit, only reported as changed
+  oldSize?: number;
+  newSize?: number;
+  hunks: DiffHunkDTO[];
+}
+
+export interface SnapshotDiffDTO {
+  fromSnapshotId: string;
+  toSnapshotId: string | null; // null = current working tree
+  files: SnapshotFileDiffDTO[];
+  summary: { added: number; removed: number; modified: number };
+}
+
+export interface GitFileStatusDTO {
+  path: string;
+  oldPath?: string; // Source of a rename or copy
+  index: string; // Porcelain status letter for the staged side, ' ' when unchanged
+  workingTree: string; // Porcelain status letter for the unstaged side, '?' when untracked
+  staged: boolean;
+  unstaged: boolean;
+  conflicted: boolean;
+}
+
+export interface GitStatusDTO {
+  available: boolean; // git executable found
+  isRepo: boolean;
+  branch: string | null; // null when HEAD is detached
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  files: GitFileStatusDTO[];
+}
+
+export interface GitCommitDTO {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  timestamp: number;
+  subject: string;
+  refs: string[];
+}
+
+export interface GitBranchesDTO {
+  current: string | null;
+  branches: string[];
+}
+
+export interface GitFileDiffDTO {
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed';
+  binary: boolean;
+  hunks: DiffHunkDTO[];
+}
+
+export interface IndexedLabelDTO {
+  name: string;
+  file: string; // Project-relative path of the defining file
+  line: number; // 1-based
+  context?: string; // Enclosing environment (figure, equation...) or section title
+}
+
+export interface IndexedCitationDTO {
+  key: string;
+  source: 'bib' | 'bibitem';
+  file: string;
+  line?: number; // Only known for \bibitem entries
+  type?: string; // BibTeX entry type, e.g. article
+  title?: string;
+  author?: string;
+  year?: string;
+}
+
+export interface IndexedCommandDTO {
+  name: string; // Without the leading backslash
+  args: number; // Total argument count, including an optional first argument
+  hasOptionalArg: boolean;
+  definition: string; // Replacement text, shortened for display
+  file: string;
+  line: number;
+}
+
+// A sectioning command, or the caption of a figure or table
+export interface OutlineEntryDTO {
+  kind: 'section' | 'figure' | 'table';
+  command: string; // part, chapter, section... or caption
+  level: number; // part = -1, chapter = 0, section = 1, ... subparagraph = 5, captions = 6
+  starred: boolean;
+  title: string;
+  file: string;
+  line: number;
+}
+
+export interface ProjectIndexDTO {
+  projectId: string;
+  mainFile: string;
+  files: string[]; // .tex files reachable from the main file, in include order
+  bibFiles: string[];
+  labels: IndexedLabelDTO[];
+  citations: IndexedCitationDTO[];
+  commands: IndexedCommandDTO[];
+  outline: OutlineEntryDTO[]; // Document order across included files
+}
+
+// Identifies an outline section; title guards against moving a stale entry
+export interface OutlineSectionRefDTO {
+  file: string;
+  line: number;
+  title: string;
+}
+
+export interface SectionMoveResultDTO {
+  changedFiles: string[]; // Files moved text was written to, and files whose unsaved edits were saved first
+  snapshotId: string; // Snapshot taken before the move, after saving unsaved edits
+}
+
+// Word and element counts, as texcount reports them
+export interface WordCountDTO {
+  textWords: number;
+  headerWords: number;
+  captionWords: number;
+  headers: number;
+  floats: number; // figure and table environments
+  inlineMath: number;
+  displayMath: number;
+}
+
+export interface SectionStatsDTO {
+  title: string; // Empty for the text before the first heading
+  command?: string; // part, chapter, section...
+  level: number;
+  file: string;
+  line: number;
+  counts: WordCountDTO; // The section's own text, without its subsections
+}
+
+export interface DocumentStatsDTO {
+  projectId: string;
+  files: string[]; // Counted files, in include order
+  total: WordCountDTO;
+  sections: SectionStatsDTO[];
+}
+
+export interface SpellIssueDTO {
+  kind: 'spelling' | 'repetition' | 'grammar'; // Unknown word, the same word twice in a row, or a grammar rule
+  word: string;
+  message?: string; // What a grammar rule found
+  from: number; // Offsets into the checked text
+  to: number;
+  line: number; // 1-based
+  column: number; // 1-based
+  suggestions: string[];
+}
+
+export interface SpellCheckResultDTO {
+  language: string; // From the file's % !TEX spellcheck comment, else the project default
+  dictionaryFound: boolean;
+  languages: string[]; // Installed dictionaries
+  issues: SpellIssueDTO[];
+}
+
 export interface TemplateDTO {
   id: string;
   name: string;
@@ -79,3 +373,17 @@ export interface BibEntryDTO {
   key: string;
   fields: Record<string, string>;
 }
+
+export interface SyncTeXForwardResult {
+  page: number;
+  x: number; // Big points from the left edge of the page
+  y: number; // Big points from the top edge of the page
+  width: number;
+  height: number;
+}
+
+export interface SyncTeXInverseResult {
+  file: string;
+  line: number;
+  column?: number;
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ProjectExplorer } from './components/ProjectExplorer';
 import { FileTree } from './components/FileTree';
 import { VirtualizedFileTree } from './components/VirtualizedFileTree';
@@ -12,10 +12,17 @@ import { SnippetsPalette } from './components/SnippetsPalette';
 import { BibManager } from './components/BibManager';
 import { Topbar } from './components/Topbar';
 import { ActionSidebar } from './components/ActionSidebar';
+import { GitPanel } from './components/GitPanel';
+import { CompileHistoryPanel } from './components/CompileHistoryPanel';
+import { OutlinePanel } from './components/OutlinePanel';
+import DocumentStatsModal, { DocumentStats, totalWords } from './components/DocumentStatsModal';
+import BuildTargetsModal, { BuildTarget } from './components/BuildTargetsModal';
+import RecipesModal, { CompileRecipe } from './components/RecipesModal';
 import { ResizableSplitter } from './components/ResizableSplitter';
 import { CollapsibleSidebar } from './components/CollapsibleSidebar';
 import SettingsModal from './components/SettingsModal';
 import { ImageOverlay } from './components/ImageOverlay';
+import { updateProjectIndex, ProjectIndex, OutlineEntry } from './extensions/projectCompletions';
 
 export interface Project {
   id: string;
@@ -27,8 +34,16 @@ export interface Project {
   settings?: {
     engine?: 'pdflatex' | 'xelatex' | 'lualatex';
     shellEscape?: boolean;
+    shellEscapeRestricted?: boolean;
+    shellEscapeCommands?: string[];
     bibTool?: 'bibtex' | 'biber';
+    indexTool?: 'makeindex' | 'xindy';
     timeoutMs?: number;
+    targets?: BuildTarget[];
+    recipes?: CompileRecipe[];
+    recipe?: string;
+    useLatexmkrc?: boolean;
+    containerImage?: string;
   };
 }
 
@@ -47,6 +62,8 @@ export interface Tab {
   name: string;
   content: string;
   isDirty: boolean;
+  readOnly?: boolean;
+  origin?: string;
 }
 
 function App() {
@@ -79,7 +96,17 @@ function App() {
     column?: number;
     message: string;
     severity: 'error' | 'warning' | 'info';
+    category?: string;
+    raw?: string;
+    page?: number;
+    source?: 'compile' | 'lint';
   }>>([]);
+  // Static analysis of the source, including unsaved edits, refreshed without compiling
+  const [lintDiagnostics, setLintDiagnostics] = useState<typeof errors>([]);
+  const [projectIndex, setProjectIndex] = useState<ProjectIndex | null>(null);
+  const [documentStats, setDocumentStats] = useState<DocumentStats | null>(null);
+  const [showDocumentStats, setShowDocumentStats] = useState(false);
+  const [cursorLocation, setCursorLocation] = useState<{ file: string; line: number } | null>(null);
   const [errorMarkersForFile, setErrorMarkersForFile] = useState<Record<string, Array<{
     line: number;
     severity: 'error' | 'warning' | 'info';
@@ -87,10 +114,37 @@ function App() {
   }>>>({});
   const [showErrorsPanel, setShowErrorsPanel] = useState(false);
 
+  // Compile log entries plus lint diagnostics the last compile didn't already report
+  const allIssues = useMemo(() => [
+    ...errors,
+    ...lintDiagnostics.filter(diagnostic => !errors.some(error =>
+      error.file === diagnostic.file && error.line === diagnostic.line && error.category === diagnostic.category
+    )),
+  ], [errors, lintDiagnostics]);
+
+  const issueMarkersForFile = useMemo(() => {
+    const markersByFile: Record<string, Array<{ line: number; severity: 'error' | 'warning' | 'info'; message: string }>> = {};
+    for (const [file, markers] of Object.entries(errorMarkersForFile)) {
+      markersByFile[file] = [...markers];
+    }
+    for (const diagnostic of lintDiagnostics) {
+      (markersByFile[diagnostic.file] ||= []).push({
+        line: diagnostic.line,
+        severity: diagnostic.severity,
+        message: diagnostic.message,
+      });
+    }
+    return markersByFile;
+  }, [errorMarkersForFile, lintDiagnostics]);
+
   // Milestone 7: History panel state
   const [showHistoryPanel, setShowHistoryPanel] = useState(false);
   const [isRestoringSnapshot, setIsRestoringSnapshot] = useState(false);
 
+  // Git panel state
+  const [showGitPanel, setShowGitPanel] = useState(false);
+  const [showCompileHistory, setShowCompileHistory] = useState(false);
+
   // Auto-snapshot configuration
   const [autoSnapshotSettings, setAutoSnapshotSettings] = useState({
     onAppClose: true,
@@ -123,9 +177,58 @@ function App() {
     fileName: string;
   } | null>(null);
 
+  // SyncTeX: region to highlight in the PDF after a forward search
+  const [pdfSyncTarget, setPdfSyncTarget] = useState<{
+    page: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    requestId: number;
+  } | null>(null);
+
+  // Build targets: the one Compile builds and the PDF shown in the preview
+  const [selectedTarget, setSelectedTarget] = useState<string | null>(null);
+  const [pdfOutput, setPdfOutput] = useState('main.pdf');
+  const [showBuildTargets, setShowBuildTargets] = useState(false);
+  const [showRecipes, setShowRecipes] = useState(false);
+  const [installingPackage, setInstallingPackage] = useState<string | null>(null);
+
+  const buildTargets = useMemo(() => currentProject?.settings?.targets || [], [currentProject]);
+  const compileRecipes = useMemo(() => currentProject?.settings?.recipes || [], [currentProject]);
+  const pdfOutputs = useMemo(
+    () => buildTargets.length > 0 ? buildTargets.map(target => `${target.outputName}.pdf`) : ['main.pdf'],
+    [buildTargets]
+  );
+
+  // Keep the selection on a target that still exists
+  useEffect(() => {
+    if (!buildTargets.some(target => target.name === selectedTarget)) {
+      setSelectedTarget(buildTargets[0]?.name || null);
+    }
+    if (!pdfOutputs.includes(pdfOutput)) {
+      setPdfOutput(pdfOutputs[0]);
+    }
+  }, [buildTargets, pdfOutputs]);
+
+  const texFiles = useMemo(() => {
+    const files: string[] = [];
+    const walk = (nodes: FileNode[]) => {
+      for (const node of nodes) {
+        if (node.type === 'directory') walk(node.children || []);
+        else if (node.path.endsWith('.tex')) files.push(node.path);
+      }
+    };
+    walk(fileTree);
+    return files.sort();
+  }, [fileTree]);
+
   // Editor ref for direct access to editor functions
   const editorRef = useRef<EditorRef>(null);
 
+  // Debounces project index and lint runs while files are being saved or changed
+  const projectAnalysisTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
   // Helper function to check if file is an image
   const isImageFile = (fileName: string): boolean => {
     if (!fileName) return false;
@@ -190,6 +293,8 @@ function App() {
           !showLogPanel && 
           !showErrorsPanel && 
           !showHistoryPanel &&
+          !showGitPanel &&
+          !showCompileHistory &&
           !showSnippetsPalette &&
           !showQuickFileSearch &&
           !showImageOverlay &&
@@ -202,7 +307,7 @@ function App() {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [currentProject, isAutoCompileEnabled, showLogPanel, showErrorsPanel, showHistoryPanel, showSnippetsPalette, showQuickFileSearch, showImageOverlay, showBibManager, isFileCreationActive]);
+  }, [currentProject, isAutoCompileEnabled, showLogPanel, showErrorsPanel, showHistoryPanel, showGitPanel, showCompileHistory, showSnippetsPalette, showQuickFileSearch, showImageOverlay, showBibManager, isFileCreationActive, openTabs, activeTabId, selectedTarget]);
 
   // Load file tree when project changes
   useEffect(() => {
@@ -211,6 +316,7 @@ function App() {
       startFileWatching();
       startPeriodicSnapshots();
     }
+    refreshProjectAnalysis();
     
     return () => {
       if (currentProject) {
@@ -231,6 +337,13 @@ function App() {
     return () => stopPeriodicSnapshots();
   }, [currentProject, autoSnapshotSettings.periodic, autoSnapshotSettings.periodicIntervalMinutes]);
 
+  // Re-analyze as tabs are edited, saved, opened or closed
+  useEffect(() => {
+    if (currentProject) {
+      scheduleProjectAnalysis();
+    }
+  }, [openTabs]);
+
   // Set up file change listener
   useEffect(() => {
     const handleFileChange = (event: any, data: any) => {
@@ -239,6 +352,10 @@ function App() {
         
         // Refresh file tree on any changes
         loadFileTree();
+
+        if (isIndexedFile(data.path)) {
+          scheduleProjectAnalysis();
+        }
         
         // Handle file changes for open tabs
         if (data.type === 'change' && !data.path.includes('.tmp') && !isRestoringSnapshot) {
@@ -278,6 +395,27 @@ function App() {
     };
   }, [currentProject?.id, openTabs, isAutoCompileEnabled, isRestoringSnapshot]);
 
+  // Milestone 5: Keep this project's running/queued counts current; other projects may be compiling too
+  useEffect(() => {
+    if (!currentProject?.id) return;
+    const projectId = currentProject.id;
+
+    const refreshQueueState = async () => {
+      try {
+        setQueueState(await window.electronAPI.compileQueueState({ projectId }));
+      } catch (error) {
+        console.error('Failed to load compile queue state:', error);
+      }
+    };
+
+    window.electronAPI.onQueueStateChange(refreshQueueState);
+    refreshQueueState();
+
+    return () => {
+      window.electronAPI.removeQueueStateChangeListener(refreshQueueState);
+    };
+  }, [currentProject?.id]);
+
   // Set up compile progress event cleanup on component unmount
   useEffect(() => {
     return () => {
@@ -296,6 +434,7 @@ function App() {
       if (data.projectId === currentProject?.id) {
         if (data.state === 'success') {
           console.log('[App] Auto-compile successful - refreshing PDF');
+          if (data.output) setPdfOutput(data.output);
           console.log('[App] Current pdfRefreshTrigger:', pdfRefreshTrigger);
           setPdfRefreshTrigger(prev => {
             const newTrigger = prev + 1;
@@ -370,7 +509,8 @@ function App() {
       console.log(`Creating auto-snapshot: ${message}`);
       await window.electronAPI.snapshotCreate({ 
         projectId: currentProject.id, 
-        message 
+        message,
+        auto: true
       });
       setLastSnapshotTime(Date.now());
       console.log(`Auto-snapshot created successfully: ${message}`);
@@ -429,11 +569,14 @@ function App() {
     }
   };
 
-  const reloadAllOpenTabs = async () => {
+  const reloadAllOpenTabs = async (options: { keepDirty?: boolean } = {}) => {
     if (!currentProject || openTabs.length === 0) return;
 
     try {
       const reloadPromises = openTabs.map(async (tab) => {
+        if (tab.readOnly) return tab; // Snapshot views have no file on disk
+        if (options.keepDirty && tab.isDirty) return tab;
+
         try {
           const content = await window.electronAPI.fsReadFile({
             projectId: currentProject.id,
@@ -468,6 +611,82 @@ function App() {
     }
   };
 
+  const isIndexedFile = (filePath: string): boolean => /\.(tex|bib)$/i.test(filePath);
+
+  // Dirty editor buffers, which take the place of the files on disk when analyzing
+  const collectUnsavedSources = (): Record<string, string> => {
+    const unsaved: Record<string, string> = {};
+    openTabs
+      .filter(tab => tab.isDirty && !tab.readOnly && tab.path.toLowerCase().endsWith('.tex'))
+      .forEach(tab => { unsaved[tab.path] = tab.content; });
+    return unsaved;
+  };
+
+  // Rebuild the label, citation and macro index used by editor completions
+  // and the outline, and the lint diagnostics derived from the same source
+  const refreshProjectAnalysis = async () => {
+    if (!currentProject) {
+      updateProjectIndex(null);
+      setProjectIndex(null);
+      setLintDiagnostics([]);
+      setDocumentStats(null);
+      return;
+    }
+
+    const unsaved = collectUnsavedSources();
+
+    try {
+      const index = await window.electronAPI.projectIndexGet({ projectId: currentProject.id, unsaved });
+      updateProjectIndex(index);
+      setProjectIndex(index);
+      setLintDiagnostics(await window.electronAPI.lintProject({ projectId: currentProject.id, unsaved }));
+      setDocumentStats(await window.electronAPI.documentStatsGet({ projectId: currentProject.id, unsaved }));
+    } catch (error) {
+      console.error('Failed to analyze project:', error);
+    }
+  };
+
+  const scheduleProjectAnalysis = () => {
+    if (projectAnalysisTimeoutRef.current) {
+      clearTimeout(projectAnalysisTimeoutRef.current);
+    }
+    projectAnalysisTimeoutRef.current = setTimeout(() => {
+      projectAnalysisTimeoutRef.current = null;
+      refreshProjectAnalysis();
+    }, 500);
+  };
+
+  const handleMoveSection = async (source: OutlineEntry, target: OutlineEntry, position: 'before' | 'after') => {
+    if (!currentProject) return;
+
+    try {
+      const result = await window.electronAPI.outlineMoveSection({
+        projectId: currentProject.id,
+        source: { file: source.file, line: source.line, title: source.title },
+        target: { file: target.file, line: target.line, title: target.title },
+        position,
+        unsaved: collectUnsavedSources(),
+      });
+
+      // Unsaved edits were saved before the move, and moved text was written to these files
+      const changedTabs = openTabs.filter(tab => !tab.readOnly && result.changedFiles.includes(tab.path));
+      await Promise.all(changedTabs.map(tab => reloadFile(tab.id, tab.path)));
+    } catch (error) {
+      console.error('Failed to move section:', error);
+      alert('Failed to move section: ' + (error as Error).message);
+    }
+  };
+
+  const handleSpellCheck = async (content: string) => {
+    if (!currentProject) return null;
+    return await window.electronAPI.spellCheckFile({ projectId: currentProject.id, content });
+  };
+
+  const handleAddToDictionary = async (word: string) => {
+    if (!currentProject) return;
+    await window.electronAPI.spellCheckAddWord({ projectId: currentProject.id, word });
+  };
+
   const openFile = async (filePath: string) => {
     if (!currentProject) return;
 
@@ -512,6 +731,59 @@ function App() {
     }
   };
 
+  // Open a file as it was in a snapshot, in a read-only tab
+  const openSnapshotFile = async (snapshot: { id: string; timestamp: number; message?: string }, filePath: string) => {
+    const tabPath = `snapshot:${snapshot.id}/${filePath}`;
+    const existingTab = openTabs.find(tab => tab.path === tabPath);
+    if (existingTab) {
+      setActiveTabId(existingTab.id);
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.snapshotReadFile({ snapshotId: snapshot.id, relPath: filePath });
+      if (result.binary) {
+        alert('Binary files cannot be opened from a snapshot.');
+        return;
+      }
+
+      const tab: Tab = {
+        id: Date.now().toString(),
+        path: tabPath,
+        name: filePath.split('/').pop() || filePath,
+        content: result.content,
+        isDirty: false,
+        readOnly: true,
+        origin: `snapshot from ${new Date(snapshot.timestamp).toLocaleString()}`,
+      };
+
+      setOpenTabs(prev => [...prev, tab]);
+      setActiveTabId(tab.id);
+    } catch (error) {
+      console.error('Failed to open snapshot file:', error);
+      alert('Failed to open snapshot file: ' + (error as Error).message);
+    }
+  };
+
+  // A single file was restored from a snapshot: refresh just that tab
+  const handleSnapshotFileRestored = (filePath: string) => {
+    // Treat it as managed briefly so the watcher reloads it silently instead of prompting
+    setManagedFiles(prev => new Set(prev).add(filePath));
+    setTimeout(() => {
+      setManagedFiles(prev => {
+        const next = new Set(prev);
+        next.delete(filePath);
+        return next;
+      });
+    }, 2000);
+
+    const tab = openTabs.find(t => t.path === filePath);
+    if (tab) {
+      reloadFile(tab.id, filePath);
+    }
+    loadFileTree();
+  };
+
   const closeTab = (tabId: string) => {
     const tab = openTabs.find(t => t.id === tabId);
     if (tab && tab.isDirty) {
@@ -537,6 +809,7 @@ function App() {
       console.log(`🔥 saveFile: tab not found for id ${tabId}`);
       return;
     }
+    if (tab.readOnly) return;
 
     console.log(`🔥 saveFile: found tab for ${tab.path}`);
 
@@ -561,7 +834,8 @@ function App() {
         console.log(`Auto-compile trigger: saving ${tab.path} with auto-compile enabled`);
         try {
           await window.electronAPI.compileTriggerAutoCompile({
-            projectId: currentProject.id
+            projectId: currentProject.id,
+            filePath: tab.path,
           });
           console.log('Auto-compile triggered successfully');
         } catch (error) {
@@ -717,6 +991,82 @@ function App() {
     }
   };
 
+  const handleSelectTarget = (name: string) => {
+    const target = buildTargets.find(candidate => candidate.name === name);
+    setSelectedTarget(name);
+    if (target) setPdfOutput(`${target.outputName}.pdf`);
+  };
+
+  const handleSaveBuildTargets = async (targets: BuildTarget[]) => {
+    if (!currentProject) return;
+    const updated = await window.electronAPI.projectSetTargets({ projectId: currentProject.id, targets });
+    setCurrentProject(updated);
+  };
+
+  const handleSaveRecipes = async (settings: {
+    recipes: CompileRecipe[];
+    recipe?: string;
+    useLatexmkrc: boolean;
+    bibTool: 'bibtex' | 'biber';
+    indexTool: 'makeindex' | 'xindy';
+    containerImage?: string;
+  }) => {
+    if (!currentProject) return;
+    const updated = await window.electronAPI.projectSetRecipes({ projectId: currentProject.id, ...settings });
+    setCurrentProject(updated);
+  };
+
+  const handleSaveShellEscape = async (mode: 'off' | 'restricted' | 'full', commands: string[]) => {
+    if (!currentProject) return;
+    const updated = await window.electronAPI.projectSetShellEscape({ projectId: currentProject.id, mode, commands });
+    setCurrentProject(updated);
+  };
+
+  // SyncTeX forward search: editor cursor -> PDF location
+  const handleForwardSearch = async (filePath: string, line: number) => {
+    if (!currentProject) return;
+
+    try {
+      const result = await window.electronAPI.synctexForward({
+        projectId: currentProject.id,
+        file: filePath,
+        line,
+        output: pdfOutput
+      });
+
+      if (result) {
+        setPdfSyncTarget({ ...result, requestId: Date.now() });
+      } else {
+        setLogs(prev => [...prev, `SyncTeX: no PDF location found for ${filePath}:${line}. Compile the project first.`]);
+      }
+    } catch (error) {
+      console.error('SyncTeX forward search failed:', error);
+    }
+  };
+
+  // SyncTeX inverse search: PDF click -> source file and line
+  const handleInverseSearch = async (page: number, x: number, y: number) => {
+    if (!currentProject) return;
+
+    try {
+      const result = await window.electronAPI.synctexInverse({
+        projectId: currentProject.id,
+        page,
+        x,
+        y,
+        output: pdfOutput
+      });
+
+      if (result) {
+        await handleErrorClick(result.file, result.line);
+      } else {
+        setLogs(prev => [...prev, `SyncTeX: no source location found on page ${page}.`]);
+      }
+    } catch (error) {
+      console.error('SyncTeX inverse search failed:', error);
+    }
+  };
+
   const compileProject = async () => {
     if (!currentProject || isCompiling) return;
 
@@ -730,8 +1080,12 @@ function App() {
     setShowErrorsPanel(false);
 
     try {
+      // A chapter's % !TEX root decides which document gets built
+      const activeTab = openTabs.find(tab => tab.id === activeTabId);
       const result = await window.electronAPI.compileRun({
         projectId: currentProject.id,
+        target: selectedTarget || undefined,
+        activeFile: activeTab && !activeTab.origin && activeTab.path.endsWith('.tex') ? activeTab.path : undefined,
       });
 
       // Milestone 4: Listen for live progress events
@@ -746,6 +1100,7 @@ function App() {
           if (data.state === 'success') {
             setIsCompiling(false);
             setCompilationStatus('success');
+            if (data.output) setPdfOutput(data.output);
             // Milestone 4: Auto-refresh PDF viewer on success
             console.log('Manual compilation successful - refreshing PDF');
             console.log('Current pdfRefreshTrigger:', pdfRefreshTrigger);
@@ -813,6 +1168,34 @@ function App() {
     }
   };
 
+  // Install a package a compile reported missing, streaming tlmgr's output to the log panel
+  const handleInstallPackage = async (pkg: string) => {
+    if (installingPackage) return;
+    if (!window.confirm(`Install the TeX Live package "${pkg}" with tlmgr?`)) return;
+
+    setInstallingPackage(pkg);
+    setShowLogPanel(true);
+    setLogs(prev => [...prev, `📦 Installing ${pkg} with tlmgr...`]);
+
+    const handleProgress = (_event: any, data: { line: string }) => {
+      setLogs(prev => [...prev, data.line]);
+    };
+    window.electronAPI.onTexInstallProgress(handleProgress);
+
+    try {
+      const result = await window.electronAPI.texInstallPackages({ packages: [pkg] });
+      setLogs(prev => [...prev, result.ok
+        ? `✅ Installed ${pkg}. Compile again to use it.`
+        : `❌ tlmgr exited with code ${result.code}`]);
+    } catch (error) {
+      const message = (error as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '');
+      setLogs(prev => [...prev, `❌ ${message}`]);
+    } finally {
+      window.electronAPI.removeTexInstallProgressListener(handleProgress);
+      setInstallingPackage(null);
+    }
+  };
+
   // Milestone 13: Clean build function
   const handleCleanBuild = async () => {
     if (!currentProject) return;
@@ -935,12 +1318,12 @@ function App() {
       await createAutoSnapshot(message);
     }
 
-    // Stop file watching for current project
+    // Stop file watching and drop compile state for current project
     if (currentProject) {
       try {
-        await stopFileWatching();
+        await window.electronAPI.projectClose({ projectId: currentProject.id });
       } catch (error) {
-        console.error('Failed to stop file watching:', error);
+        console.error('Failed to close project:', error);
       }
     }
 
@@ -956,6 +1339,7 @@ function App() {
     setCompilationStatus('idle');
     // Milestone 7: Reset history panel state
     setShowHistoryPanel(false);
+    setShowCompileHistory(false);
   };
 
   const handleProjectSelect = async (newProject: Project) => {
@@ -1019,18 +1403,29 @@ function App() {
         onBack={handleBackToProjects}
         onOpenSettings={() => setShowSettingsModal(true)}
         queueState={queueState}
+        wordCount={documentStats ? totalWords(documentStats.total) : null}
+        onOpenStats={() => setShowDocumentStats(true)}
+        targets={buildTargets}
+        selectedTarget={selectedTarget}
+        onSelectTarget={handleSelectTarget}
+        onEditTargets={() => setShowBuildTargets(true)}
       />
       
       <div className="flex-1 flex min-h-0 overflow-hidden">
         <ActionSidebar 
           onCleanBuild={handleCleanBuild}
+          onOpenRecipes={() => setShowRecipes(true)}
           isCompiling={isCompiling}
           onToggleLog={() => setShowLogPanel(!showLogPanel)}
           showErrorsPanel={showErrorsPanel}
           onToggleErrorsPanel={() => setShowErrorsPanel(!showErrorsPanel)}
-          errorCount={errors.length}
+          errorCount={allIssues.length}
           showHistoryPanel={showHistoryPanel}
           onToggleHistoryPanel={() => setShowHistoryPanel(!showHistoryPanel)}
+          showGitPanel={showGitPanel}
+          onToggleGitPanel={() => setShowGitPanel(!showGitPanel)}
+          showCompileHistory={showCompileHistory}
+          onToggleCompileHistory={() => setShowCompileHistory(!showCompileHistory)}
           showSidebar={showSidebar}
           onToggleSidebar={() => setShowSidebar(!showSidebar)}
           onQuickFileSearch={() => setShowQuickFileSearch(true)}
@@ -1045,37 +1440,45 @@ function App() {
               onToggle={() => setShowSidebar(!showSidebar)}
               disableWidthControl={true}
             >
-              {useVirtualizedFileTree ? (
-                <VirtualizedFileTree 
-                  files={fileTree}
-                  projectId={currentProject.id}
-                  onFileSelect={openFile}
-                  onRefresh={loadFileTree}
-                  onFileCreate={handleFileCreate}
-                  onFileDelete={handleFileDelete}
-                  onFileRename={handleFileRename}
-                  onQuickFileSearch={() => setShowQuickFileSearch(true)}
-                  onFileCreationChange={setIsFileCreationActive}
-                  showSidebar={showSidebar}
-                  onToggleSidebar={() => setShowSidebar(!showSidebar)}
-                  maxVisibleItems={50}
-                  itemHeight={32}
-                />
-              ) : (
-                <FileTree 
-                  files={fileTree}
-                  projectId={currentProject.id}
-                  onFileSelect={openFile}
-                  onRefresh={loadFileTree}
-                  onFileCreate={handleFileCreate}
-                  onFileDelete={handleFileDelete}
-                  onFileRename={handleFileRename}
-                  onQuickFileSearch={() => setShowQuickFileSearch(true)}
-                  onFileCreationChange={setIsFileCreationActive}
-                  showSidebar={showSidebar}
-                  onToggleSidebar={() => setShowSidebar(!showSidebar)}
-                />
-              )}
+              <div className="flex-1 min-h-0">
+                {useVirtualizedFileTree ? (
+                  <VirtualizedFileTree 
+                    files={fileTree}
+                    projectId={currentProject.id}
+                    onFileSelect={openFile}
+                    onRefresh={loadFileTree}
+                    onFileCreate={handleFileCreate}
+                    onFileDelete={handleFileDelete}
+                    onFileRename={handleFileRename}
+                    onQuickFileSearch={() => setShowQuickFileSearch(true)}
+                    onFileCreationChange={setIsFileCreationActive}
+                    showSidebar={showSidebar}
+                    onToggleSidebar={() => setShowSidebar(!showSidebar)}
+                    maxVisibleItems={50}
+                    itemHeight={32}
+                  />
+                ) : (
+                  <FileTree 
+                    files={fileTree}
+                    projectId={currentProject.id}
+                    onFileSelect={openFile}
+                    onRefresh={loadFileTree}
+                    onFileCreate={handleFileCreate}
+                    onFileDelete={handleFileDelete}
+                    onFileRename={handleFileRename}
+                    onQuickFileSearch={() => setShowQuickFileSearch(true)}
+                    onFileCreationChange={setIsFileCreationActive}
+                    showSidebar={showSidebar}
+                    onToggleSidebar={() => setShowSidebar(!showSidebar)}
+                  />
+                )}
+              </div>
+              <OutlinePanel
+                entries={projectIndex?.outline || []}
+                cursor={cursorLocation}
+                onNavigate={handleErrorClick}
+                onMoveSection={handleMoveSection}
+              />
             </CollapsibleSidebar>
           }
           right={
@@ -1089,8 +1492,12 @@ function App() {
                   onTabClose={closeTab}
                   onContentChange={updateTabContent}
                   onSave={saveFile}
-                  errorMarkersForFile={errorMarkersForFile}
+                  errorMarkersForFile={issueMarkersForFile}
                   onGotoLine={handleErrorClick}
+                  onForwardSearch={handleForwardSearch}
+                  onCursorLineChange={(file, line) => setCursorLocation({ file, line })}
+                  onSpellCheck={handleSpellCheck}
+                  onAddToDictionary={handleAddToDictionary}
                 />
               }
               right={
@@ -1098,6 +1505,11 @@ function App() {
                   projectId={currentProject?.id || null} 
                   refreshTrigger={pdfRefreshTrigger}
                   compilationStatus={compilationStatus}
+                  syncTarget={pdfSyncTarget}
+                  onInverseSearch={handleInverseSearch}
+                  outputs={pdfOutputs}
+                  output={pdfOutput}
+                  onOutputChange={setPdfOutput}
                 />
               }
               defaultSplit={60}
@@ -1126,10 +1538,12 @@ function App() {
       
       {/* Milestone 6: Errors Panel - Slide-out */}
       <ErrorsPanel 
-        errors={errors}
+        errors={allIssues}
         onErrorClick={handleErrorClick}
         onClose={() => setShowErrorsPanel(false)}
         isOpen={showErrorsPanel}
+        onInstallPackage={handleInstallPackage}
+        installingPackage={installingPackage}
       />
       
       {/* Milestone 7: History Panel */}
@@ -1140,6 +1554,8 @@ function App() {
         className="h-64"
         autoSnapshotSettings={autoSnapshotSettings}
         onAutoSnapshotSettingsChange={setAutoSnapshotSettings}
+        onOpenSnapshotFile={openSnapshotFile}
+        onSnapshotFileRestored={handleSnapshotFileRestored}
         onRestoreStart={() => {
           console.log('[App] Restore started - stopping file watching and setting restore state');
           setIsRestoringSnapshot(true);
@@ -1158,6 +1574,29 @@ function App() {
         }}
       />
 
+      {/* Git Panel */}
+      <GitPanel
+        projectId={currentProject?.id || null}
+        isOpen={showGitPanel}
+        onClose={() => setShowGitPanel(false)}
+        onOpenFile={(path) => {
+          openFile(path);
+          setShowGitPanel(false);
+        }}
+        onBranchChanged={() => {
+          // Checkout rewrote tracked files; show their new contents but keep unsaved edits
+          reloadAllOpenTabs({ keepDirty: true });
+          loadFileTree();
+        }}
+      />
+
+      {/* Compile History Panel */}
+      <CompileHistoryPanel
+        projectId={currentProject?.id || null}
+        isOpen={showCompileHistory}
+        onClose={() => setShowCompileHistory(false)}
+      />
+
       {/* Milestone 13: Quick File Search */}
       <QuickFileSearch
         isOpen={showQuickFileSearch}
@@ -1177,6 +1616,38 @@ function App() {
         onInsertSnippet={handleInsertSnippet}
       />
 
+      {/* Word count */}
+      <DocumentStatsModal
+        isOpen={showDocumentStats}
+        onClose={() => setShowDocumentStats(false)}
+        stats={documentStats}
+        onNavigate={handleErrorClick}
+      />
+
+      {/* Build Targets Modal */}
+      <BuildTargetsModal
+        isOpen={showBuildTargets}
+        onClose={() => setShowBuildTargets(false)}
+        targets={buildTargets}
+        texFiles={texFiles}
+        defaultMainFile={currentProject.mainFile}
+        recipes={compileRecipes.map(recipe => recipe.name)}
+        onSave={handleSaveBuildTargets}
+      />
+
+      {/* Compile Recipes Modal */}
+      <RecipesModal
+        isOpen={showRecipes}
+        onClose={() => setShowRecipes(false)}
+        recipes={compileRecipes}
+        activeRecipe={currentProject.settings?.recipe}
+        useLatexmkrc={!!currentProject.settings?.useLatexmkrc}
+        bibTool={currentProject.settings?.bibTool || 'bibtex'}
+        indexTool={currentProject.settings?.indexTool || 'makeindex'}
+        containerImage={currentProject.settings?.containerImage}
+        onSave={handleSaveRecipes}
+      />
+
       {/* Settings Modal */}
       <SettingsModal
         isOpen={showSettingsModal}
@@ -1185,6 +1656,8 @@ function App() {
         onToggleAutoCompile={handleToggleAutoCompile}
         autoCompileDelay={autoCompileDelay}
         onAutoCompileDelayChange={handleAutoCompileDelayChange}
+        project={currentProject}
+        onSaveShellEscape={handleSaveShellEscape}
       />
 
       {/* Milestone 8: Bibliography Manager */}
@@ -3,6 +3,7 @@ import React from 'react';
 interface ActionSidebarProps {
   // Build props
   onCleanBuild?: () => void;
+  onOpenRecipes?: () => void;
   isCompiling: boolean;
   
   // Panel props
@@ -12,6 +13,10 @@ interface ActionSidebarProps {
   errorCount?: number;
   showHistoryPanel?: boolean;
   onToggleHistoryPanel?: () => void;
+  showGitPanel?: boolean;
+  onToggleGitPanel?: () => void;
+  showCompileHistory?: boolean;
+  onToggleCompileHistory?: () => void;
   
   // Sidebar props
   showSidebar?: boolean;
@@ -25,6 +30,7 @@ interface ActionSidebarProps {
 
 export const ActionSidebar: React.FC<ActionSidebarProps> = ({
   onCleanBuild,
+  onOpenRecipes,
   isCompiling,
   onToggleLog,
   showErrorsPanel = false,
@@ -32,6 +38,10 @@ export const ActionSidebar: React.FC<ActionSidebarProps> = ({
   errorCount = 0,
   showHistoryPanel = false,
   onToggleHistoryPanel,
+  showGitPanel = false,
+  onToggleGitPanel,
+  showCompileHistory = false,
+  onToggleCompileHistory,
   showSidebar = true,
   onToggleSidebar,
   onQuickFileSearch,
@@ -127,6 +137,22 @@ export const ActionSidebar: React.FC<ActionSidebarProps> = ({
           </div>
         </button>
       )}
+
+      {/* Compile Recipes */}
+      {onOpenRecipes && (
+        <button
+          onClick={onOpenRecipes}
+          className="p-2 rounded hover:bg-gray-100 transition-colors group relative text-gray-600"
+          title="Compile Recipes"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+          </svg>
+          <div className="absolute left-full top-1/2 transform -translate-y-1/2 ml-2 px-2 py-1 bg-gray-900 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
+            Compile Recipes
+          </div>
+        </button>
+      )}
       
       {/* Logs */}
       <button
@@ -188,6 +214,49 @@ export const ActionSidebar: React.FC<ActionSidebarProps> = ({
           </div>
         </button>
       )}
+
+      {/* Git Panel */}
+      {onToggleGitPanel && (
+        <button
+          onClick={onToggleGitPanel}
+          className={`p-2 rounded transition-colors group relative ${
+            showGitPanel
+              ? 'bg-blue-600 text-white'
+              : 'hover:bg-gray-100 text-gray-600'
+          }`}
+          title="Toggle Git Panel"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <circle cx="6" cy="6" r="2" strokeWidth={2} />
+            <circle cx="6" cy="18" r="2" strokeWidth={2} />
+            <circle cx="18" cy="8" r="2" strokeWidth={2} />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 8v8m12-6c0 4-6 3-11 7" />
+          </svg>
+          <div className="absolute left-full top-1/2 transform -translate-y-1/2 ml-2 px-2 py-1 bg-gray-900 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
+            Git
+          </div>
+        </button>
+      )}
+
+      {/* Compile History */}
+      {onToggleCompileHistory && (
+        <button
+          onClick={onToggleCompileHistory}
+          className={`p-2 rounded transition-colors group relative ${
+            showCompileHistory
+              ? 'bg-blue-600 text-white'
+              : 'hover:bg-gray-100 text-gray-600'
+          }`}
+          title="Toggle Compile History"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+          </svg>
+          <div className="absolute left-full top-1/2 transform -translate-y-1/2 ml-2 px-2 py-1 bg-gray-900 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
+            Compile History
+          </div>
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+
+export interface BuildTarget {
+  name: string;
+  mainFile: string;
+  engine?: 'pdflatex' | 'xelatex' | 'lualatex';
+  outputName: string;
+  recipe?: string;
+}
+
+interface BuildTargetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  targets: BuildTarget[];
+  texFiles: string[];
+  defaultMainFile: string;
+  recipes: string[];
+  onSave: (targets: BuildTarget[]) => Promise<void>;
+}
+
+const outputNameFor = (mainFile: string) =>
+  (mainFile.split('/').pop() || 'main').replace(/\.tex$/, '').replace(/[^\w.-]/g, '_');
+
+const BuildTargetsModal: React.FC<BuildTargetsModalProps> = ({
+  isOpen,
+  onClose,
+  targets,
+  texFiles,
+  defaultMainFile,
+  recipes,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<BuildTarget[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      // Start from the implicit main target so the first edit keeps today's output
+      setDraft(targets.length > 0
+        ? targets.map(target => ({ ...target }))
+        : [{ name: 'main', mainFile: defaultMainFile, outputName: 'main' }]);
+      setError(null);
+    }
+  }, [isOpen, targets, defaultMainFile]);
+
+  if (!isOpen) return null;
+
+  const update = (index: number, changes: Partial<BuildTarget>) => {
+    setDraft(prev => prev.map((target, i) => (i === index ? { ...target, ...changes } : target)));
+  };
+
+  const addTarget = () => {
+    const mainFile = texFiles.find(file => !draft.some(target => target.mainFile === file)) || defaultMainFile;
+    const outputName = outputNameFor(mainFile);
+    setDraft(prev => [...prev, { name: outputName, mainFile, outputName }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      // Electron prefixes errors thrown in IPC handlers with the channel name
+      setError((err instanceof Error ? err.message : String(err)).replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Build Targets</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Each target builds one main file into its own PDF in the output folder.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <datalist id="build-target-tex-files">
+            {texFiles.map(file => <option key={file} value={file} />)}
+          </datalist>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="pb-2 pr-2 font-medium">Name</th>
+                <th className="pb-2 pr-2 font-medium">Main file</th>
+                <th className="pb-2 pr-2 font-medium">Engine</th>
+                {recipes.length > 0 && <th className="pb-2 pr-2 font-medium">Recipe</th>}
+                <th className="pb-2 pr-2 font-medium">Output</th>
+                <th className="pb-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((target, index) => (
+                <tr key={index}>
+                  <td className="py-1 pr-2">
+                    <input
+                      value={target.name}
+                      onChange={(e) => update(index, { name: e.target.value })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      value={target.mainFile}
+                      list="build-target-tex-files"
+                      onChange={(e) => update(index, { mainFile: e.target.value })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      value={target.engine || ''}
+                      onChange={(e) => update(index, { engine: (e.target.value || undefined) as BuildTarget['engine'] })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded bg-white"
+                      title="Project default follows % !TEX program, then the project engine"
+                    >
+                      <option value="">Project default</option>
+                      <option value="pdflatex">pdfLaTeX</option>
+                      <option value="xelatex">XeLaTeX</option>
+                      <option value="lualatex">LuaLaTeX</option>
+                    </select>
+                  </td>
+                  {recipes.length > 0 && (
+                    <td className="py-1 pr-2">
+                      <select
+                        value={target.recipe || ''}
+                        onChange={(e) => update(index, { recipe: e.target.value || undefined })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded bg-white"
+                      >
+                        <option value="">Project default</option>
+                        {recipes.map(recipe => <option key={recipe} value={recipe}>{recipe}</option>)}
+                      </select>
+                    </td>
+                  )}
+                  <td className="py-1 pr-2">
+                    <div className="flex items-center">
+                      <input
+                        value={target.outputName}
+                        onChange={(e) => update(index, { outputName: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                      <span className="ml-1 text-xs text-gray-500">.pdf</span>
+                    </div>
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                      className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                      title="Remove target"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button
+            onClick={addTarget}
+            className="mt-3 px-3 py-1.5 text-sm text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+          >
+            Add target
+          </button>
+
+          {draft.length === 0 && (
+            <p className="mt-3 text-xs text-gray-500">
+              Without targets the project's main file is built into main.pdf.
+            </p>
+          )}
+
+          {error && (
+            <div className="mt-3 px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BuildTargetsModal;
@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+
+type CompilePhase = 'queue' | 'prepare' | 'compile' | 'auxiliary' | 'logs' | 'output';
+
+interface CompileHistoryEntry {
+  jobId: string;
+  projectId: string;
+  mainFile: string;
+  outputName: string;
+  engine: string;
+  recipe?: string;
+  trigger: 'auto' | 'manual';
+  build: 'incremental' | 'clean';
+  state: 'queued' | 'running' | 'success' | 'error' | 'killed' | 'cancelled';
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  phases: Partial<Record<CompilePhase, number>>;
+  errorCount: number;
+  warningCount: number;
+  pdfSizeBytes?: number;
+}
+
+interface CompileHistoryPanelProps {
+  projectId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Stacked in this order in the chart, bottom to top
+const PHASES: Array<{ key: CompilePhase; label: string; color: string }> = [
+  { key: 'queue', label: 'Queue', color: '#d1d5db' },
+  { key: 'prepare', label: 'Prepare', color: '#93c5fd' },
+  { key: 'compile', label: 'Compile', color: '#2563eb' },
+  { key: 'auxiliary', label: 'Bibliography & index', color: '#8b5cf6' },
+  { key: 'logs', label: 'Logs', color: '#f59e0b' },
+  { key: 'output', label: 'Output', color: '#10b981' },
+];
+
+const STATE_STYLES: Record<CompileHistoryEntry['state'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  success: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  killed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+// Compiles shown in the chart; the list below shows the whole history
+const CHART_ENTRIES = 40;
+const CHART_WIDTH = 440;
+const CHART_HEIGHT = 120;
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Wall-clock time of a compile including the queue wait, as stacked in the chart
+function totalTime(entry: CompileHistoryEntry): number {
+  return PHASES.reduce((sum, phase) => sum + (entry.phases[phase.key] || 0), 0);
+}
+
+export const CompileHistoryPanel: React.FC<CompileHistoryPanelProps> = ({
+  projectId,
+  isOpen,
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<CompileHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedJob, setSelectedJob] = useState<string | null>(null);
+  const [log, setLog] = useState<{ jobId: string; content: string } | null>(null);
+
+  useEffect(() => {
+    setSelectedJob(null);
+    setLog(null);
+    if (isOpen && projectId) {
+      loadHistory();
+    }
+  }, [isOpen, projectId]);
+
+  // New compiles are added as they finish
+  useEffect(() => {
+    const handleRecorded = (_event: any, entry: CompileHistoryEntry) => {
+      if (entry.projectId !== projectId) return;
+      setEntries(current => [entry, ...current.filter(existing => existing.jobId !== entry.jobId)]);
+    };
+
+    window.electronAPI.onCompileHistoryRecorded(handleRecorded);
+    return () => window.electronAPI.removeCompileHistoryRecordedListener(handleRecorded);
+  }, [projectId]);
+
+  // Handle escape key to close panel
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && isOpen) {
+        event.preventDefault();
+        event.stopPropagation();
+        event.stopImmediatePropagation();
+        onClose();
+        return false;
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown, { capture: true });
+    }
+
+    return () => document.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [isOpen, onClose]);
+
+  const loadHistory = async () => {
+    if (!projectId) return;
+
+    setLoading(true);
+    try {
+      setEntries(await window.electronAPI.compileHistoryList({ projectId }));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load compile history:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const viewLog = async (jobId: string) => {
+    if (!projectId) return;
+    if (log?.jobId === jobId) {
+      setLog(null);
+      return;
+    }
+
+    try {
+      const content = await window.electronAPI.compileHistoryReadLog({ projectId, jobId });
+      setLog({ jobId, content });
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load compile log:', err);
+      setError((err as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+    }
+  };
+
+  const renderChart = () => {
+    const charted = entries.slice(0, CHART_ENTRIES).reverse(); // Oldest on the left
+    const longest = Math.max(...charted.map(totalTime), 1);
+    const slot = CHART_WIDTH / CHART_ENTRIES;
+    const barWidth = Math.max(slot - 3, 2);
+
+    return (
+      <div className="px-4 py-3 border-b border-gray-200">
+        <div className="flex items-baseline justify-between text-xs text-gray-500 mb-1">
+          <span>Build time, last {charted.length} compile{charted.length !== 1 ? 's' : ''}</span>
+          <span>max {formatDuration(longest)}</span>
+        </div>
+        <svg width="100%" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="bg-gray-50 rounded">
+          {charted.map((entry, index) => {
+            let y = CHART_HEIGHT;
+            const x = index * slot + 1;
+            return (
+              <g
+                key={entry.jobId}
+                onClick={() => setSelectedJob(entry.jobId)}
+                className="cursor-pointer"
+                opacity={selectedJob && selectedJob !== entry.jobId ? 0.5 : 1}
+              >
+                <title>
+                  {`${new Date(entry.startTime).toLocaleString()} · ${formatDuration(totalTime(entry))} · ${entry.state}\n` +
+                    PHASES.filter(phase => entry.phases[phase.key])
+                      .map(phase => `${phase.label}: ${formatDuration(entry.phases[phase.key]!)}`)
+                      .join('\n')}
+                </title>
+                {PHASES.map(phase => {
+                  const height = ((entry.phases[phase.key] || 0) / longest) * (CHART_HEIGHT - 4);
+                  y -= height;
+                  return height > 0 ? (
+                    <rect key={phase.key} x={x} y={y} width={barWidth} height={height} fill={phase.color} />
+                  ) : null;
+                })}
+                {entry.state !== 'success' && (
+                  <rect x={x} y={CHART_HEIGHT - 3} width={barWidth} height={3} fill="#dc2626" />
+                )}
+              </g>
+            );
+          })}
+        </svg>
+        <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600">
+          {PHASES.map(phase => (
+            <span key={phase.key} className="flex items-center">
+              <span className="inline-block w-2.5 h-2.5 rounded-sm mr-1" style={{ backgroundColor: phase.color }}></span>
+              {phase.label}
+            </span>
+          ))}
+          <span className="flex items-center">
+            <span className="inline-block w-2.5 h-1 mr-1 bg-red-600"></span>
+            Failed
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSummary = () => {
+    const succeeded = entries.filter(entry => entry.state === 'success');
+    const durations = succeeded.map(entry => entry.durationMs).sort((a, b) => a - b);
+    const median = durations.length > 0 ? durations[Math.floor(durations.length / 2)] : null;
+    const incremental = succeeded.filter(entry => entry.build === 'incremental').map(entry => entry.durationMs);
+    const clean = succeeded.filter(entry => entry.build === 'clean').map(entry => entry.durationMs);
+    const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+    return (
+      <div className="px-4 py-2 border-b border-gray-200 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-600">
+        <span>{entries.length} compile{entries.length !== 1 ? 's' : ''}, {succeeded.length} succeeded</span>
+        <span>Median {median !== null ? formatDuration(median) : '—'}</span>
+        <span>Incremental avg {incremental.length > 0 ? formatDuration(average(incremental)) : '—'}</span>
+        <span>Clean avg {clean.length > 0 ? formatDuration(average(clean)) : '—'}</span>
+      </div>
+    );
+  };
+
+  const renderEntry = (entry: CompileHistoryEntry) => {
+    const isSelected = selectedJob === entry.jobId;
+
+    return (
+      <div key={entry.jobId} className={isSelected ? 'bg-blue-50' : ''}>
+        <button
+          onClick={() => setSelectedJob(isSelected ? null : entry.jobId)}
+          className={`w-full text-left px-4 py-2 text-xs ${isSelected ? '' : 'hover:bg-gray-50'}`}
+        >
+          <div className="flex items-center space-x-2">
+            <span className={`px-1.5 py-0.5 rounded font-medium ${STATE_STYLES[entry.state]}`}>{entry.state}</span>
+            <span className="text-gray-800">{new Date(entry.startTime).toLocaleString()}</span>
+            <span className="flex-1"></span>
+            <span className="font-mono text-gray-700">{formatDuration(entry.durationMs)}</span>
+          </div>
+          <div className="mt-1 flex flex-wrap gap-x-3 text-gray-500">
+            <span>{entry.trigger === 'auto' ? 'Auto' : 'Manual'}</span>
+            <span>{entry.build === 'incremental' ? 'Incremental' : 'Clean'}</span>
+            <span>{entry.recipe ? `${entry.recipe} (${entry.engine})` : entry.engine}</span>
+            <span className={entry.errorCount > 0 ? 'text-red-600' : ''}>
+              {entry.errorCount} error{entry.errorCount !== 1 ? 's' : ''}
+            </span>
+            <span className={entry.warningCount > 0 ? 'text-yellow-700' : ''}>
+              {entry.warningCount} warning{entry.warningCount !== 1 ? 's' : ''}
+            </span>
+            {entry.pdfSizeBytes !== undefined && <span>{entry.outputName}.pdf {formatSize(entry.pdfSizeBytes)}</span>}
+          </div>
+        </button>
+
+        {isSelected && (
+          <div className="px-4 pb-3 text-xs">
+            <table className="w-full text-gray-600">
+              <tbody>
+                {PHASES.filter(phase => entry.phases[phase.key] !== undefined).map(phase => (
+                  <tr key={phase.key}>
+                    <td className="py-0.5">
+                      <span className="inline-block w-2 h-2 rounded-sm mr-2" style={{ backgroundColor: phase.color }}></span>
+                      {phase.label}
+                    </td>
+                    <td className="py-0.5 text-right font-mono">{formatDuration(entry.phases[phase.key]!)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-2 flex items-center justify-between text-gray-500">
+              <span className="truncate" title={entry.mainFile}>{entry.mainFile}</span>
+              <button
+                onClick={() => viewLog(entry.jobId)}
+                className="ml-2 px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                {log?.jobId === entry.jobId ? 'Hide log' : 'View log'}
+              </button>
+            </div>
+            {log?.jobId === entry.jobId && (
+              <pre className="mt-2 max-h-64 overflow-auto p-2 bg-gray-900 text-gray-100 rounded text-xs whitespace-pre-wrap">
+                {log.content || '(empty log)'}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (!projectId) {
+      return <div className="p-4 text-center text-gray-500"><p>No project selected</p></div>;
+    }
+    if (loading && entries.length === 0) {
+      return (
+        <div className="p-8 text-center">
+          <div className="animate-spin mx-auto h-8 w-8 border-4 border-blue-600 border-t-transparent rounded-full"></div>
+          <p className="mt-2 text-sm text-gray-500">Loading compile history...</p>
+        </div>
+      );
+    }
+    if (entries.length === 0) {
+      return (
+        <div className="p-8 text-center text-gray-500">
+          <p className="text-sm font-medium">No compiles yet</p>
+          <p className="text-xs text-gray-400 mt-1">Timings and logs appear here after each compile</p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {renderChart()}
+        {renderSummary()}
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {entries.map(renderEntry)}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className={`compile-history-panel-overlay ${isOpen ? 'open' : ''}`}
+        onClick={onClose}
+      />
+      {/* Panel Container */}
+      <div className={`compile-history-panel-container ${isOpen ? 'open' : ''}`}>
+        <div className="h-full flex flex-col bg-white">
+          {/* Header */}
+          <div className="border-b border-gray-200 px-4 py-3 bg-gray-50">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900 flex items-center">
+                <svg className="w-4 h-4 mr-2 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+                Compile History
+              </h3>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={loadHistory}
+                  disabled={loading}
+                  className="p-1 rounded hover:bg-gray-200 text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
+                  title="Refresh"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                </button>
+                <button
+                  onClick={onClose}
+                  className="p-1 rounded hover:bg-gray-200 text-gray-500 hover:text-gray-700 transition-colors"
+                  title="Close compile history"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="px-4 py-2 text-xs text-red-700 bg-red-50 border-b border-red-200 whitespace-pre-wrap">
+              {error}
+            </div>
+          )}
+
+          {renderBody()}
+        </div>
+      </div>
+    </>
+  );
+};
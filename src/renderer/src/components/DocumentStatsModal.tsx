@@ -0,0 +1,168 @@
+import React, { useMemo } from 'react';
+
+interface WordCount {
+  textWords: number;
+  headerWords: number;
+  captionWords: number;
+  headers: number;
+  floats: number;
+  inlineMath: number;
+  displayMath: number;
+}
+
+interface SectionStats {
+  title: string;
+  command?: string;
+  level: number;
+  file: string;
+  line: number;
+  counts: WordCount;
+}
+
+export interface DocumentStats {
+  projectId: string;
+  files: string[];
+  total: WordCount;
+  sections: SectionStats[];
+}
+
+interface DocumentStatsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stats: DocumentStats | null;
+  onNavigate: (file: string, line: number) => void;
+}
+
+// Words in text, headers and captions, as texcount sums them
+export const totalWords = (counts: WordCount) => counts.textWords + counts.headerWords + counts.captionWords;
+
+const COLUMNS: Array<{ key: keyof WordCount; label: string; title: string }> = [
+  { key: 'textWords', label: 'Text', title: 'Words in text' },
+  { key: 'headerWords', label: 'Headers', title: 'Words in headers' },
+  { key: 'captionWords', label: 'Captions', title: 'Words in float captions' },
+  { key: 'floats', label: 'Floats', title: 'Figure and table environments' },
+  { key: 'inlineMath', label: 'Math', title: 'Inline formulas' },
+  { key: 'displayMath', label: 'Display', title: 'Displayed formulas' },
+];
+
+const DocumentStatsModal: React.FC<DocumentStatsModalProps> = ({ isOpen, onClose, stats, onNavigate }) => {
+  // Indent relative to the highest heading level that occurs
+  const topLevel = useMemo(() => {
+    const levels = (stats?.sections || []).filter(section => section.command).map(section => section.level);
+    return levels.length > 0 ? Math.min(...levels) : 0;
+  }, [stats]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Word Count</h2>
+            {stats && (
+              <p className="text-sm text-gray-500 mt-1">
+                {stats.files.length} file{stats.files.length === 1 ? '' : 's'} from the main file's include tree
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 text-gray-500 hover:text-gray-700"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!stats ? (
+          <div className="p-8 text-center text-gray-500 text-sm">Counting words...</div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="px-6 py-4 grid grid-cols-4 gap-4 border-b border-gray-200 bg-gray-50">
+              <div>
+                <div className="text-2xl font-semibold text-gray-900">{totalWords(stats.total).toLocaleString()}</div>
+                <div className="text-xs text-gray-500">Words</div>
+              </div>
+              <div>
+                <div className="text-lg font-medium text-gray-800">{stats.total.headers}</div>
+                <div className="text-xs text-gray-500">Headers</div>
+              </div>
+              <div>
+                <div className="text-lg font-medium text-gray-800">{stats.total.floats}</div>
+                <div className="text-xs text-gray-500">Floats</div>
+              </div>
+              <div>
+                <div className="text-lg font-medium text-gray-800">
+                  {stats.total.inlineMath} / {stats.total.displayMath}
+                </div>
+                <div className="text-xs text-gray-500">Inline / displayed math</div>
+              </div>
+            </div>
+
+            {/* Per section */}
+            <div className="flex-1 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white border-b border-gray-200">
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="px-6 py-2 font-medium">Section</th>
+                    <th className="px-2 py-2 font-medium text-right">Words</th>
+                    {COLUMNS.map(column => (
+                      <th key={column.key} className="px-2 py-2 font-medium text-right" title={column.title}>
+                        {column.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.sections.map((section, index) => (
+                    <tr
+                      key={`${section.file}:${section.line}:${index}`}
+                      className="border-b border-gray-100 hover:bg-blue-50 cursor-pointer"
+                      onClick={() => {
+                        onNavigate(section.file, section.line);
+                        onClose();
+                      }}
+                      title={`${section.file}:${section.line}`}
+                    >
+                      <td
+                        className="px-6 py-1.5 truncate max-w-xs"
+                        style={{ paddingLeft: `${24 + Math.max(0, section.level - topLevel) * 16}px` }}
+                      >
+                        {section.command
+                          ? (section.title || <span className="italic text-gray-400">untitled</span>)
+                          : <span className="italic text-gray-500">Before the first section</span>}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-medium text-gray-900">
+                        {totalWords(section.counts).toLocaleString()}
+                      </td>
+                      {COLUMNS.map(column => (
+                        <td key={column.key} className="px-2 py-1.5 text-right text-gray-600">
+                          {section.counts[column.key]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="px-6 py-3 border-t border-gray-200 text-xs text-gray-500">
+              Comments, the preamble, math, verbatim text and label or citation keys are not counted as words.
+              Section counts exclude their subsections.
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentStatsModal;
@@ -16,6 +16,7 @@ import { vim } from '@replit/codemirror-vim';
 import { latex, isLatexFile } from '../editor/latexLanguage';
 import { errorHighlighting, updateErrorMarkers } from '../extensions/errorHighlighting';
 import { latexSnippetsAutocompletion } from '../extensions/latexSnippets';
+import { spellChecking, SpellIssue } from '../extensions/spellChecking';
 
 interface Tab {
   id: string;
@@ -23,6 +24,8 @@ interface Tab {
   name: string;
   content: string;
   isDirty: boolean;
+  readOnly?: boolean; // e.g. a file opened from a snapshot
+  origin?: string; // Where a read-only tab's content came from
 }
 
 interface ErrorMarker {
@@ -31,10 +34,22 @@ interface ErrorMarker {
   message: string;
 }
 
+interface SpellCheckResult {
+  language: string;
+  dictionaryFound: boolean;
+  languages: string[];
+  issues: SpellIssue[];
+}
+
+// Same form the spell check service looks for near the top of a file
+const SPELLCHECK_MAGIC_COMMENT = /^\s*%\s*!TEX\s+spellcheck\s*=.*$/im;
+const MAGIC_COMMENT_LINES = 20;
+
 // Interface for methods exposed via ref
 export interface EditorRef {
   gotoLine: (line: number) => void;
   insertText: (text: string, cursorPosition?: number) => void;
+  getCursorPosition: () => { path: string; line: number; column: number } | null;
 }
 
 interface EditorProps {
@@ -47,6 +62,13 @@ interface EditorProps {
   // Milestone 6: Error markers support
   errorMarkersForFile?: Record<string, ErrorMarker[]>; // Keyed by file path
   onGotoLine?: (filePath: string, line: number) => void;
+  // SyncTeX forward search (cursor -> PDF)
+  onForwardSearch?: (filePath: string, line: number, column: number) => void;
+  // Called when the cursor moves to another line, e.g. to follow it in the outline
+  onCursorLineChange?: (filePath: string, line: number) => void;
+  // Spell checking of LaTeX files; resolves to null when the file can't be checked
+  onSpellCheck?: (content: string) => Promise<SpellCheckResult | null>;
+  onAddToDictionary?: (word: string) => Promise<void>;
 }
 
 // Get language support based on file extension
@@ -93,6 +115,10 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
   onSave,
   errorMarkersForFile = {},
   onGotoLine,
+  onForwardSearch,
+  onCursorLineChange,
+  onSpellCheck,
+  onAddToDictionary,
 }, ref) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
@@ -103,6 +129,15 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
   const languageCompartment = useRef(new Compartment());
   const themeCompartment = useRef(new Compartment());
   const keymapCompartment = useRef(new Compartment());
+  // Editor listeners outlive renders, so they read the latest callback from a ref
+  const onCursorLineChangeRef = useRef(onCursorLineChange);
+  onCursorLineChangeRef.current = onCursorLineChange;
+  const lastCursorLineRef = useRef<number | null>(null);
+  const onSpellCheckRef = useRef(onSpellCheck);
+  onSpellCheckRef.current = onSpellCheck;
+  const onAddToDictionaryRef = useRef(onAddToDictionary);
+  onAddToDictionaryRef.current = onAddToDictionary;
+  const [spellStatus, setSpellStatus] = useState<Omit<SpellCheckResult, 'issues'> | null>(null);
 
   const activeTab = tabs.find(tab => tab.id === activeTabId);
 
@@ -138,7 +173,7 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
   }, [onSave]);
 
   // Create editor extensions
-  const createExtensions = useCallback((filename: string) => {
+  const createExtensions = useCallback((filename: string, readOnly = false) => {
     const language = getLanguageSupport(filename);
     const theme = isDarkMode ? oneDark : [];
     const vimKeymap = isVimMode ? vim() : [];
@@ -155,6 +190,10 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
       // Milestone 6: Error highlighting support
       errorHighlighting(),
     ];
+
+    if (readOnly) {
+      extensions.push(EditorState.readOnly.of(true), EditorView.editable.of(false));
+    }
     
     // Temporarily disable enhanced snippets to fix white screen
     // Add enhanced snippets autocomplete for LaTeX files
@@ -184,6 +223,7 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
         { key: 'Ctrl-f', run: () => { handleOpenSearch(); return true; } },
         { key: 'Cmd-Shift-[', mac: 'Cmd-Shift-[', run: () => { handleFoldAll(); return true; } },
         { key: 'Cmd-Shift-]', mac: 'Cmd-Shift-]', run: () => { handleUnfoldAll(); return true; } },
+        { key: 'Mod-Alt-j', run: () => { handleForwardSearch(); return true; } },
       ]),
       EditorView.updateListener.of((update) => {
         if (update.docChanged && activeTabId) {
@@ -232,7 +272,38 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
       viewRef.current = null;
     }
 
-    const extensions = createExtensions(activeTab.name);
+    const tabPath = activeTab.path;
+    const reportCursorLine = (editorState: EditorState) => {
+      const line = editorState.doc.lineAt(editorState.selection.main.head).number;
+      if (line !== lastCursorLineRef.current) {
+        lastCursorLineRef.current = line;
+        onCursorLineChangeRef.current?.(tabPath, line);
+      }
+    };
+
+    const extensions = [
+      ...createExtensions(activeTab.name, activeTab.readOnly),
+      EditorView.updateListener.of((update) => {
+        if (update.selectionSet || update.docChanged) {
+          reportCursorLine(update.state);
+        }
+      }),
+    ];
+
+    setSpellStatus(null);
+    if (onSpellCheckRef.current && isLatexFile(activeTab.name) && !activeTab.readOnly) {
+      extensions.push(spellChecking({
+        check: async (content) => {
+          const result = await onSpellCheckRef.current?.(content);
+          if (!result) return null;
+          setSpellStatus({ language: result.language, dictionaryFound: result.dictionaryFound, languages: result.languages });
+          return result.issues;
+        },
+        addToDictionary: async (word) => {
+          await onAddToDictionaryRef.current?.(word);
+        },
+      }));
+    }
     
     const state = EditorState.create({
       doc: activeTab.content || '',
@@ -244,6 +315,9 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
       parent: editorRef.current,
     });
 
+    lastCursorLineRef.current = null;
+    reportCursorLine(state);
+
     return () => {
       if (viewRef.current) {
         viewRef.current.destroy();
@@ -309,7 +383,7 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
 
   // Editor action handlers
   const handleSave = () => {
-    if (activeTabId && activeTab) {
+    if (activeTabId && activeTab && !activeTab.readOnly) {
       const content = viewRef.current?.state.doc.toString() || activeTab.content;
       onSave(activeTabId, content, false); // isAutosave = false (manual save)
       setLastSaved(prev => ({ ...prev, [activeTabId]: new Date() }));
@@ -334,6 +408,31 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
     }
   };
 
+  // SyncTeX: jump from the cursor to the matching spot in the PDF
+  const handleForwardSearch = () => {
+    const position = getCursorPosition();
+    if (position && onForwardSearch && !activeTab?.readOnly) {
+      onForwardSearch(position.path, position.line, position.column);
+    }
+  };
+
+  // The spell check language is chosen per file with a % !TEX spellcheck comment
+  const handleSpellLanguageChange = (language: string) => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const doc = view.state.doc;
+    const comment = `% !TEX spellcheck = ${language}`;
+    for (let number = 1; number <= Math.min(doc.lines, MAGIC_COMMENT_LINES); number++) {
+      const line = doc.line(number);
+      if (SPELLCHECK_MAGIC_COMMENT.test(line.text)) {
+        view.dispatch({ changes: { from: line.from, to: line.to, insert: comment } });
+        return;
+      }
+    }
+    view.dispatch({ changes: { from: 0, insert: `${comment}\n` } });
+  };
+
   // Dirty guard - warn about unsaved changes
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
@@ -396,11 +495,21 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
     }
   }, [activeTab]);
 
+  const getCursorPosition = useCallback(() => {
+    if (!viewRef.current || !activeTab) return null;
+
+    const state = viewRef.current.state;
+    const head = state.selection.main.head;
+    const line = state.doc.lineAt(head);
+    return { path: activeTab.path, line: line.number, column: head - line.from + 1 };
+  }, [activeTab]);
+
   // Expose functions via ref
   useImperativeHandle(ref, () => ({
     gotoLine,
-    insertText
-  }), [gotoLine, insertText]);
+    insertText,
+    getCursorPosition
+  }), [gotoLine, insertText, getCursorPosition]);
 
   if (tabs.length === 0) {
     return (
@@ -433,6 +542,11 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
             >
               <span className="text-sm truncate mr-2">
                 {tab.isDirty && <span className="text-orange-500 mr-1">●</span>}
+                {tab.readOnly && (
+                  <svg className="inline w-3 h-3 mr-1 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                  </svg>
+                )}
                 {tab.name}
               </span>
               <button
@@ -465,10 +579,32 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
             {/* Editor toolbar */}
             <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200">
               <div className="flex items-center space-x-2 text-sm text-gray-600">
-                <span>{activeTab.path}</span>
+                <span>{activeTab.origin ? `${activeTab.name} — ${activeTab.origin}` : activeTab.path}</span>
+                {activeTab.readOnly && (
+                  <span className="text-gray-600 text-xs bg-gray-200 px-2 py-1 rounded">Read-only</span>
+                )}
                 {isLatexFile(activeTab.name) && (
                   <span className="text-blue-500 text-xs bg-blue-100 px-2 py-1 rounded">LaTeX</span>
                 )}
+                {spellStatus && (
+                  <select
+                    value={spellStatus.language}
+                    onChange={(e) => handleSpellLanguageChange(e.target.value)}
+                    className={`text-xs border rounded px-1 py-0.5 bg-white ${
+                      spellStatus.dictionaryFound ? 'border-gray-300 text-gray-600' : 'border-orange-300 text-orange-600'
+                    }`}
+                    title={spellStatus.dictionaryFound
+                      ? 'Spell check language for this file'
+                      : `No ${spellStatus.language} dictionary is installed, so this file is not spell checked`}
+                  >
+                    {!spellStatus.languages.includes(spellStatus.language) && (
+                      <option value={spellStatus.language}>{spellStatus.language} (not installed)</option>
+                    )}
+                    {spellStatus.languages.map(language => (
+                      <option key={language} value={language}>{language}</option>
+                    ))}
+                  </select>
+                )}
                 {activeTab.isDirty ? (
                   <span className="text-orange-500 text-xs flex items-center">
                     <span className="mr-1">●</span>
@@ -488,6 +624,18 @@ export const Editor = forwardRef<EditorRef, EditorProps>(({
               
               <div className="flex items-center space-x-2">
                 {/* Editor controls */}
+                {onForwardSearch && isLatexFile(activeTab.name) && !activeTab.readOnly && (
+                  <button
+                    onClick={handleForwardSearch}
+                    className="px-2 py-1 rounded text-sm bg-gray-200 hover:bg-gray-300 text-gray-700"
+                    title="Show in PDF (Cmd/Ctrl+Alt+J)"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                    </svg>
+                  </button>
+                )}
+
                 <button
                   onClick={handleOpenSearch}
                   className="px-2 py-1 rounded text-sm bg-gray-200 hover:bg-gray-300 text-gray-700"
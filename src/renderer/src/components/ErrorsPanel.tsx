@@ -6,20 +6,46 @@ interface ErrorItem {
   column?: number;
   message: string;
   severity: 'error' | 'warning' | 'info';
+  category?: string;
+  raw?: string;
+  page?: number;
+  source?: 'compile' | 'lint';
+  missingFile?: string;
+  package?: string;
 }
 
+const CATEGORY_LABELS: Record<string, string> = {
+  latex: 'LaTeX',
+  tex: 'TeX',
+  package: 'Package',
+  reference: 'Reference',
+  citation: 'Citation',
+  font: 'Font',
+  box: 'Bad box',
+  'missing-file': 'Missing file',
+  'missing-package': 'Missing package',
+  bibliography: 'Bibliography',
+  index: 'Index',
+  glossary: 'Glossary',
+  other: 'Other',
+};
+
 interface ErrorsPanelProps {
   errors: ErrorItem[];
   onErrorClick: (file: string, line: number) => void;
   onClose: () => void;
   isOpen: boolean;
+  onInstallPackage?: (pkg: string) => void;
+  installingPackage?: string | null;
 }
 
 export const ErrorsPanel: React.FC<ErrorsPanelProps> = ({ 
   errors, 
   onErrorClick,
   onClose,
-  isOpen
+  isOpen,
+  onInstallPackage,
+  installingPackage
 }) => {
   // Handle Escape key to close panel
   useEffect(() => {
@@ -60,7 +86,7 @@ export const ErrorsPanel: React.FC<ErrorsPanelProps> = ({
               <svg className="w-5 h-5 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
               </svg>
-              <h3 className="text-sm font-medium text-white">Compilation Issues</h3>
+              <h3 className="text-sm font-medium text-white">Issues</h3>
               <div className="flex items-center space-x-3 text-xs">
                 {errorCount > 0 && (
                   <span className="flex items-center text-red-400 bg-red-900/20 px-2 py-1 rounded">
@@ -101,7 +127,7 @@ export const ErrorsPanel: React.FC<ErrorsPanelProps> = ({
                   </svg>
                 </div>
                 <p className="text-lg text-gray-300">No errors or warnings found</p>
-                <p className="text-sm text-gray-500 mt-2">Your LaTeX compilation was successful!</p>
+                <p className="text-sm text-gray-500 mt-2">Neither the last compilation nor the source check reported anything.</p>
               </div>
             ) : (
               <div className="divide-y divide-gray-700">
@@ -150,7 +176,57 @@ export const ErrorsPanel: React.FC<ErrorsPanelProps> = ({
                               line {error.line}
                               {error.column && `:${error.column}`}
                             </span>
+                            {error.page && (
+                              <span className="ml-3 text-gray-500">page {error.page}</span>
+                            )}
+                            {error.category && (
+                              <span className="ml-3 px-2 py-0.5 rounded bg-gray-700 text-gray-300">
+                                {CATEGORY_LABELS[error.category] || error.category}
+                              </span>
+                            )}
+                            {error.source === 'lint' && (
+                              <span
+                                className="ml-2 px-2 py-0.5 rounded bg-blue-900/30 text-blue-300"
+                                title="Found by checking the saved source, without compiling"
+                              >
+                                Source check
+                              </span>
+                            )}
                           </div>
+                          {error.category === 'missing-package' && (
+                            <div className="flex items-center mt-2 text-xs" onClick={(e) => e.stopPropagation()}>
+                              {error.package ? (
+                                <>
+                                  <span className="text-gray-400">
+                                    Provided by TeX Live package <span className="font-mono text-gray-300">{error.package}</span>
+                                  </span>
+                                  {onInstallPackage && (
+                                    <button
+                                      onClick={() => onInstallPackage(error.package!)}
+                                      disabled={!!installingPackage}
+                                      className="ml-3 px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                      {installingPackage === error.package ? 'Installing...' : 'Install with tlmgr'}
+                                    </button>
+                                  )}
+                                </>
+                              ) : (
+                                <span className="text-gray-500">
+                                  No TeX Live package is known to provide {error.missingFile || 'this file'}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          {error.raw && (
+                            <details className="mt-2" onClick={(e) => e.stopPropagation()}>
+                              <summary className="text-xs text-gray-500 cursor-pointer hover:text-gray-300">
+                                Log excerpt
+                              </summary>
+                              <pre className="mt-1 p-2 text-xs font-mono text-gray-400 bg-gray-800 rounded overflow-x-auto whitespace-pre">
+                                {error.raw}
+                              </pre>
+                            </details>
+                          )}
                         </div>
                         <div className="ml-3 flex-shrink-0">
                           <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
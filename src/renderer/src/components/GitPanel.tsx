@@ -0,0 +1,651 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface GitFileStatus {
+  path: string;
+  oldPath?: string;
+  index: string;
+  workingTree: string;
+  staged: boolean;
+  unstaged: boolean;
+  conflicted: boolean;
+}
+
+interface GitStatus {
+  available: boolean;
+  isRepo: boolean;
+  branch: string | null;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  timestamp: number;
+  subject: string;
+  refs: string[];
+}
+
+interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  oldLine?: number;
+  newLine?: number;
+  text: string;
+}
+
+interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+interface GitFileDiff {
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed';
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+interface GitPanelProps {
+  projectId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenFile?: (filePath: string) => void;
+  onBranchChanged?: () => void; // Checkout rewrote files on disk
+}
+
+type Selection = { path: string; staged: boolean } | null;
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  M: { label: 'M', className: 'bg-yellow-100 text-yellow-800' },
+  A: { label: 'A', className: 'bg-green-100 text-green-800' },
+  D: { label: 'D', className: 'bg-red-100 text-red-800' },
+  R: { label: 'R', className: 'bg-blue-100 text-blue-800' },
+  C: { label: 'C', className: 'bg-blue-100 text-blue-800' },
+  T: { label: 'T', className: 'bg-yellow-100 text-yellow-800' },
+  U: { label: 'U', className: 'bg-orange-100 text-orange-800' },
+  '?': { label: 'U', className: 'bg-green-100 text-green-800' },
+};
+
+const DIFF_STATUS_LABELS: Record<GitFileDiff['status'], string> = {
+  added: 'A',
+  removed: 'D',
+  modified: 'M',
+  renamed: 'R',
+};
+
+const hunkHeader = (hunk: DiffHunk) =>
+  `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+export const GitPanel: React.FC<GitPanelProps> = ({
+  projectId,
+  isOpen,
+  onClose,
+  onOpenFile,
+  onBranchChanged,
+}) => {
+  const [tab, setTab] = useState<'changes' | 'history'>('changes');
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [commitMessage, setCommitMessage] = useState('');
+  const [selection, setSelection] = useState<Selection>(null);
+  const [diff, setDiff] = useState<GitFileDiff | null>(null);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [selectedCommit, setSelectedCommit] = useState<string | null>(null);
+  const [commitFiles, setCommitFiles] = useState<GitFileDiff[]>([]);
+  const [selectedCommitFile, setSelectedCommitFile] = useState<string | null>(null);
+  const [newBranchName, setNewBranchName] = useState<string | null>(null); // null = input hidden
+  const refreshTimer = useRef<NodeJS.Timeout | null>(null);
+
+  // Refresh whenever the panel is opened
+  useEffect(() => {
+    if (isOpen && projectId) {
+      refresh();
+    }
+  }, [isOpen, projectId]);
+
+  useEffect(() => {
+    setSelection(null);
+    setDiff(null);
+    setSelectedCommit(null);
+    setCommitFiles([]);
+  }, [projectId]);
+
+  // Keep the status current while the panel is open and files change on disk
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+
+    const handleFileChanged = () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(() => loadStatus(), 500);
+    };
+
+    window.electronAPI.onFileChanged(handleFileChanged);
+    return () => {
+      window.electronAPI.removeFileChangedListener(handleFileChanged);
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    };
+  }, [isOpen, projectId]);
+
+  // Handle escape key to close panel
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && isOpen) {
+        event.preventDefault();
+        event.stopPropagation();
+        event.stopImmediatePropagation();
+        onClose();
+        return false;
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown, { capture: true });
+    }
+
+    return () => document.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [isOpen, onClose]);
+
+  // Reload the diff when the selected file changes or the status moves it
+  useEffect(() => {
+    if (!projectId || !selection) {
+      setDiff(null);
+      return;
+    }
+
+    window.electronAPI.gitDiff({ projectId, relPath: selection.path, staged: selection.staged })
+      .then(setDiff)
+      .catch(err => {
+        console.error('Failed to load diff:', err);
+        setDiff(null);
+      });
+  }, [projectId, selection, status]);
+
+  const loadStatus = async (): Promise<GitStatus | null> => {
+    if (!projectId) return null;
+
+    try {
+      const result: GitStatus = await window.electronAPI.gitStatus({ projectId });
+      setStatus(result);
+      setError(null);
+
+      // Drop the selection once its file has moved to the other list or is gone
+      setSelection(current => current && result.files.some(f =>
+        f.path === current.path && (current.staged ? f.staged : f.unstaged)
+      ) ? current : null);
+      return result;
+    } catch (err) {
+      console.error('Failed to load git status:', err);
+      setError((err as Error).message);
+      return null;
+    }
+  };
+
+  const refresh = async () => {
+    if (!projectId) return;
+
+    setLoading(true);
+    try {
+      const result = await loadStatus();
+      if (result?.isRepo) {
+        const [branchList, log] = await Promise.all([
+          window.electronAPI.gitBranches({ projectId }),
+          window.electronAPI.gitLog({ projectId, limit: 100 }),
+        ]);
+        setBranches(branchList.branches);
+        setCommits(log);
+      }
+    } catch (err) {
+      console.error('Failed to refresh git panel:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a git action, then refresh; errors from git are shown in the panel
+  const runAction = async (action: () => Promise<unknown>, refreshAll = false) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      if (refreshAll) {
+        await refresh();
+      } else {
+        await loadStatus();
+      }
+      return true;
+    } catch (err) {
+      console.error('Git action failed:', err);
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stage = (paths: string[]) => projectId && paths.length > 0 &&
+    runAction(() => window.electronAPI.gitStage({ projectId, paths }));
+
+  const unstage = (paths: string[]) => projectId && paths.length > 0 &&
+    runAction(() => window.electronAPI.gitUnstage({ projectId, paths }));
+
+  const commit = async () => {
+    if (!projectId || !commitMessage.trim()) return;
+
+    const ok = await runAction(() => window.electronAPI.gitCommit({ projectId, message: commitMessage }), true);
+    if (ok) {
+      setCommitMessage('');
+      setSelection(null);
+    }
+  };
+
+  const checkout = async (branch: string, create = false) => {
+    if (!projectId || !branch.trim()) return;
+
+    const ok = await runAction(() => window.electronAPI.gitCheckout({ projectId, branch, create }), true);
+    if (ok) {
+      setNewBranchName(null);
+      setSelection(null);
+      onBranchChanged?.();
+    }
+  };
+
+  const selectCommit = async (hash: string) => {
+    if (!projectId) return;
+
+    setSelectedCommit(hash);
+    setCommitFiles([]);
+    setSelectedCommitFile(null);
+    try {
+      const files: GitFileDiff[] = await window.electronAPI.gitShowCommit({ projectId, hash });
+      setCommitFiles(files);
+      setSelectedCommitFile(files.length > 0 ? files[0].path : null);
+    } catch (err) {
+      console.error('Failed to load commit:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  const formatRelativeTime = (timestamp: number) => {
+    const diff = Date.now() - timestamp;
+    const minutes = Math.floor(diff / 60000);
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+
+    if (days > 0) return `${days} day${days > 1 ? 's' : ''} ago`;
+    if (hours > 0) return `${hours} hour${hours > 1 ? 's' : ''} ago`;
+    if (minutes > 0) return `${minutes} minute${minutes > 1 ? 's' : ''} ago`;
+    return 'Just now';
+  };
+
+  const renderDiff = (file: GitFileDiff | null) => {
+    if (!file) {
+      return <div className="p-4 text-center text-xs text-gray-500">No changes to show</div>;
+    }
+    if (file.binary) {
+      return <div className="p-4 text-center text-xs text-gray-500">Binary file {file.status}</div>;
+    }
+    if (file.hunks.length === 0) {
+      return <div className="p-4 text-center text-xs text-gray-500">
+        {file.status === 'renamed' ? `Renamed from ${file.oldPath}` : 'No textual changes'}
+      </div>;
+    }
+
+    return (
+      <table className="w-full text-xs font-mono border-collapse">
+        <tbody>
+          {file.hunks.map((hunk, hunkIndex) => (
+            <React.Fragment key={hunkIndex}>
+              <tr className="bg-blue-50 text-blue-700">
+                <td colSpan={3} className="px-2 py-1">{hunkHeader(hunk)}</td>
+              </tr>
+              {hunk.lines.map((line, lineIndex) => (
+                <tr
+                  key={lineIndex}
+                  className={line.type === 'add' ? 'bg-green-50' : line.type === 'remove' ? 'bg-red-50' : ''}
+                >
+                  <td className="w-10 px-1 text-right text-gray-400 select-none">{line.oldLine ?? ''}</td>
+                  <td className="w-10 px-1 text-right text-gray-400 select-none">{line.newLine ?? ''}</td>
+                  <td className="px-2 whitespace-pre">
+                    <span className="select-none text-gray-400">
+                      {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}
+                    </span>
+                    {line.text}
+                  </td>
+                </tr>
+              ))}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  const renderFileRow = (file: GitFileStatus, staged: boolean) => {
+    const code = file.conflicted ? 'U' : staged ? file.index : file.workingTree;
+    const style = STATUS_LABELS[code] || STATUS_LABELS.M;
+    const isSelected = selection?.path === file.path && selection.staged === staged;
+
+    return (
+      <div
+        key={`${staged ? 'staged' : 'unstaged'}:${file.path}`}
+        onClick={() => setSelection({ path: file.path, staged })}
+        className={`group flex items-center px-4 py-1 text-xs cursor-pointer ${
+          isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+        }`}
+        title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+      >
+        <span className={`flex-shrink-0 w-5 text-center rounded font-medium mr-2 ${style.className}`}>
+          {style.label}
+        </span>
+        <span className="truncate text-gray-800 flex-1">{file.path}</span>
+        {onOpenFile && code !== 'D' && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onOpenFile(file.path); }}
+            className="ml-2 px-1 text-gray-500 hover:text-gray-800 opacity-0 group-hover:opacity-100"
+            title="Open file"
+          >
+            Open
+          </button>
+        )}
+        <button
+          onClick={(e) => { e.stopPropagation(); staged ? unstage([file.path]) : stage([file.path]); }}
+          disabled={busy}
+          className="ml-1 w-5 h-5 flex items-center justify-center rounded text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+          title={staged ? 'Unstage' : 'Stage'}
+        >
+          {staged ? '−' : '+'}
+        </button>
+      </div>
+    );
+  };
+
+  const stagedFiles = status?.files.filter(f => f.staged) || [];
+  const unstagedFiles = status?.files.filter(f => f.unstaged) || [];
+  const commitFile = commitFiles.find(f => f.path === selectedCommitFile) || null;
+
+  const renderBody = () => {
+    if (!projectId) {
+      return <div className="p-4 text-center text-gray-500"><p>No project selected</p></div>;
+    }
+    if (loading && !status) {
+      return (
+        <div className="p-8 text-center">
+          <div className="animate-spin mx-auto h-8 w-8 border-4 border-blue-600 border-t-transparent rounded-full"></div>
+          <p className="mt-2 text-sm text-gray-500">Loading repository...</p>
+        </div>
+      );
+    }
+    if (status && !status.available) {
+      return (
+        <div className="p-8 text-center text-gray-500">
+          <p className="text-sm font-medium">Git is not installed</p>
+          <p className="text-xs text-gray-400 mt-1">Install git and make sure it is on your PATH</p>
+        </div>
+      );
+    }
+    if (status && !status.isRepo) {
+      return (
+        <div className="p-8 text-center text-gray-500">
+          <p className="text-sm font-medium">Not a git repository</p>
+          <p className="text-xs text-gray-400 mt-1">Run "git init" in the project folder to start tracking changes</p>
+        </div>
+      );
+    }
+
+    if (tab === 'history') {
+      return (
+        <div className="flex-1 flex flex-col min-h-0">
+          <div className="h-1/2 overflow-y-auto divide-y divide-gray-100 border-b border-gray-200">
+            {commits.length === 0 ? (
+              <div className="p-8 text-center text-sm text-gray-500">No commits yet</div>
+            ) : commits.map(c => (
+              <button
+                key={c.hash}
+                onClick={() => selectCommit(c.hash)}
+                className={`w-full text-left px-4 py-2 text-xs ${selectedCommit === c.hash ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="flex items-center">
+                  <span className="font-mono text-gray-500 mr-2">{c.shortHash}</span>
+                  <span className="truncate text-gray-900 font-medium">{c.subject}</span>
+                </div>
+                <div className="mt-0.5 text-gray-500 truncate" title={new Date(c.timestamp).toLocaleString()}>
+                  {c.author} · {formatRelativeTime(c.timestamp)}
+                  {c.refs.map(ref => (
+                    <span key={ref} className="ml-1 px-1 rounded bg-gray-100 text-gray-600">{ref.replace('HEAD -> ', '')}</span>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 flex flex-col min-h-0">
+            {selectedCommit && (
+              <select
+                value={selectedCommitFile || ''}
+                onChange={(e) => setSelectedCommitFile(e.target.value)}
+                className="m-2 px-2 py-1 text-xs border border-gray-300 rounded"
+              >
+                {commitFiles.map(f => (
+                  <option key={f.path} value={f.path}>{DIFF_STATUS_LABELS[f.status]} {f.path}</option>
+                ))}
+              </select>
+            )}
+            <div className="flex-1 overflow-auto">
+              {selectedCommit ? renderDiff(commitFile) : (
+                <div className="p-4 text-center text-xs text-gray-500">Select a commit to see its changes</div>
+              )}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 flex flex-col min-h-0">
+        {/* Commit */}
+        <div className="border-b border-gray-200 p-4 space-y-2">
+          <textarea
+            value={commitMessage}
+            onChange={(e) => setCommitMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                commit();
+              }
+            }}
+            placeholder="Commit message (Ctrl/Cmd+Enter to commit)"
+            rows={2}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={busy}
+          />
+          <button
+            onClick={commit}
+            disabled={busy || !commitMessage.trim() || stagedFiles.length === 0}
+            className="w-full px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={stagedFiles.length === 0 ? 'Stage changes to commit them' : undefined}
+          >
+            Commit {stagedFiles.length > 0 ? `${stagedFiles.length} file${stagedFiles.length !== 1 ? 's' : ''}` : ''}
+          </button>
+        </div>
+
+        {/* File lists */}
+        <div className="max-h-[45%] overflow-y-auto border-b border-gray-200">
+          <div className="flex items-center justify-between px-4 py-2 text-xs font-medium text-gray-700 bg-gray-50">
+            <span>Staged Changes ({stagedFiles.length})</span>
+            {stagedFiles.length > 0 && (
+              <button onClick={() => unstage(stagedFiles.map(f => f.path))} disabled={busy} className="text-blue-600 hover:text-blue-700">
+                Unstage all
+              </button>
+            )}
+          </div>
+          {stagedFiles.map(f => renderFileRow(f, true))}
+
+          <div className="flex items-center justify-between px-4 py-2 text-xs font-medium text-gray-700 bg-gray-50">
+            <span>Changes ({unstagedFiles.length})</span>
+            {unstagedFiles.length > 0 && (
+              <button onClick={() => stage(unstagedFiles.map(f => f.path))} disabled={busy} className="text-blue-600 hover:text-blue-700">
+                Stage all
+              </button>
+            )}
+          </div>
+          {unstagedFiles.map(f => renderFileRow(f, false))}
+          {status && status.files.length === 0 && (
+            <p className="px-4 py-3 text-xs text-gray-400">Working tree clean</p>
+          )}
+        </div>
+
+        {/* Diff of the selected file */}
+        <div className="flex-1 overflow-auto">
+          {selection ? renderDiff(diff) : (
+            <div className="p-4 text-center text-xs text-gray-500">Select a file to see its changes</div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className={`git-panel-overlay ${isOpen ? 'open' : ''}`}
+        onClick={onClose}
+      />
+      {/* Panel Container */}
+      <div className={`git-panel-container ${isOpen ? 'open' : ''}`}>
+        <div className="h-full flex flex-col bg-white">
+          {/* Header */}
+          <div className="border-b border-gray-200 px-4 py-3 bg-gray-50">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900 flex items-center">
+                <svg className="w-4 h-4 mr-2 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <circle cx="6" cy="6" r="2" strokeWidth={2} />
+                  <circle cx="6" cy="18" r="2" strokeWidth={2} />
+                  <circle cx="18" cy="8" r="2" strokeWidth={2} />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 8v8m12-6c0 4-6 3-11 7" />
+                </svg>
+                Source Control
+              </h3>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={refresh}
+                  disabled={loading || busy}
+                  className="p-1 rounded hover:bg-gray-200 text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
+                  title="Refresh"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                </button>
+                <button
+                  onClick={onClose}
+                  className="p-1 rounded hover:bg-gray-200 text-gray-500 hover:text-gray-700 transition-colors"
+                  title="Close git panel"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            {status?.isRepo && (
+              <div className="mt-2 flex items-center space-x-2 text-xs">
+                {newBranchName === null ? (
+                  <>
+                    <select
+                      value={status.branch || ''}
+                      onChange={(e) => checkout(e.target.value)}
+                      disabled={busy}
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded bg-white"
+                      title="Switch branch"
+                    >
+                      {!status.branch && <option value="">(detached HEAD)</option>}
+                      {branches.map(b => <option key={b} value={b}>{b}</option>)}
+                    </select>
+                    <button
+                      onClick={() => setNewBranchName('')}
+                      disabled={busy}
+                      className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                      title="Create a branch from the current commit and switch to it"
+                    >
+                      New branch
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <input
+                      autoFocus
+                      value={newBranchName}
+                      onChange={(e) => setNewBranchName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') checkout(newBranchName, true);
+                        if (e.key === 'Escape') {
+                          e.stopPropagation();
+                          setNewBranchName(null);
+                        }
+                      }}
+                      placeholder="Branch name"
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <button
+                      onClick={() => checkout(newBranchName, true)}
+                      disabled={busy || !newBranchName.trim()}
+                      className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Create
+                    </button>
+                    <button
+                      onClick={() => setNewBranchName(null)}
+                      className="px-2 py-1 rounded text-gray-600 hover:bg-gray-200"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                )}
+                {(status.ahead > 0 || status.behind > 0) && (
+                  <span className="text-gray-500 whitespace-nowrap" title={status.upstream}>
+                    ↑{status.ahead} ↓{status.behind}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {status?.isRepo && (
+              <div className="mt-2 flex space-x-4 text-xs">
+                {(['changes', 'history'] as const).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`pb-1 border-b-2 ${tab === t ? 'border-blue-600 text-blue-700 font-medium' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {t === 'changes' ? `Changes${status.files.length > 0 ? ` (${status.files.length})` : ''}` : 'History'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="px-4 py-2 text-xs text-red-700 bg-red-50 border-b border-red-200 whitespace-pre-wrap">
+              {error}
+            </div>
+          )}
+
+          {renderBody()}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { SnapshotDiffViewer } from './SnapshotDiffViewer';
 
 export interface SnapshotItem {
   id: string;
@@ -11,6 +12,20 @@ export interface SnapshotItem {
   formattedSize?: string;
 }
 
+export interface SnapshotRetentionPolicy {
+  enabled: boolean;
+  keepAllHours: number;
+  keepHourlyDays: number;
+  keepDailyDays: number;
+}
+
+interface SnapshotPruneResult {
+  projectId: string;
+  removed: number;
+  kept: number;
+  freedBytes: number;
+}
+
 interface HistoryPanelProps {
   projectId: string | null;
   onClose: () => void;
@@ -30,6 +45,8 @@ interface HistoryPanelProps {
     periodic: boolean;
     periodicIntervalMinutes: number;
   }) => void;
+  onOpenSnapshotFile?: (snapshot: SnapshotItem, filePath: string) => void;
+  onSnapshotFileRestored?: (filePath: string) => void;
 }
 
 export const HistoryPanel: React.FC<HistoryPanelProps> = ({
@@ -41,12 +58,18 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
   onRestoreEnd,
   autoSnapshotSettings,
   onAutoSnapshotSettingsChange,
+  onOpenSnapshotFile,
+  onSnapshotFileRestored,
 }) => {
   const [snapshots, setSnapshots] = useState<SnapshotItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [creating, setCreating] = useState(false);
   const [restoring, setRestoring] = useState<string | null>(null);
   const [newSnapshotMessage, setNewSnapshotMessage] = useState('');
+  const [diffSnapshot, setDiffSnapshot] = useState<SnapshotItem | null>(null);
+  const [retentionPolicy, setRetentionPolicy] = useState<SnapshotRetentionPolicy | null>(null);
+  const [pruning, setPruning] = useState(false);
+  const [lastPrune, setLastPrune] = useState<SnapshotPruneResult | null>(null);
 
   // Load snapshots when component mounts or projectId changes
   useEffect(() => {
@@ -55,6 +78,25 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
     }
   }, [projectId]);
 
+  useEffect(() => {
+    window.electronAPI.snapshotGetRetentionPolicy()
+      .then(setRetentionPolicy)
+      .catch(error => console.error('Failed to load retention policy:', error));
+  }, []);
+
+  // Automatic pruning runs in the main process after each new snapshot
+  useEffect(() => {
+    const handlePruned = (_event: any, result: SnapshotPruneResult) => {
+      if (result.projectId !== projectId) return;
+      setLastPrune(result);
+      loadSnapshots();
+    };
+
+    setLastPrune(null);
+    window.electronAPI.onSnapshotPruned(handlePruned);
+    return () => window.electronAPI.removeSnapshotPrunedListener(handlePruned);
+  }, [projectId]);
+
   // Handle escape key to close panel
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -151,6 +193,53 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
     }
   };
 
+  // Restore one file from a snapshot without touching the rest of the project
+  const restoreSnapshotFile = async (snapshot: SnapshotItem, filePath: string) => {
+    if (!window.confirm(`Restore "${filePath}" from this snapshot?\n\nOnly this file will be overwritten (a backup will be created automatically).`)) {
+      return;
+    }
+
+    try {
+      await window.electronAPI.snapshotRestoreFile({ snapshotId: snapshot.id, relPath: filePath });
+      onSnapshotFileRestored?.(filePath);
+      await loadSnapshots(); // Show the auto-backup
+    } catch (error) {
+      console.error('Failed to restore file:', error);
+      alert('Failed to restore file: ' + (error as Error).message);
+    }
+  };
+
+  const updateRetentionPolicy = async (policy: SnapshotRetentionPolicy) => {
+    setRetentionPolicy(policy);
+    try {
+      await window.electronAPI.snapshotSetRetentionPolicy({ policy });
+    } catch (error) {
+      console.error('Failed to save retention policy:', error);
+    }
+  };
+
+  const pruneSnapshots = async () => {
+    if (!projectId) return;
+
+    setPruning(true);
+    try {
+      const result = await window.electronAPI.snapshotPrune({ projectId });
+      setLastPrune(result);
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Failed to prune snapshots:', error);
+      alert('Failed to prune snapshots: ' + (error as Error).message);
+    } finally {
+      setPruning(false);
+    }
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
   const formatRelativeTime = (timestamp: number) => {
     const now = Date.now();
     const diff = now - timestamp;
@@ -327,6 +416,65 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
         </div>
       )}
 
+      {/* Retention Settings */}
+      {retentionPolicy && (
+        <div className="border-b border-gray-200 p-4 bg-gray-50">
+          <div className="space-y-2">
+            <label className="flex items-center text-xs">
+              <input
+                type="checkbox"
+                checked={retentionPolicy.enabled}
+                onChange={(e) => updateRetentionPolicy({ ...retentionPolicy, enabled: e.target.checked })}
+                className="mr-2 h-3 w-3 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="font-medium text-gray-700">Prune old automatic snapshots</span>
+            </label>
+
+            {retentionPolicy.enabled && (
+              <div className="ml-5 space-y-1 text-xs text-gray-500">
+                <div className="flex items-center space-x-2">
+                  <span>Keep all from the last</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={retentionPolicy.keepAllHours}
+                    onChange={(e) => updateRetentionPolicy({ ...retentionPolicy, keepAllHours: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-12 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <span>hours</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span>Hourly for</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={retentionPolicy.keepHourlyDays}
+                    onChange={(e) => updateRetentionPolicy({ ...retentionPolicy, keepHourlyDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-12 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <span>days, daily for</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={retentionPolicy.keepDailyDays}
+                    onChange={(e) => updateRetentionPolicy({ ...retentionPolicy, keepDailyDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-12 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <span>days</span>
+                </div>
+                <button
+                  onClick={pruneSnapshots}
+                  disabled={pruning || restoring !== null}
+                  className="mt-1 text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pruning ? 'Pruning...' : 'Prune now'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Snapshots List */}
       <div className="flex-1 overflow-y-auto">
         {loading ? (
@@ -385,10 +533,21 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
                       {snapshot.formattedDate || new Date(snapshot.timestamp).toLocaleString()}
                     </p>
                   </div>
+                  <button
+                    onClick={() => setDiffSnapshot(snapshot)}
+                    disabled={restoring !== null}
+                    className="ml-3 px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    title="Show what changed since this snapshot"
+                  >
+                    <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                    </svg>
+                    Changes
+                  </button>
                   <button
                     onClick={() => restoreSnapshot(snapshot.id, snapshot.message)}
                     disabled={restoring !== null}
-                    className="ml-3 px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    className="ml-2 px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
                   >
                     {restoring === snapshot.id ? (
                       <>
@@ -415,7 +574,16 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
       {/* Footer */}
       <div className="border-t border-gray-200 px-4 py-2 bg-gray-50">
         <div className="flex items-center justify-between text-xs text-gray-500">
-          <span>{snapshots.length} snapshot{snapshots.length !== 1 ? 's' : ''}</span>
+          <span>
+            {snapshots.length} snapshot{snapshots.length !== 1 ? 's' : ''}
+            {lastPrune && (
+              <span className="ml-2 text-green-700" title={`${lastPrune.kept} snapshots kept by the retention policy`}>
+                {lastPrune.removed > 0
+                  ? `Pruned ${lastPrune.removed}, freed ${formatBytes(lastPrune.freedBytes)}`
+                  : 'Nothing to prune'}
+              </span>
+            )}
+          </span>
           <button
             onClick={loadSnapshots}
             className="text-blue-600 hover:text-blue-700 flex items-center"
@@ -429,6 +597,20 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({
       </div>
         </div>
       </div>
+
+      {/* Snapshot diff */}
+      {diffSnapshot && (
+        <SnapshotDiffViewer
+          fromSnapshot={diffSnapshot}
+          snapshots={snapshots}
+          onClose={() => setDiffSnapshot(null)}
+          onOpenFile={onOpenSnapshotFile ? (filePath) => {
+            onOpenSnapshotFile(diffSnapshot, filePath);
+            setDiffSnapshot(null);
+          } : undefined}
+          onRestoreFile={(filePath) => restoreSnapshotFile(diffSnapshot, filePath)}
+        />
+      )}
     </>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 
 interface LogPanelProps {
   logs: string[];
@@ -7,8 +7,73 @@ interface LogPanelProps {
   isOpen: boolean;
 }
 
+// Recipe steps are framed by "▶ Step 1/3: ..." and "✓ Step 1/3 finished" or "✗ Step 1/3 failed ..." lines
+const STEP_START = /^▶ Step (\d+\/\d+): (.*)$/;
+const STEP_END = /^([✓✗]) Step (\d+\/\d+) /;
+
+interface LogStep {
+  label: string;
+  command: string;
+  start: number;
+  lines: string[];
+  status: 'running' | 'finished' | 'failed';
+}
+
+type LogBlock = { line: string; index: number } | LogStep;
+
+const groupSteps = (logs: string[]): LogBlock[] => {
+  const blocks: LogBlock[] = [];
+  let current: LogStep | null = null;
+
+  logs.forEach((line, index) => {
+    const start = STEP_START.exec(line);
+    if (start) {
+      current = { label: start[1], command: start[2], start: index, lines: [], status: 'running' };
+      blocks.push(current);
+      return;
+    }
+
+    const end = STEP_END.exec(line);
+    if (current && end && end[2] === current.label) {
+      current.status = end[1] === '✓' ? 'finished' : 'failed';
+      current.lines.push(line);
+      current = null;
+      return;
+    }
+
+    if (current) {
+      current.lines.push(line);
+    } else {
+      blocks.push({ line, index });
+    }
+  });
+
+  return blocks;
+};
+
 export const LogPanel: React.FC<LogPanelProps> = ({ logs, isCompiling, onClose, isOpen }) => {
   const logContainerRef = useRef<HTMLDivElement>(null);
+  const [collapsedSteps, setCollapsedSteps] = useState<Set<number>>(new Set());
+  const blocks = useMemo(() => groupSteps(logs), [logs]);
+
+  // A new compile starts with an empty log
+  useEffect(() => {
+    if (logs.length === 0) {
+      setCollapsedSteps(new Set());
+    }
+  }, [logs.length]);
+
+  const toggleStep = (start: number) => {
+    setCollapsedSteps(prev => {
+      const next = new Set(prev);
+      if (next.has(start)) {
+        next.delete(start);
+      } else {
+        next.add(start);
+      }
+      return next;
+    });
+  };
 
   // Auto-scroll to bottom when new logs arrive
   useEffect(() => {
@@ -58,6 +123,38 @@ export const LogPanel: React.FC<LogPanelProps> = ({ logs, isCompiling, onClose,
     );
   };
 
+  const formatStep = (step: LogStep) => {
+    const collapsed = collapsedSteps.has(step.start);
+    const statusClass = step.status === 'failed' ? 'text-red-400'
+      : step.status === 'finished' ? 'text-green-400'
+      : 'text-blue-400';
+
+    return (
+      <div key={step.start} className="border border-gray-700 rounded">
+        <button
+          onClick={() => toggleStep(step.start)}
+          className="w-full flex items-center space-x-2 px-2 py-1 bg-gray-800 hover:bg-gray-700 text-left text-xs"
+          title={collapsed ? 'Show output' : 'Hide output'}
+        >
+          <svg
+            className={`w-3 h-3 text-gray-400 transition-transform ${collapsed ? '' : 'rotate-90'}`}
+            fill="none" stroke="currentColor" viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <span className={statusClass}>Step {step.label}</span>
+          <span className="flex-1 truncate text-gray-300">{step.command}</span>
+          <span className="text-gray-500">{step.lines.length} line{step.lines.length !== 1 ? 's' : ''}</span>
+        </button>
+        {!collapsed && step.lines.length > 0 && (
+          <div className="px-2 py-1 space-y-1">
+            {step.lines.map((line, offset) => formatLogLine(line, step.start + 1 + offset))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <>
       {/* Overlay */}
@@ -124,7 +221,7 @@ export const LogPanel: React.FC<LogPanelProps> = ({ logs, isCompiling, onClose,
               </div>
             ) : (
               <div className="space-y-1">
-                {logs.map((line, index) => formatLogLine(line, index))}
+                {blocks.map(block => ('label' in block ? formatStep(block) : formatLogLine(block.line, block.index)))}
                 {isCompiling && (
                   <div className="text-blue-400 text-xs animate-pulse">
                     ▶ Compilation in progress...
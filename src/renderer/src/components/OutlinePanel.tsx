@@ -0,0 +1,220 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { OutlineEntry } from '../extensions/projectCompletions';
+
+interface OutlineNode {
+  entry: OutlineEntry;
+  index: number; // Position in document order
+  children: OutlineNode[];
+}
+
+interface OutlinePanelProps {
+  entries: OutlineEntry[];
+  cursor: { file: string; line: number } | null;
+  onNavigate: (file: string, line: number) => void;
+  // Move a section, with its body and subsections, next to another one
+  onMoveSection?: (source: OutlineEntry, target: OutlineEntry, position: 'before' | 'after') => void;
+}
+
+// Nest each entry under the closest preceding section of a higher level
+const buildTree = (entries: OutlineEntry[]): OutlineNode[] => {
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+
+  entries.forEach((entry, index) => {
+    const node: OutlineNode = { entry, index, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].entry.level >= entry.level) {
+      stack.pop();
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    if (entry.kind === 'section') {
+      stack.push(node);
+    }
+  });
+
+  return roots;
+};
+
+// Index of the section containing the cursor, or -1
+const findCurrentSection = (entries: OutlineEntry[], cursor: { file: string; line: number } | null): number => {
+  if (!cursor) return -1;
+
+  let current = -1;
+  let firstInFile = -1;
+  entries.forEach((entry, index) => {
+    if (entry.file !== cursor.file) return;
+    if (firstInFile === -1) firstInFile = index;
+    if (entry.kind === 'section' && entry.line <= cursor.line) current = index;
+  });
+  if (current !== -1 || firstInFile === -1) return current;
+
+  // Above the file's first heading: still inside the section that includes the file
+  for (let index = firstInFile - 1; index >= 0; index--) {
+    if (entries[index].kind === 'section') return index;
+  }
+  return -1;
+};
+
+// Outline index just past the last descendant of the section at index
+const subtreeEnd = (entries: OutlineEntry[], index: number): number => {
+  for (let i = index + 1; i < entries.length; i++) {
+    if (entries[i].kind === 'section' && entries[i].level <= entries[index].level) return i;
+  }
+  return entries.length;
+};
+
+const nodeKey = (entry: OutlineEntry) => `${entry.file}:${entry.command}:${entry.title}`;
+
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({ entries, cursor, onNavigate, onMoveSection }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set());
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ index: number; position: 'before' | 'after' } | null>(null);
+  const activeItemRef = useRef<HTMLDivElement>(null);
+
+  const tree = useMemo(() => buildTree(entries), [entries]);
+  const currentIndex = useMemo(() => findCurrentSection(entries, cursor), [entries, cursor]);
+
+  // Sections that contain the current one stay expanded
+  const currentAncestors = useMemo(() => {
+    const ancestors = new Set<number>();
+    const visit = (nodes: OutlineNode[], path: number[]): boolean => {
+      for (const node of nodes) {
+        if (node.index === currentIndex || visit(node.children, [...path, node.index])) {
+          path.forEach(index => ancestors.add(index));
+          return true;
+        }
+      }
+      return false;
+    };
+    visit(tree, []);
+    return ancestors;
+  }, [tree, currentIndex]);
+
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex]);
+
+  const toggleNode = (key: string) => {
+    setCollapsedNodes(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const canDropOn = (index: number): boolean => {
+    if (draggedIndex === null || entries[index]?.kind !== 'section') return false;
+    // A section can't be dropped inside itself
+    return index < draggedIndex || index >= subtreeEnd(entries, draggedIndex);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!canDropOn(index)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.index !== index || dropTarget.position !== position) {
+      setDropTarget({ index, position });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (draggedIndex !== null && dropTarget?.index === index && canDropOn(index)) {
+      onMoveSection?.(entries[draggedIndex], entries[index], dropTarget.position);
+    }
+    setDraggedIndex(null);
+    setDropTarget(null);
+  };
+
+  const renderNode = (node: OutlineNode, depth: number): React.ReactNode => {
+    const { entry } = node;
+    const key = nodeKey(entry);
+    const hasChildren = node.children.length > 0;
+    const isExpanded = !collapsedNodes.has(key) || currentAncestors.has(node.index);
+    const isCurrent = node.index === currentIndex;
+    const isDraggable = !!onMoveSection && entry.kind === 'section';
+    const dropPosition = dropTarget?.index === node.index ? dropTarget.position : null;
+
+    return (
+      <div key={`${node.index}-${key}`}>
+        <div
+          ref={isCurrent ? activeItemRef : undefined}
+          className={`flex items-center space-x-1 py-1 pr-2 cursor-pointer ${
+            isCurrent ? 'bg-blue-100 text-blue-800' : 'hover:bg-gray-100 text-gray-800'
+          } ${draggedIndex === node.index ? 'opacity-50' : ''} ${
+            dropPosition === 'before' ? 'border-t-2 border-t-blue-500' : dropPosition === 'after' ? 'border-b-2 border-b-blue-500' : ''
+          }`}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          onClick={() => onNavigate(entry.file, entry.line)}
+          draggable={isDraggable}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', entry.title);
+            setDraggedIndex(node.index);
+          }}
+          onDragOver={(e) => handleDragOver(e, node.index)}
+          onDragLeave={() => {
+            if (dropTarget?.index === node.index) setDropTarget(null);
+          }}
+          onDrop={(e) => handleDrop(e, node.index)}
+          onDragEnd={() => {
+            setDraggedIndex(null);
+            setDropTarget(null);
+          }}
+          title={`${entry.file}:${entry.line}`}
+        >
+          <span
+            className="text-gray-500 text-xs w-4 flex justify-center flex-shrink-0"
+            onClick={(e) => {
+              if (!hasChildren) return;
+              e.stopPropagation();
+              toggleNode(key);
+            }}
+          >
+            {hasChildren ? (isExpanded ? '▼' : '▶') : ''}
+          </span>
+          {entry.kind !== 'section' && (
+            <span className="text-xs text-gray-500 flex-shrink-0">
+              {entry.kind === 'figure' ? 'Fig.' : 'Tab.'}
+            </span>
+          )}
+          <span className={`text-sm truncate flex-1 min-w-0 ${entry.kind === 'section' ? '' : 'text-gray-600'}`}>
+            {entry.title || <span className="italic text-gray-400">untitled</span>}
+          </span>
+        </div>
+        {hasChildren && isExpanded && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="flex flex-col border-t border-gray-200 bg-gray-50 flex-shrink-0"
+      style={{ height: isCollapsed ? undefined : '40%' }}
+    >
+      <div
+        className="px-3 py-2 bg-white border-b border-gray-200 flex items-center justify-between cursor-pointer"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <h3 className="text-sm font-medium text-gray-900">Outline</h3>
+        <span className="text-gray-500 text-xs">{isCollapsed ? '▶' : '▼'}</span>
+      </div>
+
+      {!isCollapsed && (
+        <div className="flex-1 overflow-y-auto py-1">
+          {tree.length === 0 ? (
+            <div className="p-4 text-center text-gray-500 text-sm">
+              No sections or captions found
+            </div>
+          ) : (
+            tree.map(node => renderNode(node, 0))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
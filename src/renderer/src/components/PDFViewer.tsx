@@ -8,6 +8,22 @@ interface PDFViewerProps {
   projectId: string | null;
   refreshTrigger?: number;
   compilationStatus?: 'idle' | 'compiling' | 'success' | 'error';
+  // SyncTeX: region to reveal (PDF points from the top-left of the page)
+  syncTarget?: PDFSyncTarget | null;
+  onInverseSearch?: (page: number, x: number, y: number) => void;
+  // PDFs in the output folder, one per build target, and the one shown
+  outputs?: string[];
+  output?: string;
+  onOutputChange?: (output: string) => void;
+}
+
+export interface PDFSyncTarget {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  requestId: number; // Changes on every request so repeated jumps re-trigger
 }
 
 interface PDFViewState {
@@ -20,7 +36,12 @@ interface PDFViewState {
 export const PDFViewer: React.FC<PDFViewerProps> = ({ 
   projectId, 
   refreshTrigger = 0, 
-  compilationStatus = 'idle' 
+  compilationStatus = 'idle',
+  syncTarget = null,
+  onInverseSearch,
+  outputs = [],
+  output = 'main.pdf',
+  onOutputChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -36,6 +57,11 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
   const [lastPdfModTime, setLastPdfModTime] = useState<number | null>(null);
   const [isIncrementalRefresh, setIsIncrementalRefresh] = useState(false);
 
+  // SyncTeX state
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [syncHighlight, setSyncHighlight] = useState<PDFSyncTarget | null>(null);
+
   // Milestone 13: Save current view state for incremental refresh
   const saveViewState = useCallback(() => {
     if (containerRef.current) {
@@ -85,7 +111,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
       
       const pdfUrl = await window.electronAPI.projectOutputPath({
         projectId,
-        file: 'main.pdf'
+        file: output
       });
 
       console.log('Loading PDF from:', pdfUrl);
@@ -154,6 +180,10 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     try {
       const page = await pdfDoc.getPage(pageNum);
       
+      // Page size in PDF points, needed to map clicks back for SyncTeX
+      const unscaledViewport = page.getViewport({ scale: 1 });
+      setPageSize({ width: unscaledViewport.width, height: unscaledViewport.height });
+      
       // Get device pixel ratio for high-DPI displays (retina, etc.)
       const devicePixelRatio = window.devicePixelRatio || 1;
       
@@ -204,7 +234,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
 
   useEffect(() => {
     loadPDF();
-  }, [projectId]);
+  }, [projectId, output]);
 
   // Handle window resize to re-render at correct DPI
   useEffect(() => {
@@ -239,6 +269,25 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   }, [pdfDoc, currentPage, isIncrementalRefresh, restoreViewState]);
 
+  // SyncTeX forward search: switch to the target page and flash the matched region
+  useEffect(() => {
+    if (!syncTarget || !pdfDoc) return;
+
+    if (syncTarget.page >= 1 && syncTarget.page <= pdfDoc.numPages) {
+      setCurrentPage(syncTarget.page);
+      setSyncHighlight(syncTarget);
+    }
+
+    const timeout = setTimeout(() => setSyncHighlight(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [syncTarget, pdfDoc]);
+
+  useEffect(() => {
+    if (syncHighlight && highlightRef.current) {
+      highlightRef.current.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' });
+    }
+  }, [syncHighlight, currentPage]);
+
   // Auto-refresh every 5 seconds to pick up new PDFs (less frequent now since we have triggers)
   useEffect(() => {
     const interval = setInterval(() => {
@@ -248,7 +297,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     }, 10000); // Reduced to 10 seconds since we have direct triggers
 
     return () => clearInterval(interval);
-  }, [projectId, loading, error]);
+  }, [projectId, output, loading, error]);
 
   const goToPage = (pageNum: number) => {
     if (pageNum >= 1 && pageNum <= totalPages) {
@@ -304,12 +353,36 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   };
 
+  // SyncTeX inverse search: Cmd/Ctrl+click maps the click into PDF points
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!(event.metaKey || event.ctrlKey) || !onInverseSearch || !pageSize) return;
+
+    // The bounding rect already includes the CSS zoom transform
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * pageSize.width;
+    const y = ((event.clientY - rect.top) / rect.height) * pageSize.height;
+    onInverseSearch(currentPage, x, y);
+  };
+
   return (
     <div className="h-full flex flex-col bg-white border-l border-gray-200">
       {/* PDF Header */}
       <div className="flex-shrink-0 p-3 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center justify-between mb-2">
-          <h3 className="text-sm font-medium text-gray-900">PDF Preview</h3>
+          {outputs.length > 1 && onOutputChange ? (
+            <select
+              value={output}
+              onChange={(e) => onOutputChange(e.target.value)}
+              className="text-sm font-medium text-gray-900 bg-transparent border border-gray-300 rounded px-1 py-0.5"
+              title="Output to preview"
+            >
+              {outputs.map(file => (
+                <option key={file} value={file}>{file}</option>
+              ))}
+            </select>
+          ) : (
+            <h3 className="text-sm font-medium text-gray-900">PDF Preview</h3>
+          )}
           <div className="flex items-center space-x-2">
             {/* Compilation Status Indicator */}
             {compilationStatus === 'compiling' && (
@@ -431,15 +504,30 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
               margin: '0 auto'
             }}
           >
-            <div style={{ transform: `scale(${scale / 1.2})`, transformOrigin: 'center top' }}>
+            <div style={{ transform: `scale(${scale / 1.2})`, transformOrigin: 'center top', position: 'relative' }}>
               <canvas
                 ref={canvasRef}
                 className="shadow-lg border border-gray-300 bg-white"
+                onClick={handleCanvasClick}
+                title={onInverseSearch ? 'Cmd/Ctrl+click to jump to source' : undefined}
                 style={{ 
                   display: 'block',
                   imageRendering: 'crisp-edges' as any
                 }}
               />
+              {/* SyncTeX highlight, positioned at the base render scale of 1.2 */}
+              {syncHighlight && syncHighlight.page === currentPage && (
+                <div
+                  ref={highlightRef}
+                  className="absolute pointer-events-none rounded bg-yellow-300/40 border border-yellow-500"
+                  style={{
+                    left: `${syncHighlight.x * 1.2}px`,
+                    top: `${syncHighlight.y * 1.2}px`,
+                    width: `${Math.max(syncHighlight.width, 20) * 1.2}px`,
+                    height: `${Math.max(syncHighlight.height, 10) * 1.2}px`
+                  }}
+                />
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+
+export interface RecipeStep {
+  tool: string;
+  args?: string[];
+  repeat?: number;
+}
+
+export interface CompileRecipe {
+  name: string;
+  steps: RecipeStep[];
+}
+
+type BibTool = 'bibtex' | 'biber';
+type IndexTool = 'makeindex' | 'xindy';
+
+interface RecipeSettings {
+  recipes: CompileRecipe[];
+  recipe?: string;
+  useLatexmkrc: boolean;
+  bibTool: BibTool;
+  indexTool: IndexTool;
+  containerImage?: string;
+}
+
+interface RecipesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  recipes: CompileRecipe[];
+  activeRecipe?: string;
+  useLatexmkrc: boolean;
+  bibTool: BibTool;
+  indexTool: IndexTool;
+  containerImage?: string;
+  onSave: (settings: RecipeSettings) => Promise<void>;
+}
+
+// Arguments are edited as one line and split on whitespace when saved
+interface DraftStep {
+  tool: string;
+  args: string;
+  repeat: number;
+}
+
+interface DraftRecipe {
+  name: string;
+  steps: DraftStep[];
+}
+
+const TOOLS = [
+  'latexmk', 'pdflatex', 'xelatex', 'lualatex', 'latex', 'dvipdfmx', 'bibtex', 'biber', 'makeindex',
+  'xindy', 'makeglossaries', 'bib2gls',
+];
+
+const PRESETS: DraftRecipe[] = [
+  {
+    name: 'pdfLaTeX → BibTeX → pdfLaTeX ×2',
+    steps: [
+      { tool: 'pdflatex', args: '', repeat: 1 },
+      { tool: 'bibtex', args: '', repeat: 1 },
+      { tool: 'pdflatex', args: '', repeat: 2 },
+    ],
+  },
+  {
+    name: 'pdfLaTeX → Biber → pdfLaTeX ×2',
+    steps: [
+      { tool: 'pdflatex', args: '', repeat: 1 },
+      { tool: 'biber', args: '', repeat: 1 },
+      { tool: 'pdflatex', args: '', repeat: 2 },
+    ],
+  },
+  {
+    name: 'latexmk via DVI',
+    steps: [{ tool: 'latexmk', args: '-pdfdvi', repeat: 1 }],
+  },
+];
+
+const toDraft = (recipe: CompileRecipe): DraftRecipe => ({
+  name: recipe.name,
+  steps: recipe.steps.map(step => ({ tool: step.tool, args: (step.args || []).join(' '), repeat: step.repeat || 1 })),
+});
+
+const fromDraft = (recipe: DraftRecipe): CompileRecipe => ({
+  name: recipe.name.trim(),
+  steps: recipe.steps.map(step => {
+    const args = step.args.split(/\s+/).filter(Boolean);
+    return {
+      tool: step.tool,
+      ...(args.length > 0 ? { args } : {}),
+      ...(step.repeat > 1 ? { repeat: step.repeat } : {}),
+    };
+  }),
+});
+
+const RecipesModal: React.FC<RecipesModalProps> = ({
+  isOpen,
+  onClose,
+  recipes,
+  activeRecipe,
+  useLatexmkrc,
+  bibTool,
+  indexTool,
+  containerImage,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<DraftRecipe[]>([]);
+  const [selected, setSelected] = useState('');
+  const [latexmkrc, setLatexmkrc] = useState(false);
+  const [bibliography, setBibliography] = useState<BibTool>('bibtex');
+  const [index, setIndex] = useState<IndexTool>('makeindex');
+  const [image, setImage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(recipes.map(toDraft));
+      setSelected(activeRecipe || '');
+      setLatexmkrc(useLatexmkrc);
+      setBibliography(bibTool);
+      setIndex(indexTool);
+      setImage(containerImage || '');
+      setError(null);
+    }
+  }, [isOpen, recipes, activeRecipe, useLatexmkrc, bibTool, indexTool, containerImage]);
+
+  if (!isOpen) return null;
+
+  const updateRecipe = (index: number, changes: Partial<DraftRecipe>) => {
+    setDraft(prev => prev.map((recipe, i) => (i === index ? { ...recipe, ...changes } : recipe)));
+  };
+
+  const updateStep = (recipeIndex: number, stepIndex: number, changes: Partial<DraftStep>) => {
+    const recipe = draft[recipeIndex];
+    updateRecipe(recipeIndex, {
+      steps: recipe.steps.map((step, i) => (i === stepIndex ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const removeRecipe = (index: number) => {
+    if (draft[index].name === selected) setSelected('');
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        recipes: draft.map(fromDraft),
+        recipe: selected || undefined,
+        useLatexmkrc: latexmkrc,
+        bibTool: bibliography,
+        indexTool: index,
+        containerImage: image.trim() || undefined,
+      });
+      onClose();
+    } catch (err) {
+      // Electron prefixes errors thrown in IPC handlers with the channel name
+      setError((err instanceof Error ? err.message : String(err)).replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Compile Recipes</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Steps run in order in the main file's folder. <code className="text-xs">%DOC%</code> stands for the
+            main file name without <code className="text-xs">.tex</code>.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="flex items-center space-x-3">
+            <label htmlFor="active-recipe" className="text-sm font-medium text-gray-700">Compile with</label>
+            <select
+              id="active-recipe"
+              value={selected}
+              onChange={(e) => setSelected(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded bg-white"
+            >
+              <option value="">latexmk (default)</option>
+              {draft.filter(recipe => recipe.name.trim()).map(recipe => (
+                <option key={recipe.name} value={recipe.name.trim()}>{recipe.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {draft.map((recipe, recipeIndex) => (
+            <div key={recipeIndex} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center space-x-2 mb-2">
+                <input
+                  value={recipe.name}
+                  onChange={(e) => {
+                    if (recipe.name.trim() === selected) setSelected(e.target.value.trim());
+                    updateRecipe(recipeIndex, { name: e.target.value });
+                  }}
+                  placeholder="Recipe name"
+                  className="flex-1 px-2 py-1 text-sm font-medium border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => removeRecipe(recipeIndex)}
+                  className="px-2 py-1 text-xs text-gray-500 rounded hover:text-red-600 hover:bg-red-50"
+                >
+                  Remove
+                </button>
+              </div>
+
+              {recipe.steps.map((step, stepIndex) => (
+                <div key={stepIndex} className="flex items-center space-x-2 py-1">
+                  <span className="w-5 text-xs text-gray-400 text-right">{stepIndex + 1}.</span>
+                  <select
+                    value={step.tool}
+                    onChange={(e) => updateStep(recipeIndex, stepIndex, { tool: e.target.value })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded bg-white"
+                  >
+                    {TOOLS.map(tool => <option key={tool} value={tool}>{tool}</option>)}
+                  </select>
+                  <input
+                    value={step.args}
+                    onChange={(e) => updateStep(recipeIndex, stepIndex, { args: e.target.value })}
+                    placeholder="Extra arguments"
+                    className="flex-1 px-2 py-1 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <label className="flex items-center text-xs text-gray-500" title="Run this step several times in a row">
+                    ×
+                    <input
+                      type="number"
+                      min={1}
+                      max={5}
+                      value={step.repeat}
+                      onChange={(e) => updateStep(recipeIndex, stepIndex, { repeat: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="ml-1 w-12 px-1 py-1 border border-gray-300 rounded"
+                    />
+                  </label>
+                  <button
+                    onClick={() => updateRecipe(recipeIndex, { steps: recipe.steps.filter((_, i) => i !== stepIndex) })}
+                    className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    title="Remove step"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+
+              <button
+                onClick={() => updateRecipe(recipeIndex, { steps: [...recipe.steps, { tool: 'pdflatex', args: '', repeat: 1 }] })}
+                className="mt-1 ml-7 text-xs text-blue-600 hover:underline"
+              >
+                Add step
+              </button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setDraft(prev => [...prev, { name: '', steps: [{ tool: 'pdflatex', args: '', repeat: 1 }] }])}
+              className="px-3 py-1.5 text-sm text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+            >
+              Add recipe
+            </button>
+            {PRESETS.filter(preset => !draft.some(recipe => recipe.name === preset.name)).map(preset => (
+              <button
+                key={preset.name}
+                onClick={() => setDraft(prev => [...prev, { ...preset, steps: preset.steps.map(step => ({ ...step })) }])}
+                className="px-3 py-1.5 text-xs text-gray-600 border border-gray-200 rounded hover:bg-gray-50"
+              >
+                + {preset.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-gray-200 pt-4">
+            <h3 className="text-sm font-medium text-gray-700">Auxiliary tools</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              With latexmk, bibliographies, indexes and glossaries are processed whenever the document's
+              .bcf, .aux, .idx or .glo files call for it.
+            </p>
+            <div className="mt-2 flex items-center space-x-6 text-sm">
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-600">Bibliography</span>
+                <select
+                  value={bibliography}
+                  onChange={(e) => setBibliography(e.target.value as BibTool)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded bg-white"
+                  title="Used when the document can be processed by either tool"
+                >
+                  <option value="bibtex">BibTeX</option>
+                  <option value="biber">Biber</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-600">Index</span>
+                <select
+                  value={index}
+                  onChange={(e) => setIndex(e.target.value as IndexTool)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded bg-white"
+                >
+                  <option value="makeindex">makeindex</option>
+                  <option value="xindy">xindy</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div className="border-t border-gray-200 pt-4">
+            <label htmlFor="containerImage" className="text-sm font-medium text-gray-700">Container image</label>
+            <input
+              id="containerImage"
+              type="text"
+              value={image}
+              onChange={(e) => setImage(e.target.value)}
+              placeholder="Distribution default (e.g. texlive/texlive:TL2024-historic)"
+              className="mt-1 w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Pins the TeX toolchain for this project when a Docker or Podman distribution is active.
+            </p>
+          </div>
+
+          <div className="border-t border-gray-200 pt-4">
+            <label className="flex items-start space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={latexmkrc}
+                onChange={(e) => setLatexmkrc(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium text-gray-700">Use the project's latexmkrc</span>
+                <span className="block text-xs text-gray-500">
+                  Copies latexmkrc or .latexmkrc into the build directory. latexmk runs these files as Perl code,
+                  so only enable this for projects you trust.
+                </span>
+              </span>
+            </label>
+          </div>
+
+          {error && (
+            <div className="px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecipesModal;
@@ -5,7 +5,13 @@ interface TeXBinary {
   path: string | null;
   version: string | null;
   isValid: boolean;
-  source: 'bundled' | 'system' | 'custom';
+  source: 'bundled' | 'system' | 'custom' | 'container';
+}
+
+interface ContainerSettings {
+  runtime: 'docker' | 'podman';
+  runtimePath: string;
+  image: string;
 }
 
 interface TeXDistribution {
@@ -19,6 +25,7 @@ interface TeXDistribution {
   isBundled: boolean;
   isValid: boolean;
   isActive: boolean;
+  container?: ContainerSettings;
 }
 
 interface TeXSettings {
@@ -34,9 +41,37 @@ interface TeXSettings {
     enableProcessPriority: boolean;
     maxCompileTimeMs: number;
     autoCompileTimeoutMs: number;
+    maxConcurrentCompiles?: number;
+    sandboxMemoryMB?: number;
+  };
+  packageRepository?: string;
+}
+
+type ShellEscapeMode = 'off' | 'restricted' | 'full';
+
+interface ShellCommand {
+  command: string;
+  program: string;
+  status: 'executed' | 'allowed' | 'restricted' | 'disabled';
+}
+
+interface SettingsProject {
+  id: string;
+  name: string;
+  settings?: {
+    shellEscape?: boolean;
+    shellEscapeRestricted?: boolean;
+    shellEscapeCommands?: string[];
   };
 }
 
+const SHELL_COMMAND_STATUS: Record<ShellCommand['status'], { label: string; className: string }> = {
+  executed: { label: 'Ran', className: 'bg-red-100 text-red-800' },
+  allowed: { label: 'Allowed', className: 'bg-green-100 text-green-800' },
+  restricted: { label: 'Blocked', className: 'bg-yellow-100 text-yellow-800' },
+  disabled: { label: 'Blocked (off)', className: 'bg-gray-100 text-gray-700' },
+};
+
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -44,6 +79,9 @@ interface SettingsModalProps {
   onToggleAutoCompile: (enabled: boolean) => void;
   autoCompileDelay: number;
   onAutoCompileDelayChange: (delay: number) => void;
+  // Open project, whose shell-escape mode and allowlist are edited on the Security tab
+  project?: SettingsProject | null;
+  onSaveShellEscape?: (mode: ShellEscapeMode, commands: string[]) => Promise<void>;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -53,6 +91,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   onToggleAutoCompile,
   autoCompileDelay,
   onAutoCompileDelayChange,
+  project,
+  onSaveShellEscape,
 }) => {
   const [localAutoCompileEnabled, setLocalAutoCompileEnabled] = useState(isAutoCompileEnabled);
   const [localAutoCompileDelay, setLocalAutoCompileDelay] = useState(autoCompileDelay);
@@ -63,6 +103,19 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   const [customDistributionName, setCustomDistributionName] = useState('');
   const [customPaths, setCustomPaths] = useState<Record<string, string>>({});
   const [showAddCustom, setShowAddCustom] = useState(false);
+  const [showAddContainer, setShowAddContainer] = useState(false);
+  const [containerRuntime, setContainerRuntime] = useState<'docker' | 'podman'>('docker');
+  const [containerImage, setContainerImage] = useState('texlive/texlive:latest');
+  const [isAddingContainer, setIsAddingContainer] = useState(false);
+  const [containerError, setContainerError] = useState<string | null>(null);
+  const [shellCommands, setShellCommands] = useState<ShellCommand[]>([]);
+  const [allowlistText, setAllowlistText] = useState('');
+  const [shellEscapeError, setShellEscapeError] = useState<string | null>(null);
+
+  const projectShellEscape: ShellEscapeMode = project?.settings?.shellEscape
+    ? 'full'
+    : project?.settings?.shellEscapeRestricted ? 'restricted' : 'off';
+  const projectAllowlist = project?.settings?.shellEscapeCommands || [];
 
   useEffect(() => {
     setLocalAutoCompileEnabled(isAutoCompileEnabled);
@@ -75,6 +128,15 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!isOpen || !project) return;
+    setAllowlistText((project.settings?.shellEscapeCommands || []).join(', '));
+    setShellEscapeError(null);
+    window.electronAPI.compileShellCommands({ projectId: project.id })
+      .then(setShellCommands)
+      .catch((error) => console.error('Failed to load shell-escape commands:', error));
+  }, [isOpen, project?.id, project?.settings?.shellEscapeCommands]);
+
   const loadTexSettings = async () => {
     setIsLoadingTeX(true);
     try {
@@ -142,6 +204,38 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
+  const handleSaveShellEscape = async (mode: ShellEscapeMode, commands: string[]) => {
+    if (!onSaveShellEscape) return;
+    setShellEscapeError(null);
+    try {
+      await onSaveShellEscape(mode, commands);
+    } catch (error) {
+      setShellEscapeError((error as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+    }
+  };
+
+  const parseAllowlist = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+  const handleAddContainerDistribution = async () => {
+    if (!containerImage.trim()) return;
+
+    setIsAddingContainer(true);
+    setContainerError(null);
+    try {
+      await window.electronAPI.settingsAddContainerDistribution({
+        runtime: containerRuntime,
+        image: containerImage.trim()
+      });
+      await loadTexSettings();
+      setShowAddContainer(false);
+    } catch (error) {
+      console.error('Failed to add container distribution:', error);
+      setContainerError((error as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''));
+    } finally {
+      setIsAddingContainer(false);
+    }
+  };
+
   const handleSave = async () => {
     // Auto-compile setting and delay are already saved immediately when changed
     
@@ -208,6 +302,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
               {distribution.isBundled && (
                 <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded">Bundled</span>
               )}
+              {distribution.container && (
+                <span className="px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded">Container</span>
+              )}
               <span className={`px-2 py-1 text-xs rounded ${
                 distribution.isValid ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
               }`}>
@@ -223,7 +320,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       
       <div className="grid grid-cols-2 gap-2 text-xs">
         {Object.entries(distribution).map(([key, binary]) => {
-          if (key === 'name' || key === 'isBundled' || key === 'isValid' || key === 'isActive' || typeof binary !== 'object') return null;
+          if (key === 'name' || key === 'isBundled' || key === 'isValid' || key === 'isActive' || key === 'container' || typeof binary !== 'object') return null;
           const binaryInfo = binary as TeXBinary;
           
           return (
@@ -238,7 +335,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         })}
       </div>
       
-      {!distribution.isBundled && (
+      {distribution.container ? (
+        <div className="mt-2 text-xs text-gray-500 font-mono truncate">
+          {distribution.container.runtimePath} · {distribution.container.image} · no network
+        </div>
+      ) : !distribution.isBundled && (
         <div className="mt-2 text-xs text-gray-500 font-mono truncate">
           {distribution.pdflatex.path || 'Path not found'}
         </div>
@@ -446,6 +547,12 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                   >
                     Add Custom
                   </button>
+                  <button
+                    onClick={() => setShowAddContainer(true)}
+                    className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
+                  >
+                    Add Container
+                  </button>
                   <button
                     onClick={handleRedetectTeX}
                     disabled={isRedetecting || isLoadingTeX}
@@ -529,6 +636,88 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                       </div>
                     </div>
                   )}
+
+                  {/* Add Container Distribution Form */}
+                  {showAddContainer && (
+                    <div className="border border-gray-300 rounded-lg p-4 bg-gray-50">
+                      <h4 className="font-medium text-gray-900 mb-1">Add Container Distribution</h4>
+                      <p className="text-xs text-gray-600 mb-3">
+                        Runs latexmk and every other TeX tool inside a local Docker or Podman image. Only the build
+                        directory is mounted and the container has no network access, which also contains shell-escape.
+                      </p>
+                      <div className="space-y-3">
+                        <div className="flex space-x-2">
+                          <select
+                            value={containerRuntime}
+                            onChange={(e) => setContainerRuntime(e.target.value as 'docker' | 'podman')}
+                            className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white"
+                          >
+                            <option value="docker">Docker</option>
+                            <option value="podman">Podman</option>
+                          </select>
+                          <input
+                            type="text"
+                            placeholder="texlive/texlive:latest"
+                            value={containerImage}
+                            onChange={(e) => setContainerImage(e.target.value)}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                          />
+                        </div>
+
+                        {containerError && (
+                          <p className="text-sm text-red-600">{containerError}</p>
+                        )}
+
+                        <div className="flex items-center space-x-2 pt-2">
+                          <button
+                            onClick={handleAddContainerDistribution}
+                            disabled={!containerImage.trim() || isAddingContainer}
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            {isAddingContainer ? 'Checking image...' : 'Add Distribution'}
+                          </button>
+                          <button
+                            onClick={() => {
+                              setShowAddContainer(false);
+                              setContainerError(null);
+                            }}
+                            disabled={isAddingContainer}
+                            className="px-3 py-1 text-sm bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          {isAddingContainer && (
+                            <span className="text-xs text-gray-500">Images that are not available locally are pulled first; this can take several minutes.</span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Package installation */}
+                  <div className="border-t border-gray-200 pt-4">
+                    <label htmlFor="packageRepository" className="text-sm font-medium text-gray-700">
+                      Package Repository
+                    </label>
+                    <input
+                      type="text"
+                      id="packageRepository"
+                      placeholder="TeX Live default (e.g. /srv/texlive/tlnet or https://mirror.example.org/tlnet)"
+                      value={texSettings.packageRepository || ''}
+                      onChange={(e) => setTexSettings({ ...texSettings, packageRepository: e.target.value })}
+                      onBlur={async () => {
+                        try {
+                          await window.electronAPI.settingsUpdateTexSettings({ settings: texSettings });
+                        } catch (error) {
+                          console.error('Failed to save package repository:', error);
+                        }
+                      }}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Where "Install with tlmgr" fetches missing packages from. Point it at a local mirror for offline machines.
+                    </p>
+                  </div>
                 </div>
               ) : (
                 <div className="text-center py-12">
@@ -640,6 +829,85 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     </div>
                   </label>
                 </div>
+
+                {/* Per-project mode, allowlist and the commands the last compile tried to run */}
+                {project && (
+                  <div className="border-t border-gray-200 pt-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <label htmlFor="projectShellEscape" className="text-sm font-medium text-gray-700">
+                          Shell-Escape for {project.name}
+                        </label>
+                        <p className="text-sm text-gray-500">
+                          Restricted runs only the commands you allow; full lets the document run anything.
+                        </p>
+                      </div>
+                      <select
+                        id="projectShellEscape"
+                        value={projectShellEscape}
+                        onChange={(e) => handleSaveShellEscape(e.target.value as ShellEscapeMode, projectAllowlist)}
+                        className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white"
+                      >
+                        <option value="off">Off</option>
+                        <option value="restricted">Restricted</option>
+                        <option value="full">Full</option>
+                      </select>
+                    </div>
+
+                    {projectShellEscape === 'restricted' && (
+                      <div>
+                        <label htmlFor="shellEscapeCommands" className="text-sm font-medium text-gray-700">
+                          Allowed Commands
+                        </label>
+                        <input
+                          type="text"
+                          id="shellEscapeCommands"
+                          placeholder="e.g. gnuplot, pygmentize"
+                          value={allowlistText}
+                          onChange={(e) => setAllowlistText(e.target.value)}
+                          onBlur={() => handleSaveShellEscape('restricted', parseAllowlist(allowlistText))}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Program names, separated by commas. Compiles run with -shell-restricted and a texmf.cnf listing only these.
+                        </p>
+                      </div>
+                    )}
+
+                    {shellEscapeError && (
+                      <p className="text-sm text-red-600">{shellEscapeError}</p>
+                    )}
+
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-700">Commands the Document Tried to Run</h4>
+                      {shellCommands.length === 0 ? (
+                        <p className="text-sm text-gray-500 mt-1">
+                          None in the last compile of this project.
+                        </p>
+                      ) : (
+                        <ul className="mt-2 space-y-1">
+                          {shellCommands.map((entry) => (
+                            <li key={`${entry.status}:${entry.command}`} className="flex items-center space-x-2 text-sm">
+                              <span className={`px-2 py-0.5 rounded text-xs font-medium ${SHELL_COMMAND_STATUS[entry.status].className}`}>
+                                {SHELL_COMMAND_STATUS[entry.status].label}
+                              </span>
+                              <code className="flex-1 truncate text-gray-800" title={entry.command}>{entry.command}</code>
+                              {(entry.status === 'restricted' || entry.status === 'disabled') && entry.program && !projectAllowlist.includes(entry.program) && (
+                                <button
+                                  onClick={() => handleSaveShellEscape('restricted', [...projectAllowlist, entry.program])}
+                                  className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                                  title={`Switch to restricted shell-escape and allow ${entry.program}`}
+                                >
+                                  Allow {entry.program}
+                                </button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Resource Limits */}
@@ -766,6 +1034,88 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                       className="mt-1 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
+
+                  <div>
+                    <label htmlFor="maxConcurrentCompiles" className="text-sm font-medium text-gray-700">
+                      Parallel Compiles
+                    </label>
+                    <input
+                      type="number"
+                      id="maxConcurrentCompiles"
+                      min="1"
+                      max="8"
+                      value={texSettings?.resourceLimits?.maxConcurrentCompiles || 2}
+                      onChange={async (e) => {
+                        const limit = parseInt(e.target.value);
+                        if (texSettings && limit >= 1 && limit <= 8) {
+                          const updatedSettings = { 
+                            ...texSettings, 
+                            resourceLimits: { 
+                              ...texSettings.resourceLimits,
+                              enableProcessPriority: texSettings.resourceLimits?.enableProcessPriority !== false,
+                              maxCompileTimeMs: texSettings.resourceLimits?.maxCompileTimeMs || 180000,
+                              autoCompileTimeoutMs: texSettings.resourceLimits?.autoCompileTimeoutMs || 120000,
+                              maxConcurrentCompiles: limit
+                            }
+                          };
+                          setTexSettings(updatedSettings);
+                          // Auto-save after a brief delay
+                          setTimeout(async () => {
+                            try {
+                              await window.electronAPI.settingsUpdateTexSettings({ settings: updatedSettings });
+                            } catch (error) {
+                              console.error('Failed to save parallel compile setting:', error);
+                            }
+                          }, 500);
+                        }
+                      }}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Different projects compile side by side; one project never runs two builds at once.</p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="sandboxMemoryMB" className="text-sm font-medium text-gray-700">
+                      Sandbox Memory Limit (MB)
+                    </label>
+                    <input
+                      type="number"
+                      id="sandboxMemoryMB"
+                      min="512"
+                      max="65536"
+                      step="512"
+                      value={texSettings?.resourceLimits?.sandboxMemoryMB || 4096}
+                      onChange={async (e) => {
+                        const limit = parseInt(e.target.value);
+                        if (texSettings && limit >= 512 && limit <= 65536) {
+                          const updatedSettings = { 
+                            ...texSettings, 
+                            resourceLimits: { 
+                              ...texSettings.resourceLimits,
+                              enableProcessPriority: texSettings.resourceLimits?.enableProcessPriority !== false,
+                              maxCompileTimeMs: texSettings.resourceLimits?.maxCompileTimeMs || 180000,
+                              autoCompileTimeoutMs: texSettings.resourceLimits?.autoCompileTimeoutMs || 120000,
+                              sandboxMemoryMB: limit
+                            }
+                          };
+                          setTexSettings(updatedSettings);
+                          // Auto-save after a brief delay
+                          setTimeout(async () => {
+                            try {
+                              await window.electronAPI.settingsUpdateTexSettings({ settings: updatedSettings });
+                            } catch (error) {
+                              console.error('Failed to save sandbox memory limit:', error);
+                            }
+                          }, 500);
+                        }
+                      }}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      On Linux, shell-escape compiles run in a bubblewrap or firejail sandbox with this memory limit per process
+                      and a CPU time limit equal to the compile timeout. The compile log lists the protections that applied.
+                    </p>
+                  </div>
                 </div>
 
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import { SnapshotItem } from './HistoryPanel';
+
+interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  oldLine?: number;
+  newLine?: number;
+  text: string;
+}
+
+interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+interface FileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  binary: boolean;
+  tooLarge?: boolean;
+  oldSize?: number;
+  newSize?: number;
+  hunks: DiffHunk[];
+}
+
+interface SnapshotDiff {
+  fromSnapshotId: string;
+  toSnapshotId: string | null;
+  files: FileDiff[];
+  summary: { added: number; removed: number; modified: number };
+}
+
+interface SnapshotDiffViewerProps {
+  fromSnapshot: SnapshotItem;
+  snapshots: SnapshotItem[];
+  onClose: () => void;
+  onOpenFile?: (filePath: string) => void; // Open the snapshot's version read-only
+  onRestoreFile?: (filePath: string) => Promise<void>;
+}
+
+type SplitRow = { left?: DiffLine; right?: DiffLine } | { hunkHeader: string };
+
+const STATUS_STYLES: Record<FileDiff['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'D', className: 'bg-red-100 text-red-800' },
+  modified: { label: 'M', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const hunkHeader = (hunk: DiffHunk) =>
+  `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+// Pair removed and added runs so changed lines sit side by side
+const toSplitRows = (hunks: DiffHunk[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+
+  for (const hunk of hunks) {
+    rows.push({ hunkHeader: hunkHeader(hunk) });
+
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+    const flush = () => {
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+        rows.push({ left: removed[i], right: added[i] });
+      }
+      removed = [];
+      added = [];
+    };
+
+    for (const line of hunk.lines) {
+      if (line.type === 'remove') {
+        removed.push(line);
+      } else if (line.type === 'add') {
+        added.push(line);
+      } else {
+        flush();
+        rows.push({ left: line, right: line });
+      }
+    }
+    flush();
+  }
+
+  return rows;
+};
+
+export const SnapshotDiffViewer: React.FC<SnapshotDiffViewerProps> = ({
+  fromSnapshot,
+  snapshots,
+  onClose,
+  onOpenFile,
+  onRestoreFile,
+}) => {
+  const [toSnapshotId, setToSnapshotId] = useState<string>(''); // '' = working tree
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'unified' | 'split'>('unified');
+  const [reloadKey, setReloadKey] = useState(0);
+  const [restoringPath, setRestoringPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadDiff = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result: SnapshotDiff = await window.electronAPI.snapshotDiff({
+          fromSnapshotId: fromSnapshot.id,
+          toSnapshotId: toSnapshotId || undefined,
+        });
+        setDiff(result);
+        setSelectedPath(result.files.length > 0 ? result.files[0].path : null);
+      } catch (err) {
+        console.error('Failed to load snapshot diff:', err);
+        setError((err as Error).message);
+        setDiff(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [fromSnapshot.id, toSnapshotId, reloadKey]);
+
+  const handleRestoreFile = async (filePath: string) => {
+    if (!onRestoreFile) return;
+
+    setRestoringPath(filePath);
+    try {
+      await onRestoreFile(filePath);
+      setReloadKey(key => key + 1); // The restored file no longer differs
+    } finally {
+      setRestoringPath(null);
+    }
+  };
+
+  // Close on Escape; window capture runs before the history panel's document listener
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [onClose]);
+
+  const snapshotLabel = (snapshot: SnapshotItem) =>
+    `${snapshot.message || 'Untitled Snapshot'} (${snapshot.formattedDate || new Date(snapshot.timestamp).toLocaleString()})`;
+
+  const selectedFile = diff?.files.find(f => f.path === selectedPath) || null;
+
+  const renderUnified = (file: FileDiff) => (
+    <table className="w-full text-xs font-mono border-collapse">
+      <tbody>
+        {file.hunks.map((hunk, hunkIndex) => (
+          <React.Fragment key={hunkIndex}>
+            <tr className="bg-blue-50 text-blue-700">
+              <td colSpan={3} className="px-2 py-1">{hunkHeader(hunk)}</td>
+            </tr>
+            {hunk.lines.map((line, lineIndex) => (
+              <tr
+                key={lineIndex}
+                className={line.type === 'add' ? 'bg-green-50' : line.type === 'remove' ? 'bg-red-50' : ''}
+              >
+                <td className="w-12 px-2 text-right text-gray-400 select-none">{line.oldLine ?? ''}</td>
+                <td className="w-12 px-2 text-right text-gray-400 select-none">{line.newLine ?? ''}</td>
+                <td className="px-2 whitespace-pre">
+                  <span className="select-none text-gray-400">
+                    {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}
+                  </span>
+                  {line.text}
+                </td>
+              </tr>
+            ))}
+          </React.Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderSplit = (file: FileDiff) => (
+    <table className="w-full text-xs font-mono border-collapse table-fixed">
+      <tbody>
+        {toSplitRows(file.hunks).map((row, index) => {
+          if ('hunkHeader' in row) {
+            return (
+              <tr key={index} className="bg-blue-50 text-blue-700">
+                <td colSpan={4} className="px-2 py-1">{row.hunkHeader}</td>
+              </tr>
+            );
+          }
+
+          const leftClass = row.left?.type === 'remove' ? 'bg-red-50' : !row.left ? 'bg-gray-50' : '';
+          const rightClass = row.right?.type === 'add' ? 'bg-green-50' : !row.right ? 'bg-gray-50' : '';
+
+          return (
+            <tr key={index}>
+              <td className={`w-12 px-2 text-right text-gray-400 select-none ${leftClass}`}>{row.left?.oldLine ?? ''}</td>
+              <td className={`px-2 whitespace-pre overflow-hidden border-r border-gray-200 ${leftClass}`}>{row.left?.text ?? ''}</td>
+              <td className={`w-12 px-2 text-right text-gray-400 select-none ${rightClass}`}>{row.right?.newLine ?? ''}</td>
+              <td className={`px-2 whitespace-pre overflow-hidden ${rightClass}`}>{row.right?.text ?? ''}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-7xl h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 className="text-sm font-medium text-gray-900 truncate">
+              Changes since {snapshotLabel(fromSnapshot)}
+            </h3>
+            {diff && (
+              <p className="text-xs text-gray-500 mt-0.5">
+                {diff.summary.added} added, {diff.summary.removed} removed, {diff.summary.modified} modified
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-3 ml-4">
+            <label className="text-xs text-gray-600">Compare with</label>
+            <select
+              value={toSnapshotId}
+              onChange={(e) => setToSnapshotId(e.target.value)}
+              className="text-xs border border-gray-300 rounded px-2 py-1 max-w-xs"
+            >
+              <option value="">Current files</option>
+              {snapshots
+                .filter(s => s.id !== fromSnapshot.id)
+                .map(s => (
+                  <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>
+                ))}
+            </select>
+            <div className="flex rounded border border-gray-300 overflow-hidden text-xs">
+              <button
+                onClick={() => setViewMode('unified')}
+                className={`px-2 py-1 ${viewMode === 'unified' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                Unified
+              </button>
+              <button
+                onClick={() => setViewMode('split')}
+                className={`px-2 py-1 ${viewMode === 'split' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                Side by side
+              </button>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 rounded hover:bg-gray-200 text-gray-500 hover:text-gray-700"
+              title="Close diff"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 flex min-h-0">
+          {/* Changed files */}
+          <div className="w-64 border-r border-gray-200 overflow-y-auto bg-gray-50">
+            {diff?.files.map(file => (
+              <button
+                key={file.path}
+                onClick={() => setSelectedPath(file.path)}
+                className={`w-full flex items-center px-3 py-2 text-left text-xs hover:bg-gray-100 ${
+                  selectedPath === file.path ? 'bg-blue-50' : ''
+                }`}
+                title={file.path}
+              >
+                <span className={`flex-shrink-0 w-5 text-center rounded font-medium mr-2 ${STATUS_STYLES[file.status].className}`}>
+                  {STATUS_STYLES[file.status].label}
+                </span>
+                <span className="truncate text-gray-800">{file.path}</span>
+                {file.binary && (
+                  <span className="ml-auto pl-2 text-gray-400 flex-shrink-0">binary</span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Diff content */}
+          <div className="flex-1 overflow-auto">
+            {selectedFile && selectedFile.status !== 'added' && !loading && (
+              <div className="sticky top-0 z-10 flex items-center justify-between px-3 py-2 bg-white border-b border-gray-200 text-xs">
+                <span className="font-mono text-gray-700 truncate">{selectedFile.path}</span>
+                <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                  {onOpenFile && !selectedFile.binary && (
+                    <button
+                      onClick={() => onOpenFile(selectedFile.path)}
+                      className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-700"
+                      title="Open the snapshot version in a read-only tab"
+                    >
+                      Open snapshot version
+                    </button>
+                  )}
+                  {onRestoreFile && (
+                    <button
+                      onClick={() => handleRestoreFile(selectedFile.path)}
+                      disabled={restoringPath !== null}
+                      className="px-2 py-1 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                      title="Restore only this file from the snapshot"
+                    >
+                      {restoringPath === selectedFile.path ? 'Restoring...' : 'Restore this file'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+            {loading ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin mx-auto h-8 w-8 border-4 border-blue-600 border-t-transparent rounded-full"></div>
+                <p className="mt-2 text-sm text-gray-500">Comparing snapshot...</p>
+              </div>
+            ) : error ? (
+              <div className="p-8 text-center text-red-600 text-sm">Failed to compare: {error}</div>
+            ) : !diff || diff.files.length === 0 ? (
+              <div className="p-8 text-center text-gray-500 text-sm">No differences</div>
+            ) : !selectedFile ? null : selectedFile.binary ? (
+              <div className="p-8 text-center text-gray-500 text-sm">
+                Binary file {selectedFile.status}
+                {selectedFile.oldSize !== undefined && selectedFile.newSize !== undefined &&
+                  ` (${selectedFile.oldSize} → ${selectedFile.newSize} bytes)`}
+              </div>
+            ) : selectedFile.tooLarge ? (
+              <div className="p-8 text-center text-gray-500 text-sm">File is too large to display a diff</div>
+            ) : viewMode === 'unified' ? renderUnified(selectedFile) : renderSplit(selectedFile)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@ import React from 'react';
 import logo from '../assets/logo.png';
 
 interface TopbarProps {
-  project: { id: string; name: string; settings?: { shellEscape?: boolean } };
+  project: { id: string; name: string; mainFile?: string; settings?: { shellEscape?: boolean; shellEscapeRestricted?: boolean; shellEscapeCommands?: string[] } };
   isCompiling: boolean;
   onCompile: () => void;
   onBack: () => void;
@@ -13,15 +13,32 @@ interface TopbarProps {
     running: number;
     maxConcurrency: number;
   };
+  // Live word count of the document, opening the statistics dialog when clicked
+  wordCount?: number | null;
+  onOpenStats?: () => void;
+  // Build targets: the one Compile builds, and opening the targets editor
+  targets?: Array<{ name: string; outputName: string }>;
+  selectedTarget?: string | null;
+  onSelectTarget?: (name: string) => void;
+  onEditTargets?: () => void;
 }
 
+// Select value that opens the editor instead of choosing a target
+const EDIT_TARGETS = '__edit_targets__';
+
 export const Topbar: React.FC<TopbarProps> = ({ 
   project, 
   isCompiling, 
   onCompile, 
   onBack,
   onOpenSettings,
-  queueState
+  queueState,
+  wordCount,
+  onOpenStats,
+  targets = [],
+  selectedTarget,
+  onSelectTarget,
+  onEditTargets
 }) => {
   return (
     <div className="topbar-container">
@@ -38,6 +55,17 @@ export const Topbar: React.FC<TopbarProps> = ({
           </div>
         </div>
       )}
+      {!project.settings?.shellEscape && project.settings?.shellEscapeRestricted && (
+        <div className="bg-yellow-100 text-yellow-900 px-4 py-1 text-sm">
+          <div className="flex items-center justify-center">
+            <span>
+              🔒 Restricted shell-escape: {project.settings.shellEscapeCommands?.length
+                ? `the document may run ${project.settings.shellEscapeCommands.join(', ')}`
+                : 'no commands are allowed yet'}
+            </span>
+          </div>
+        </div>
+      )}
       
       <div className="topbar">
         <div className="flex items-center space-x-4">
@@ -77,6 +105,17 @@ export const Topbar: React.FC<TopbarProps> = ({
               <span className="text-sm">Compiling...</span>
             </div>
           )}
+
+          {/* Live word count */}
+          {onOpenStats && wordCount !== undefined && wordCount !== null && (
+            <button
+              onClick={onOpenStats}
+              className="px-2 py-1 rounded text-sm text-gray-600 hover:bg-gray-100 transition-colors"
+              title="Word count and document statistics"
+            >
+              {wordCount.toLocaleString()} {wordCount === 1 ? 'word' : 'words'}
+            </button>
+          )}
         </div>
       
         <div className="flex items-center space-x-3">
@@ -94,6 +133,33 @@ export const Topbar: React.FC<TopbarProps> = ({
             </button>
           )}
           
+          {/* Build target selector */}
+          {onEditTargets && (
+            <select
+              value={selectedTarget || ''}
+              onChange={(e) => {
+                if (e.target.value === EDIT_TARGETS) {
+                  onEditTargets();
+                } else if (e.target.value) {
+                  onSelectTarget?.(e.target.value);
+                }
+              }}
+              disabled={isCompiling}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded bg-white text-gray-700 max-w-48"
+              title={targets.length > 0 ? 'Build target' : 'Add build targets to produce several PDFs'}
+            >
+              {targets.length === 0 && (
+                <option value="">{project.mainFile || 'main.tex'}</option>
+              )}
+              {targets.map(target => (
+                <option key={target.name} value={target.name}>
+                  {target.name} ({target.outputName}.pdf)
+                </option>
+              ))}
+              <option value={EDIT_TARGETS}>Edit targets…</option>
+            </select>
+          )}
+
           {/* Compile Button */}
           <button
             onClick={onCompile}
@@ -7,6 +7,7 @@ import { LanguageSupport, LRLanguage, indentNodeProp, foldNodeProp, foldInside,
 import { styleTags, tags as t } from '@lezer/highlight';
 import { parser } from 'lezer-tex';
 import { snippetCompletion, completeFromList, autocompletion } from '@codemirror/autocomplete';
+import { projectCompletions } from '../extensions/projectCompletions';
 
 // LaTeX mode implementation using StreamLanguage (fallback approach)
 const latexMode = {
@@ -221,10 +222,10 @@ const latexCompletions = completeFromList([
   ...latexSnippets
 ]);
 
-// Export the language support with built-in autocomplete
+// Export the language support with built-in and project-aware autocomplete
 export function latex() {
   return new LanguageSupport(latexLanguage, [
-    autocompletion({ override: [latexCompletions] })
+    autocompletion({ override: [projectCompletions, latexCompletions] })
   ]);
 }
 
@@ -72,6 +72,8 @@ const errorMarkersField = StateField.define<RangeSet<GutterMarker>>({
         
         for (const error of effect.value) {
           const line = Math.max(0, error.line - 1); // Convert to 0-based line numbers
+          // Markers come from the saved file, which may be longer than the edited document
+          if (line >= tr.state.doc.lines) continue;
           const pos = tr.state.doc.line(line + 1).from; // Get position of the line
           
           newMarkers.push({
@@ -0,0 +1,106 @@
+import { CompletionContext, CompletionResult, Completion, snippetCompletion } from '@codemirror/autocomplete';
+
+export interface ProjectIndex {
+  projectId: string;
+  mainFile: string;
+  files: string[];
+  bibFiles: string[];
+  labels: Array<{ name: string; file: string; line: number; context?: string }>;
+  citations: Array<{ key: string; source: 'bib' | 'bibitem'; file: string; type?: string; title?: string; author?: string; year?: string }>;
+  commands: Array<{ name: string; args: number; hasOptionalArg: boolean; definition: string; file: string; line: number }>;
+  outline: OutlineEntry[];
+}
+
+export interface OutlineEntry {
+  kind: 'section' | 'figure' | 'table';
+  command: string;
+  level: number;
+  starred: boolean;
+  title: string;
+  file: string;
+  line: number;
+}
+
+// Commands whose argument is a label, and commands whose argument is a citation key
+const REF_COMMANDS = new Set([
+  'ref', 'eqref', 'pageref', 'autoref', 'nameref', 'vref',
+  'cref', 'Cref', 'crefrange', 'Crefrange', 'cpageref', 'Cpageref', 'labelcref',
+]);
+const CITE_COMMANDS = new Set([
+  'cite', 'citep', 'citet', 'citealp', 'citealt', 'citeauthor', 'citeyear', 'nocite',
+  'parencite', 'Parencite', 'textcite', 'Textcite', 'autocite', 'Autocite',
+  'footcite', 'fullcite', 'smartcite', 'supercite',
+]);
+
+// \cmd, optional star, up to two optional arguments, then an open brace
+const ARGUMENT_PATTERN = /\\([a-zA-Z]+)\*?(?:\[[^\]]*\]){0,2}\{([^{}]*)$/;
+
+// Completions for the project open in the editor; replaced whenever its index is rebuilt
+let labelOptions: Completion[] = [];
+let citationOptions: Completion[] = [];
+let commandOptions: Completion[] = [];
+
+export function updateProjectIndex(index: ProjectIndex | null) {
+  labelOptions = (index?.labels || []).map(label => ({
+    label: label.name,
+    detail: label.context,
+    info: `${label.file}:${label.line}`,
+    type: 'variable',
+  }));
+
+  citationOptions = (index?.citations || []).map(citation => ({
+    label: citation.key,
+    detail: [citation.author, citation.year].filter(Boolean).join(', ') || undefined,
+    info: citation.title || (citation.source === 'bibitem' ? `\\bibitem in ${citation.file}` : citation.file),
+    type: 'text',
+  }));
+
+  commandOptions = (index?.commands || []).map(command => {
+    // Snippet fields for each argument; an optional first argument becomes [..]
+    let template = `\\${command.name}`;
+    for (let i = 1; i <= command.args; i++) {
+      template += command.hasOptionalArg && i === 1 ? '[#{}]' : `{#{arg${i}}}`;
+    }
+    const info = `${command.definition} (${command.file}:${command.line})`;
+
+    return command.args > 0
+      ? snippetCompletion(template, { label: `\\${command.name}`, detail: 'Project macro', info, type: 'function', boost: 1 })
+      : { label: `\\${command.name}`, detail: 'Project macro', info, type: 'function', boost: 1 };
+  });
+}
+
+// Labels inside \ref-like commands, keys inside \cite-like commands and the
+// project's own macros after a backslash
+export function projectCompletions(context: CompletionContext): CompletionResult | null {
+  const line = context.state.doc.lineAt(context.pos);
+  const before = line.text.substring(0, context.pos - line.from);
+
+  const argument = ARGUMENT_PATTERN.exec(before);
+  if (argument) {
+    const command = argument[1];
+    const options = REF_COMMANDS.has(command) ? labelOptions : CITE_COMMANDS.has(command) ? citationOptions : null;
+    if (!options) return null;
+
+    // Multi-key commands such as \cite{a,b} complete the key after the last comma
+    const typed = argument[2];
+    const keyStart = typed.lastIndexOf(',') + 1;
+    const leadingSpace = typed.substring(keyStart).length - typed.substring(keyStart).trimStart().length;
+
+    return {
+      from: context.pos - typed.length + keyStart + leadingSpace,
+      options,
+      validFor: /^[^,}\s]*$/,
+    };
+  }
+
+  const word = context.matchBefore(/\\[a-zA-Z]*/);
+  if (!word || commandOptions.length === 0) {
+    return null;
+  }
+
+  return {
+    from: word.from,
+    options: commandOptions,
+    validFor: /^\\[a-zA-Z]*$/,
+  };
+}
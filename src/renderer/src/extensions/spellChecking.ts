@@ -0,0 +1,227 @@
+import { Extension, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, hoverTooltip, ViewPlugin, ViewUpdate } from '@codemirror/view';
+
+export interface SpellIssue {
+  kind: 'spelling' | 'repetition' | 'grammar';
+  word: string;
+  message?: string;
+  from: number;
+  to: number;
+  line: number;
+  column: number;
+  suggestions: string[];
+}
+
+interface SpellCheckingOptions {
+  // Resolves to null when the document can't be checked
+  check: (content: string) => Promise<SpellIssue[] | null>;
+  addToDictionary?: (word: string) => Promise<void>;
+}
+
+// Typing pauses this long before the document is checked again
+const CHECK_DELAY_MS = 800;
+
+const setSpellIssues = StateEffect.define<SpellIssue[]>();
+const ignoreWord = StateEffect.define<string>();
+
+const ISSUE_CLASSES: Record<SpellIssue['kind'], string> = {
+  spelling: 'cm-spell-error',
+  repetition: 'cm-spell-repetition',
+  grammar: 'cm-spell-grammar',
+};
+
+const issueMark = (issue: SpellIssue) => Decoration.mark({
+  class: ISSUE_CLASSES[issue.kind],
+  issue,
+});
+
+const spellIssuesField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(marks, tr) {
+    if (tr.docChanged) {
+      // A word being edited is checked again once typing pauses
+      const touched: Array<[number, number]> = [];
+      tr.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => touched.push([fromB, toB]));
+      marks = marks.map(tr.changes).update({
+        filter: (from, to) => !touched.some(([start, end]) => from <= end && to >= start),
+      });
+    }
+
+    for (const effect of tr.effects) {
+      if (effect.is(setSpellIssues)) {
+        const doc = tr.state.doc;
+        marks = Decoration.set(
+          effect.value
+            .filter(issue => issue.from < issue.to && issue.to <= doc.length)
+            .map(issue => issueMark(issue).range(issue.from, issue.to)),
+          true
+        );
+      } else if (effect.is(ignoreWord)) {
+        marks = marks.update({
+          filter: (_from, _to, mark) => (mark.spec.issue as SpellIssue).word !== effect.value,
+        });
+      }
+    }
+
+    return marks;
+  },
+  provide: f => EditorView.decorations.from(f),
+});
+
+const checker = (options: SpellCheckingOptions) => ViewPlugin.fromClass(class {
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private view: EditorView) {
+    this.schedule(0);
+  }
+
+  update(update: ViewUpdate) {
+    if (update.docChanged) this.schedule(CHECK_DELAY_MS);
+  }
+
+  destroy() {
+    if (this.timeout) clearTimeout(this.timeout);
+  }
+
+  private schedule(delay: number) {
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = setTimeout(() => this.run(), delay);
+  }
+
+  private async run() {
+    this.timeout = null;
+    const doc: Text = this.view.state.doc;
+    try {
+      const issues = await options.check(doc.toString());
+      // Results for an older version of the document would land on the wrong words
+      if (issues && this.view.state.doc === doc) {
+        this.view.dispatch({ effects: setSpellIssues.of(issues) });
+      }
+    } catch (error) {
+      console.warn('Spell check failed:', error);
+    }
+  }
+});
+
+const suggestionTooltip = (options: SpellCheckingOptions) => hoverTooltip((view, pos) => {
+  let found: { from: number; to: number; issue: SpellIssue } | null = null;
+  view.state.field(spellIssuesField).between(pos, pos, (from, to, mark) => {
+    found = { from, to, issue: mark.spec.issue as SpellIssue };
+    return false;
+  });
+  if (!found) return null;
+  const { from, to, issue } = found as { from: number; to: number; issue: SpellIssue };
+
+  return {
+    pos: from,
+    end: to,
+    above: true,
+    create: () => {
+      const dom = document.createElement('div');
+      dom.className = 'cm-spell-tooltip';
+
+      const title = document.createElement('div');
+      title.className = 'cm-spell-tooltip-title';
+      title.textContent = issue.kind === 'spelling' ? `Unknown word "${issue.word}"`
+        : issue.kind === 'repetition' ? `"${issue.word}" is repeated`
+        : issue.message || 'Possible grammar mistake';
+      dom.appendChild(title);
+
+      const addAction = (label: string, className: string, run: () => void) => {
+        const button = document.createElement('button');
+        button.className = className;
+        button.textContent = label;
+        button.onmousedown = (e) => e.preventDefault(); // Keep the editor's selection
+        button.onclick = run;
+        dom.appendChild(button);
+      };
+
+      if (issue.kind === 'repetition') {
+        // Remove the repeat together with the space before it
+        const line = view.state.doc.lineAt(from);
+        const before = view.state.doc.sliceString(line.from, from);
+        const space = before.length - before.trimEnd().length;
+        addAction('Remove repeated word', 'cm-spell-suggestion', () => {
+          view.dispatch({ changes: { from: from - space, to, insert: '' } });
+        });
+      } else if (issue.suggestions.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'cm-spell-tooltip-empty';
+        empty.textContent = 'No suggestions';
+        dom.appendChild(empty);
+      }
+
+      for (const suggestion of issue.suggestions) {
+        addAction(suggestion, 'cm-spell-suggestion', () => {
+          view.dispatch({ changes: { from, to, insert: suggestion } });
+        });
+      }
+
+      if (issue.kind === 'spelling' && options.addToDictionary) {
+        addAction('Add to project dictionary', 'cm-spell-add', async () => {
+          try {
+            await options.addToDictionary!(issue.word);
+            view.dispatch({ effects: ignoreWord.of(issue.word) });
+          } catch (error) {
+            console.error('Failed to add word to the dictionary:', error);
+          }
+        });
+      }
+
+      return { dom };
+    },
+  };
+}, { hideOnChange: true });
+
+const spellCheckTheme = EditorView.baseTheme({
+  '.cm-spell-error': {
+    textDecoration: 'underline wavy #dc2626',
+    textDecorationSkipInk: 'none',
+    textUnderlineOffset: '3px',
+  },
+  '.cm-spell-repetition': {
+    textDecoration: 'underline wavy #2563eb',
+    textDecorationSkipInk: 'none',
+    textUnderlineOffset: '3px',
+  },
+  '.cm-spell-grammar': {
+    textDecoration: 'underline wavy #d97706',
+    textDecorationSkipInk: 'none',
+    textUnderlineOffset: '3px',
+  },
+  '.cm-spell-tooltip': {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: '160px',
+    padding: '4px 0',
+    fontSize: '13px',
+  },
+  '.cm-spell-tooltip-title, .cm-spell-tooltip-empty': {
+    padding: '2px 10px',
+    color: '#6b7280',
+  },
+  '.cm-spell-suggestion, .cm-spell-add': {
+    textAlign: 'left',
+    padding: '2px 10px',
+    background: 'none',
+    border: 'none',
+    cursor: 'pointer',
+  },
+  '.cm-spell-suggestion': {
+    fontWeight: '600',
+  },
+  '.cm-spell-add': {
+    borderTop: '1px solid #e5e7eb',
+    marginTop: '2px',
+  },
+  '.cm-spell-suggestion:hover, .cm-spell-add:hover': {
+    backgroundColor: '#eff6ff',
+  },
+});
+
+// Underlines misspelled and repeated words and grammar mistakes, with suggestions on hover
+export function spellChecking(options: SpellCheckingOptions): Extension {
+  return [spellIssuesField, checker(options), suggestionTooltip(options), spellCheckTheme];
+}
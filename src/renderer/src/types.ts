@@ -9,7 +9,11 @@ export interface ElectronAPI {
   projectOpen: (payload: { path: string }) => Promise<any>;
   projectList: () => Promise<any[]>;
   projectSetMain: (payload: { projectId: string; relPath: string }) => Promise<{ ok: boolean }>;
+  projectSetTargets: (payload: { projectId: string; targets: Array<{ name: string; mainFile: string; engine?: string; outputName: string; recipe?: string }> }) => Promise<any>;
+  projectSetRecipes: (payload: { projectId: string; recipes: Array<{ name: string; steps: Array<{ tool: string; args?: string[]; repeat?: number }> }>; recipe?: string; useLatexmkrc?: boolean; bibTool?: 'bibtex' | 'biber'; indexTool?: 'makeindex' | 'xindy'; containerImage?: string }) => Promise<any>;
+  projectSetShellEscape: (payload: { projectId: string; mode: 'off' | 'restricted' | 'full'; commands?: string[] }) => Promise<any>;
   projectOutputPath: (payload: { projectId: string; file?: string }) => Promise<string>;
+  projectClose: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
 
   // File System APIs
   fsListTree: (payload: { projectId: string }) => Promise<any[]>;
@@ -23,23 +27,64 @@ export interface ElectronAPI {
   fsStopWatching: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
 
   // Compile APIs
-  compileRun: (payload: { projectId: string; engine?: string; mainFile?: string; isAutoCompile?: boolean }) => Promise<{ jobId: string }>;
+  compileRun: (payload: { projectId: string; target?: string; engine?: string; mainFile?: string; activeFile?: string; isAutoCompile?: boolean }) => Promise<{ jobId: string }>;
   compileStatus: (payload: { jobId: string }) => Promise<any>;
   compileErrors: (payload: { jobId: string }) => Promise<any[]>;
   compileCancel: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+  compileShellCommands: (payload: { projectId: string }) => Promise<Array<{ command: string; program: string; status: 'executed' | 'allowed' | 'restricted' | 'disabled' }>>;
+  // Compile history APIs
+  compileHistoryList: (payload: { projectId: string; limit?: number }) => Promise<any[]>;
+  compileHistoryReadLog: (payload: { projectId: string; jobId: string }) => Promise<string>;
   // Milestone 5: Queue and auto-compile APIs
-  compileQueueState: (payload: { projectId: string }) => Promise<{ pending: number; running: number; maxConcurrency: number }>;
-  compileTriggerAutoCompile: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
+  compileQueueState: (payload: { projectId: string }) => Promise<{ pending: number; running: number; maxConcurrency: number; runningByProject: Record<string, Array<{ jobId: string; mainFile: string; isAutoCompile: boolean; startTime?: string }>> }>;
+  compileTriggerAutoCompile: (payload: { projectId: string; filePath?: string }) => Promise<{ ok: boolean }>;
   compileSetAutoCompileDelay: (payload: { delayMs: number }) => Promise<{ ok: boolean }>;
   compileGetAutoCompileDelay: () => Promise<{ delayMs: number }>;
   compileResetProjectState: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
   // Milestone 13: Clean build API
   compileCleanBuildDir: (payload: { projectId: string }) => Promise<{ ok: boolean }>;
 
+  // SyncTeX APIs
+  synctexForward: (payload: { projectId: string; file: string; line: number; output?: string }) => Promise<{ page: number; x: number; y: number; width: number; height: number } | null>;
+  synctexInverse: (payload: { projectId: string; page: number; x: number; y: number; output?: string }) => Promise<{ file: string; line: number; column?: number } | null>;
+
   // Snapshot APIs
-  snapshotCreate: (payload: { projectId: string; message?: string }) => Promise<any>;
+  snapshotCreate: (payload: { projectId: string; message?: string; auto?: boolean }) => Promise<any>;
   snapshotList: (payload: { projectId: string }) => Promise<any[]>;
   snapshotRestore: (payload: { snapshotId: string }) => Promise<{ ok: boolean }>;
+  snapshotDiff: (payload: { fromSnapshotId: string; toSnapshotId?: string }) => Promise<any>;
+  snapshotReadFile: (payload: { snapshotId: string; relPath: string }) => Promise<{ content: string; binary: boolean }>;
+  snapshotRestoreFile: (payload: { snapshotId: string; relPath: string }) => Promise<{ ok: boolean }>;
+  snapshotPrune: (payload: { projectId: string }) => Promise<any>;
+  snapshotGetRetentionPolicy: () => Promise<any>;
+  snapshotSetRetentionPolicy: (payload: { policy: any }) => Promise<{ ok: boolean }>;
+
+  // Git APIs
+  gitStatus: (payload: { projectId: string }) => Promise<any>;
+  gitStage: (payload: { projectId: string; paths: string[] }) => Promise<{ ok: boolean }>;
+  gitUnstage: (payload: { projectId: string; paths: string[] }) => Promise<{ ok: boolean }>;
+  gitCommit: (payload: { projectId: string; message: string }) => Promise<{ hash: string }>;
+  gitDiff: (payload: { projectId: string; relPath: string; staged: boolean }) => Promise<any>;
+  gitLog: (payload: { projectId: string; limit?: number }) => Promise<any[]>;
+  gitShowCommit: (payload: { projectId: string; hash: string }) => Promise<any[]>;
+  gitBranches: (payload: { projectId: string }) => Promise<{ current: string | null; branches: string[] }>;
+  gitCheckout: (payload: { projectId: string; branch: string; create?: boolean }) => Promise<{ ok: boolean }>;
+
+  // Project index APIs
+  projectIndexGet: (payload: { projectId: string; unsaved?: Record<string, string> }) => Promise<any>;
+  lintProject: (payload: { projectId: string; unsaved?: Record<string, string> }) => Promise<any[]>;
+  outlineMoveSection: (payload: {
+    projectId: string;
+    source: { file: string; line: number; title: string };
+    target: { file: string; line: number; title: string };
+    position: 'before' | 'after';
+    unsaved?: Record<string, string>;
+  }) => Promise<{ changedFiles: string[]; snapshotId: string }>;
+  documentStatsGet: (payload: { projectId: string; unsaved?: Record<string, string> }) => Promise<any>;
+
+  // Spell check APIs
+  spellCheckFile: (payload: { projectId: string; content: string }) => Promise<any>;
+  spellCheckAddWord: (payload: { projectId: string; word: string }) => Promise<{ ok: boolean }>;
 
   // Settings APIs
   settingsGet: (payload: { key: string }) => Promise<any>;
@@ -50,10 +95,14 @@ export interface ElectronAPI {
   settingsRedetectTeX: () => Promise<any>;
   settingsSetActiveDistribution: (payload: { distributionName: string }) => Promise<{ ok: boolean }>;
   settingsAddCustomDistribution: (payload: { name: string; paths: Record<string, string> }) => Promise<{ ok: boolean }>;
+  settingsAddContainerDistribution: (payload: { runtime: 'docker' | 'podman'; image: string }) => Promise<{ ok: boolean }>;
   // Auto-compile settings
   settingsGetAutoCompileEnabled: () => Promise<{ enabled: boolean }>;
   settingsSetAutoCompileEnabled: (payload: { enabled: boolean }) => Promise<{ ok: boolean }>;
 
+  // TeX package APIs
+  texInstallPackages: (payload: { packages: string[] }) => Promise<{ ok: boolean; code: number | null; packages: string[] }>;
+
   // Template APIs
   templateList: () => Promise<any[]>;
   templateApply: (payload: { projectId: string; templateId: string; projectRoot: string }) => Promise<{ ok: boolean }>;
@@ -79,6 +128,15 @@ export interface ElectronAPI {
   removeCompileProgressListener: (callback: (event: any, data: any) => void) => void;
   onFileChanged: (callback: (event: any, data: any) => void) => void;
   removeFileChangedListener: (callback: (event: any, data: any) => void) => void;
+  onSnapshotPruned: (callback: (event: any, data: any) => void) => void;
+  removeSnapshotPrunedListener: (callback: (event: any, data: any) => void) => void;
+  onQueueStateChange: (callback: (event: any, data: any) => void) => void;
+  removeQueueStateChangeListener: (callback: (event: any, data: any) => void) => void;
+  onCompileHistoryRecorded: (callback: (event: any, data: any) => void) => void;
+  removeCompileHistoryRecordedListener: (callback: (event: any, data: any) => void) => void;
+  // Package installation event listeners
+  onTexInstallProgress: (callback: (event: any, data: any) => void) => void;
+  removeTexInstallProgressListener: (callback: (event: any, data: any) => void) => void;
 }
 
 declare global {